@@ -1,9 +1,29 @@
 
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { Routes, Route, useNavigate, useLocation } from 'react-router-dom';
+import { Routes, Route, useNavigate, useLocation, useParams, useSearchParams } from 'react-router-dom';
 import { db } from './db';
-import { INITIAL_STOPS, INITIAL_ROUTES, loadRoutesFromFiles } from './data_constants';
-import { Page, BusStop, BusRoute } from './types';
+import { INITIAL_STOPS } from './data_constants';
+import { importRouteFiles, loadRouteFiles } from './route_import';
+import { applyDatasetUpdate, DEFAULT_MANIFEST_URL, getInstalledDataset, getManifestUrl, setManifestUrl } from './dataset_update';
+import { DataIssueCode, DataQualityReport, validateDataset } from './data_quality';
+import { FavoriteIds, loadFavorites, migrateLegacyFavorites, setFavoriteRoute, setFavoriteStop } from './favorites';
+import { clearHistory, deleteHistoryEntry, listHistory, recordRouteView, recordStop, recordTripSearch } from './history';
+import { findJourneysBetween } from './journey_planner';
+import { endpointParam, MAP_POINT_LABEL, parseEndpointParam, shareJourney, ShareKind } from './journey_share';
+import { buildStopSearchIndex, searchStops, StopSearchIndex } from './stop_search';
+import { buildPlaceIndex, PlaceIndex, resolvePlace, searchPlaces } from './gazetteer';
+import { buildAssistantLexicon } from './assistant_parser';
+import { EMPTY_DIALOG, loadConversation, saveConversation } from './assistant_dialog';
+import { AssistantProvider, AssistantProviderId, createLocalProvider, getAssistantProviderId, PREFERENCE_LABELS, setAssistantProviderId } from './assistant_provider';
+import { createGeminiProvider, isGeminiConfigured } from './assistant_gemini';
+import { deleteSavedTrip, listSavedTrips, loadSavedEndpoint, reverseTrip, runSavedTrip, saveTripFromResult } from './saved_trips';
+import { ensureTransitGraph } from './transit_graph';
+import { registerServiceWorker } from './pwa';
+import { LatLng, rideLatLngs, routeLatLngs } from './route_shapes';
+import L from './leaflet_setup';
+import { AVERAGE_TILE_BYTES, clearTiles, countTiles, createTileLayer, DOWNLOAD_ZOOMS, downloadTiles, getTileStorage, importTilePack, TILE_DOWNLOAD_SERVER, TileProgress, TileStorage, YANGON_BOUNDS } from './tile_packs';
+import { buildStopGrid, CLUSTER_BELOW_ZOOM, clusterStops, StopCluster, stopsInBounds, stopsNear } from './stop_grid';
+import { Page, AccessWalk, BusStop, BusRoute, ChatMessage, DatasetVersion, DialogState, GeoPoint, HistoryEntry, JourneyEndpoint, Place, PlaceCategory, SavedEndpoint, SavedTrip, SearchResult } from './types';
 import { 
   Bus, 
   Map as MapIcon, 
@@ -28,178 +48,76 @@ import {
   Sparkles,
   Bot,
   User,
-  ArrowRight
+  ArrowRight,
+  Footprints,
+  ShieldCheck,
+  Download,
+  Bookmark,
+  Trash2,
+  History,
+  Share2,
+  Link as LinkIcon,
+  Image as ImageIcon,
+  FileText,
+  Landmark,
+  RotateCcw,
+  Layers,
+  Check,
+  Upload,
+  WifiOff
 } from 'lucide-react';
 
-// --- Types for Search Results ---
-interface PathStep {
-  route: BusRoute;
-  fromStop: string;
-  toStop: string;
-}
-
-interface SearchResult {
-  steps: PathStep[];
-  transferCount: number;
-  totalDistance: number;
-}
-
-interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
-  results?: SearchResult[];
-}
-
-// --- Utils ---
-const getDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-  const R = 6371; 
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-    Math.sin(dLon/2) * Math.sin(dLon/2)
-    ; 
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a)); 
-  const d = R * c; 
-  return d;
-};
-
-const performBFS = async (start: string, end: string): Promise<SearchResult[]> => {
-  const allRoutes = await db.busRoutes.toArray();
-  const allStops = await db.busStops.toArray();
-  const stopMap = new Map<string, BusStop>();
-  allStops.forEach(s => stopMap.set(s.name_mm, s));
-
-  const queue: { currentStop: string; path: PathStep[] }[] = [{ currentStop: start, path: [] }];
-  const visitedStops = new Set<string>([start]);
-  const finalResults: SearchResult[] = [];
-  const MAX_TRANSFERS = 4;
-
-  const calculatePathDistance = (path: PathStep[]): number => {
-    let totalDistance = 0;
-    path.forEach(step => {
-      const fromStop = stopMap.get(step.fromStop);
-      const toStop = stopMap.get(step.toStop);
-      if (fromStop && toStop) {
-        totalDistance += getDistance(fromStop.lat, fromStop.lng, toStop.lat, toStop.lng);
-      }
-    });
-    return totalDistance;
-  };
-
-  while (queue.length > 0) {
-    const { currentStop, path } = queue.shift()!;
-    if (path.length > MAX_TRANSFERS + 1) break;
-
-    const availableRoutes = allRoutes.filter(r => r.stops.includes(currentStop));
-    for (const route of availableRoutes) {
-      if (path.some(step => step.route.id === route.id)) continue;
-      if (route.stops.includes(end)) {
-        const finalPath = [...path, { route, fromStop: currentStop, toStop: end }];
-        const totalDistance = calculatePathDistance(finalPath);
-        finalResults.push({ steps: finalPath, transferCount: finalPath.length - 1, totalDistance });
-      }
-
-      if (path.length < MAX_TRANSFERS) {
-        for (const nextStop of route.stops) {
-          if (!visitedStops.has(nextStop)) {
-            visitedStops.add(nextStop);
-            queue.push({
-              currentStop: nextStop,
-              path: [...path, { route, fromStop: currentStop, toStop: nextStop }]
-            });
-          }
-        }
-      }
+// Runs `fn` at most once every `ms` while calls keep coming, then once more
+// with the last call's arguments; for map handlers that fire on every frame.
+const throttle = <A extends unknown[]>(fn: (...args: A) => void, ms: number) => {
+  let last = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let latest: A;
+  const run = (...args: A) => {
+    latest = args;
+    const wait = last + ms - Date.now();
+    if (wait <= 0) {
+      last = Date.now();
+      fn(...args);
+    } else if (!timer) {
+      timer = setTimeout(() => {
+        timer = undefined;
+        last = Date.now();
+        fn(...latest);
+      }, wait);
     }
-    if (finalResults.length >= 5) break;
-  }
-  return finalResults.sort((a, b) => a.transferCount - b.transferCount || a.totalDistance - b.totalDistance);
+  };
+  run.cancel = () => clearTimeout(timer);
+  return run;
 };
 
-// --- Local NLP Logic (No AI Needed) ---
-const extractStopsFromText = (text: string, allStopNames: string[]) => {
-  const normalizedText = text.trim();
-  
-  const sortedNames = [...allStopNames].sort((a, b) => b.length - a.length);
-  
-  const foundStops: { name: string, index: number }[] = [];
-  
-  sortedNames.forEach(name => {
-    if (normalizedText.includes(name)) {
-      const index = normalizedText.indexOf(name);
-      const isOverlapping = foundStops.some(s => 
-        (index >= s.index && index < s.index + s.name.length) ||
-        (index + name.length > s.index && index + name.length <= s.index + s.name.length)
-      );
-      if (!isOverlapping) {
-        foundStops.push({ name, index });
-      }
-    }
-  });
-
-  foundStops.sort((a, b) => a.index - b.index);
-
-  if (foundStops.length < 1) return null;
-
-  let start: string | null = null;
-  let end: string | null = null;
-
-  const fromKeywords = ["ကနေ", "မှ"];
-  const toKeywords = ["ကို", "သို့", "သွားချင်တာ"];
-
-  if (foundStops.length >= 2) {
-    const firstStop = foundStops[0];
-    const secondStop = foundStops[1];
-    
-    const textAfterFirst = normalizedText.substring(firstStop.index + firstStop.name.length, secondStop.index);
-    const hasFromMarker = fromKeywords.some(k => textAfterFirst.includes(k));
-    
-    if (hasFromMarker) {
-      start = firstStop.name;
-      end = secondStop.name;
-    } else {
-      start = firstStop.name;
-      end = secondStop.name;
-    }
-  } else if (foundStops.length === 1) {
-    const textAfter = normalizedText.substring(foundStops[0].index + foundStops[0].name.length);
-    const isDestination = toKeywords.some(k => textAfter.includes(k));
-    if (isDestination) end = foundStops[0].name;
-    else start = foundStops[0].name;
-  }
-
-  return { start, end };
-};
+// How often the map picker re-reads the stops around its crosshair while dragged.
+const NEARBY_THROTTLE_MS = 150;
 
 // --- Sub-components ---
 
 const MapSelectionModal: React.FC<{ 
   stops: BusStop[], 
   onSelect: (stop: BusStop) => void, 
+  onSelectPoint?: (point: GeoPoint) => void,
   onClose: () => void,
   title: string
-}> = ({ stops, onSelect, onClose, title }) => {
+}> = ({ stops, onSelect, onSelectPoint, onClose, title }) => {
   const mapRef = useRef<any>(null);
   const markerLayerRef = useRef<any>(null);
   const radiusCircleRef = useRef<any>(null);
   const userMarkerRef = useRef<any>(null);
   const [isLocating, setIsLocating] = useState(false);
   const [nearbyStops, setNearbyStops] = useState<(BusStop & { distance: number })[]>([]);
+  const stopGrid = useMemo(() => buildStopGrid(stops), [stops]);
 
   const updateMarkers = useCallback((centerLat: number, centerLng: number) => {
-    const L = (window as any).L;
-    if (!L || !mapRef.current || !markerLayerRef.current) return;
+    if (!mapRef.current || !markerLayerRef.current) return;
 
     markerLayerRef.current.clearLayers();
 
-    const found = stops.map(s => ({
-      ...s,
-      distance: getDistance(centerLat, centerLng, s.lat, s.lng)
-    }))
-    .filter(s => s.distance <= 1.0)
-    .sort((a, b) => a.distance - b.distance);
+    const found = stopsNear(stopGrid, { lat: centerLat, lng: centerLng }, 1000)
+      .map(({ stop, metres }) => ({ ...stop, distance: metres / 1000 }));
 
     setNearbyStops(found);
 
@@ -247,15 +165,12 @@ const MapSelectionModal: React.FC<{
         dashArray: '5, 10'
       }).addTo(mapRef.current);
     }
-  }, [stops, onSelect, onClose]);
+  }, [stopGrid, onSelect, onClose]);
 
   useEffect(() => {
-    const L = (window as any).L;
-    if (!L) return;
-
     const map = L.map('selection-map', { zoomControl: false }).setView([16.8, 96.15], 14);
     mapRef.current = map;
-    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png').addTo(map);
+    createTileLayer().addTo(map);
     L.control.zoom({ position: 'topleft' }).addTo(map);
 
     markerLayerRef.current = L.featureGroup().addTo(map);
@@ -263,10 +178,11 @@ const MapSelectionModal: React.FC<{
     const center = map.getCenter();
     updateMarkers(center.lat, center.lng);
 
-    map.on('move', () => {
+    const updateAtCenter = throttle(() => {
       const newCenter = map.getCenter();
       updateMarkers(newCenter.lat, newCenter.lng);
-    });
+    }, NEARBY_THROTTLE_MS);
+    map.on('move', updateAtCenter);
 
     map.on('locationfound', (e: any) => {
       setIsLocating(false);
@@ -294,7 +210,10 @@ const MapSelectionModal: React.FC<{
 
     map.locate({ setView: true, maxZoom: 15 });
 
-    return () => map.remove();
+    return () => {
+      updateAtCenter.cancel();
+      map.remove();
+    };
   }, [updateMarkers]);
 
   const handleLocate = () => {
@@ -304,6 +223,14 @@ const MapSelectionModal: React.FC<{
     }
   };
 
+  // The point under the crosshair, for journeys that start or end off a stop.
+  const handleSelectCenter = () => {
+    if (!mapRef.current || !onSelectPoint) return;
+    const center = mapRef.current.getCenter();
+    onSelectPoint({ lat: center.lat, lng: center.lng, label: MAP_POINT_LABEL });
+    onClose();
+  };
+
   return (
     <div className="fixed inset-0 bg-black/60 z-[100] flex items-end md:items-center justify-center p-0 md:p-4 animate-in fade-in duration-200">
       <div className="bg-white w-full max-w-2xl rounded-t-3xl md:rounded-3xl h-[90vh] flex flex-col overflow-hidden shadow-2xl relative">
@@ -335,6 +262,15 @@ const MapSelectionModal: React.FC<{
           >
             {isLocating ? <RefreshCw className="animate-spin" size={24} /> : <Locate size={24} />}
           </button>
+          {onSelectPoint && (
+            <button
+              onClick={handleSelectCenter}
+              className="absolute bottom-4 left-4 z-[1000] bg-yellow-600 text-white px-4 py-3 rounded-full shadow-xl text-xs font-black hover:bg-yellow-700 active:scale-95 transition-all flex items-center space-x-2"
+            >
+              <Crosshair size={16} />
+              <span>ဤနေရာကို ရွေးမည်</span>
+            </button>
+          )}
         </div>
 
         <div className="bg-gray-50 border-t shrink-0 h-1/3 flex flex-col">
@@ -381,27 +317,84 @@ const MapSelectionModal: React.FC<{
   );
 };
 
+const PLACE_CATEGORY_LABELS: Record<PlaceCategory, string> = {
+  landmark: 'အမှတ်အသား',
+  market: 'ဈေး',
+  mall: 'ရှော့ပင်းစင်တာ',
+  hospital: 'ဆေးရုံ',
+  university: 'တက္ကသိုလ်',
+  pagoda: 'ဘုရား',
+  transport: 'ဘူတာ/ဂိတ်',
+  park: 'ပန်းခြံ/ကန်'
+};
+
+const endpointName = (endpoint: JourneyEndpoint | null) =>
+  !endpoint ? '' : endpoint.kind === 'stop' ? endpoint.stop.name_mm : endpoint.point.label;
+
 const StopSearchInput: React.FC<{
   label: string,
-  value: string,
-  onChange: (val: string) => void,
-  allNames: string[],
+  value: JourneyEndpoint | null,
+  onChange: (endpoint: JourneyEndpoint | null) => void,
+  stops: BusStop[],
+  searchIndex: StopSearchIndex,
+  placeIndex?: PlaceIndex,
   placeholder: string,
   icon?: React.ReactNode,
   indicatorColor: string
-}> = ({ label, value, onChange, allNames, placeholder, icon, indicatorColor }) => {
-  const [query, setQuery] = useState(value);
+}> = ({ label, value, onChange, stops, searchIndex, placeIndex, placeholder, icon, indicatorColor }) => {
+  const [query, setQuery] = useState(endpointName(value));
   const [isOpen, setIsOpen] = useState(false);
+  const [recent, setRecent] = useState<HistoryEntry[]>([]);
   const wrapperRef = useRef<HTMLDivElement>(null);
+  const clearedByTypingRef = useRef(false);
+
+  const stopMap = useMemo(() => new Map(stops.map(s => [s.id, s])), [stops]);
 
+  // Recently picked stops come first: on their own while the box is empty,
+  // ahead of the other matches once something is typed.
   const filtered = useMemo(() => {
-    if (!query) return [];
-    const term = query.toLowerCase().trim();
-    return allNames.filter(n => n.toLowerCase().includes(term)).slice(0, 50);
-  }, [query, allNames]);
+    const term = query.trim();
+    const found = term ? searchStops(searchIndex, term, 50) : [];
+    const foundIds = new Set(found.map(s => s.id));
+    const recentStops = recent
+      .map(entry => ({ stop: stopMap.get(entry.stopId!), historyKey: entry.key }))
+      .filter((item): item is { stop: BusStop, historyKey: string } => !!item.stop && (!term || foundIds.has(item.stop.id)));
+    if (!term) return recentStops;
+    const recentIds = new Set(recentStops.map(item => item.stop.id));
+    const others = found.filter(s => !recentIds.has(s.id)).map(stop => ({ stop, historyKey: undefined }));
+    return [...recentStops, ...others].slice(0, 50);
+  }, [query, searchIndex, stopMap, recent]);
+
+  const places = useMemo(
+    () => (placeIndex && query.trim() ? searchPlaces(placeIndex, query, 3).map(m => m.place) : []),
+    [query, placeIndex]
+  );
+
+  // A place is planned from its own coordinates, walking to whichever nearby
+  // stop suits each journey.
+  const pickPlace = (place: Place) => {
+    setIsOpen(false);
+    if (!resolvePlace(place, searchIndex)) {
+      alert('ဤနေရာအနီးတွင် ဘတ်စ်ကားမှတ်တိုင် မရှိပါ။');
+      return;
+    }
+    setQuery(place.name_mm);
+    onChange({ kind: 'point', point: { lat: place.lat, lng: place.lng, label: place.name_mm } });
+  };
+
+  const loadRecent = () => listHistory('stop').then(setRecent);
+
+  const removeRecent = async (historyKey: string) => {
+    await deleteHistoryEntry(historyKey);
+    loadRecent();
+  };
 
   useEffect(() => {
-    setQuery(value);
+    if (clearedByTypingRef.current) {
+      clearedByTypingRef.current = false;
+      return;
+    }
+    setQuery(endpointName(value));
   }, [value]);
 
   useEffect(() => {
@@ -430,31 +423,73 @@ const StopSearchInput: React.FC<{
           placeholder={placeholder}
           value={query}
           onChange={(e) => {
-            const val = e.target.value;
-            setQuery(val);
+            setQuery(e.target.value);
             setIsOpen(true);
-            onChange(val);
+            if (value) {
+              clearedByTypingRef.current = true;
+              onChange(null);
+            }
+          }}
+          onFocus={() => {
+            setIsOpen(true);
+            loadRecent();
           }}
-          onFocus={() => setIsOpen(true)}
         />
-        {isOpen && filtered.length > 0 && (
+        {isOpen && (places.length > 0 || filtered.length > 0) && (
           <div className="absolute top-full left-0 right-0 mt-1 bg-white border border-gray-200 rounded-xl shadow-xl z-[80] max-h-60 overflow-y-auto">
-            {filtered.map((name, i) => (
+            {places.map(place => (
+              <div
+                key={place.id}
+                className="p-3 hover:bg-yellow-50 cursor-pointer text-sm border-b border-gray-50 last:border-0 flex items-center space-x-2"
+                onClick={() => pickPlace(place)}
+              >
+                <Landmark size={14} className="text-yellow-600 shrink-0" />
+                <div>
+                  <div>{place.name_mm}</div>
+                  <div className="text-[10px] text-gray-400 font-bold">{place.name_en} · {PLACE_CATEGORY_LABELS[place.category]}</div>
+                </div>
+              </div>
+            ))}
+            {filtered.map(({ stop, historyKey }) => (
               <div 
-                key={i}
-                className="p-3 hover:bg-yellow-50 cursor-pointer text-sm border-b border-gray-50 last:border-0"
+                key={stop.id}
+                className="p-3 hover:bg-yellow-50 cursor-pointer text-sm border-b border-gray-50 last:border-0 flex items-center justify-between"
                 onClick={() => {
-                  onChange(name);
-                  setQuery(name);
+                  onChange({ kind: 'stop', stop });
+                  setQuery(stop.name_mm);
                   setIsOpen(false);
+                  recordStop(stop.id);
                 }}
               >
-                {name}
+                <div className="flex items-center space-x-2">
+                  {historyKey && <History size={14} className="text-gray-300 shrink-0" />}
+                  <div>
+                    <div>{stop.name_mm}</div>
+                    <div className="text-[10px] text-gray-400 font-bold">{stop.road_mm}၊ {stop.township_mm}</div>
+                  </div>
+                </div>
+                {historyKey && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      removeRecent(historyKey);
+                    }}
+                    className="p-1 text-gray-300 hover:text-gray-500"
+                  >
+                    <X size={14} />
+                  </button>
+                )}
               </div>
             ))}
           </div>
         )}
       </div>
+      {value?.kind === 'point' && (
+        <div className="flex items-center space-x-1.5 text-[11px] font-bold text-gray-400">
+          <MapPin size={12} className="text-yellow-600 shrink-0" />
+          <span>အနီးရှိ မှတ်တိုင်များအထိ လမ်းလျှောက်ရန် ထည့်တွက်ပါမည်</span>
+        </div>
+      )}
     </div>
   );
 };
@@ -468,6 +503,7 @@ const MobileBottomNav: React.FC = () => {
     { id: '/routes', icon: Bus, label: 'လိုင်းများ' },
     { id: '/map', icon: MapIcon, label: 'မြေပုံ' },
     { id: '/find-route', icon: Search, label: 'လမ်းကြောင်း' },
+    { id: '/favorites', icon: Star, label: 'သိမ်းထားသည်' },
   ];
 
   return (
@@ -496,6 +532,7 @@ const Header: React.FC = () => {
     { id: '/stops', icon: MapPin, label: 'Stops' },
     { id: '/map', icon: MapIcon, label: 'Map' },
     { id: '/find-route', icon: Search, label: 'Find Route' },
+    { id: '/favorites', icon: Star, label: 'Favorites' },
   ];
 
   return (
@@ -530,7 +567,7 @@ const Header: React.FC = () => {
   );
 };
 
-const RouteBadge: React.FC<{ routeId: string, color: string, onClick?: () => void, size?: 'sm' | 'md' }> = ({ routeId, color, onClick, size = 'md' }) => (
+const RouteBadge: React.FC<{ routeId: string, color: string, onClick?: (e: React.MouseEvent) => void, size?: 'sm' | 'md' }> = ({ routeId, color, onClick, size = 'md' }) => (
   <div 
     onClick={onClick}
     style={{ backgroundColor: color }}
@@ -540,27 +577,234 @@ const RouteBadge: React.FC<{ routeId: string, color: string, onClick?: () => voi
   </div>
 );
 
-const OperatorBadge: React.FC<{ name: string }> = ({ name }) => (
-  <div className="flex items-center space-x-1 bg-yellow-400/10 border border-yellow-400/30 text-yellow-700 px-1.5 py-0.5 rounded text-[10px] font-bold shrink-0">
-    <CreditCard size={10} />
-    <span>{name}</span>
+const WalkBadge: React.FC<{ minutes: number }> = ({ minutes }) => (
+  <div className="flex items-center space-x-1 rounded-xl bg-gray-100 text-gray-500 font-black px-2 py-1 text-[10px] h-7 shrink-0">
+    <Footprints size={12} />
+    <span>{minutes}'</span>
   </div>
 );
 
-const HomePage: React.FC<{ setPage?: (path: string) => void }> = ({ setPage }) => (
-  <div className="max-w-5xl mx-auto p-4 md:p-8 space-y-6 md:space-y-10">
-    <div className="bg-yellow-100 p-6 md:p-10 rounded-2xl md:rounded-3xl border border-yellow-200 shadow-sm flex flex-col md:flex-row items-center justify-between gap-6">
-      <div>
-        <p className="text-yellow-800 md:text-lg mb-6">၁။ ရာသီဥတုအခြေအနေကို အတည်မပြုနိုင်သေးတဲ့အတွက် ခရီးစဉ်အတွက် ကြိုတင်ပြင်ဆင်သွားပါ။ နေပူရင် မျက်နှာသုတ်ပုဝါ၊ ဦးထုပ် ဒါမှမဟုတ် နေကာမျက်မှန် ယူသွားပါ။ မိုးရွာရင် ဒါမှမဟုတ် တိမ်ထူနေရင် ထီးဆောင်သွားဖို့ အကြံပြုလိုပါတယ်။<br />1. Since weather data is unavailable, please prepare accordingly for your trip. If it is sunny, remember to bring a small towel, a hat, or sunglasses to stay comfortable in the heat. If it is rainy or cloudy, carrying an umbrella is highly recommended.<br /><br />၂။ လူကျပ်တဲ့အချိန်တွေမှာ ဘတ်စ်ကားပေါ်မှာ ခိတ်နှိုက်နဲ့ သူခိုးတွေကို အထူးသတိထားကြဖို့ သတိပေးလိုပါတယ်။<br />2. Please be careful of pickpockets and thieves on the bus, especially during crowded times.<br /><br />၃။ ကားစီးရင်း အိပ်ပျော်သွားတတ်တဲ့အတွက် ကိုယ်ဆင်းရမယ့် မှတ်တိုင်ကို မကျော်သွားစေဖို့ ဖုန်းထဲမှာ အချက်ပေးသံ (Alarm) ပေးထားတာမျိုး ဒါမှမဟုတ် ဘေးကလူကို နှိုးပေးဖို့ အကူအညီတောင်းထားတာမျိုး လုပ်ဆောင်နိုင်ပါတယ်။<br />3. You may fall asleep on the bus. To avoid missing your bus stop, you can set an alarm on your phone or ask a fellow passenger to wake you up.<br /><br />၄။ YBS ကတ်အသုံးပြုသူများအတွက် အကြံပြုချက်နှစ်ခုမှာ ကတ်ထဲမှာ ငွေကို ကြိုတင်ဖြည့်ထားရန်နှင့် ကတ်ထဲက လက်ကျန်ငွေကို ပုံမှန်စစ်ဆေးရန်တို့ ဖြစ်ပါတယ်။<br />4. Two proactive tips for YBS card users include topping up your card in advance and checking your balance regularly.</p>
+// Walk between a point origin/destination and its stop, laid out like the
+// walks between stops in a journey.
+const PointWalkStep: React.FC<{ walk: AccessWalk, leg: 'access' | 'egress' }> = ({ walk, leg }) => (
+  <div className="flex items-start space-x-4">
+    <div className="flex flex-col items-center mt-1 shrink-0">
+      <div className="w-2.5 h-2.5 rounded-full border-2 border-dashed border-gray-400 bg-white"></div>
+      {leg === 'access' && <div className="w-0.5 h-12 border-l-2 border-dashed border-gray-200"></div>}
+    </div>
+    <div className="flex-1 pb-2">
+      <div className="text-sm font-bold text-gray-800 flex items-center space-x-2">
+        <span className="bg-gray-100 px-2 py-0.5 rounded text-[11px]">လမ်းလျှောက်ရန်</span>
+        <span>{walk.metres}m</span>
+        <span className="text-gray-400 text-[11px]">~{walk.minutes} မိနစ်</span>
       </div>
-      <div className="hidden md:block">
-        <Bot size={120} className="text-yellow-500 opacity-20" />
+      <div className="mt-1 text-[13px] text-gray-500 font-medium">
+        {leg === 'access' ? (
+          <><span className="text-yellow-600 font-bold">{walk.point.label}</span> မှ <span className="text-yellow-600 font-bold">{walk.stop.name_mm}</span> မှတ်တိုင်သို့ လမ်းလျှောက်ပါ။</>
+        ) : (
+          <><span className="text-yellow-600 font-bold">{walk.stop.name_mm}</span> မှတ်တိုင်မှ <span className="text-yellow-600 font-bold">{walk.point.label}</span> သို့ လမ်းလျှောက်ပါ။</>
+        )}
       </div>
     </div>
+  </div>
+);
+
+const FavoriteButton: React.FC<{ isFavorite: boolean, onToggle: () => void }> = ({ isFavorite, onToggle }) => (
+  <button
+    onClick={(e) => {
+      e.stopPropagation();
+      onToggle();
+    }}
+    className={`p-2 rounded-full transition-colors ${
+      isFavorite
+        ? 'bg-yellow-100 text-yellow-600 hover:bg-yellow-200'
+        : 'bg-gray-50 text-gray-400 hover:bg-gray-100'
+    }`}
+  >
+    <Star size={16} className={isFavorite ? 'fill-current' : ''} />
+  </button>
+);
 
+const OperatorBadge: React.FC<{ name: string }> = ({ name }) => (
+  <div className="flex items-center space-x-1 bg-yellow-400/10 border border-yellow-400/30 text-yellow-700 px-1.5 py-0.5 rounded text-[10px] font-bold shrink-0">
+    <CreditCard size={10} />
+    <span>{name}</span>
   </div>
 );
 
+const HomePage: React.FC<{
+  stops: BusStop[],
+  routes: BusRoute[],
+  onRouteClick: (r: BusRoute) => void,
+  onStopClick: (s: BusStop) => void
+}> = ({ stops, routes, onRouteClick, onStopClick }) => {
+  const navigate = useNavigate();
+  const [trips, setTrips] = useState<SavedTrip[]>([]);
+  const [recent, setRecent] = useState<{ trips: HistoryEntry[], routes: HistoryEntry[], stops: HistoryEntry[] }>({ trips: [], routes: [], stops: [] });
+
+  const stopMap = useMemo(() => new Map(stops.map(s => [s.id, s])), [stops]);
+  const routeMap = useMemo(() => new Map(routes.map(r => [r.id, r])), [routes]);
+
+  const loadTrips = useCallback(async () => {
+    setTrips(await listSavedTrips());
+  }, []);
+
+  const loadRecent = useCallback(async () => {
+    const [recentTrips, recentRoutes, recentStops] = await Promise.all([
+      listHistory('trip', 5),
+      listHistory('route', 8),
+      listHistory('stop', 8)
+    ]);
+    setRecent({ trips: recentTrips, routes: recentRoutes, stops: recentStops });
+  }, []);
+
+  useEffect(() => {
+    loadTrips();
+    loadRecent();
+  }, [loadTrips, loadRecent]);
+
+  const removeRecent = async (entry: HistoryEntry) => {
+    await deleteHistoryEntry(entry.key);
+    loadRecent();
+  };
+
+  const hasRecent = recent.trips.length + recent.routes.length + recent.stops.length > 0;
+
+  const savedEndpointName = (end: SavedEndpoint) => end.kind === 'stop' ? stopMap.get(end.stopId)?.name_mm : end.point.label;
+
+  const openTrip = (trip: SavedTrip, reverse = false) => navigate('/find-route', { state: { tripId: trip.id, reverse } });
+
+  const removeTrip = async (trip: SavedTrip) => {
+    if (trip.id === undefined) return;
+    await deleteSavedTrip(trip.id);
+    loadTrips();
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto p-4 md:p-8 space-y-6 md:space-y-10">
+      {trips.length > 0 && (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-400 uppercase tracking-widest font-black">သိမ်းထားသော ခရီးစဉ်များ</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4">
+            {trips.map(trip => (
+              <div
+                key={trip.id}
+                onClick={() => openTrip(trip)}
+                className="bg-white p-4 rounded-2xl border border-gray-100 shadow-sm flex items-center justify-between cursor-pointer hover:shadow-md hover:border-yellow-100 transition-all"
+              >
+                <div className="overflow-hidden">
+                  <p className="font-black text-gray-800 truncate">{trip.label}</p>
+                  <div className="flex items-center gap-x-2 text-xs text-gray-400 font-bold">
+                    <span className="truncate">{savedEndpointName(trip.from)}</span>
+                    <ArrowRight size={12} className="shrink-0" />
+                    <span className="truncate">{savedEndpointName(trip.to)}</span>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 shrink-0">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      openTrip(trip, true);
+                    }}
+                    className="p-2 rounded-full bg-gray-50 text-gray-500 hover:bg-yellow-50 hover:text-yellow-600 transition-colors"
+                  >
+                    <ArrowRightLeft size={16} />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      removeTrip(trip);
+                    }}
+                    className="p-2 rounded-full bg-gray-50 text-gray-400 hover:bg-red-50 hover:text-red-500 transition-colors"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {hasRecent && (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-400 uppercase tracking-widest font-black">မကြာသေးမီက ရှာဖွေမှုများ</p>
+          <div className="bg-white p-4 rounded-2xl border border-gray-100 shadow-sm space-y-4">
+            {recent.trips.map(entry => (
+              <div
+                key={entry.key}
+                onClick={() => navigate(`/find-route?from=${entry.fromStopId}&to=${entry.toStopId}`)}
+                className="flex items-center justify-between cursor-pointer hover:bg-yellow-50 rounded-xl p-2 -m-2 transition-colors"
+              >
+                <div className="flex items-center gap-x-2 text-sm font-bold text-gray-700 overflow-hidden">
+                  <History size={14} className="text-gray-300 shrink-0" />
+                  <span className="truncate">{stopMap.get(entry.fromStopId!)?.name_mm}</span>
+                  <ArrowRight size={12} className="text-gray-300 shrink-0" />
+                  <span className="truncate">{stopMap.get(entry.toStopId!)?.name_mm}</span>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    removeRecent(entry);
+                  }}
+                  className="p-1 text-gray-300 hover:text-gray-500 shrink-0"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            ))}
+
+            {recent.routes.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {recent.routes.map(entry => {
+                  const route = routeMap.get(entry.routeId!);
+                  if (!route) return null;
+                  return (
+                    <div key={entry.key} className="flex items-center bg-gray-50 rounded-xl pr-1 space-x-1">
+                      <RouteBadge routeId={route.id} color={route.color} size="sm" onClick={() => onRouteClick(route)} />
+                      <button onClick={() => removeRecent(entry)} className="p-1 text-gray-300 hover:text-gray-500">
+                        <X size={12} />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {recent.stops.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {recent.stops.map(entry => {
+                  const stop = stopMap.get(entry.stopId!);
+                  if (!stop) return null;
+                  return (
+                    <div key={entry.key} className="flex items-center bg-yellow-50 text-yellow-700 rounded-xl pl-3 pr-1 py-1 text-xs font-bold space-x-1">
+                      <MapPin size={12} className="shrink-0" />
+                      <span className="cursor-pointer hover:underline" onClick={() => onStopClick(stop)}>{stop.name_mm}</span>
+                      <button onClick={() => removeRecent(entry)} className="p-1 text-yellow-400 hover:text-yellow-700">
+                        <X size={12} />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-yellow-100 p-6 md:p-10 rounded-2xl md:rounded-3xl border border-yellow-200 shadow-sm flex flex-col md:flex-row items-center justify-between gap-6">
+        <div>
+          <p className="text-yellow-800 md:text-lg mb-6">၁။ ရာသီဥတုအခြေအနေကို အတည်မပြုနိုင်သေးတဲ့အတွက် ခရီးစဉ်အတွက် ကြိုတင်ပြင်ဆင်သွားပါ။ နေပူရင် မျက်နှာသုတ်ပုဝါ၊ ဦးထုပ် ဒါမှမဟုတ် နေကာမျက်မှန် ယူသွားပါ။ မိုးရွာရင် ဒါမှမဟုတ် တိမ်ထူနေရင် ထီးဆောင်သွားဖို့ အကြံပြုလိုပါတယ်။<br />1. Since weather data is unavailable, please prepare accordingly for your trip. If it is sunny, remember to bring a small towel, a hat, or sunglasses to stay comfortable in the heat. If it is rainy or cloudy, carrying an umbrella is highly recommended.<br /><br />၂။ လူကျပ်တဲ့အချိန်တွေမှာ ဘတ်စ်ကားပေါ်မှာ ခိတ်နှိုက်နဲ့ သူခိုးတွေကို အထူးသတိထားကြဖို့ သတိပေးလိုပါတယ်။<br />2. Please be careful of pickpockets and thieves on the bus, especially during crowded times.<br /><br />၃။ ကားစီးရင်း အိပ်ပျော်သွားတတ်တဲ့အတွက် ကိုယ်ဆင်းရမယ့် မှတ်တိုင်ကို မကျော်သွားစေဖို့ ဖုန်းထဲမှာ အချက်ပေးသံ (Alarm) ပေးထားတာမျိုး ဒါမှမဟုတ် ဘေးကလူကို နှိုးပေးဖို့ အကူအညီတောင်းထားတာမျိုး လုပ်ဆောင်နိုင်ပါတယ်။<br />3. You may fall asleep on the bus. To avoid missing your bus stop, you can set an alarm on your phone or ask a fellow passenger to wake you up.<br /><br />၄။ YBS ကတ်အသုံးပြုသူများအတွက် အကြံပြုချက်နှစ်ခုမှာ ကတ်ထဲမှာ ငွေကို ကြိုတင်ဖြည့်ထားရန်နှင့် ကတ်ထဲက လက်ကျန်ငွေကို ပုံမှန်စစ်ဆေးရန်တို့ ဖြစ်ပါတယ်။<br />4. Two proactive tips for YBS card users include topping up your card in advance and checking your balance regularly.</p>
+        </div>
+        <div className="hidden md:block">
+          <Bot size={120} className="text-yellow-500 opacity-20" />
+        </div>
+      </div>
+
+    </div>
+  );
+};
+
 const RoutesPage: React.FC<{
   onRouteClick: (r: BusRoute) => void,
   onStopClick: (s: BusStop) => void,
@@ -583,11 +827,8 @@ const RoutesPage: React.FC<{
     fetchData();
   }, []);
 
-  const stopInfoMap = useMemo(() => {
-    const map = new Map<string, { township: string, name_en: string }>();
-    stops.forEach(s => map.set(s.name_mm, { township: s.township_mm, name_en: s.name_en }));
-    return map;
-  }, [stops]);
+  const stopMap = useMemo(() => new Map(stops.map(s => [s.id, s])), [stops]);
+  const searchIndex = useMemo(() => buildStopSearchIndex(stops, routes), [stops, routes]);
 
   const filtered = useMemo(() => {
     let result = routes;
@@ -595,41 +836,26 @@ const RoutesPage: React.FC<{
     // Apply search filter
     const term = search.toLowerCase().trim();
     if (term) {
+      // Stop names, roads and townships go through the shared stop search.
+      const matchedStops = new Set(searchStops(searchIndex, term, 200).map(s => s.id));
       result = result.filter(r => {
-        const startStop = r.stops[0];
-        const endStop = r.stops[r.stops.length - 1];
-        const startTownship = stopInfoMap.get(startStop)?.township || "";
-        const endTownship = stopInfoMap.get(endStop)?.township || "";
-        const startStopEn = stopInfoMap.get(startStop)?.name_en || "";
-        const endStopEn = stopInfoMap.get(endStop)?.name_en || "";
-
-        // Check route ID
+        // Check route ID and name
         if (r.id.toLowerCase().includes(term)) return true;
+        if (r.name && r.name.toLowerCase().includes(term)) return true;
 
         // Check operator
         if (r.operator && r.operator.toLowerCase().includes(term)) return true;
 
-        // Check townships
-        if (startTownship.toLowerCase().includes(term) || endTownship.toLowerCase().includes(term)) return true;
-
-        // Check start/end stops
-        if (startStop.toLowerCase().includes(term) || endStop.toLowerCase().includes(term)) return true;
-        if (startStopEn.toLowerCase().includes(term) || endStopEn.toLowerCase().includes(term)) return true;
-
-        // Check all stops in route (limit to first 10 for performance)
-        return r.stops.slice(0, 10).some(stop => {
-          const stopEn = stopInfoMap.get(stop)?.name_en || "";
-          return stop.toLowerCase().includes(term) || stopEn.toLowerCase().includes(term);
-        });
+        // Check the terminals and the first stops in route (limit to first 10 for performance)
+        return [r.stops[r.stops.length - 1], ...r.stops.slice(0, 10)].some(id => matchedStops.has(id));
       });
     }
 
     return result.slice(0, 50); // Limit results for performance
-  }, [routes, search, stopInfoMap]);
+  }, [routes, search, searchIndex]);
 
-  const handleStopClick = (e: React.MouseEvent, stopName: string) => {
+  const handleStopClick = (e: React.MouseEvent, stop?: BusStop) => {
     e.stopPropagation();
-    const stop = stops.find(s => s.name_mm === stopName);
     if (stop) onStopClick(stop);
   };
 
@@ -650,10 +876,10 @@ const RoutesPage: React.FC<{
       <div className="flex-1 overflow-y-auto pb-20 sm:pb-24 md:pb-8">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3 sm:gap-4 md:gap-6">
           {filtered.map(route => {
-            const startStop = route.stops[0];
-            const endStop = route.stops[route.stops.length - 1];
-            const startTownship = stopInfoMap.get(startStop)?.township || "";
-            const endTownship = stopInfoMap.get(endStop)?.township || "";
+            const startStop = stopMap.get(route.stops[0]);
+            const endStop = stopMap.get(route.stops[route.stops.length - 1]);
+            const startTownship = startStop?.township_mm || "";
+            const endTownship = endStop?.township_mm || "";
 
             return (
               <div 
@@ -671,14 +897,14 @@ const RoutesPage: React.FC<{
                           className="text-yellow-600 hover:text-yellow-800 hover:underline transition-all"
                           onClick={(e) => handleStopClick(e, startStop)}
                          >
-                           {startStop}
+                           {startStop?.name_mm}
                          </span>
                          <ArrowRight size={16} className="text-gray-300 shrink-0" />
                          <span
                           className="text-yellow-600 hover:text-yellow-800 hover:underline transition-all"
                           onClick={(e) => handleStopClick(e, endStop)}
                          >
-                           {endStop}
+                           {endStop?.name_mm}
                          </span>
                        </div>
                        <div className="flex flex-wrap items-center gap-2 mt-2">
@@ -691,19 +917,7 @@ const RoutesPage: React.FC<{
                     </div>
                   </div>
                   <div className="flex items-center space-x-2 shrink-0">
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onToggleFavorite(route.id);
-                      }}
-                      className={`p-2 rounded-full transition-colors ${
-                        favorites.has(route.id)
-                          ? 'bg-yellow-100 text-yellow-600 hover:bg-yellow-200'
-                          : 'bg-gray-50 text-gray-400 hover:bg-gray-100'
-                      }`}
-                    >
-                      <Star size={16} className={favorites.has(route.id) ? 'fill-current' : ''} />
-                    </button>
+                    <FavoriteButton isFavorite={favorites.has(route.id)} onToggle={() => onToggleFavorite(route.id)} />
                     <div className="bg-gray-50 px-2 py-1.5 rounded-lg flex items-center space-x-1 border border-gray-100">
                       <Hash size={12} className="text-gray-400" />
                       <span className="text-[12px] font-black text-gray-600">{route.stops.length}</span>
@@ -722,7 +936,13 @@ const RoutesPage: React.FC<{
   );
 };
 
-const MapPage: React.FC<{ stops: BusStop[], routes: BusRoute[], onStopClick: (s: BusStop) => void }> = ({ stops, routes, onStopClick }) => {
+const MapPage: React.FC<{
+  stops: BusStop[],
+  routes: BusRoute[],
+  onStopClick: (s: BusStop) => void,
+  onRouteClick: (r: BusRoute) => void
+}> = ({ stops, routes, onStopClick, onRouteClick }) => {
+  const navigate = useNavigate();
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<any>(null);
   const markersLayerRef = useRef<any>(null);
@@ -730,31 +950,39 @@ const MapPage: React.FC<{ stops: BusStop[], routes: BusRoute[], onStopClick: (s:
   const [isLocating, setIsLocating] = useState(false);
   const [search, setSearch] = useState('');
   const [showSearch, setShowSearch] = useState(false);
+  const [recentStopIds, setRecentStopIds] = useState<number[]>([]);
+  const [shownRouteIds, setShownRouteIds] = useState<string[]>([]);
+  const [showRoutePicker, setShowRoutePicker] = useState(false);
+  const [routeSearch, setRouteSearch] = useState('');
+  const searchIndex = useMemo(() => buildStopSearchIndex(stops, routes), [stops, routes]);
+  const stopMap = useMemo(() => new Map(stops.map(s => [s.id, s])), [stops]);
+  const stopGrid = useMemo(() => buildStopGrid(stops), [stops]);
+
+  const pickableRoutes = useMemo(() => {
+    const q = routeSearch.trim().toLowerCase();
+    return routes
+      .filter(r => !q || r.id.toLowerCase().includes(q) || r.name?.toLowerCase().includes(q))
+      .sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+  }, [routes, routeSearch]);
 
   const filteredStops = useMemo(() => {
-    if (!search) return [];
-    const term = search.toLowerCase();
-    return stops.filter(s =>
-      s.name_mm.toLowerCase().includes(term) ||
-      s.name_en.toLowerCase().includes(term) ||
-      s.road_mm.toLowerCase().includes(term) ||
-      s.road_en.toLowerCase().includes(term) ||
-      s.township_mm.toLowerCase().includes(term) ||
-      s.township_en.toLowerCase().includes(term)
-    ).slice(0, 10);
-  }, [search, stops]);
+    if (!search.trim()) {
+      const stopMap = new Map(stops.map(s => [s.id, s]));
+      return recentStopIds.map(id => stopMap.get(id)).filter((s): s is BusStop => !!s).slice(0, 10);
+    }
+    return searchStops(searchIndex, search, 10);
+  }, [search, stops, searchIndex, recentStopIds]);
 
   useEffect(() => {
-    const L = (window as any).L;
-    if (!L || !mapContainerRef.current || mapInstanceRef.current) return;
+    if (!mapContainerRef.current || mapInstanceRef.current) return;
 
     const map = L.map(mapContainerRef.current, { zoomControl: false }).setView([16.8, 96.15], 13);
     mapInstanceRef.current = map;
-    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png').addTo(map);
+    createTileLayer().addTo(map);
     L.control.zoom({ position: 'bottomright' }).addTo(map);
 
-    markersLayerRef.current = L.featureGroup().addTo(map);
     routesLayerRef.current = L.featureGroup().addTo(map);
+    markersLayerRef.current = L.featureGroup().addTo(map);
 
     map.on('locationfound', (e: any) => {
       setIsLocating(false);
@@ -762,6 +990,24 @@ const MapPage: React.FC<{ stops: BusStop[], routes: BusRoute[], onStopClick: (s:
       map.setView(e.latlng, 15);
     });
 
+    // Long-press (right-click on desktop) anywhere to plan a journey from or to that spot.
+    map.on('contextmenu', (e: any) => {
+      const param = endpointParam({ kind: 'point', point: { lat: e.latlng.lat, lng: e.latlng.lng, label: MAP_POINT_LABEL } });
+      L.popup({ closeButton: false })
+        .setLatLng(e.latlng)
+        .setContent(`
+          <div class="p-1 space-y-1.5 min-w-[140px]">
+            <button id="plan-from-point" class="w-full bg-yellow-600 text-white text-[10px] py-1.5 rounded font-black hover:bg-yellow-700 transition-all">ဤနေရာမှ စထွက်မည်</button>
+            <button id="plan-to-point" class="w-full bg-gray-800 text-white text-[10px] py-1.5 rounded font-black hover:bg-gray-900 transition-all">ဤနေရာသို့ သွားမည်</button>
+          </div>
+        `)
+        .openOn(map);
+      const fromBtn = document.getElementById('plan-from-point');
+      const toBtn = document.getElementById('plan-to-point');
+      if (fromBtn) fromBtn.onclick = () => navigate(`/find-route?from=${param}`);
+      if (toBtn) toBtn.onclick = () => navigate(`/find-route?to=${param}`);
+    });
+
     setTimeout(() => map.invalidateSize(), 200);
 
     return () => {
@@ -772,13 +1018,18 @@ const MapPage: React.FC<{ stops: BusStop[], routes: BusRoute[], onStopClick: (s:
     };
   }, []);
 
+  // Only the stops in view (and a margin around it) are drawn, again after
+  // each pan or zoom; markers still in view are kept, so an open popup
+  // survives its own auto-pan. Zoomed out, stops close together on screen are
+  // drawn as one numbered cluster that zooms in on its stops when tapped.
   useEffect(() => {
-    const L = (window as any).L;
-    if (!L || !markersLayerRef.current || stops.length === 0) return;
+    const map = mapInstanceRef.current;
+    if (!map || !markersLayerRef.current) return;
 
+    const drawn = new Map<string, any>();
     markersLayerRef.current.clearLayers();
 
-    stops.forEach(s => {
+    const stopMarker = (s: BusStop) => {
       const marker = L.circleMarker([s.lat, s.lng], {
         radius: 7,
         fillColor: "#2563eb",
@@ -801,18 +1052,87 @@ const MapPage: React.FC<{ stops: BusStop[], routes: BusRoute[], onStopClick: (s:
         if (btn) btn.onclick = () => onStopClick(s);
       });
 
-      marker.addTo(markersLayerRef.current);
-    });
-  }, [stops, onStopClick]);
+      return marker;
+    };
+
+    const clusterMarker = (cluster: StopCluster) => {
+      const count = cluster.stops.length;
+      const size = count < 10 ? 28 : count < 100 ? 34 : 40;
+      const marker = L.marker([cluster.lat, cluster.lng], {
+        icon: L.divIcon({
+          className: '',
+          iconSize: [size, size],
+          html: `<div class="w-full h-full rounded-full bg-blue-600/90 border-2 border-white shadow-lg text-white text-[11px] font-black flex items-center justify-center">${count}</div>`
+        })
+      });
+      marker.on('click', () => {
+        const bounds = L.latLngBounds(cluster.stops.map(s => [s.lat, s.lng]));
+        map.fitBounds(bounds, { padding: [40, 40], maxZoom: CLUSTER_BELOW_ZOOM });
+      });
+      return marker;
+    };
+
+    const render = () => {
+      const zoom = map.getZoom();
+      const view = map.getBounds().pad(0.2);
+      const visible = stopsInBounds(stopGrid, {
+        south: view.getSouth(),
+        west: view.getWest(),
+        north: view.getNorth(),
+        east: view.getEast()
+      });
+      const clusters = zoom >= CLUSTER_BELOW_ZOOM ? visible.map(s => ({ lat: s.lat, lng: s.lng, stops: [s] })) : clusterStops(visible, zoom);
+      const wanted = new Map(clusters.map(c => [
+        c.stops.length === 1 ? `stop-${c.stops[0].id}` : `cluster-${zoom}-${c.stops.map(s => s.id).join(',')}`,
+        c
+      ]));
+
+      drawn.forEach((marker, key) => {
+        if (wanted.has(key)) return;
+        markersLayerRef.current.removeLayer(marker);
+        drawn.delete(key);
+      });
+      wanted.forEach((cluster, key) => {
+        if (drawn.has(key)) return;
+        const marker = cluster.stops.length === 1 ? stopMarker(cluster.stops[0]) : clusterMarker(cluster);
+        drawn.set(key, marker.addTo(markersLayerRef.current));
+      });
+    };
+
+    render();
+    map.on('moveend', render);
+    return () => map.off('moveend', render);
+  }, [stopGrid, onStopClick]);
 
+  // Lines picked in the layer list, drawn under the stops. Hovering a line
+  // thickens it; clicking opens the route.
   useEffect(() => {
-    const L = (window as any).L;
-    if (!L || !routesLayerRef.current || routes.length === 0) return;
+    if (!routesLayerRef.current) return;
 
     routesLayerRef.current.clearLayers();
 
-    // Route lines are hidden as per user request - only map icons are shown
-  }, [routes]);
+    routes.filter(r => shownRouteIds.includes(r.id)).forEach(r => {
+      const style = { color: r.color, weight: 5, opacity: 0.75 };
+      const line = L.polyline(routeLatLngs(r, stopMap), style);
+      line.bindTooltip(`YBS ${r.id}`, { sticky: true });
+      line.on('mouseover', () => line.setStyle({ weight: 8, opacity: 1 }).bringToFront());
+      line.on('mouseout', () => line.setStyle(style));
+      line.on('click', () => onRouteClick(r));
+      line.addTo(routesLayerRef.current);
+    });
+  }, [routes, shownRouteIds, stopMap, onRouteClick]);
+
+  const toggleRoute = (r: BusRoute) => {
+    if (shownRouteIds.includes(r.id)) {
+      setShownRouteIds(ids => ids.filter(id => id !== r.id));
+      return;
+    }
+    setShownRouteIds(ids => [...ids, r.id]);
+    const latLngs = routeLatLngs(r, stopMap);
+    if (mapInstanceRef.current && latLngs.length > 0) {
+      mapInstanceRef.current.fitBounds(L.latLngBounds(latLngs), { padding: [40, 40] });
+    }
+  };
 
   const handleLocate = () => {
     if (mapInstanceRef.current) {
@@ -826,6 +1146,7 @@ const MapPage: React.FC<{ stops: BusStop[], routes: BusRoute[], onStopClick: (s:
       mapInstanceRef.current.setView([s.lat, s.lng], 16);
       setSearch('');
       setShowSearch(false);
+      recordStop(s.id);
     }
   };
 
@@ -841,7 +1162,10 @@ const MapPage: React.FC<{ stops: BusStop[], routes: BusRoute[], onStopClick: (s:
             className="w-full pl-9 sm:pl-10 pr-3 sm:pr-4 py-2.5 sm:py-3 bg-white rounded-xl sm:rounded-2xl shadow-2xl border border-gray-100 focus:outline-none focus:ring-2 focus:ring-yellow-500 text-xs sm:text-sm font-medium"
             value={search}
             onChange={(e) => setSearch(e.target.value)}
-            onFocus={() => setShowSearch(true)}
+            onFocus={() => {
+              setShowSearch(true);
+              listHistory('stop').then(entries => setRecentStopIds(entries.map(e => e.stopId!)));
+            }}
           />
           <Search className="absolute left-3 sm:left-3.5 top-1/2 -translate-y-1/2 text-gray-400" size={16} />
           {search && (
@@ -870,7 +1194,61 @@ const MapPage: React.FC<{ stops: BusStop[], routes: BusRoute[], onStopClick: (s:
         )}
       </div>
 
+      {showRoutePicker && (
+        <div className="absolute bottom-20 sm:bottom-24 right-16 sm:right-20 z-[1000] w-64 sm:w-72 bg-white rounded-xl sm:rounded-2xl shadow-2xl border border-gray-100 overflow-hidden animate-in fade-in slide-in-from-bottom-2 duration-200">
+          <div className="p-2.5 border-b border-gray-50 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-black text-gray-800">လမ်းကြောင်းမျဉ်းများ</span>
+              {shownRouteIds.length > 0 && (
+                <button onClick={() => setShownRouteIds([])} className="text-[10px] font-black text-yellow-700 hover:text-yellow-800">
+                  အားလုံးဖျောက်မည်
+                </button>
+              )}
+            </div>
+            <div className="relative">
+              <input
+                type="text"
+                placeholder="လိုင်းနံပါတ် ရှာရန်..."
+                className="w-full pl-8 pr-3 py-2 bg-gray-50 rounded-lg border border-gray-100 focus:outline-none focus:ring-2 focus:ring-yellow-500 text-xs font-medium"
+                value={routeSearch}
+                onChange={(e) => setRouteSearch(e.target.value)}
+              />
+              <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400" size={14} />
+            </div>
+          </div>
+          <div className="max-h-[40vh] overflow-y-auto no-scrollbar">
+            {pickableRoutes.map(r => {
+              const shown = shownRouteIds.includes(r.id);
+              return (
+                <button
+                  key={r.id}
+                  onClick={() => toggleRoute(r)}
+                  className={`w-full p-2.5 flex items-center space-x-2.5 border-b border-gray-50 last:border-0 text-left transition-colors ${shown ? 'bg-yellow-50' : 'hover:bg-gray-50'}`}
+                >
+                  <div className={`w-4 h-4 rounded border flex items-center justify-center shrink-0 ${shown ? 'bg-yellow-600 border-yellow-600' : 'border-gray-300'}`}>
+                    {shown && <Check size={12} className="text-white" />}
+                  </div>
+                  <RouteBadge routeId={r.id} color={r.color} size="sm" />
+                  <span className="text-[10px] text-gray-500 font-bold truncate">{r.name}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       <div className="absolute bottom-20 sm:bottom-24 right-3 sm:right-4 z-[1000] flex flex-col space-y-3">
+        <button
+          onClick={() => setShowRoutePicker(v => !v)}
+          className={`relative p-3 sm:p-3.5 rounded-full shadow-2xl border border-gray-100 active:scale-90 transition-all ${showRoutePicker ? 'bg-yellow-600 text-white' : 'bg-white text-yellow-600 hover:bg-yellow-50'}`}
+        >
+          <Layers className="w-5 h-5 sm:w-5.5 sm:h-5.5" size={20} />
+          {shownRouteIds.length > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-gray-800 text-white text-[10px] font-black flex items-center justify-center">
+              {shownRouteIds.length}
+            </span>
+          )}
+        </button>
         <button
           onClick={handleLocate}
           disabled={isLocating}
@@ -883,24 +1261,134 @@ const MapPage: React.FC<{ stops: BusStop[], routes: BusRoute[], onStopClick: (s:
   );
 };
 
-const AssistantPage: React.FC<{ onRouteClick: (r: BusRoute) => void }> = ({ onRouteClick }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { role: 'assistant', content: 'မင်္ဂလာပါ။ YBS Assistant မှ ကြိုဆိုပါတယ်။ ဘယ်ကို သွားချင်ပါသလဲ? စာရိုက်ပြီး မေးနိုင်ပါတယ်။ ဥပမာ- "မြေနီကုန်းကနေ လှည်းတန်းကို ဘယ်လိုသွားရမလဲ"' }
-  ]);
+// --- Journey map ---
+// One search result on its own small map: each ride follows its line between
+// the boarding and alighting stops in the line's colour, walks are dashed, and
+// the stops where the rider changes are marked. Saved chats keep rides without
+// their shapes, so each line is looked up again by id.
+
+const JourneyMap: React.FC<{ result: SearchResult, stops: BusStop[], routes: BusRoute[] }> = ({ result, stops, routes }) => {
+  const mapContainerRef = useRef<HTMLDivElement>(null);
+  const stopMap = useMemo(() => new Map(stops.map(s => [s.id, s])), [stops]);
+  const routeMap = useMemo(() => new Map(routes.map(r => [r.id, r])), [routes]);
+
+  useEffect(() => {
+    if (!mapContainerRef.current) return;
+
+    const map = L.map(mapContainerRef.current, { zoomControl: false, scrollWheelZoom: false });
+    createTileLayer().addTo(map);
+    L.control.zoom({ position: 'bottomright' }).addTo(map);
+    const layer = L.featureGroup().addTo(map);
+
+    const at = (s: BusStop): LatLng => [s.lat, s.lng];
+    const walk = (points: LatLng[], metres: number) =>
+      L.polyline(points, { color: '#6b7280', weight: 4, dashArray: '4 8' }).bindTooltip(`လမ်းလျှောက် ${metres}m`, { sticky: true }).addTo(layer);
+    const dot = (point: LatLng, fillColor: string, radius: number, label: string) =>
+      L.circleMarker(point, { radius, fillColor, color: '#fff', weight: 3, fillOpacity: 1 }).bindTooltip(label).addTo(layer);
+
+    const { access, egress, steps } = result;
+    if (access) walk([[access.point.lat, access.point.lng], at(access.stop)], access.metres);
+    steps.forEach(step => {
+      if (step.type === 'walk') {
+        walk([at(step.fromStop), at(step.toStop)], step.metres);
+        return;
+      }
+      const route = routeMap.get(step.route.id) || step.route;
+      L.polyline(rideLatLngs({ ...step, route }, stopMap), { color: route.color, weight: 6, opacity: 0.85 })
+        .bindTooltip(`YBS ${route.id}`, { sticky: true })
+        .addTo(layer);
+      [step.fromStop, step.toStop].forEach(s => dot(at(s), route.color, 5, s.name_mm));
+    });
+    if (egress) walk([at(egress.stop), [egress.point.lat, egress.point.lng]], egress.metres);
+
+    // Every step after the first starts where the rider changes.
+    steps.slice(1).forEach(step => dot(at(step.fromStop), '#f59e0b', 8,
+      `${step.fromStop.name_mm} - ${step.type === 'ride' ? 'ကားပြောင်းစီးရန်' : 'ဆင်းပြီး လမ်းလျှောက်ရန်'}`));
+    const first = steps[0]?.fromStop;
+    const last = steps[steps.length - 1]?.toStop;
+    if (access) dot([access.point.lat, access.point.lng], '#10b981', 9, access.point.label);
+    else if (first) dot(at(first), '#10b981', 9, first.name_mm);
+    if (egress) dot([egress.point.lat, egress.point.lng], '#ef4444', 9, egress.point.label);
+    else if (last) dot(at(last), '#ef4444', 9, last.name_mm);
+
+    const bounds = layer.getBounds();
+    if (bounds.isValid()) map.fitBounds(bounds, { padding: [30, 30] });
+    else map.setView([16.8, 96.15], 13);
+    const timer = setTimeout(() => {
+      map.invalidateSize();
+      if (bounds.isValid()) map.fitBounds(bounds, { padding: [30, 30] });
+    }, 200);
+
+    return () => {
+      clearTimeout(timer);
+      map.remove();
+    };
+  }, [result, stopMap, routeMap]);
+
+  return (
+    <div className="space-y-2">
+      <div ref={mapContainerRef} className="relative z-0 h-64 md:h-80 w-full rounded-2xl overflow-hidden bg-gray-200"></div>
+      <div className="flex items-center space-x-4 text-[10px] font-bold text-gray-400">
+        <span className="flex items-center space-x-1.5"><span className="w-4 h-1 rounded-full bg-yellow-600"></span><span>ကားစီးရန်</span></span>
+        <span className="flex items-center space-x-1.5"><span className="w-4 border-t-2 border-dashed border-gray-500"></span><span>လမ်းလျှောက်ရန်</span></span>
+        <span className="flex items-center space-x-1.5"><span className="w-2.5 h-2.5 rounded-full bg-amber-500"></span><span>ကားပြောင်းရန်</span></span>
+      </div>
+    </div>
+  );
+};
+
+// A journey's legs for the compact chat card, including any walk between a
+// place and its stop.
+const chatLegs = (res: SearchResult) => {
+  const walk = (metres: number, minutes: number, from: string, to: string) =>
+    ({ title: 'လမ်းလျှောက်ရန်', color: '#9ca3af', from, to, detail: `${metres}m (~${minutes} မိနစ်)` });
+  return [
+    ...(res.access ? [walk(res.access.metres, res.access.minutes, res.access.point.label, res.access.stop.name_mm)] : []),
+    ...res.steps.map(step => step.type === 'ride'
+      ? { title: `YBS ${step.route.id}`, color: step.route.color, from: step.fromStop.name_mm, to: step.toStop.name_mm, detail: `ကြားမှတ်တိုင် ${step.intermediateStops} ခု` }
+      : walk(step.metres, step.minutes, step.fromStop.name_mm, step.toStop.name_mm)),
+    ...(res.egress ? [walk(res.egress.metres, res.egress.minutes, res.egress.stop.name_mm, res.egress.point.label)] : [])
+  ];
+};
+
+const GREETING: ChatMessage = {
+  role: 'assistant',
+  content: 'မင်္ဂလာပါ။ YBS Assistant မှ ကြိုဆိုပါတယ်။ ဘယ်ကို သွားချင်ပါသလဲ? စာရိုက်ပြီး မေးနိုင်ပါတယ်။ ဥပမာ- "မြေနီကုန်းကနေ လှည်းတန်းကို ဘယ်လိုသွားရမလဲ"'
+};
+
+const AssistantPage: React.FC<{ onRouteClick: (r: BusRoute) => void, onStopClick: (s: BusStop) => void }> = ({ onRouteClick, onStopClick }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([GREETING]);
+  const [dialog, setDialog] = useState<DialogState>(EMPTY_DIALOG);
+  const [restored, setRestored] = useState(false);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
-  const [allStopNames, setAllStopNames] = useState<string[]>([]);
+  const [provider, setProvider] = useState<AssistantProvider | null>(null);
+  const [stops, setStops] = useState<BusStop[]>([]);
+  const [routes, setRoutes] = useState<BusRoute[]>([]);
+  const [mapKey, setMapKey] = useState<string | null>(null);
 
   useEffect(() => {
-    db.busStops.toArray().then(stops => {
-      const names = new Set<string>();
-      stops.forEach(s => names.add(s.name_mm));
-      INITIAL_ROUTES.forEach(r => r.stops.forEach(s => names.add(s)));
-      setAllStopNames(Array.from(names));
+    Promise.all([db.busStops.toArray(), db.busRoutes.toArray()]).then(([stops, routes]) => {
+      setStops(stops);
+      setRoutes(routes);
+      const data = { routes, lexicon: buildAssistantLexicon(stops, routes) };
+      setProvider(getAssistantProviderId() === 'gemini' && isGeminiConfigured() ? createGeminiProvider(data) : createLocalProvider(data));
     });
+    loadConversation()
+      .then(saved => {
+        if (!saved) return;
+        setMessages(saved.messages);
+        setDialog(saved.dialog);
+      })
+      .catch(error => console.warn('Could not load the conversation:', error))
+      .finally(() => setRestored(true));
   }, []);
 
+  useEffect(() => {
+    if (restored) saveConversation(messages, dialog);
+  }, [messages, dialog, restored]);
+
   const scrollToBottom = () => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -909,40 +1397,34 @@ const AssistantPage: React.FC<{ onRouteClick: (r: BusRoute) => void }> = ({ onRo
     scrollToBottom();
   }, [messages, isTyping]);
 
-  const handleSend = async () => {
-    const userQuery = input.trim();
-    if (!userQuery || isTyping) return;
+  const handleSend = async (text = input) => {
+    const userQuery = text.trim();
+    if (!userQuery || isTyping || !provider) return;
     
     setInput('');
     setMessages(prev => [...prev, { role: 'user', content: userQuery }]);
     setIsTyping(true);
 
     setTimeout(async () => {
-      const extracted = extractStopsFromText(userQuery, allStopNames);
-      
-      let reply = "";
-      let results: SearchResult[] = [];
-
-      if (!extracted || (!extracted.start && !extracted.end)) {
-        reply = "တောင်းပန်ပါတယ်၊ သင်ပြောတဲ့ မှတ်တိုင်အမည်ကို ရှာမတွေ့ပါဘူး။ မှတ်တိုင်အမည်လေး ပြန်စစ်ပေးပါဦး။";
-      } else if (extracted.start && !extracted.end) {
-        reply = `${extracted.start} ကနေ ဘယ်ကို သွားချင်တာလဲခင်ဗျာ?`;
-      } else if (!extracted.start && extracted.end) {
-        reply = `${extracted.end} ကို ဘယ်မှတ်တိုင်ကနေ လာမှာလဲခင်ဗျာ?`;
-      } else if (extracted.start && extracted.end) {
-        results = await performBFS(extracted.start, extracted.end);
-        if (results.length > 0) {
-          reply = `${extracted.start} မှ ${extracted.end} သို့ စီးရမည့် လမ်းကြောင်းများကို ရှာတွေ့ပါပြီ။`;
-        } else {
-          reply = `${extracted.start} မှ ${extracted.end} သို့ တိုက်ရိုက် သို့မဟုတ် တစ်ဆင့်ပြောင်း လမ်းကြောင်း ရှာမတွေ့ပါဘူး။`;
-        }
+      try {
+        const { reply, next } = await provider.respond({ query: userQuery, dialog, history: messages });
+        setDialog(next);
+        setMessages(prev => [...prev, { role: 'assistant', ...reply }]);
+      } catch (error) {
+        console.error('Assistant failed to answer:', error);
+        setMessages(prev => [...prev, { role: 'assistant', content: 'တောင်းပန်ပါတယ်၊ အဖြေရှာ၍ မရပါ။ ထပ်မံ ကြိုးစားကြည့်ပါ။' }]);
+      } finally {
+        setIsTyping(false);
       }
-
-      setMessages(prev => [...prev, { role: 'assistant', content: reply, results: results.length > 0 ? results : undefined }]);
-      setIsTyping(false);
     }, 600);
   };
 
+  const resetConversation = () => {
+    setMessages([GREETING]);
+    setDialog(EMPTY_DIALOG);
+    setMapKey(null);
+  };
+
   return (
     <div className="max-w-3xl mx-auto h-full flex flex-col bg-white md:shadow-2xl md:my-4 md:rounded-3xl overflow-hidden">
       {/* <div className="bg-yellow-600 p-4 flex items-center space-x-3 shrink-0">
@@ -966,7 +1448,7 @@ const AssistantPage: React.FC<{ onRouteClick: (r: BusRoute) => void }> = ({ onRo
                   <Bot size={18} className="text-yellow-600" />
                 </div>
               )}
-              <div className={`p-4 rounded-2xl text-sm leading-relaxed shadow-sm ${
+              <div className={`p-4 rounded-2xl text-sm leading-relaxed shadow-sm whitespace-pre-line ${
                 m.role === 'user' ? 'bg-yellow-600 text-white rounded-tr-none' : 'bg-white text-gray-800 rounded-tl-none border border-gray-100'
               }`}>
                 {m.content}
@@ -977,30 +1459,89 @@ const AssistantPage: React.FC<{ onRouteClick: (r: BusRoute) => void }> = ({ onRo
                 </div>
               )}
             </div>
+            {m.routes && (
+              <div className="flex flex-wrap gap-2 mt-3 ml-10">
+                {m.routes.map(r => (
+                  <RouteBadge key={r.id} routeId={r.id} color={r.color} size="sm" onClick={() => onRouteClick(r)} />
+                ))}
+              </div>
+            )}
+            {m.stops && (
+              <div className="w-full mt-3 space-y-1.5 pl-10">
+                {m.stops.map(({ stop, metres }) => (
+                  <button
+                    key={stop.id}
+                    onClick={() => onStopClick(stop)}
+                    className="w-full p-3 flex items-center justify-between bg-white border border-yellow-100 rounded-xl hover:bg-yellow-50 transition-colors text-left"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <MapPin size={14} className="text-yellow-600 shrink-0" />
+                      <div>
+                        <p className="text-sm font-bold text-gray-800">{stop.name_mm}</p>
+                        <p className="text-[10px] text-gray-400 font-bold">{stop.road_mm}၊ {stop.township_mm}</p>
+                      </div>
+                    </div>
+                    <span className="text-[10px] bg-yellow-50 text-yellow-700 px-2 py-0.5 rounded-full font-black">{metres}m</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            {m.choices && (
+              <div className="w-full mt-3 space-y-1.5 pl-10">
+                {m.choices.map((stop, idx) => (
+                  <button
+                    key={stop.id}
+                    onClick={() => handleSend(`${idx + 1}. ${stop.name_mm}၊ ${stop.township_mm}`)}
+                    disabled={isTyping || i !== messages.length - 1}
+                    className="w-full p-3 flex items-center space-x-3 bg-white border border-yellow-100 rounded-xl hover:bg-yellow-50 transition-colors text-left disabled:opacity-60 disabled:hover:bg-white"
+                  >
+                    <span className="w-6 h-6 rounded-full bg-yellow-600 text-white text-[11px] font-black flex items-center justify-center shrink-0">{idx + 1}</span>
+                    <div>
+                      <p className="text-sm font-bold text-gray-800">{stop.name_mm}</p>
+                      <p className="text-[10px] text-gray-400 font-bold">{stop.road_mm}၊ {stop.township_mm}</p>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
             {m.results && (
               <div className="w-full mt-4 space-y-3 animate-in fade-in slide-in-from-bottom-2 duration-500">
                 {m.results.map((res, idx) => (
                   <div key={idx} className="bg-white border border-yellow-100 p-4 rounded-2xl space-y-4 shadow-sm ml-10">
                     <div className="flex items-center justify-between">
                        <div className="flex gap-2">
-                         {res.steps.map((step, sidx) => (
+                         {res.access && <WalkBadge minutes={res.access.minutes} />}
+                         {res.steps.map((step, sidx) => step.type === 'ride' ? (
                            <RouteBadge key={sidx} routeId={step.route.id} color={step.route.color} size="sm" onClick={() => onRouteClick(step.route)} />
+                         ) : (
+                           <WalkBadge key={sidx} minutes={step.minutes} />
                          ))}
+                         {res.egress && <WalkBadge minutes={res.egress.minutes} />}
+                       </div>
+                       <div className="flex items-center space-x-2">
+                         <span className="text-[10px] font-black bg-yellow-50 text-yellow-600 px-2 py-0.5 rounded-full uppercase">
+                           {res.transferCount === 0 ? 'တိုက်ရိုက်' : `${res.transferCount} ဆင့်ပြောင်း`}
+                         </span>
+                         <button
+                           onClick={() => setMapKey(mapKey === `${i}-${idx}` ? null : `${i}-${idx}`)}
+                           className={`p-1.5 rounded-full transition-colors ${mapKey === `${i}-${idx}` ? 'bg-yellow-600 text-white' : 'bg-gray-50 text-gray-400 hover:bg-yellow-50 hover:text-yellow-600'}`}
+                         >
+                           <MapIcon size={14} />
+                         </button>
                        </div>
-                       <span className="text-[10px] font-black bg-yellow-50 text-yellow-600 px-2 py-0.5 rounded-full uppercase">
-                         {res.transferCount === 0 ? 'တိုက်ရိုက်' : `${res.transferCount} ဆင့်ပြောင်း`}
-                       </span>
                     </div>
+                    {mapKey === `${i}-${idx}` && <JourneyMap result={res} stops={stops} routes={routes} />}
                     <div className="space-y-3">
-                      {res.steps.map((step, sidx) => (
+                      {chatLegs(res).map((leg, sidx, legs) => (
                         <div key={sidx} className="flex items-start space-x-3 text-[13px]">
                           <div className="flex flex-col items-center mt-1">
-                             <div className="w-2 h-2 rounded-full" style={{ backgroundColor: step.route.color }}></div>
-                             {sidx < res.steps.length - 1 && <div className="w-0.5 h-8 bg-gray-100"></div>}
+                             <div className="w-2 h-2 rounded-full" style={{ backgroundColor: leg.color }}></div>
+                             {sidx < legs.length - 1 && <div className="w-0.5 h-8 bg-gray-100"></div>}
                           </div>
                           <div className="flex-1">
-                            <p className="font-black text-gray-800">YBS {step.route.id}</p>
-                            <p className="text-gray-500">{step.fromStop} <span className="text-gray-300 mx-1">→</span> {step.toStop}</p>
+                            <p className="font-black text-gray-800">{leg.title}</p>
+                            <p className="text-gray-500">{leg.from} <span className="text-gray-300 mx-1">→</span> {leg.to}</p>
+                            <p className="text-[11px] text-gray-400">{leg.detail}</p>
                           </div>
                         </div>
                       ))}
@@ -1027,6 +1568,22 @@ const AssistantPage: React.FC<{ onRouteClick: (r: BusRoute) => void }> = ({ onRo
       </div>
 
       <div className="p-4 border-t bg-gray-50 shrink-0 pb-20 md:pb-4">
+        {messages.length > 1 && (
+          <div className="flex items-center justify-between mb-2 px-1 text-[11px] text-gray-500">
+            <span className="truncate font-bold">
+              {(dialog.from || dialog.to) && `${endpointName(dialog.from ?? null) || '?'} → ${endpointName(dialog.to ?? null) || '?'}`}
+              {dialog.preference && ` · ${PREFERENCE_LABELS[dialog.preference]}`}
+            </span>
+            <button
+              onClick={resetConversation}
+              disabled={isTyping}
+              className="flex items-center space-x-1 font-bold text-yellow-700 hover:text-yellow-800 shrink-0 disabled:opacity-50"
+            >
+              <RotateCcw size={12} />
+              <span>စကားဝိုင်းအသစ်</span>
+            </button>
+          </div>
+        )}
         <div className="relative flex items-center space-x-2">
           <input 
             type="text" 
@@ -1037,7 +1594,7 @@ const AssistantPage: React.FC<{ onRouteClick: (r: BusRoute) => void }> = ({ onRo
             onKeyPress={(e) => e.key === 'Enter' && handleSend()}
           />
           <button 
-            onClick={handleSend}
+            onClick={() => handleSend()}
             disabled={!input.trim() || isTyping}
             className="p-4 bg-yellow-600 text-white rounded-2xl shadow-lg hover:bg-yellow-700 active:scale-95 transition-all disabled:opacity-50"
           >
@@ -1049,22 +1606,23 @@ const AssistantPage: React.FC<{ onRouteClick: (r: BusRoute) => void }> = ({ onRo
   );
 };
 
-const StopDetailPage: React.FC<{ stop: BusStop, onClose: () => void }> = ({ stop, onClose }) => {
+const StopDetailPage: React.FC<{
+  stop: BusStop,
+  onClose: () => void,
+  isFavorite: boolean,
+  onToggleFavorite: () => void
+}> = ({ stop, onClose, isFavorite, onToggleFavorite }) => {
   const [passingRoutes, setPassingRoutes] = useState<BusRoute[]>([]);
 
   useEffect(() => {
-    db.busRoutes.toArray().then(routes => {
-      const filtered = routes.filter(r => r.stops.includes(stop.name_mm));
-      setPassingRoutes(filtered);
-    });
+    db.busRoutes.where('stops').equals(stop.id).toArray().then(setPassingRoutes);
   }, [stop]);
 
   useEffect(() => {
     const mapContainer = document.getElementById('stop-map');
-    if (mapContainer && (window as any).L) {
-      const L = (window as any).L;
+    if (mapContainer) {
       const map = L.map('stop-map').setView([stop.lat, stop.lng], 16);
-      L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png').addTo(map);
+      createTileLayer().addTo(map);
       L.marker([stop.lat, stop.lng]).addTo(map).bindPopup(stop.name_mm).openPopup();
       return () => map.remove();
     }
@@ -1075,7 +1633,10 @@ const StopDetailPage: React.FC<{ stop: BusStop, onClose: () => void }> = ({ stop
       <div className="bg-white w-full h-full md:max-w-2xl md:h-auto md:max-h-[90vh] flex flex-col md:rounded-3xl md:shadow-2xl overflow-hidden animate-in slide-in-from-bottom-10 duration-300">
         <div className="p-4 flex items-center justify-between border-b border-gray-100 shrink-0">
           <h3 className="text-lg font-bold truncate">{stop.name_mm} ({stop.name_en})</h3>
-          <button onClick={onClose} className="p-2 bg-gray-100 hover:bg-gray-200 rounded-full transition-colors"><X size={20}/></button>
+          <div className="flex items-center space-x-2 shrink-0">
+            <FavoriteButton isFavorite={isFavorite} onToggle={onToggleFavorite} />
+            <button onClick={onClose} className="p-2 bg-gray-100 hover:bg-gray-200 rounded-full transition-colors"><X size={20}/></button>
+          </div>
         </div>
         <div id="stop-map" className="w-full h-64 md:h-80 bg-gray-200 shrink-0"></div>
         <div className="p-6 flex-1 overflow-y-auto space-y-8 pb-24 md:pb-8">
@@ -1100,7 +1661,19 @@ const StopDetailPage: React.FC<{ stop: BusStop, onClose: () => void }> = ({ stop
   );
 };
 
-const RouteDetailPage: React.FC<{ route: BusRoute, onClose: () => void, onStopClick: (s: BusStop) => void }> = ({ route, onClose, onStopClick }) => {
+const RouteDetailPage: React.FC<{
+  route: BusRoute,
+  onClose: () => void,
+  onStopClick: (s: BusStop) => void,
+  isFavorite: boolean,
+  onToggleFavorite: () => void
+}> = ({ route, onClose, onStopClick, isFavorite, onToggleFavorite }) => {
+  const [routeStops, setRouteStops] = useState<BusStop[]>([]);
+
+  useEffect(() => {
+    db.busStops.bulkGet(route.stops).then(found => setRouteStops(found.filter((s): s is BusStop => !!s)));
+  }, [route]);
+
   return (
     <div className="fixed inset-0 z-[60] flex md:items-center justify-center md:p-8 overflow-hidden bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
       <div className="bg-white w-full h-full md:max-w-2xl md:h-[90vh] flex flex-col md:rounded-3xl md:shadow-2xl overflow-hidden animate-in slide-in-from-bottom-10 duration-300">
@@ -1111,38 +1684,39 @@ const RouteDetailPage: React.FC<{ route: BusRoute, onClose: () => void, onStopCl
              {route.operator && <OperatorBadge name={route.operator} />}
              <h3 className="font-bold text-gray-800">လမ်းကြောင်းအသေးစိတ်</h3>
           </div>
+          <div className="flex-1"></div>
+          <FavoriteButton isFavorite={isFavorite} onToggle={onToggleFavorite} />
         </div>
         
         <div className="p-6 flex-1 overflow-y-auto space-y-6 pb-24 md:pb-10 bg-white">
+           {route.name && <p className="text-lg font-black text-gray-800">{route.name}</p>}
            <div className="flex items-center justify-between border-b border-gray-50 pb-4">
              <div>
                <h4 className="text-xs text-gray-400 font-black uppercase tracking-widest">စုစုပေါင်းမှတ်တိုင်</h4>
                <p className="text-3xl font-black text-gray-900">{route.stops.length} ခု</p>
              </div>
              <div className="flex flex-col items-end text-sm font-bold text-gray-400">
-               <span className="text-gray-900 font-black text-right">{route.stops[0]}</span>
+               <span className="text-gray-900 font-black text-right">{routeStops[0]?.name_mm}</span>
                <div className="h-6 w-px bg-gray-200 my-1.5 mr-4"></div>
-               <span className="text-gray-900 font-black text-right">{route.stops[route.stops.length-1]}</span>
+               <span className="text-gray-900 font-black text-right">{routeStops[routeStops.length-1]?.name_mm}</span>
              </div>
            </div>
            
            <div className="space-y-1">
              <p className="text-xs text-gray-400 font-black uppercase tracking-widest mb-4">မှတ်တိုင်စာရင်း (တည်နေရာကြည့်ရန် နှိပ်ပါ)</p>
              <div className="space-y-0.5">
-               {route.stops.map((sName, idx) => (
+               {routeStops.map((stop, idx) => (
                  <div 
                     key={idx} 
                     className="flex items-start space-x-4 group cursor-pointer"
-                    onClick={() => {
-                       db.busStops.where('name_mm').equals(sName).first().then(s => s && onStopClick(s));
-                    }}
+                    onClick={() => onStopClick(stop)}
                  >
                    <div className="flex flex-col items-center mt-1.5 shrink-0">
-                      <div className={`w-3.5 h-3.5 rounded-full border-2 border-white shadow-sm ${idx === 0 || idx === route.stops.length-1 ? 'scale-125 ring-2 ring-offset-1' : ''}`} style={{ backgroundColor: route.color }}></div>
+                      <div className={`w-3.5 h-3.5 rounded-full border-2 border-white shadow-sm ${idx === 0 || idx === routeStops.length-1 ? 'scale-125 ring-2 ring-offset-1' : ''}`} style={{ backgroundColor: route.color }}></div>
                       <div className="w-0.5 h-12 bg-gray-100 group-last:bg-transparent"></div>
                    </div>
                    <div className="pb-4 border-b border-gray-50 w-full group-hover:bg-yellow-50 transition-all rounded-xl px-3 -ml-2 flex items-center justify-between">
-                     <span className="text-[17px] font-bold text-gray-700 group-hover:text-yellow-700">{sName}</span>
+                     <span className="text-[17px] font-bold text-gray-700 group-hover:text-yellow-700">{stop.name_mm}</span>
                      <MapIcon size={16} className="text-gray-300 group-hover:text-yellow-500 opacity-0 group-hover:opacity-100 transition-all" />
                    </div>
                  </div>
@@ -1155,25 +1729,113 @@ const RouteDetailPage: React.FC<{ route: BusRoute, onClose: () => void, onStopCl
   );
 };
 
-const StopsPage: React.FC<{ stops: BusStop[], onStopClick: (s: BusStop) => void }> = ({ stops, onStopClick }) => {
-  const [search, setSearch] = useState('');
-  const filtered = stops.filter(s => {
-    const term = search.toLowerCase();
-    return (
-      s.name_mm.toLowerCase().includes(term) ||
-      s.name_en.toLowerCase().includes(term) ||
-      s.township_mm.toLowerCase().includes(term) ||
-      s.township_en.toLowerCase().includes(term) ||
-      s.road_mm.toLowerCase().includes(term) ||
-      s.road_en.toLowerCase().includes(term)
-    );
-  });
+// Closing a detail page returns to wherever it was opened from, or to the list
+// when it was opened cold from a shared link.
+const useGoBack = (fallback: string) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  return useCallback(() => {
+    if (location.key === 'default') navigate(fallback);
+    else navigate(-1);
+  }, [navigate, location.key, fallback]);
+};
 
-  return (
-    <div className="max-w-5xl mx-auto p-4 md:p-8 h-full flex flex-col space-y-6">
-      <div className="relative shrink-0 max-w-xl mx-auto w-full">
-        <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
-        <input 
+// Follows the browser's idea of whether there is a connection.
+const useOnline = () => {
+  const [online, setOnline] = useState(navigator.onLine);
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+  return online;
+};
+
+const NotFoundMessage: React.FC<{ message: string, onClose: () => void }> = ({ message, onClose }) => (
+  <div className="text-center py-24 space-y-6">
+    <p className="text-gray-400 font-black text-2xl">{message}</p>
+    <button onClick={onClose} className="px-6 py-3 rounded-2xl font-black bg-yellow-600 text-white hover:bg-yellow-700 transition-all">နောက်သို့</button>
+  </div>
+);
+
+const RouteDetailRoute: React.FC<{
+  onStopClick: (s: BusStop) => void,
+  favorites: Set<string>,
+  onToggleFavorite: (routeId: string) => void
+}> = ({ onStopClick, favorites, onToggleFavorite }) => {
+  const { routeId = '' } = useParams();
+  const [route, setRoute] = useState<BusRoute | null | undefined>(undefined);
+  const goBack = useGoBack('/routes');
+
+  useEffect(() => {
+    db.busRoutes.get(routeId).then(found => {
+      setRoute(found || null);
+      if (found) recordRouteView(found.id);
+    });
+  }, [routeId]);
+
+  if (route === undefined) return null;
+  if (!route) return <NotFoundMessage message="လိုင်း မတွေ့ပါ။" onClose={goBack} />;
+  return (
+    <RouteDetailPage
+      route={route}
+      onClose={goBack}
+      onStopClick={onStopClick}
+      isFavorite={favorites.has(route.id)}
+      onToggleFavorite={() => onToggleFavorite(route.id)}
+    />
+  );
+};
+
+const StopDetailRoute: React.FC<{
+  favorites: Set<number>,
+  onToggleFavorite: (stopId: number) => void
+}> = ({ favorites, onToggleFavorite }) => {
+  const { stopId } = useParams();
+  const [stop, setStop] = useState<BusStop | null | undefined>(undefined);
+  const goBack = useGoBack('/stops');
+
+  useEffect(() => {
+    const id = Number(stopId);
+    if (!Number.isInteger(id)) {
+      setStop(null);
+      return;
+    }
+    db.busStops.get(id).then(found => {
+      setStop(found || null);
+      if (found) recordStop(found.id);
+    });
+  }, [stopId]);
+
+  if (stop === undefined) return null;
+  if (!stop) return <NotFoundMessage message="မှတ်တိုင် မတွေ့ပါ။" onClose={goBack} />;
+  return (
+    <StopDetailPage
+      stop={stop}
+      onClose={goBack}
+      isFavorite={favorites.has(stop.id)}
+      onToggleFavorite={() => onToggleFavorite(stop.id)}
+    />
+  );
+};
+
+const StopsPage: React.FC<{ stops: BusStop[], routes: BusRoute[], onStopClick: (s: BusStop) => void }> = ({ stops, routes, onStopClick }) => {
+  const [search, setSearch] = useState('');
+  const searchIndex = useMemo(() => buildStopSearchIndex(stops, routes), [stops, routes]);
+  const filtered = useMemo(
+    () => (search.trim() ? searchStops(searchIndex, search, stops.length) : stops),
+    [search, searchIndex, stops]
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto p-4 md:p-8 h-full flex flex-col space-y-6">
+      <div className="relative shrink-0 max-w-xl mx-auto w-full">
+        <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
+        <input 
           type="text" 
           placeholder="မှတ်တိုင်ရှာရန်..." 
           className="w-full pl-12 pr-4 py-4 rounded-2xl border border-gray-200 md:text-lg focus:outline-none focus:ring-2 focus:ring-yellow-500 shadow-sm"
@@ -1210,25 +1872,130 @@ const StopsPage: React.FC<{ stops: BusStop[], onStopClick: (s: BusStop) => void
   );
 };
 
+const FavoritesPage: React.FC<{
+  favorites: FavoriteIds,
+  stops: BusStop[],
+  routes: BusRoute[],
+  onRouteClick: (r: BusRoute) => void,
+  onStopClick: (s: BusStop) => void,
+  onToggleRoute: (routeId: string) => void,
+  onToggleStop: (stopId: number) => void
+}> = ({ favorites, stops, routes, onRouteClick, onStopClick, onToggleRoute, onToggleStop }) => {
+  const stopMap = useMemo(() => new Map(stops.map(s => [s.id, s])), [stops]);
+  const favoriteRoutes = useMemo(() => routes.filter(r => favorites.routes.has(r.id)), [routes, favorites]);
+  const favoriteStops = useMemo(() => stops.filter(s => favorites.stops.has(s.id)), [stops, favorites]);
+  const routesByStop = useMemo(() => {
+    const byStop = new Map<number, BusRoute[]>();
+    routes.forEach(r => new Set<number>(r.stops).forEach(id => {
+      if (favorites.stops.has(id)) byStop.set(id, [...(byStop.get(id) || []), r]);
+    }));
+    return byStop;
+  }, [routes, favorites]);
+
+  return (
+    <div className="max-w-5xl mx-auto p-4 md:p-8 space-y-8 pb-24 md:pb-8">
+      <div className="space-y-4">
+        <p className="text-xs text-gray-400 uppercase tracking-widest font-black">သိမ်းထားသော လိုင်းများ ({favoriteRoutes.length})</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4">
+          {favoriteRoutes.map(route => (
+            <div
+              key={route.id}
+              onClick={() => onRouteClick(route)}
+              className="bg-white p-4 rounded-2xl border border-gray-100 shadow-sm flex items-center justify-between cursor-pointer hover:shadow-md hover:border-yellow-100 transition-all border-l-4"
+              style={{ borderLeftColor: route.color }}
+            >
+              <div className="flex items-center space-x-4 overflow-hidden">
+                <RouteBadge routeId={route.id} color={route.color} size="sm" />
+                <div className="flex items-center gap-x-2 font-bold text-gray-800 truncate">
+                  <span className="truncate">{stopMap.get(route.stops[0])?.name_mm}</span>
+                  <ArrowRight size={14} className="text-gray-300 shrink-0" />
+                  <span className="truncate">{stopMap.get(route.stops[route.stops.length - 1])?.name_mm}</span>
+                </div>
+              </div>
+              <FavoriteButton isFavorite onToggle={() => onToggleRoute(route.id)} />
+            </div>
+          ))}
+          {favoriteRoutes.length === 0 && (
+            <div className="text-center py-10 text-gray-400 col-span-full">လိုင်းများကို ကြယ်ပွင့်နှိပ်၍ သိမ်းနိုင်ပါသည်။</div>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <p className="text-xs text-gray-400 uppercase tracking-widest font-black">သိမ်းထားသော မှတ်တိုင်များ ({favoriteStops.length})</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4">
+          {favoriteStops.map(stop => {
+            const passing = routesByStop.get(stop.id) || [];
+            return (
+              <div
+                key={stop.id}
+                onClick={() => onStopClick(stop)}
+                className="bg-white p-4 rounded-2xl border border-gray-100 shadow-sm cursor-pointer hover:shadow-md hover:border-yellow-100 transition-all space-y-3"
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3 overflow-hidden">
+                    <div className="bg-yellow-50 p-2 rounded-full text-yellow-500 shrink-0">
+                      <MapPin size={18} />
+                    </div>
+                    <div className="overflow-hidden">
+                      <p className="font-bold text-gray-800 truncate">{stop.name_mm}</p>
+                      <p className="text-xs text-gray-400 font-medium truncate">{stop.road_mm}၊ {stop.township_mm}</p>
+                    </div>
+                  </div>
+                  <FavoriteButton isFavorite onToggle={() => onToggleStop(stop.id)} />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {passing.map(r => (
+                    <RouteBadge
+                      key={r.id}
+                      routeId={r.id}
+                      color={r.color}
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onRouteClick(r);
+                      }}
+                    />
+                  ))}
+                  {passing.length === 0 && <span className="text-xs text-gray-400">ဖြတ်သန်းသွားသော လိုင်း မရှိပါ</span>}
+                </div>
+              </div>
+            );
+          })}
+          {favoriteStops.length === 0 && (
+            <div className="text-center py-10 text-gray-400 col-span-full">မှတ်တိုင်များကို ကြယ်ပွင့်နှိပ်၍ သိမ်းနိုင်ပါသည်။</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const FindRoutePage: React.FC<{ onRouteClick: (r: BusRoute) => void }> = ({ onRouteClick }) => {
+  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const lastSearchRef = useRef('');
   const [stops, setStops] = useState<BusStop[]>([]);
-  const [start, setStart] = useState('');
-  const [end, setEnd] = useState('');
+  const [routes, setRoutes] = useState<BusRoute[]>([]);
+  const [start, setStart] = useState<JourneyEndpoint | null>(null);
+  const [end, setEnd] = useState<JourneyEndpoint | null>(null);
   const [results, setResults] = useState<SearchResult[]>([]);
+  const [preferredIndex, setPreferredIndex] = useState(-1);
+  const [savedIndexes, setSavedIndexes] = useState<Set<number>>(new Set());
+  const [shareIndex, setShareIndex] = useState<number | null>(null);
+  const [shareMessage, setShareMessage] = useState<{ index: number; text: string } | null>(null);
+  const [mapIndex, setMapIndex] = useState<number | null>(null);
   const [searching, setSearching] = useState(false);
   const [locating, setLocating] = useState(false);
   const [mapPickerTarget, setMapPickerTarget] = useState<'start' | 'end' | null>(null);
 
   useEffect(() => {
     db.busStops.toArray().then(setStops);
+    db.busRoutes.toArray().then(setRoutes);
   }, []);
 
-  const allStopNames = useMemo(() => {
-    const names = new Set<string>();
-    stops.forEach(s => names.add(s.name_mm));
-    INITIAL_ROUTES.forEach(r => r.stops.forEach(s => names.add(s)));
-    return Array.from(names).sort((a, b) => a.localeCompare(b, 'my'));
-  }, [stops]);
+  const searchIndex = useMemo(() => buildStopSearchIndex(stops, routes), [stops, routes]);
+  const placeIndex = useMemo(() => buildPlaceIndex(), []);
 
   const handleUseCurrentLocation = () => {
     if (!navigator.geolocation) {
@@ -1240,23 +2007,7 @@ const FindRoutePage: React.FC<{ onRouteClick: (r: BusRoute) => void }> = ({ onRo
     navigator.geolocation.getCurrentPosition(
       (position) => {
         const { latitude, longitude } = position.coords;
-        if (stops.length === 0) {
-          setLocating(false);
-          return;
-        }
-        
-        let nearestStop = stops[0];
-        let minDistance = getDistance(latitude, longitude, stops[0].lat, stops[0].lng);
-
-        stops.forEach(s => {
-          const dist = getDistance(latitude, longitude, s.lat, s.lng);
-          if (dist < minDistance) {
-            minDistance = dist;
-            nearestStop = s;
-          }
-        });
-
-        setStart(nearestStop.name_mm);
+        setStart({ kind: 'point', point: { lat: latitude, lng: longitude, label: 'ကျွန်ုပ်၏တည်နေရာ' } });
         setLocating(false);
       },
       (error) => {
@@ -1268,21 +2019,112 @@ const FindRoutePage: React.FC<{ onRouteClick: (r: BusRoute) => void }> = ({ onRo
     );
   };
 
-  const handleSearch = useCallback(async () => {
-    const sTerm = start.trim();
-    const eTerm = end.trim();
-    if (!sTerm || !eTerm) return;
-    
+  // Every search is mirrored into ?from=&to= so the page can be bookmarked or shared.
+  const showInUrl = useCallback((from: JourneyEndpoint, to: JourneyEndpoint) => {
+    const params = { from: endpointParam(from), to: endpointParam(to) };
+    lastSearchRef.current = `${params.from}>${params.to}`;
+    setSearchParams(params, { replace: true });
+  }, [setSearchParams]);
+
+  const runSearch = useCallback(async (from: JourneyEndpoint, to: JourneyEndpoint) => {
+    if (from.kind === 'stop' && to.kind === 'stop') recordTripSearch(from.stop.id, to.stop.id);
+    showInUrl(from, to);
     setSearching(true);
-    const found = await performBFS(sTerm, eTerm);
-    setResults(found);
-    setSearching(false);
-  }, [start, end]);
+    setPreferredIndex(-1);
+    setSavedIndexes(new Set());
+    setShareIndex(null);
+    setShareMessage(null);
+    setMapIndex(null);
+    try {
+      setResults(await findJourneysBetween(from, to));
+    } catch (error) {
+      // Shows the no-route message rather than the previous search's results.
+      console.error('Journey search failed:', error);
+      setResults([]);
+    } finally {
+      setSearching(false);
+    }
+  }, [showInUrl]);
 
+  // Opened from a link, a recent search on Home or a long-press on the map:
+  // fill in whichever ends are given and plan straight away once both are.
+  useEffect(() => {
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+    if (!fromParam && !toParam) return;
+    if (`${fromParam}>${toParam}` === lastSearchRef.current) return;
+    lastSearchRef.current = `${fromParam}>${toParam}`;
+    Promise.all([parseEndpointParam(fromParam), parseEndpointParam(toParam)]).then(([from, to]) => {
+      if (from) setStart(from);
+      if (to) setEnd(to);
+      if (from && to) runSearch(from, to);
+    });
+  }, [searchParams, runSearch]);
+
+  // Opened from a saved trip on the Home page.
+  useEffect(() => {
+    const { tripId, reverse } = (location.state || {}) as { tripId?: number, reverse?: boolean };
+    if (tripId === undefined) return;
+    const openTrip = async () => {
+      const saved = await db.savedTrips.get(tripId);
+      if (!saved) return;
+      const trip = reverse ? reverseTrip(saved) : saved;
+      const [from, to] = await Promise.all([loadSavedEndpoint(trip.from), loadSavedEndpoint(trip.to)]);
+      setStart(from);
+      setEnd(to);
+      if (from && to) showInUrl(from, to);
+      setSearching(true);
+      setSavedIndexes(new Set());
+      setShareIndex(null);
+      setShareMessage(null);
+      setMapIndex(null);
+      try {
+        const { results: found, preferredIndex: preferred } = await runSavedTrip(trip);
+        setResults(found);
+        setPreferredIndex(preferred);
+      } catch (error) {
+        console.error('Journey search failed:', error);
+        setResults([]);
+        setPreferredIndex(-1);
+      } finally {
+        setSearching(false);
+      }
+    };
+    openTrip();
+  }, [location.state, showInUrl]);
+
+  const handleSearch = useCallback(async () => {
+    if (!start || !end) return;
+    await runSearch(start, end);
+  }, [start, end, runSearch]);
+
+  // Swapping with results on screen plans the return trip right away.
   const handleSwap = () => {
     const temp = start;
     setStart(end);
     setEnd(temp);
+    if (start && end && results.length > 0) runSearch(end, start);
+  };
+
+  const handleShare = async (result: SearchResult, index: number, kind: ShareKind) => {
+    try {
+      const outcome = await shareJourney(result, kind);
+      if (outcome === 'copied') setShareMessage({ index, text: 'ကူးယူပြီးပါပြီ' });
+      else if (outcome === 'downloaded') setShareMessage({ index, text: 'ပုံကို ဒေါင်းလုဒ်လုပ်ပြီးပါပြီ' });
+      else setShareMessage(null);
+      if (outcome !== 'cancelled') setShareIndex(null);
+    } catch (error) {
+      console.error('Share failed:', error);
+      setShareMessage({ index, text: 'မျှဝေ၍ မရပါ' });
+    }
+  };
+
+  const handleSaveTrip = async (result: SearchResult, index: number) => {
+    if (!start || !end) return;
+    const label = window.prompt('ခရီးစဉ်အမည် ပေးပါ', `${endpointName(start)} → ${endpointName(end)}`);
+    if (label === null || !label.trim()) return;
+    await saveTripFromResult(result, label);
+    setSavedIndexes(prev => new Set(prev).add(index));
   };
 
   return (
@@ -1293,7 +2135,9 @@ const FindRoutePage: React.FC<{ onRouteClick: (r: BusRoute) => void }> = ({ onRo
             label="စတင်မည့်မှတ်တိုင်"
             value={start}
             onChange={setStart}
-            allNames={allStopNames}
+            stops={stops}
+            searchIndex={searchIndex}
+            placeIndex={placeIndex}
             placeholder="ရှာရန်..."
             indicatorColor="bg-green-500"
             icon={
@@ -1329,7 +2173,9 @@ const FindRoutePage: React.FC<{ onRouteClick: (r: BusRoute) => void }> = ({ onRo
             label="ဆင်းမည့်မှတ်တိုင်"
             value={end}
             onChange={setEnd}
-            allNames={allStopNames}
+            stops={stops}
+            searchIndex={searchIndex}
+            placeIndex={placeIndex}
             placeholder="ရှာရန်..."
             indicatorColor="bg-red-500"
             icon={
@@ -1357,7 +2203,8 @@ const FindRoutePage: React.FC<{ onRouteClick: (r: BusRoute) => void }> = ({ onRo
         <MapSelectionModal 
           stops={stops}
           title={mapPickerTarget === 'start' ? 'စတင်မည့်မှတ်တိုင် ရွေးချယ်ပါ' : 'ဆင်းမည့်မှတ်တိုင် ရွေးချယ်ပါ'}
-          onSelect={(stop) => mapPickerTarget === 'start' ? setStart(stop.name_mm) : setEnd(stop.name_mm)}
+          onSelect={(stop) => (mapPickerTarget === 'start' ? setStart : setEnd)({ kind: 'stop', stop })}
+          onSelectPoint={(point) => (mapPickerTarget === 'start' ? setStart : setEnd)({ kind: 'point', point })}
           onClose={() => setMapPickerTarget(null)}
         />
       )}
@@ -1367,27 +2214,59 @@ const FindRoutePage: React.FC<{ onRouteClick: (r: BusRoute) => void }> = ({ onRo
           <div key={i} className="bg-white p-6 rounded-3xl border border-gray-100 shadow-sm space-y-6 hover:shadow-md transition-all">
             <div className="flex items-center justify-between">
                <div className="flex items-center space-x-3 overflow-x-auto pb-1 no-scrollbar">
+                  {res.access && (
+                    <>
+                      <WalkBadge minutes={res.access.minutes} />
+                      <ChevronRight size={14} className="text-gray-300 shrink-0" />
+                    </>
+                  )}
                   {res.steps.map((step, idx) => (
                     <React.Fragment key={idx}>
-                      <RouteBadge routeId={step.route.id} color={step.route.color} size="sm" onClick={() => onRouteClick(step.route)} />
-                      {idx < res.steps.length - 1 && <ChevronRight size={14} className="text-gray-300 shrink-0" />}
+                      {step.type === 'ride' ? (
+                        <RouteBadge routeId={step.route.id} color={step.route.color} size="sm" onClick={() => onRouteClick(step.route)} />
+                      ) : (
+                        <WalkBadge minutes={step.minutes} />
+                      )}
+                      {(idx < res.steps.length - 1 || res.egress) && <ChevronRight size={14} className="text-gray-300 shrink-0" />}
                     </React.Fragment>
                   ))}
+                  {res.egress && <WalkBadge minutes={res.egress.minutes} />}
                </div>
-               <div className={`shrink-0 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${
-                 res.transferCount === 0 ? 'bg-green-100 text-green-700' : 
-                 res.transferCount === 1 ? 'bg-orange-100 text-orange-700' : 'bg-red-100 text-red-700'
-               }`}>
-                 {res.transferCount === 0 ? 'တိုက်ရိုက်' : `${res.transferCount} ဆင့်ပြောင်း`}
+               <div className="flex items-center space-x-2 shrink-0">
+                 {i === preferredIndex && (
+                   <div className="px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest bg-yellow-100 text-yellow-700">ပုံမှန်စီးသည်</div>
+                 )}
+                 <div className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${
+                   res.transferCount === 0 ? 'bg-green-100 text-green-700' : 
+                   res.transferCount === 1 ? 'bg-orange-100 text-orange-700' : 'bg-red-100 text-red-700'
+                 }`}>
+                   {res.transferCount === 0 ? 'တိုက်ရိုက်' : `${res.transferCount} ဆင့်ပြောင်း`}
+                 </div>
+                 <button
+                   onClick={() => setMapIndex(mapIndex === i ? null : i)}
+                   className={`p-2 rounded-full transition-colors ${mapIndex === i ? 'bg-yellow-600 text-white' : 'bg-gray-50 text-gray-400 hover:bg-yellow-50 hover:text-yellow-600'}`}
+                 >
+                   <MapIcon size={16} />
+                 </button>
+                 <button
+                   onClick={() => handleSaveTrip(res, i)}
+                   disabled={savedIndexes.has(i)}
+                   className="p-2 rounded-full bg-gray-50 text-gray-400 hover:bg-yellow-50 hover:text-yellow-600 disabled:text-yellow-600 transition-colors"
+                 >
+                   <Bookmark size={16} className={savedIndexes.has(i) ? 'fill-current' : ''} />
+                 </button>
                </div>
             </div>
 
+            {mapIndex === i && <JourneyMap result={res} stops={stops} routes={routes} />}
+
             <div className="space-y-4">
-               {res.steps.map((step, idx) => (
+               {res.access && <PointWalkStep walk={res.access} leg="access" />}
+               {res.steps.map((step, idx) => step.type === 'ride' ? (
                  <div key={idx} className="flex items-start space-x-4">
                     <div className="flex flex-col items-center mt-1 shrink-0">
                        <div className="w-2.5 h-2.5 rounded-full border-2 border-white shadow-sm" style={{ backgroundColor: step.route.color }}></div>
-                       {idx < res.steps.length && <div className="w-0.5 h-12 bg-gray-100"></div>}
+                       {(idx < res.steps.length - 1 || !!res.egress) && <div className="w-0.5 h-12 bg-gray-100"></div>}
                     </div>
                     <div className="flex-1 pb-2">
                        <div className="text-sm font-bold text-gray-800 flex items-center space-x-2">
@@ -1396,12 +2275,67 @@ const FindRoutePage: React.FC<{ onRouteClick: (r: BusRoute) => void }> = ({ onRo
                           {step.route.operator && <OperatorBadge name={step.route.operator} />}
                        </div>
                        <div className="mt-1 text-[13px] text-gray-500 font-medium">
-                          <span className="text-yellow-600 font-bold">{step.fromStop}</span> မှတ်တိုင်မှ <span className="text-yellow-600 font-bold">{step.toStop}</span> မှတ်တိုင်အထိ စီးပါ။
+                          <span className="text-yellow-600 font-bold">{step.fromStop.name_mm}</span> မှတ်တိုင်မှ <span className="text-yellow-600 font-bold">{step.toStop.name_mm}</span> မှတ်တိုင်အထိ စီးပါ။
+                       </div>
+                       <div className="mt-1 text-[11px] text-gray-400 font-bold">ကြားမှတ်တိုင် {step.intermediateStops} ခု</div>
+                    </div>
+                 </div>
+               ) : (
+                 <div key={idx} className="flex items-start space-x-4">
+                    <div className="flex flex-col items-center mt-1 shrink-0">
+                       <div className="w-2.5 h-2.5 rounded-full border-2 border-dashed border-gray-400 bg-white"></div>
+                       {(idx < res.steps.length - 1 || !!res.egress) && <div className="w-0.5 h-12 border-l-2 border-dashed border-gray-200"></div>}
+                    </div>
+                    <div className="flex-1 pb-2">
+                       <div className="text-sm font-bold text-gray-800 flex items-center space-x-2">
+                          <span className="bg-gray-100 px-2 py-0.5 rounded text-[11px]">လမ်းလျှောက်ရန်</span>
+                          <span>{step.metres}m</span>
+                          <span className="text-gray-400 text-[11px]">~{step.minutes} မိနစ်</span>
+                       </div>
+                       <div className="mt-1 text-[13px] text-gray-500 font-medium">
+                          <span className="text-yellow-600 font-bold">{step.fromStop.name_mm}</span> မှတ်တိုင်မှ <span className="text-yellow-600 font-bold">{step.toStop.name_mm}</span> မှတ်တိုင်သို့ လမ်းလျှောက်ပါ။
                        </div>
                     </div>
                  </div>
                ))}
+               {res.egress && <PointWalkStep walk={res.egress} leg="egress" />}
             </div>
+
+            <div className="flex items-center justify-between border-t border-gray-50 pt-4 text-[11px] font-bold text-gray-400">
+               <div className="flex items-center space-x-4">
+                 <span>မှတ်တိုင် {res.totalStops} ခု</span>
+                 <span>{res.totalDistance.toFixed(1)} km</span>
+                 {res.totalWalk > 0 && <span>လမ်းလျှောက် {res.totalWalk}m</span>}
+               </div>
+               <div className="flex items-center space-x-2">
+                 {shareIndex === i && ([
+                   { kind: 'text' as ShareKind, icon: FileText, label: 'စာသား' },
+                   { kind: 'image' as ShareKind, icon: ImageIcon, label: 'ပုံ' },
+                   { kind: 'link' as ShareKind, icon: LinkIcon, label: 'လင့်ခ်' }
+                 ]).map(option => (
+                   <button
+                     key={option.kind}
+                     onClick={() => handleShare(res, i, option.kind)}
+                     className="flex items-center space-x-1 px-2 py-1.5 rounded-lg bg-yellow-50 text-yellow-700 hover:bg-yellow-100 transition-colors"
+                   >
+                     <option.icon size={12} />
+                     <span>{option.label}</span>
+                   </button>
+                 ))}
+                 <button
+                   onClick={() => {
+                     setShareIndex(shareIndex === i ? null : i);
+                     setShareMessage(null);
+                   }}
+                   className="p-2 rounded-full bg-gray-50 text-gray-400 hover:bg-yellow-50 hover:text-yellow-600 transition-colors"
+                 >
+                   <Share2 size={14} />
+                 </button>
+               </div>
+            </div>
+            {shareMessage?.index === i && (
+              <p className="text-[11px] font-bold text-green-600 text-right">{shareMessage.text}</p>
+            )}
           </div>
         ))}
 
@@ -1421,17 +2355,153 @@ const FindRoutePage: React.FC<{ onRouteClick: (r: BusRoute) => void }> = ({ onRo
   );
 };
 
-const SettingsPage: React.FC = () => {
-  const [status, setStatus] = useState<'idle' | 'updating' | 'done'>('idle');
+const ISSUE_LABELS: Record<DataIssueCode, string> = {
+  'load-failed': 'ဖိုင်ဖွင့်မရ',
+  'invalid-route-file': 'လမ်းကြောင်းဖိုင် ပုံစံမမှန်',
+  'duplicate-route-id': 'လမ်းကြောင်း ID ထပ်နေ',
+  'unknown-stop': 'မသိသော မှတ်တိုင် ID',
+  'duplicate-stop-id': 'မှတ်တိုင် ID ထပ်နေ',
+  'out-of-bounds': 'ရန်ကုန်နယ်နိမိတ်ပြင်ပ',
+  'shape-far-from-stops': 'လမ်းကြောင်းမျဉ်းနှင့် ဝေးနေ',
+  'empty-name': 'အမည်မရှိ',
+  'name-mismatch': 'အမည် ဘာသာမကိုက်',
+  'unused-stop': 'မသုံးသော မှတ်တိုင်'
+};
+
+const megabytes = (bytes: number) => `${(bytes / 1048576).toFixed(1)} MB`;
+
+const SettingsPage: React.FC<{ onDataUpdated: () => void }> = ({ onDataUpdated }) => {
+  const [status, setStatus] = useState<'idle' | 'updating' | 'done' | 'failed'>('idle');
+  const [installed, setInstalled] = useState<DatasetVersion | null>(null);
+  const [manifestUrl, setManifestUrlInput] = useState(getManifestUrl);
+  const [updateMessage, setUpdateMessage] = useState<string | null>(null);
+  const [historyCleared, setHistoryCleared] = useState(false);
+  const [assistantProvider, setAssistantProvider] = useState<AssistantProviderId>(getAssistantProviderId);
+  const [report, setReport] = useState<DataQualityReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [tileZooms, setTileZooms] = useState<number[]>([10, 11, 12, 13, 14]);
+  const [tileStorage, setTileStorage] = useState<TileStorage | null>(null);
+  const [tileProgress, setTileProgress] = useState<TileProgress | null>(null);
+  const [tileTask, setTileTask] = useState<'download' | 'import' | null>(null);
+  const [tileMessage, setTileMessage] = useState<string | null>(null);
+  const tileAbortRef = useRef<AbortController | null>(null);
+  const tileFileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    getInstalledDataset().then(setInstalled);
+    getTileStorage().then(setTileStorage);
+    return () => tileAbortRef.current?.abort();
+  }, []);
+
+  const checkDataQuality = async () => {
+    setIsChecking(true);
+    try {
+      const [files, stops] = await Promise.all([loadRouteFiles(), db.busStops.toArray()]);
+      setReport(validateDataset(files, stops));
+    } catch (error) {
+      console.error('Data quality check failed:', error);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleClearHistory = async () => {
+    if (!window.confirm('ရှာဖွေမှုမှတ်တမ်း အားလုံးကို ဖျက်မလား?')) return;
+    await clearHistory();
+    setHistoryCleared(true);
+    setTimeout(() => setHistoryCleared(false), 2000);
+  };
+
+  const chooseAssistant = (id: AssistantProviderId) => {
+    setAssistantProviderId(id);
+    setAssistantProvider(id);
+  };
+
+  const toggleTileZoom = (z: number) =>
+    setTileZooms(zooms => (zooms.includes(z) ? zooms.filter(v => v !== z) : [...zooms, z].sort((a, b) => a - b)));
+
+  const tileCount = countTiles(YANGON_BOUNDS, tileZooms);
+
+  const downloadMapTiles = async () => {
+    const controller = new AbortController();
+    tileAbortRef.current = controller;
+    setTileTask('download');
+    setTileMessage(null);
+    try {
+      const result = await downloadTiles(tileZooms, setTileProgress, controller.signal);
+      setTileMessage(controller.signal.aborted
+        ? 'ဒေါင်းလုဒ်ကို ရပ်လိုက်ပါပြီ'
+        : result.failed > 0
+          ? `မြေပုံအကွက် ${result.failed} ခု မရပါ – ထပ်နှိပ်၍ ကျန်တာကို ဆွဲပါ`
+          : `မြေပုံအကွက် ${result.total} ခု အဆင်သင့်ဖြစ်ပါပြီ`);
+    } catch (error) {
+      console.warn('Tile download failed:', error);
+      setTileMessage(error instanceof Error ? error.message : String(error));
+    }
+    tileAbortRef.current = null;
+    setTileTask(null);
+    setTileProgress(null);
+    setTileStorage(await getTileStorage());
+  };
+
+  const importMapTiles = async (file?: File) => {
+    if (!file) return;
+    setTileTask('import');
+    setTileMessage(null);
+    try {
+      const count = await importTilePack(file, setTileProgress);
+      setTileMessage(`${file.name} မှ မြေပုံအကွက် ${count} ခု ထည့်ပြီးပါပြီ`);
+    } catch (error) {
+      console.warn('Tile pack import failed:', error);
+      setTileMessage(`${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (tileFileRef.current) tileFileRef.current.value = '';
+    setTileTask(null);
+    setTileProgress(null);
+    setTileStorage(await getTileStorage());
+  };
+
+  const clearMapTiles = async () => {
+    if (!window.confirm('သိမ်းထားသော မြေပုံများ အားလုံးကို ဖျက်မလား?')) return;
+    await clearTiles();
+    setTileMessage(null);
+    setTileStorage(await getTileStorage());
+  };
+
+  const downloadReport = () => {
+    if (!report) return;
+    const url = URL.createObjectURL(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ybs-data-report-${report.generatedAt.slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
   const updateData = async () => {
     setStatus('updating');
-    await db.busStops.clear();
-    await db.busRoutes.clear();
-    await db.busStops.bulkAdd(INITIAL_STOPS);
-    await db.busRoutes.bulkAdd(INITIAL_ROUTES);
-    setStatus('done');
-    setTimeout(() => setStatus('idle'), 2000);
+    setUpdateMessage(null);
+    setManifestUrl(manifestUrl);
+    try {
+      const result = await applyDatasetUpdate(getManifestUrl());
+      if (result.status === 'rolled-back') {
+        setStatus('failed');
+        setUpdateMessage(`${result.version} စစ်ဆေးမှု မအောင်မြင်သဖြင့် ${result.installedVersion} သို့ ပြန်ထားပါသည်`);
+        setReport(result.report);
+      } else {
+        setStatus('done');
+        setUpdateMessage(result.status === 'up-to-date'
+          ? `နောက်ဆုံးဗားရှင်း (${result.version}) ဖြစ်ပြီးသားပါ`
+          : `${result.version} သို့ အဆင့်မြှင့်ပြီးပါပြီ – လမ်းကြောင်း ${result.changedRoutes.length} ခု၊ မှတ်တိုင် ${result.changedStops} ခု ပြောင်းလဲ`);
+        if (result.status === 'updated') onDataUpdated();
+        setTimeout(() => setStatus('idle'), 2000);
+      }
+    } catch (error) {
+      console.error('Dataset update failed:', error);
+      setStatus('failed');
+      setUpdateMessage(error instanceof Error ? error.message : String(error));
+    }
+    setInstalled(await getInstalledDataset());
   };
 
   return (
@@ -1440,8 +2510,8 @@ const SettingsPage: React.FC = () => {
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-gradient-to-br from-yellow-50 to-orange-50 rounded-3xl border border-yellow-100 overflow-hidden shadow-lg hover:shadow-xl transition-all duration-300">
-          {/* <div className="p-6"> */}
-            {/* <div className="flex items-center space-x-4 mb-6">
+          <div className="p-6">
+            <div className="flex items-center space-x-4 mb-6">
               <div className="bg-yellow-500 p-3 rounded-2xl text-white shadow-lg">
                 <RefreshCw size={24} />
               </div>
@@ -1449,38 +2519,246 @@ const SettingsPage: React.FC = () => {
                 <h3 className="font-black text-gray-800 text-xl">Offline Data Update</h3>
                 <p className="text-sm text-gray-600 font-medium">ဒေတာအသစ်များကို ဒေါင်းလုဒ်လုပ်ပါ</p>
               </div>
-            </div> */}
-{/* 
-            <div className="flex justify-center">
-              <button
-                onClick={updateData}
-                disabled={status === 'updating'}
-                className={`px-8 py-4 rounded-2xl font-black text-lg transition-all shadow-lg ${
-                  status === 'updating'
-                    ? 'bg-gray-200 text-gray-500 cursor-not-allowed'
-                    : 'bg-yellow-600 text-white hover:bg-yellow-700 active:scale-95 hover:shadow-xl'
-                }`}
-              >
-                {status === 'idle' && (
-                  <div className="flex items-center space-x-2">
-                    <RefreshCw size={20} />
-                    <span>Update Now</span>
+            </div>
+
+            <div className="space-y-4">
+              <div className="bg-white/60 backdrop-blur-sm rounded-2xl p-4 border border-white/20">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <p className="text-xs font-bold text-gray-500 uppercase tracking-wider">Dataset</p>
+                    <p className="text-lg font-black text-gray-800">{installed?.version ?? '...'}</p>
                   </div>
-                )}
-                {status === 'updating' && (
-                  <div className="flex items-center space-x-2">
-                    <RefreshCw className="animate-spin" size={20} />
-                    <span>Updating...</span>
+                  <div>
+                    <p className="text-xs font-bold text-gray-500 uppercase tracking-wider">Installed</p>
+                    <p className="text-sm font-bold text-gray-800">
+                      {installed && installed.installedAt > 0 ? new Date(installed.installedAt).toLocaleDateString() : '-'}
+                    </p>
                   </div>
+                </div>
+              </div>
+
+              <input
+                type="url"
+                value={manifestUrl}
+                onChange={e => setManifestUrlInput(e.target.value)}
+                placeholder={DEFAULT_MANIFEST_URL}
+                className="w-full px-4 py-3 rounded-2xl border border-yellow-200 bg-white text-sm font-medium focus:outline-none focus:ring-2 focus:ring-yellow-400"
+              />
+
+              {updateMessage && (
+                <p className={`text-sm font-medium ${status === 'failed' ? 'text-red-600' : 'text-gray-700'}`}>{updateMessage}</p>
+              )}
+
+              <div className="flex justify-center">
+                <button
+                  onClick={updateData}
+                  disabled={status === 'updating'}
+                  className={`px-8 py-4 rounded-2xl font-black text-lg transition-all shadow-lg ${
+                    status === 'updating'
+                      ? 'bg-gray-200 text-gray-500 cursor-not-allowed'
+                      : 'bg-yellow-600 text-white hover:bg-yellow-700 active:scale-95 hover:shadow-xl'
+                  }`}
+                >
+                  {status === 'updating' ? (
+                    <div className="flex items-center space-x-2">
+                      <RefreshCw className="animate-spin" size={20} />
+                      <span>Updating...</span>
+                    </div>
+                  ) : (
+                    <div className="flex items-center space-x-2">
+                      <RefreshCw size={20} />
+                      <span>Update Now</span>
+                    </div>
+                  )}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-sky-50 to-cyan-50 rounded-3xl border border-sky-100 overflow-hidden shadow-lg hover:shadow-xl transition-all duration-300">
+          <div className="p-6">
+            <div className="flex items-center space-x-4 mb-6">
+              <div className="bg-sky-500 p-3 rounded-2xl text-white shadow-lg">
+                <MapIcon size={24} />
+              </div>
+              <div>
+                <h3 className="font-black text-gray-800 text-xl">Offline Map</h3>
+                <p className="text-sm text-gray-600 font-medium">အင်တာနက်မရှိလည်း မြေပုံကြည့်နိုင်ရန် သိမ်းထားပါ</p>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div className="bg-white/60 backdrop-blur-sm rounded-2xl p-4 border border-white/20">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <p className="text-xs font-bold text-gray-500 uppercase tracking-wider">Tiles</p>
+                    <p className="text-lg font-black text-gray-800">{tileStorage?.tiles ?? '...'}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs font-bold text-gray-500 uppercase tracking-wider">Storage</p>
+                    <p className="text-lg font-black text-gray-800">{tileStorage ? megabytes(tileStorage.bytes) : '...'}</p>
+                  </div>
+                </div>
+                {tileStorage?.usage !== undefined && tileStorage.quota !== undefined && (
+                  <p className="mt-2 text-[11px] text-gray-500 font-medium">
+                    App စုစုပေါင်း {megabytes(tileStorage.usage)} / {megabytes(tileStorage.quota)} သုံးထားသည်
+                  </p>
                 )}
-                {status === 'done' && (
-                  <div className="flex items-center space-x-2">
-                    <span>✓ Completed!</span>
+              </div>
+
+              {TILE_DOWNLOAD_SERVER ? (
+                <div>
+                  <p className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Zoom</p>
+                  <div className="flex flex-wrap gap-2">
+                    {DOWNLOAD_ZOOMS.map(z => (
+                      <button
+                        key={z}
+                        onClick={() => toggleTileZoom(z)}
+                        disabled={tileTask !== null}
+                        className={`w-11 py-2 rounded-xl border text-sm font-black transition-all disabled:opacity-60 ${
+                          tileZooms.includes(z) ? 'bg-sky-500 border-sky-500 text-white shadow' : 'bg-white border-sky-100 text-gray-700 hover:bg-sky-50'
+                        }`}
+                      >
+                        <span>{z}</span>
+                        {tileStorage?.byZoom[z] ? <span className="block text-[9px] font-bold opacity-70">{tileStorage.byZoom[z]}</span> : null}
+                      </button>
+                    ))}
+                  </div>
+                  <p className={`mt-2 text-[11px] font-medium ${tileCount > TILE_DOWNLOAD_SERVER.maxTiles ? 'text-red-600' : 'text-gray-500'}`}>
+                    ရန်ကုန်မြို့ {tileCount} ကွက် (~{megabytes(tileCount * AVERAGE_TILE_BYTES)}) – တစ်ကြိမ်လျှင် {TILE_DOWNLOAD_SERVER.maxTiles} ကွက်အထိသာ
+                  </p>
+                  <p className="mt-1 text-[11px] text-gray-500 font-medium">
+                    {TILE_DOWNLOAD_SERVER.attribution} ·{' '}
+                    <a href={TILE_DOWNLOAD_SERVER.termsUrl} target="_blank" rel="noopener noreferrer" className="underline hover:text-sky-700">
+                      အသုံးပြုမှု စည်းကမ်းများ
+                    </a>
+                  </p>
+                </div>
+              ) : (
+                <p className="text-[11px] text-gray-500 font-medium">
+                  ဒေါင်းလုဒ်ခွင့်ပြုသော မြေပုံဆာဗာ မသတ်မှတ်ရသေးပါ။ MBTiles ဖိုင်ဖြင့် ထည့်နိုင်ပါသည်။
+                </p>
+              )}
+
+              {tileProgress && (
+                <div className="space-y-1">
+                  <div className="h-2 rounded-full bg-white overflow-hidden">
+                    <div className="h-full bg-sky-500 transition-all" style={{ width: `${tileProgress.total ? (tileProgress.done / tileProgress.total) * 100 : 0}%` }}></div>
                   </div>
+                  <p className="text-[11px] text-gray-500 font-bold">
+                    {tileProgress.done} / {tileProgress.total}{tileProgress.failed > 0 ? ` (${tileProgress.failed} မရ)` : ''}
+                  </p>
+                </div>
+              )}
+
+              {tileMessage && <p className="text-sm font-medium text-gray-700">{tileMessage}</p>}
+
+              <input
+                ref={tileFileRef}
+                type="file"
+                accept=".mbtiles"
+                className="hidden"
+                onChange={e => importMapTiles(e.target.files?.[0])}
+              />
+
+              <div className="flex flex-wrap justify-center gap-3">
+                {!TILE_DOWNLOAD_SERVER ? null : tileTask === 'download' ? (
+                  <button
+                    onClick={() => tileAbortRef.current?.abort()}
+                    className="px-6 py-3 rounded-2xl font-black bg-white text-sky-700 border border-sky-100 hover:bg-sky-50 active:scale-95 transition-all shadow-lg flex items-center space-x-2"
+                  >
+                    <X size={18} />
+                    <span>ရပ်ရန်</span>
+                  </button>
+                ) : (
+                  <button
+                    onClick={downloadMapTiles}
+                    disabled={tileTask !== null || tileZooms.length === 0 || tileCount > TILE_DOWNLOAD_SERVER.maxTiles}
+                    className="px-6 py-3 rounded-2xl font-black bg-sky-500 text-white hover:bg-sky-600 active:scale-95 transition-all shadow-lg disabled:opacity-50 flex items-center space-x-2"
+                  >
+                    <Download size={18} />
+                    <span>ဒေါင်းလုဒ်</span>
+                  </button>
                 )}
+                <button
+                  onClick={() => tileFileRef.current?.click()}
+                  disabled={tileTask !== null}
+                  className="px-6 py-3 rounded-2xl font-black bg-white text-sky-700 border border-sky-100 hover:bg-sky-50 active:scale-95 transition-all shadow-lg disabled:opacity-50 flex items-center space-x-2"
+                >
+                  {tileTask === 'import' ? <RefreshCw className="animate-spin" size={18} /> : <Upload size={18} />}
+                  <span>MBTiles ထည့်ရန်</span>
+                </button>
+                <button
+                  onClick={clearMapTiles}
+                  disabled={tileTask !== null || !tileStorage?.tiles}
+                  className="p-3 rounded-2xl bg-white text-red-600 border border-red-100 hover:bg-red-50 active:scale-95 transition-all shadow-lg disabled:opacity-50"
+                >
+                  <Trash2 size={18} />
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-gray-50 to-slate-100 rounded-3xl border border-gray-200 overflow-hidden shadow-lg hover:shadow-xl transition-all duration-300">
+          <div className="p-6">
+            <div className="flex items-center space-x-4 mb-6">
+              <div className="bg-gray-500 p-3 rounded-2xl text-white shadow-lg">
+                <History size={24} />
+              </div>
+              <div>
+                <h3 className="font-black text-gray-800 text-xl">Search History</h3>
+                <p className="text-sm text-gray-600 font-medium">မကြာသေးမီက ရှာဖွေထားသော မှတ်တိုင်၊ ခရီးစဉ်နှင့် လိုင်းများ</p>
+              </div>
+            </div>
+
+            <div className="flex justify-center">
+              <button
+                onClick={handleClearHistory}
+                className="px-6 py-3 rounded-2xl font-black bg-white text-red-600 border border-red-100 hover:bg-red-50 active:scale-95 transition-all shadow-lg flex items-center space-x-2"
+              >
+                <Trash2 size={18} />
+                <span>{historyCleared ? '✓ ဖျက်ပြီးပါပြီ' : 'မှတ်တမ်း ဖျက်ရန်'}</span>
               </button>
-            </div> */}
-          {/* </div> */}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-yellow-50 to-amber-50 rounded-3xl border border-yellow-100 overflow-hidden shadow-lg hover:shadow-xl transition-all duration-300">
+          <div className="p-6">
+            <div className="flex items-center space-x-4 mb-6">
+              <div className="bg-yellow-600 p-3 rounded-2xl text-white shadow-lg">
+                <Bot size={24} />
+              </div>
+              <div>
+                <h3 className="font-black text-gray-800 text-xl">Assistant</h3>
+                <p className="text-sm text-gray-600 font-medium">မေးခွန်းများကို ဖြေကြားမည့်စနစ်</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {([
+                ['local', 'စက်တွင်း', 'အင်တာနက်မလို'],
+                ['gemini', 'Gemini AI', 'အင်တာနက်လို']
+              ] as [AssistantProviderId, string, string][]).map(([id, label, note]) => (
+                <button
+                  key={id}
+                  onClick={() => chooseAssistant(id)}
+                  disabled={id === 'gemini' && !isGeminiConfigured()}
+                  className={`p-4 rounded-2xl border text-left transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                    assistantProvider === id ? 'bg-yellow-600 border-yellow-600 text-white shadow-lg' : 'bg-white border-yellow-100 text-gray-800 hover:bg-yellow-50'
+                  }`}
+                >
+                  <p className="font-black">{label}</p>
+                  <p className={`text-xs font-medium ${assistantProvider === id ? 'text-yellow-100' : 'text-gray-500'}`}>{note}</p>
+                </button>
+              ))}
+            </div>
+            {!isGeminiConfigured() && (
+              <p className="mt-3 text-xs text-gray-500 font-medium">Gemini ကို သုံးရန် GEMINI_API_KEY သတ်မှတ်ထားရပါမည်</p>
+            )}
+          </div>
         </div>
 
         <div className="bg-gradient-to-br from-blue-50 to-indigo-50 rounded-3xl border border-blue-100 overflow-hidden shadow-lg hover:shadow-xl transition-all duration-300">
@@ -1535,6 +2813,72 @@ const SettingsPage: React.FC = () => {
             </div>
           </div>
         </div>
+
+        <div className="bg-gradient-to-br from-green-50 to-emerald-50 rounded-3xl border border-green-100 overflow-hidden shadow-lg hover:shadow-xl transition-all duration-300">
+          <div className="p-6">
+            <div className="flex items-center space-x-4 mb-6">
+              <div className="bg-green-500 p-3 rounded-2xl text-white shadow-lg">
+                <ShieldCheck size={24} />
+              </div>
+              <div>
+                <h3 className="font-black text-gray-800 text-xl">Data Quality</h3>
+                <p className="text-sm text-gray-600 font-medium">လမ်းကြောင်းနှင့် မှတ်တိုင် ဒေတာ စစ်ဆေးခြင်း</p>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              {report && (
+                <div className="bg-white/60 backdrop-blur-sm rounded-2xl p-4 border border-white/20 space-y-3">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <p className="text-xs font-bold text-gray-500 uppercase tracking-wider">Errors</p>
+                      <p className={`text-lg font-black ${report.summary.errors > 0 ? 'text-red-600' : 'text-gray-800'}`}>{report.summary.errors}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs font-bold text-gray-500 uppercase tracking-wider">Warnings</p>
+                      <p className="text-lg font-black text-gray-800">{report.summary.warnings}</p>
+                    </div>
+                  </div>
+                  <div className="pt-2 border-t border-gray-200 space-y-1">
+                    {(Object.entries(report.summary.byCode) as [DataIssueCode, number][]).map(([code, count]) => (
+                      <div key={code} className="flex justify-between text-sm">
+                        <span className="font-medium text-gray-700">{ISSUE_LABELS[code]}</span>
+                        <span className="font-bold text-gray-800">{count}</span>
+                      </div>
+                    ))}
+                    {report.issues.length === 0 && (
+                      <p className="text-sm font-medium text-green-700">ပြဿနာ မတွေ့ပါ</p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-center space-x-3">
+                <button
+                  onClick={checkDataQuality}
+                  disabled={isChecking}
+                  className={`px-6 py-3 rounded-2xl font-black transition-all shadow-lg flex items-center space-x-2 ${
+                    isChecking
+                      ? 'bg-gray-200 text-gray-500 cursor-not-allowed'
+                      : 'bg-green-600 text-white hover:bg-green-700 active:scale-95'
+                  }`}
+                >
+                  <RefreshCw className={isChecking ? 'animate-spin' : ''} size={18} />
+                  <span>{isChecking ? 'စစ်ဆေးနေသည်...' : 'စစ်ဆေးရန်'}</span>
+                </button>
+                {report && (
+                  <button
+                    onClick={downloadReport}
+                    className="px-6 py-3 rounded-2xl font-black bg-white text-green-700 border border-green-200 hover:bg-green-50 active:scale-95 transition-all shadow-lg flex items-center space-x-2"
+                  >
+                    <Download size={18} />
+                    <span>JSON</span>
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -1543,54 +2887,63 @@ const SettingsPage: React.FC = () => {
 const App: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const [selectedRoute, setSelectedRoute] = useState<BusRoute | null>(null);
-  const [selectedStop, setSelectedStop] = useState<BusStop | null>(null);
   const [stops, setStops] = useState<BusStop[]>([]);
   const [routes, setRoutes] = useState<BusRoute[]>([]);
   const [isInitializing, setIsInitializing] = useState(true);
-  const [favorites, setFavorites] = useState<Set<string>>(new Set());
+  const [favorites, setFavorites] = useState<FavoriteIds>({ routes: new Set(), stops: new Set() });
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const isOnline = useOnline();
+
+  useEffect(() => {
+    registerServiceWorker(apply => setApplyUpdate(() => apply));
+  }, []);
+
+  const loadData = useCallback(async () => {
+    await ensureTransitGraph();
+    const [loadedStops, loadedRoutes] = await Promise.all([db.busStops.toArray(), db.busRoutes.toArray()]);
+    setStops(loadedStops);
+    setRoutes(loadedRoutes);
+  }, []);
 
   useEffect(() => {
     const checkData = async () => {
       const stopCount = await db.busStops.count();
       if (stopCount === 0) {
         await db.busStops.bulkAdd(INITIAL_STOPS);
-        await db.busRoutes.bulkAdd(INITIAL_ROUTES);
       }
-      const loadedStops = await db.busStops.toArray();
-      setStops(loadedStops);
-
-      // Load routes from JSON files
-      const loadedRoutes = await loadRoutesFromFiles();
-      setRoutes(loadedRoutes);
-
+      const routeCount = await db.busRoutes.count();
+      if (routeCount === 0) {
+        try {
+          await importRouteFiles();
+        } catch (error) {
+          console.error('Route import failed:', error);
+        }
+      }
+      await migrateLegacyFavorites();
+      setFavorites(await loadFavorites());
+      await loadData();
       setIsInitializing(false);
     };
     checkData();
-  }, []);
+  }, [loadData]);
 
   const navigateToRoute = useCallback((r: BusRoute) => {
-    setSelectedRoute(r);
-    navigate('/route-detail');
+    navigate(`/routes/${encodeURIComponent(r.id)}`);
   }, [navigate]);
 
   const navigateToStop = useCallback((s: BusStop) => {
-    setSelectedStop(s);
-    navigate('/stop-detail');
+    navigate(`/stops/${s.id}`);
   }, [navigate]);
 
-  const toggleFavorite = useCallback((routeId: string) => {
-    setFavorites(prev => {
-      const newFavorites = new Set(prev);
-      if (newFavorites.has(routeId)) {
-        newFavorites.delete(routeId);
-      } else {
-        newFavorites.add(routeId);
-      }
-      localStorage.setItem('ybs-favorites', JSON.stringify(Array.from(newFavorites)));
-      return newFavorites;
-    });
-  }, []);
+  const toggleFavoriteRoute = useCallback(async (routeId: string) => {
+    await setFavoriteRoute(routeId, !favorites.routes.has(routeId));
+    setFavorites(await loadFavorites());
+  }, [favorites]);
+
+  const toggleFavoriteStop = useCallback(async (stopId: number) => {
+    await setFavoriteStop(stopId, !favorites.stops.has(stopId));
+    setFavorites(await loadFavorites());
+  }, [favorites]);
 
   const renderRoutes = () => {
     if (isInitializing) {
@@ -1604,15 +2957,16 @@ const App: React.FC = () => {
 
     return (
       <Routes>
-        <Route path="/" element={<HomePage />} />
-        <Route path="/routes" element={<RoutesPage onRouteClick={navigateToRoute} onStopClick={navigateToStop} favorites={favorites} onToggleFavorite={toggleFavorite} />} />
-        <Route path="/map" element={<MapPage stops={stops} routes={routes} onStopClick={navigateToStop} />} />
-        <Route path="/assistant" element={<AssistantPage onRouteClick={navigateToRoute} />} />
+        <Route path="/" element={<HomePage stops={stops} routes={routes} onRouteClick={navigateToRoute} onStopClick={navigateToStop} />} />
+        <Route path="/routes" element={<RoutesPage onRouteClick={navigateToRoute} onStopClick={navigateToStop} favorites={favorites.routes} onToggleFavorite={toggleFavoriteRoute} />} />
+        <Route path="/map" element={<MapPage stops={stops} routes={routes} onStopClick={navigateToStop} onRouteClick={navigateToRoute} />} />
+        <Route path="/assistant" element={<AssistantPage onRouteClick={navigateToRoute} onStopClick={navigateToStop} />} />
         <Route path="/find-route" element={<FindRoutePage onRouteClick={navigateToRoute} />} />
-        <Route path="/settings" element={<SettingsPage />} />
-        <Route path="/stops" element={<StopsPage stops={stops} onStopClick={navigateToStop} />} />
-        <Route path="/route-detail" element={selectedRoute ? <RouteDetailPage route={selectedRoute} onClose={() => navigate('/routes')} onStopClick={navigateToStop} /> : null} />
-        <Route path="/stop-detail" element={selectedStop ? <StopDetailPage stop={selectedStop} onClose={() => navigate(-1)} /> : null} />
+        <Route path="/favorites" element={<FavoritesPage favorites={favorites} stops={stops} routes={routes} onRouteClick={navigateToRoute} onStopClick={navigateToStop} onToggleRoute={toggleFavoriteRoute} onToggleStop={toggleFavoriteStop} />} />
+        <Route path="/settings" element={<SettingsPage onDataUpdated={loadData} />} />
+        <Route path="/stops" element={<StopsPage stops={stops} routes={routes} onStopClick={navigateToStop} />} />
+        <Route path="/routes/:routeId" element={<RouteDetailRoute onStopClick={navigateToStop} favorites={favorites.routes} onToggleFavorite={toggleFavoriteRoute} />} />
+        <Route path="/stops/:stopId" element={<StopDetailRoute favorites={favorites.stops} onToggleFavorite={toggleFavoriteStop} />} />
       </Routes>
     );
   };
@@ -1621,12 +2975,30 @@ const App: React.FC = () => {
     <div className="min-h-screen bg-gray-50 flex flex-col overflow-x-hidden h-screen">
       <Header />
 
+      {!isOnline && (
+        <div className="bg-gray-800 text-white text-xs font-bold px-4 py-1.5 flex items-center justify-center space-x-2 shrink-0">
+          <WifiOff size={14} />
+          <span>အင်တာနက် မရှိပါ – သိမ်းထားသော ဒေတာဖြင့် အသုံးပြုနေပါသည်</span>
+        </div>
+      )}
+
       <main className="flex-1 relative w-full overflow-hidden">
         <div className="absolute inset-0 overflow-y-auto">
            {renderRoutes()}
         </div>
       </main>
 
+      {applyUpdate && (
+        <div className="fixed bottom-20 md:bottom-6 inset-x-4 md:left-auto md:right-6 md:w-96 z-[1100] bg-white border border-yellow-100 rounded-2xl shadow-2xl p-4 flex items-center space-x-3">
+          <div className="bg-yellow-100 p-2 rounded-xl text-yellow-600 shrink-0">
+            <RefreshCw size={20} />
+          </div>
+          <p className="flex-1 text-sm font-bold text-gray-800">ဗားရှင်းအသစ် ရနိုင်ပါပြီ</p>
+          <button onClick={() => setApplyUpdate(null)} className="px-2 py-2 text-xs font-bold text-gray-400 hover:text-gray-600">နောက်မှ</button>
+          <button onClick={applyUpdate} className="px-4 py-2 rounded-xl bg-yellow-600 text-white text-xs font-black hover:bg-yellow-700 active:scale-95 transition-all">အသစ်ဖွင့်မည်</button>
+        </div>
+      )}
+
       <MobileBottomNav />
     </div>
   );
@@ -0,0 +1,124 @@
+import { AssistantIntent, Mention } from './assistant_parser';
+import { db } from './db';
+import { getDistance } from './geo';
+import { PlannerOptions } from './journey_planner';
+import { normalizeMyanmar, toAsciiDigits } from './myanmar_text';
+import { MAX_FOOTPATH_METRES } from './transit_graph';
+import { BusRoute, BusStop, ChatMessage, DialogState, JourneyEndpoint, JourneyPreference, PendingChoice, SearchResult } from './types';
+
+// --- Assistant dialog state ---
+// The assistant fills an origin and a destination over as many turns as the
+// rider needs. A reply naming only one end replaces that end and keeps the
+// other, so "what about from Sule instead" re-plans the last trip, and a wish
+// like "fewer transfers" re-plans it with that preference. A name whose stops
+// lie in different parts of town is asked about before planning.
+
+export const EMPTY_DIALOG: DialogState = { pending: [] };
+
+// Stops sharing a name this close together are one place: both sides of a road,
+// or the corners of a junction.
+const SAME_PLACE_METRES = 1000;
+const MAX_CHOICES = 5;
+const MAX_STORED_MESSAGES = 100;
+const CONVERSATION_KEY = 'current';
+
+// A place is planned from its own coordinates, a stop name from its busiest stop.
+export const mentionEndpoint = (m: Mention): JourneyEndpoint =>
+  m.place ? { kind: 'point', point: { lat: m.place.lat, lng: m.place.lng, label: m.place.name_mm } } : { kind: 'stop', stop: m.stops[0] };
+
+// One stop per distinct location, busiest first.
+const distinctStops = (stops: BusStop[]) =>
+  stops.reduce<BusStop[]>((kept, stop) => {
+    const apart = kept.every(k => getDistance(k.lat, k.lng, stop.lat, stop.lng) * 1000 > SAME_PLACE_METRES);
+    return apart && kept.length < MAX_CHOICES ? [...kept, stop] : kept;
+  }, []);
+
+const fillSlot = (state: DialogState, slot: PendingChoice['slot'], m: Mention): DialogState => {
+  const options = m.place ? [] : distinctStops(m.stops);
+  const pending = state.pending.filter(p => p.slot !== slot);
+  return {
+    ...state,
+    [slot]: mentionEndpoint(m),
+    pending: options.length > 1 ? [...pending, { slot, name: m.stops[0].name_mm, options }] : pending
+  };
+};
+
+// Both ends named start a new trip; one end replaces just that end. A lone
+// name without a marker answers whichever end was last asked for.
+export const applyJourney = (state: DialogState, intent: Extract<AssistantIntent, { kind: 'journey' }>): DialogState => {
+  let { from, to } = intent;
+  if (from && !to && from.role !== 'from' && state.from && !state.to) [from, to] = [undefined, from];
+  let next: DialogState = from && to
+    ? { preference: intent.preference, pending: [] }
+    : { ...state, preference: intent.preference ?? state.preference, pending: [] };
+  if (from) next = fillSlot(next, 'from', from);
+  if (to) next = fillSlot(next, 'to', to);
+  return next;
+};
+
+// The rider's pick from the first pending question: its number, or a
+// township or road that names only one of the options.
+export const pickChoice = (choice: PendingChoice, reply: string): BusStop | undefined => {
+  const text = toAsciiDigits(normalizeMyanmar(reply)).toLowerCase().trim();
+  const number = text.match(/^(\d+)(?!\d)/);
+  if (number) return choice.options[Number(number[1]) - 1];
+  const named = choice.options.filter(s =>
+    [s.township_mm, s.township_en, s.road_mm, s.road_en].some(n => n && text.includes(normalizeMyanmar(n).toLowerCase()))
+  );
+  return named.length === 1 ? named[0] : undefined;
+};
+
+export const choose = (state: DialogState, stop: BusStop): DialogState => {
+  const [answered, ...rest] = state.pending;
+  return { ...state, [answered.slot]: { kind: 'stop', stop }, pending: rest };
+};
+
+// Fewer transfers may walk further between stops to save a change, and keeps
+// only the options with the fewest.
+export const preferenceOptions = (preference?: JourneyPreference): PlannerOptions =>
+  preference === 'fewer_transfers' ? { walkRadius: MAX_FOOTPATH_METRES, maxWalk: 1200 } : {};
+
+export const rankJourneys = (results: SearchResult[], preference?: JourneyPreference): SearchResult[] => {
+  switch (preference) {
+    case 'fewer_transfers': {
+      const fewest = Math.min(...results.map(r => r.transferCount));
+      return results.filter(r => r.transferCount === fewest).sort((a, b) => a.totalWalk - b.totalWalk);
+    }
+    case 'less_walking':
+      return [...results].sort((a, b) => a.totalWalk - b.totalWalk || a.transferCount - b.transferCount);
+    case 'shortest':
+      return [...results].sort((a, b) => a.totalDistance - b.totalDistance || a.transferCount - b.transferCount);
+    default:
+      return results;
+  }
+};
+
+// --- Persistence ---
+// The chat survives reloads as a single row. Route shapes are left out; the
+// chat only shows line ids and colours.
+
+const withoutShape = ({ shape, ...route }: BusRoute): BusRoute => route;
+
+const storable = (m: ChatMessage): ChatMessage => ({
+  ...m,
+  routes: m.routes?.map(withoutShape),
+  results: m.results?.map(r => ({
+    ...r,
+    steps: r.steps.map(step => (step.type === 'ride' ? { ...step, route: withoutShape(step.route) } : step))
+  }))
+});
+
+export const loadConversation = () => db.assistantConversations.get(CONVERSATION_KEY);
+
+export const saveConversation = async (messages: ChatMessage[], dialog: DialogState) => {
+  try {
+    await db.assistantConversations.put({
+      key: CONVERSATION_KEY,
+      messages: messages.slice(-MAX_STORED_MESSAGES).map(storable),
+      dialog,
+      updatedAt: Date.now()
+    });
+  } catch (error) {
+    console.warn('Could not save the conversation:', error);
+  }
+};
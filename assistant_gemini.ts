@@ -0,0 +1,296 @@
+import { Content, FunctionDeclaration, GoogleGenAI, Part, Type } from '@google/genai';
+import { preferenceOptions, rankJourneys } from './assistant_dialog';
+import {
+  AssistantData,
+  AssistantProvider,
+  AssistantReply,
+  createLocalProvider,
+  currentPosition,
+  NOT_UNDERSTOOD,
+  servingRoutes
+} from './assistant_provider';
+import { nearestStops, searchPlaces } from './gazetteer';
+import { findJourneysBetween } from './journey_planner';
+import { endName } from './journey_share';
+import { searchStopMatches } from './stop_search';
+import { BusStop, ChatMessage, DialogState, JourneyEndpoint, JourneyPreference, PathStep, SearchResult } from './types';
+
+// --- Gemini assistant ---
+// Optional LLM-backed provider. Gemini reads the message and writes the reply,
+// but every stop, line and journey in it comes from tools that run against the
+// local data: the model is told to answer only from tool results, and the
+// cards shown under its reply are the tools' own results, not its text.
+// Requests go to GEMINI_BASE_URL when set, so `npm run mock-gemini` can stand
+// in for the real API. Any failure falls back to the local provider.
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+// Tool calls per message before the model has to answer.
+const MAX_TOOL_ROUNDS = 4;
+const MAX_HISTORY_MESSAGES = 12;
+const MAX_LISTED = 5;
+
+export interface GeminiOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+export const isGeminiConfigured = () => !!process.env.GEMINI_API_KEY;
+
+const SYSTEM_INSTRUCTION = `You are the assistant of a Yangon Bus Service (YBS) guide app.
+Answer only from the results of the tools; never invent stops, lines, fares or times.
+Use find_stops when unsure which stop or place the rider means, plan_journey for how to get somewhere,
+route_info for where a line goes, stop_routes for the lines at a stop and nearest_stops for the closest stops.
+The app shows the tools' results as cards under your reply, so summarise briefly instead of listing every stop.
+Reply in the rider's language (Burmese or English), in a few short sentences.`;
+
+const PREFERENCES: JourneyPreference[] = ['fewer_transfers', 'less_walking', 'shortest'];
+
+const DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'find_stops',
+    description: 'Look up bus stops and landmarks by name, in Burmese or English. Returns stop ids and place ids.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { name: { type: Type.STRING, description: 'Stop or place name as the rider wrote it' } },
+      required: ['name']
+    }
+  },
+  {
+    name: 'plan_journey',
+    description: 'Plan bus journeys between two stops or places. Returns the options with their lines, transfers and walks.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        from: { type: Type.STRING, description: 'Stop id or place id from find_stops, or a name' },
+        to: { type: Type.STRING, description: 'Stop id or place id from find_stops, or a name' },
+        preference: { type: Type.STRING, enum: PREFERENCES, description: 'What the rider cares about most, if they said' }
+      },
+      required: ['from', 'to']
+    }
+  },
+  {
+    name: 'route_info',
+    description: 'Where a YBS line runs: its first and last stops and number of stops, for every variant of the line.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { line: { type: Type.STRING, description: 'Line number, e.g. "36"' } },
+      required: ['line']
+    }
+  },
+  {
+    name: 'stop_routes',
+    description: 'The YBS lines that stop at a stop.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { stop: { type: Type.STRING, description: 'Stop id or place id from find_stops, or a name' } },
+      required: ['stop']
+    }
+  },
+  {
+    name: 'nearest_stops',
+    description: "The closest served stops to a place or stop, or to the rider's location when no place is given.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: { near: { type: Type.STRING, description: 'Stop id or place id from find_stops, or a name' } }
+    }
+  }
+];
+
+// Filled in while the tools run: the cards to show and the trip to remember.
+interface ToolContext {
+  data: AssistantData;
+  reply: AssistantReply;
+  next: DialogState;
+}
+
+const stopName = (stop: BusStop) => (stop.name_en ? `${stop.name_mm} / ${stop.name_en}` : stop.name_mm);
+
+const stopById = ({ lexicon }: AssistantData, id: number) => lexicon.stopIndex.entries.find(e => e.stop.id === id)?.stop;
+
+// A stop id, a place id, or a name, which is matched like the search box does.
+const resolveEndpoint = (data: AssistantData, ref: string): JourneyEndpoint | undefined => {
+  const text = ref.trim();
+  const { stopIndex, placeIndex } = data.lexicon;
+  if (/^\d+$/.test(text)) {
+    const stop = stopById(data, Number(text));
+    return stop && { kind: 'stop', stop };
+  }
+  const place = searchPlaces(placeIndex, text, 1)[0];
+  const stop = searchStopMatches(stopIndex, text, 1)[0];
+  const picked = placeIndex.entries.find(e => e.place.id === text)?.place
+    || (place && (!stop || place.score >= stop.score) ? place.place : undefined);
+  if (picked) return { kind: 'point', point: { lat: picked.lat, lng: picked.lng, label: picked.name_mm } };
+  return stop && { kind: 'stop', stop: stop.stop };
+};
+
+const resolveStop = (data: AssistantData, ref: string): BusStop | undefined => {
+  const end = resolveEndpoint(data, ref);
+  if (!end) return undefined;
+  return end.kind === 'stop' ? end.stop : nearestStops(end.point, data.lexicon.stopIndex, 1)[0]?.stop;
+};
+
+const describeStep = (step: PathStep) =>
+  step.type === 'ride'
+    ? { line: step.route.id, board: stopName(step.fromStop), alight: stopName(step.toStop), stops: step.intermediateStops + 1 }
+    : { walk_metres: step.metres, from: stopName(step.fromStop), to: stopName(step.toStop) };
+
+const describeJourney = (result: SearchResult) => ({
+  transfers: result.transferCount,
+  walk_metres: result.totalWalk,
+  distance_km: Math.round(result.totalDistance * 10) / 10,
+  legs: [
+    ...(result.access ? [{ walk_metres: result.access.metres, to: stopName(result.access.stop) }] : []),
+    ...result.steps.map(describeStep),
+    ...(result.egress ? [{ walk_metres: result.egress.metres, from: stopName(result.egress.stop) }] : [])
+  ]
+});
+
+type ToolArgs = Record<string, unknown>;
+
+const TOOLS: Record<string, (args: ToolArgs, context: ToolContext) => Promise<object>> = {
+  find_stops: async ({ name }, { data }) => {
+    const text = String(name || '');
+    return {
+      stops: searchStopMatches(data.lexicon.stopIndex, text, MAX_LISTED).map(({ stop }) => ({
+        id: stop.id,
+        name: stopName(stop),
+        road: stop.road_en,
+        township: stop.township_en,
+        lines: servingRoutes(data.routes, stop.id).length
+      })),
+      places: searchPlaces(data.lexicon.placeIndex, text, MAX_LISTED).map(({ place }) => ({
+        id: place.id,
+        name: `${place.name_mm} / ${place.name_en}`,
+        category: place.category
+      }))
+    };
+  },
+
+  plan_journey: async ({ from, to, preference }, context) => {
+    const start = resolveEndpoint(context.data, String(from || ''));
+    const end = resolveEndpoint(context.data, String(to || ''));
+    if (!start || !end) return { error: `No stop or place found for "${!start ? from : to}"` };
+    const wish = PREFERENCES.find(p => p === preference);
+    const results = rankJourneys(await findJourneysBetween(start, end, preferenceOptions(wish)), wish);
+    context.reply.results = results;
+    context.next = { ...context.next, from: start, to: end, preference: wish };
+    return { from: endName(start), to: endName(end), options: results.slice(0, MAX_LISTED).map(describeJourney) };
+  },
+
+  route_info: async ({ line }, { data, reply }) => {
+    const ids = data.lexicon.routeIds.get(String(line || '').trim().toLowerCase()) || [];
+    const lines = data.routes.filter(r => ids.includes(r.id));
+    reply.routes = lines;
+    if (lines.length === 0) return { error: `No line "${line}"` };
+    return {
+      lines: lines.map(r => ({
+        id: r.id,
+        name: r.name,
+        first_stop: stopById(data, r.stops[0]) && stopName(stopById(data, r.stops[0])!),
+        last_stop: stopById(data, r.stops[r.stops.length - 1]) && stopName(stopById(data, r.stops[r.stops.length - 1])!),
+        stops: r.stops.length,
+        loop: !!r.isLoop
+      }))
+    };
+  },
+
+  stop_routes: async ({ stop }, { data, reply }) => {
+    const found = resolveStop(data, String(stop || ''));
+    if (!found) return { error: `No stop found for "${stop}"` };
+    const lines = servingRoutes(data.routes, found.id);
+    reply.routes = lines;
+    return { stop: stopName(found), lines: lines.map(r => r.id) };
+  },
+
+  nearest_stops: async ({ near }, { data, reply }) => {
+    let point: { lat: number, lng: number } | undefined;
+    if (near) {
+      const end = resolveEndpoint(data, String(near));
+      point = end && (end.kind === 'stop' ? end.stop : end.point);
+      if (!point) return { error: `No stop or place found for "${near}"` };
+    } else {
+      try {
+        const position = await currentPosition();
+        point = { lat: position.coords.latitude, lng: position.coords.longitude };
+      } catch (error) {
+        console.warn('Could not get location:', error);
+        return { error: "The rider's location is not available; ask for a place name" };
+      }
+    }
+    const nearby = nearestStops(point, data.lexicon.stopIndex, 3);
+    reply.stops = nearby;
+    return { stops: nearby.map(n => ({ id: n.stop.id, name: stopName(n.stop), metres: n.metres })) };
+  }
+};
+
+const runTool = async (name: string, args: ToolArgs, context: ToolContext) => {
+  const tool = TOOLS[name];
+  if (!tool) return { error: `Unknown tool ${name}` };
+  try {
+    return await tool(args, context);
+  } catch (error) {
+    console.warn(`Assistant tool ${name} failed:`, error);
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// Earlier chat as text turns. The API wants the conversation to open with the
+// rider, so the greeting is left out.
+const toContents = (history: ChatMessage[]): Content[] => {
+  const contents = history.slice(-MAX_HISTORY_MESSAGES).map(m => ({
+    role: m.role === 'user' ? 'user' : 'model',
+    parts: [{ text: m.content }]
+  }));
+  while (contents[0]?.role === 'model') contents.shift();
+  return contents;
+};
+
+const tripNote = ({ from, to, preference }: DialogState) =>
+  from || to
+    ? `\nThe rider's current trip: from ${from ? endName(from) : '?'} to ${to ? endName(to) : '?'}${preference ? `, preferring ${preference}` : ''}.`
+    : '';
+
+export const createGeminiProvider = (data: AssistantData, options: GeminiOptions = {}): AssistantProvider => {
+  const ai = new GoogleGenAI({
+    apiKey: options.apiKey ?? process.env.GEMINI_API_KEY,
+    httpOptions: (options.baseUrl ?? process.env.GEMINI_BASE_URL) ? { baseUrl: options.baseUrl ?? process.env.GEMINI_BASE_URL } : undefined
+  });
+  const model = options.model ?? GEMINI_MODEL;
+  const local = createLocalProvider(data);
+
+  return {
+    id: 'gemini',
+    respond: async turn => {
+      const context: ToolContext = { data, reply: { content: '' }, next: { ...turn.dialog, pending: [] } };
+      const contents = [...toContents(turn.history), { role: 'user', parts: [{ text: turn.query }] }];
+      try {
+        for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+          const response = await ai.models.generateContent({
+            model,
+            contents,
+            config: {
+              systemInstruction: SYSTEM_INSTRUCTION + tripNote(turn.dialog),
+              tools: [{ functionDeclarations: DECLARATIONS }]
+            }
+          });
+          const calls = response.functionCalls || [];
+          if (calls.length === 0) {
+            return { reply: { ...context.reply, content: response.text?.trim() || NOT_UNDERSTOOD }, next: context.next };
+          }
+          contents.push(response.candidates?.[0]?.content || { role: 'model', parts: calls.map(functionCall => ({ functionCall })) });
+          const parts: Part[] = [];
+          for (const call of calls) {
+            const result = await runTool(call.name || '', call.args || {}, context);
+            parts.push({ functionResponse: { id: call.id, name: call.name, response: result as Record<string, unknown> } });
+          }
+          contents.push({ role: 'user', parts });
+        }
+        throw new Error(`No answer after ${MAX_TOOL_ROUNDS} tool rounds`);
+      } catch (error) {
+        console.warn('Gemini assistant failed, answering locally:', error);
+        return local.respond(turn);
+      }
+    }
+  };
+};
@@ -0,0 +1,265 @@
+import { buildPlaceIndex, PlaceIndex, searchPlaces } from './gazetteer';
+import { normalizeMyanmar, toAsciiDigits } from './myanmar_text';
+import { PLACES } from './place_constants';
+import { buildStopSearchIndex, searchStopMatches, StopSearchIndex } from './stop_search';
+import { BusRoute, BusStop, JourneyPreference, Place } from './types';
+
+// --- Assistant query parser ---
+// Turns a typed question into something the assistant can answer from local
+// data: a journey, the lines serving a stop, where a line goes, or the
+// nearest stop. Stop and place names are spotted in the normalized query,
+// longest first, in either script. Each name's role comes from the markers
+// around it: Burmese postpositions after it (ကနေ / မှ, ကို / သို့) or English
+// prepositions before it (from, to), so "to X from Y" reads the same as
+// "Y ကနေ X ကို". Text next to a marker that matched no name exactly is tried
+// against the fuzzy stop and place search, which catches typos, other
+// romanizations and short forms like "ဆူးလေ". Wishes such as "fewer
+// transfers" are picked up on their own or alongside a journey, so they can
+// refine the previous answer.
+
+export type MentionRole = 'from' | 'to' | 'at';
+
+export interface Mention {
+  text: string; // as written in the query (normalized)
+  stops: BusStop[]; // stops with this name, most-served first; empty for places
+  place?: Place;
+  role?: MentionRole;
+  index: number;
+  end: number;
+}
+
+export type AssistantIntent =
+  | { kind: 'journey'; from?: Mention; to?: Mention; preference?: JourneyPreference }
+  | { kind: 'preference'; preference: JourneyPreference }
+  | { kind: 'stop_routes'; stop: Mention }
+  | { kind: 'route_info'; routeIds: string[]; stop?: Mention } // every variant of the line asked about
+  | { kind: 'nearest_stop'; near?: Mention }
+  | { kind: 'unknown' };
+
+interface LexiconEntry {
+  key: string;
+  latin: boolean;
+  stops: BusStop[];
+  place?: Place;
+}
+
+export interface AssistantLexicon {
+  entries: LexiconEntry[]; // longest key first
+  routeIds: Map<string, string[]>; // lower-cased id, and the bare number of split lines like 36-AungMingalar -> ids
+  stopIndex: StopSearchIndex;
+  placeIndex: PlaceIndex;
+}
+
+// Fuzzy matches below this are ignored; exact names don't need it.
+const MIN_FUZZY_SCORE = 0.6;
+// Shorter place aliases ("RU", "YGH") would match inside ordinary words.
+const MIN_PLACE_KEY_LENGTH = 4;
+
+const ORIGIN_AFTER = /^\s*(?:ကနေ|က\s+နေ|မှ(?![ါ-ှ])|က(?![ါ-ှ္်]))/;
+const DESTINATION_AFTER = /^\s*(?:ကို|သို့|အထိ|ထိ|ဆီ)/;
+const ORIGIN_BEFORE = /\bfrom\s*$/;
+const DESTINATION_BEFORE = /\b(?:to|towards|till|until|reach)\s*$/;
+const AT_BEFORE = /\b(?:at|near|around)\s*$/;
+const AT_AFTER = /^\s*(?:မှာ|တွင်|အနီး|နား)/;
+const GOING = /သွား|\b(?:go|get)\b/;
+
+const ENGLISH_SEGMENT = /\b(?:from|to|at|near)\s+(.+?)(?=\s+\b(?:from|to|at|near)\b|$)/g;
+const LEADING_SEGMENT = /^([a-z][a-z0-9\s-]*?)\s+(?=(?:to|from)\b)/g;
+const BURMESE_SEGMENT = /(\S+)\s*(?:ကနေ|က\s+နေ|မှ(?![ါ-ှ])|က(?=\s|$)|ကို|သို့|အထိ|မှာ)/g;
+const SEGMENT_FILLER = /\b(?:how|can|do|i|me|we|want|need|way|what|about|instead|then|rather|if|is|the|please|bus\s+stop|stop|station|now|by\s+bus|by\s+ybs|go|get|going|take)\b/g;
+// Words that sit before a postposition without being a name.
+const BURMESE_NON_NAMES = new Set(['ဘယ်', 'ဘာ', 'ဒီ', 'ဟို', 'အဲဒီ', 'ကျွန်တော်', 'ကျွန်မ', 'ငါ', 'ကား', 'လိုင်း', 'မှတ်တိုင်']);
+
+const ROUTE_PATTERNS = [
+  /\b(?:line|bus|ybs|route|no\.?|number)\s*#?\s*([a-z0-9][a-z0-9-]*)/g,
+  /(?:လိုင်း|နံပါတ်)\s*([a-z0-9][a-z0-9-]*)/g,
+  /([a-z0-9][a-z0-9-]*)\s*(?:ကား|လိုင်း)/g
+];
+
+const NEAREST_PATTERNS = [
+  /\b(?:nearest|closest|nearby)\b/,
+  /\bnear\s+(?:me|here)\b/,
+  /အနီးဆုံး/,
+  /အနီး(?:က|မှာ)?\s*(?:ဘတ်စ်ကား)?\s*မှတ်တိုင်/
+];
+
+const PREFERENCE_PATTERNS: [JourneyPreference, RegExp[]][] = [
+  ['fewer_transfers', [
+    /\b(?:fewer|less|least|no|without|minimum)\s+(?:transfers?|changes?)\b/,
+    /\bdirect\b/,
+    /(?:ဆင့်|ကား)\s*ပြောင်း(?:စီး)?(?:ရတာ|ရမှု)?\s*(?:နည်း|သက်သာ)/,
+    /ကား\s*မပြောင်း|တိုက်ရိုက်/
+  ]],
+  ['less_walking', [
+    /\b(?:less|least|no|without|minimum|shorter)\s+walk(?:ing)?\b/,
+    /လမ်း\s*လျှောက်(?:ရတာ|ရမှု)?\s*(?:နည်း|သက်သာ)|လမ်း\s*မလျှောက်/
+  ]],
+  ['shortest', [
+    /\b(?:shortest|shorter|quickest|quicker|fastest|faster)\b/,
+    /အမြန်ဆုံး|အတိုဆုံး|ခရီး\s*(?:အတို|တို)/
+  ]]
+];
+
+const STOP_ROUTES_PATTERNS = [
+  /\b(?:which|what)\s+(?:lines?|bus(?:es)?|routes?|ybs)\b/,
+  /\b(?:lines?|bus(?:es)?|routes?)\s+(?:stop|stops|pass|passes|serve|serves)\b/,
+  /ဘယ်\s*(?:ကား|လိုင်း|ybs)/,
+  /ဘာ\s*(?:ကား|လိုင်း)/,
+  /ရပ်(?:လဲ|သလဲ)/
+];
+
+const normalizeQuery = (text: string) =>
+  toAsciiDigits(normalizeMyanmar(text))
+    .toLowerCase()
+    .replace(/[?!.,;:"'()၊။]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const isLatin = (key: string) => /^[a-z0-9\s&/-]+$/.test(key);
+
+const addRouteId = (ids: Map<string, string[]>, key: string, id: string) => ids.set(key, [...(ids.get(key) || []), id]);
+
+export const buildAssistantLexicon = (stops: BusStop[], routes: BusRoute[], places: Place[] = PLACES): AssistantLexicon => {
+  const stopIndex = buildStopSearchIndex(stops, routes);
+  const placeIndex = buildPlaceIndex(places);
+  const byKey = new Map<string, LexiconEntry>();
+
+  [...stopIndex.entries]
+    .sort((a, b) => b.routeCount - a.routeCount)
+    .forEach(({ stop }) => {
+      [stop.name_mm, stop.name_en].forEach(name => {
+        const key = name ? normalizeQuery(name) : '';
+        if (key.length < 2) return;
+        const entry = byKey.get(key) || { key, latin: isLatin(key), stops: [] };
+        if (!entry.stops.includes(stop)) entry.stops.push(stop);
+        byKey.set(key, entry);
+      });
+    });
+
+  placeIndex.entries.forEach(({ place }) => {
+    [place.name_mm, place.name_en, ...(place.aliases || [])].forEach(name => {
+      const key = normalizeQuery(name);
+      if (key.length < MIN_PLACE_KEY_LENGTH || byKey.has(key)) return;
+      byKey.set(key, { key, latin: isLatin(key), stops: [], place });
+    });
+  });
+
+  return {
+    entries: Array.from(byKey.values()).sort((a, b) => b.key.length - a.key.length),
+    routeIds: routes.reduce((ids, r) => {
+      const key = r.id.toLowerCase();
+      addRouteId(ids, key, r.id);
+      if (key.includes('-')) addRouteId(ids, key.split('-')[0], r.id);
+      return ids;
+    }, new Map<string, string[]>()),
+    stopIndex,
+    placeIndex
+  };
+};
+
+const isWordChar = (ch: string | undefined) => !!ch && /[a-z0-9]/.test(ch);
+
+const spotNames = (lexicon: AssistantLexicon, text: string): Mention[] => {
+  const found: Mention[] = [];
+  const overlaps = (index: number, end: number) => found.some(m => index < m.end && end > m.index);
+  lexicon.entries.forEach(({ key, latin, stops, place }) => {
+    let index = text.indexOf(key);
+    while (index >= 0) {
+      const end = index + key.length;
+      const wholeWord = !latin || (!isWordChar(text[index - 1]) && !isWordChar(text[end]));
+      if (wholeWord && !overlaps(index, end)) found.push({ text: key, stops, place, index, end });
+      index = text.indexOf(key, index + 1);
+    }
+  });
+  return found.sort((a, b) => a.index - b.index);
+};
+
+// Text after an English preposition, or the word before a Burmese
+// postposition, that no exact name covered.
+const fuzzyMentions = (lexicon: AssistantLexicon, text: string, spotted: Mention[]): Mention[] => {
+  const found: Mention[] = [];
+  const segments = [
+    ...Array.from(text.matchAll(LEADING_SEGMENT), m => ({ index: 0, raw: m[1] })),
+    ...Array.from(text.matchAll(ENGLISH_SEGMENT), m => ({ index: m.index! + m[0].length - m[1].length, raw: m[1] })),
+    ...Array.from(text.matchAll(BURMESE_SEGMENT), m => ({ index: m.index!, raw: m[1] })).filter(s => !BURMESE_NON_NAMES.has(s.raw))
+  ];
+  segments.forEach(({ index, raw }) => {
+    const end = index + raw.length;
+    if ([...spotted, ...found].some(m => m.index < end && m.end > index)) return;
+    const segment = raw.replace(SEGMENT_FILLER, ' ').replace(/\s+/g, ' ').trim();
+    if (segment.length < 2) return;
+    const place = searchPlaces(lexicon.placeIndex, segment, 1)[0];
+    const stop = searchStopMatches(lexicon.stopIndex, segment, 1)[0];
+    if (place && (!stop || place.score >= stop.score)) {
+      found.push({ text: segment, stops: [], place: place.place, index, end });
+    } else if (stop && stop.score >= MIN_FUZZY_SCORE) {
+      found.push({ text: segment, stops: [stop.stop], index, end });
+    }
+  });
+  return found;
+};
+
+const markerRole = (before: string, after: string): MentionRole | undefined => {
+  if (ORIGIN_AFTER.test(after) || ORIGIN_BEFORE.test(before)) return 'from';
+  if (DESTINATION_AFTER.test(after) || DESTINATION_BEFORE.test(before)) return 'to';
+  if (AT_AFTER.test(after) || AT_BEFORE.test(before)) return 'at';
+  return undefined;
+};
+
+const findPreference = (text: string): JourneyPreference | undefined =>
+  PREFERENCE_PATTERNS.find(([, patterns]) => patterns.some(p => p.test(text)))?.[0];
+
+const findRouteIds = (lexicon: AssistantLexicon, text: string): string[] | undefined => {
+  for (const pattern of ROUTE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const ids = lexicon.routeIds.get(match[1]);
+      if (ids) return ids;
+    }
+  }
+  return undefined;
+};
+
+// Origin and destination from the marked names; unmarked names fill
+// whichever is missing, in the order they were written.
+const journeyRoles = (text: string, mentions: Mention[]): { from?: Mention; to?: Mention } => {
+  let from = mentions.find(m => m.role === 'from');
+  let to = mentions.find(m => m.role === 'to');
+  const unmarked = mentions.filter(m => m !== from && m !== to && m.role !== 'from' && m.role !== 'to');
+  if (!from && !to && unmarked.length === 1) {
+    // "လှည်းတန်း သွားချင်တယ်" names where to go, a lone name otherwise where to start.
+    return GOING.test(text.slice(unmarked[0].end)) ? { to: unmarked[0] } : { from: unmarked[0] };
+  }
+  unmarked.forEach(m => {
+    if (!from) from = m;
+    else if (!to) to = m;
+  });
+  return { from, to };
+};
+
+export const parseAssistantQuery = (lexicon: AssistantLexicon, query: string): AssistantIntent => {
+  const text = normalizeQuery(query);
+  if (!text) return { kind: 'unknown' };
+
+  const spotted = spotNames(lexicon, text);
+  const mentions = [...spotted, ...fuzzyMentions(lexicon, text, spotted)].sort((a, b) => a.index - b.index);
+  mentions.forEach((m, i) => {
+    const before = text.slice(i > 0 ? mentions[i - 1].end : 0, m.index);
+    const after = text.slice(m.end, i < mentions.length - 1 ? mentions[i + 1].index : text.length);
+    m.role = markerRole(before, after);
+  });
+
+  if (NEAREST_PATTERNS.some(p => p.test(text))) return { kind: 'nearest_stop', near: mentions[0] };
+
+  const routeIds = findRouteIds(lexicon, text);
+  if (routeIds && mentions.length <= 1) return { kind: 'route_info', routeIds, stop: mentions[0] };
+
+  if (mentions.length === 1 && mentions[0].role !== 'from' && mentions[0].role !== 'to' &&
+      STOP_ROUTES_PATTERNS.some(p => p.test(text))) {
+    return { kind: 'stop_routes', stop: mentions[0] };
+  }
+
+  const preference = findPreference(text);
+  if (mentions.length > 0) return { kind: 'journey', ...journeyRoles(text, mentions), preference };
+  if (preference) return { kind: 'preference', preference };
+  return { kind: 'unknown' };
+};
@@ -0,0 +1,178 @@
+import { applyJourney, choose, pickChoice, preferenceOptions, rankJourneys } from './assistant_dialog';
+import { AssistantIntent, AssistantLexicon, Mention, parseAssistantQuery } from './assistant_parser';
+import { nearestStops, PLACE_WALK_METRES } from './gazetteer';
+import { findJourneysBetween } from './journey_planner';
+import { endName } from './journey_share';
+import { StopSearchIndex } from './stop_search';
+import { BusRoute, BusStop, ChatMessage, DialogState, JourneyPreference } from './types';
+
+// --- Assistant providers ---
+// A provider answers one rider message given the conversation so far and the
+// dialog state, and returns the reply with the updated state. The local
+// provider reads the message with the rule-based parser and needs nothing but
+// the bundled data; others (see assistant_gemini.ts) can sit behind the same
+// interface as long as their answers come from the same data.
+
+export type AssistantProviderId = 'local' | 'gemini';
+
+// Everything a provider may look things up in.
+export interface AssistantData {
+  routes: BusRoute[];
+  lexicon: AssistantLexicon;
+}
+
+export interface AssistantTurn {
+  query: string;
+  dialog: DialogState;
+  history: ChatMessage[]; // earlier messages, oldest first, without this one
+}
+
+export type AssistantReply = Omit<ChatMessage, 'role'>;
+
+export interface AssistantAnswer {
+  reply: AssistantReply;
+  next: DialogState;
+}
+
+export interface AssistantProvider {
+  id: AssistantProviderId;
+  respond: (turn: AssistantTurn) => Promise<AssistantAnswer>;
+}
+
+const PROVIDER_STORAGE_KEY = 'ybs-assistant-provider';
+
+export const getAssistantProviderId = (): AssistantProviderId =>
+  localStorage.getItem(PROVIDER_STORAGE_KEY) === 'gemini' ? 'gemini' : 'local';
+
+export const setAssistantProviderId = (id: AssistantProviderId) => {
+  if (id === 'local') localStorage.removeItem(PROVIDER_STORAGE_KEY);
+  else localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+};
+
+export const NOT_UNDERSTOOD = 'တောင်းပန်ပါတယ်၊ သင်ပြောတဲ့ မှတ်တိုင်အမည်ကို ရှာမတွေ့ပါဘူး။ မှတ်တိုင်အမည်လေး ပြန်စစ်ပေးပါဦး။';
+
+export const PREFERENCE_LABELS: Record<JourneyPreference, string> = {
+  fewer_transfers: 'ကားပြောင်းစီးမှု အနည်းဆုံး',
+  less_walking: 'လမ်းလျှောက် အနည်းဆုံး',
+  shortest: 'ခရီးအတိုဆုံး'
+};
+
+// Where an assistant mention points: a stop, or a place (its nearest stop
+// where a single stop is needed).
+const mentionName = (m: Mention) => (m.place ? m.place.name_mm : m.stops[0].name_mm);
+
+const mentionStop = (m: Mention, stopIndex: StopSearchIndex): BusStop | undefined =>
+  m.place ? nearestStops(m.place, stopIndex, 1)[0]?.stop : m.stops[0];
+
+export const servingRoutes = (routes: BusRoute[], stopId: number) =>
+  routes.filter(r => r.stops.includes(stopId) || r.inboundStops?.includes(stopId));
+
+export const currentPosition = () => new Promise<GeolocationPosition>((resolve, reject) => {
+  if (!navigator.geolocation) reject(new Error('Geolocation is not supported'));
+  else navigator.geolocation.getCurrentPosition(resolve, reject, { enableHighAccuracy: true });
+});
+
+// Asks for whatever the trip still lacks, or plans it.
+const continueJourney = async ({ from, to, preference, pending }: DialogState): Promise<AssistantReply> => {
+  if (pending.length > 0) {
+    const { slot, name, options } = pending[0];
+    return {
+      content: `"${name}" အမည်ဖြင့် မှတ်တိုင် ${options.length} နေရာ ရှိပါတယ်။ ${slot === 'from' ? 'စထွက်မည့်' : 'ဆင်းမည့်'} မှတ်တိုင်ကို ရွေးပေးပါ (နံပါတ်ဖြင့်လည်း ဖြေနိုင်ပါတယ်)။`,
+      choices: options
+    };
+  }
+  if (!from && !to) return { content: NOT_UNDERSTOOD };
+  if (!to) return { content: `${endName(from!)} ကနေ ဘယ်ကို သွားချင်တာလဲခင်ဗျာ?` };
+  if (!from) return { content: `${endName(to)} ကို ဘယ်မှတ်တိုင်ကနေ လာမှာလဲခင်ဗျာ?` };
+  const results = rankJourneys(await findJourneysBetween(from, to, preferenceOptions(preference)), preference);
+  const how = preference ? ` (${PREFERENCE_LABELS[preference]})` : '';
+  return results.length > 0
+    ? { content: `${endName(from)} မှ ${endName(to)} သို့ စီးရမည့် လမ်းကြောင်းများကို ရှာတွေ့ပါပြီ${how}။`, results }
+    : { content: `${endName(from)} မှ ${endName(to)} သို့ တိုက်ရိုက် သို့မဟုတ် တစ်ဆင့်ပြောင်း လမ်းကြောင်း ရှာမတွေ့ပါဘူး။` };
+};
+
+// Questions that don't change the trip are answered from the local data.
+const answer = async (intent: AssistantIntent, { routes, lexicon }: AssistantData): Promise<AssistantReply> => {
+  switch (intent.kind) {
+    case 'stop_routes': {
+      const stop = mentionStop(intent.stop, lexicon.stopIndex);
+      if (!stop) return { content: `${mentionName(intent.stop)} အနီးတွင် ဘတ်စ်ကားမှတ်တိုင် မရှိပါဘူး။` };
+      const serving = servingRoutes(routes, stop.id);
+      const where = intent.stop.place ? `${intent.stop.place.name_mm} အနီး ${stop.name_mm}` : stop.name_mm;
+      return serving.length > 0
+        ? { content: `${where} မှတ်တိုင်မှာ YBS လိုင်း ${serving.length} ခု ရပ်ပါတယ်။`, routes: serving }
+        : { content: `${where} မှတ်တိုင်မှာ ရပ်သော YBS လိုင်း မတွေ့ပါဘူး။` };
+    }
+    case 'route_info': {
+      const stopMap = new Map(lexicon.stopIndex.entries.map(e => [e.stop.id, e.stop]));
+      const lines = intent.routeIds.map(id => routes.find(r => r.id === id)).filter((r): r is BusRoute => !!r);
+      const described = lines.map(r => {
+        const first = stopMap.get(r.stops[0])?.name_mm;
+        const last = stopMap.get(r.stops[r.stops.length - 1])?.name_mm;
+        return `YBS ${r.id}: ${first} မှ ${last} အထိ (မှတ်တိုင် ${r.stops.length} ခု${r.isLoop ? '၊ လှည့်ပတ်' : ''})`;
+      });
+      const stop = intent.stop && mentionStop(intent.stop, lexicon.stopIndex);
+      if (stop) {
+        const stopping = lines.filter(r => servingRoutes([r], stop.id).length > 0).map(r => r.id);
+        described.push(stopping.length > 0
+          ? `${stop.name_mm} မှတ်တိုင်မှာ YBS ${stopping.join(', ')} ရပ်ပါတယ်။`
+          : `${stop.name_mm} မှတ်တိုင်မှာ မရပ်ပါဘူး။`);
+      }
+      return { content: described.join('\n'), routes: lines };
+    }
+    case 'nearest_stop': {
+      let point: { lat: number, lng: number };
+      if (intent.near) {
+        point = intent.near.place || intent.near.stops[0];
+      } else {
+        try {
+          const position = await currentPosition();
+          point = { lat: position.coords.latitude, lng: position.coords.longitude };
+        } catch (error) {
+          console.warn('Could not get location:', error);
+          return { content: 'တည်နေရာ ရှာမတွေ့ပါ။ နေရာအမည်နှင့် မေးကြည့်ပါ။ ဥပမာ- "ဆူးလေဘုရား အနီးဆုံးမှတ်တိုင်"' };
+        }
+      }
+      const nearby = nearestStops(point, lexicon.stopIndex, 3);
+      const where = intent.near ? `${mentionName(intent.near)} ၏` : 'သင့်';
+      return nearby.length > 0
+        ? { content: `${where} အနီးဆုံး မှတ်တိုင်များ ဖြစ်ပါတယ်။`, stops: nearby }
+        : { content: `${where} အနီး ${PLACE_WALK_METRES} မီတာအတွင်း ဘတ်စ်ကားမှတ်တိုင် မရှိပါဘူး။` };
+    }
+    default:
+      return { content: NOT_UNDERSTOOD };
+  }
+};
+
+// A reply to a pending question picks one of its stops; anything else is
+// read afresh, with journeys and preferences updating what's remembered.
+export const createLocalProvider = (data: AssistantData): AssistantProvider => ({
+  id: 'local',
+  respond: async ({ query, dialog }) => {
+    const picked = dialog.pending.length > 0 ? pickChoice(dialog.pending[0], query) : undefined;
+    if (picked) {
+      const next = choose(dialog, picked);
+      return { reply: await continueJourney(next), next };
+    }
+    const intent = parseAssistantQuery(data.lexicon, query);
+    const current = { ...dialog, pending: [] };
+    switch (intent.kind) {
+      case 'journey': {
+        const next = applyJourney(current, intent);
+        return { reply: await continueJourney(next), next };
+      }
+      case 'preference': {
+        const next = { ...current, preference: intent.preference };
+        return next.from || next.to
+          ? { reply: await continueJourney(next), next }
+          : { reply: { content: `${PREFERENCE_LABELS[intent.preference]} လမ်းကြောင်းကို ရှာပေးပါမယ်။ ဘယ်ကနေ ဘယ်ကို သွားချင်တာလဲခင်ဗျာ?` }, next };
+      }
+      case 'unknown':
+        // Still waiting on a pick: ask again rather than forget the trip.
+        if (dialog.pending.length > 0) return { reply: await continueJourney(dialog), next: dialog };
+        return { reply: { content: NOT_UNDERSTOOD }, next: current };
+      default:
+        return { reply: await answer(intent, data), next: current };
+    }
+  }
+});
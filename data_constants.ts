@@ -1,3 +1,4 @@
+import { getDistance } from './geo';
 import { BusStop, BusRoute } from './types';
 
 export const ROUTE_FILES = [
@@ -128,28 +129,44 @@ export const ROUTE_FILES = [
   'routeAPS-Pyay.json'
 ];
 
-export const loadRoutesFromFiles = async (): Promise<BusRoute[]> => {
-  const routes: BusRoute[] = [];
-  for (const file of ROUTE_FILES) {
-    try {
-      const response = await fetch(`/routes/${file}`);
-      if (!response.ok) {
-        console.warn(`Failed to load ${file}: ${response.status}`);
-        continue;
-      }
-      const data = await response.json();
-      const route: BusRoute = {
-        id: data.route_id,
-        color: `#${data.color}`,
-        stops: data.stops.map((stopId: number) => stopId.toString()), // Convert stop IDs to strings
-        shape: data.shape
-      };
-      routes.push(route);
-    } catch (error) {
-      console.error(`Error loading ${file}:`, error);
-    }
+// Route lists from the original hand-written dataset (schema v2 and earlier)
+// give one running direction; buses return along the same stops in reverse
+// unless the list closes on itself. Used by the YBSDatabase migrations.
+export const asTwoWayLine = (route: BusRoute): BusRoute => {
+  const { stops } = route;
+  if (stops.length > 1 && stops[0] === stops[stops.length - 1]) {
+    return { ...route, isLoop: true };
   }
-  return routes;
+  return { ...route, isLoop: false, inboundStops: [...stops].reverse() };
+};
+
+// The original hand-written route lists name their stops by name_mm. A name can belong
+// to several stops (both sides of a road, or unrelated places), so each one is
+// resolved to the candidate nearest the previously resolved stop; names with no
+// matching stop are dropped.
+export const resolveStopNames = (names: string[], stops: BusStop[]): number[] => {
+  const byName = new Map<string, BusStop[]>();
+  stops.forEach(s => byName.set(s.name_mm, [...(byName.get(s.name_mm) || []), s]));
+
+  const ids: number[] = [];
+  let previous: BusStop | null = null;
+  names.forEach((name, i) => {
+    const candidates = byName.get(name);
+    if (!candidates) return;
+    let anchor = previous;
+    if (!anchor) {
+      const nextUnique = names.slice(i + 1).map(n => byName.get(n)).find(c => c && c.length === 1);
+      anchor = nextUnique ? nextUnique[0] : null;
+    }
+    const from = anchor;
+    const chosen = from
+      ? candidates.reduce((best, c) =>
+          getDistance(from.lat, from.lng, c.lat, c.lng) < getDistance(from.lat, from.lng, best.lat, best.lng) ? c : best)
+      : candidates[0];
+    ids.push(chosen.id);
+    previous = chosen;
+  });
+  return ids;
 };
 
 export const INITIAL_STOPS: BusStop[] = [
@@ -2247,7684 +2264,3 @@ export const INITIAL_STOPS: BusStop[] = [
 {id: 2514, lat: 16.784881, lng: 96.162024, name_en: "Yangon Central Railway Station", name_mm: "ရန်ကုန်ဘူတာကြီး", road_en: "Upper Pansodan Road", road_mm: "အထက်ပန်းဆိုးတန်းလမ်း", township_en: "Mingala Taungnyunt", township_mm: ""},
 {id: 2515, lat: 16.784855, lng: 96.162190, name_en: "Yangon Central Railway Station", name_mm: "ရန်ကုန်ဘူတာကြီး", road_en: "Upper Pansodan Road", road_mm: "အထက်ပန်းဆိုးတန်းလမ်း", township_en: "Mingala Taungnyunt", township_mm: ""},
 ];
-
-export const INITIAL_ROUTES: BusRoute[] = [
-  { id: "1", color: "#2b6cb0", stops: [
-  "လှည်းကူးဈေး",
-  "သဉ္ဇာဦး",
-  "လှည်းကူးတာဆုံ",
-  "ရေဆင်းလမ်း",
-  "ငှက်ပျောတော",
-  "မီးသတ်",
-  "၁ဝ၇ဂိတ်",
-  "ရွာလယ်ကွေ့",
-  "ဗောဓိပင်",
-  "ပညာရေးကောလိပ် (ဆရာအတက်သင်)",
-  "ဒရယ်ဖိုဆည်မြောင်း",
-  "ပေါက်ကုန်းဘုန်းကြီးကျောင်း",
-  "ဝါးတံတား (ဇရပ်ကွင်း)",
-  "ဝါးနက်ကုန်း",
-  "ရဲမွန်တပ်မြို့",
-  "လမ်းသစ်",
-  "လှည်းလမ်း",
-  "ကုန်းထိပ်",
-  "ရဲမွန်ဘုန်းကြီးကျောင်းရှေ့",
-  "ကျောက်တလုံး",
-  "စီအိုဒီကျောင်း",
-  "စီအိုဒီဈေး",
-  "၉၈၁",
-  "ဆေးရုံဟောင်း",
-  "ဇရပ်ကွင်းသံလမ်း",
-  "ဇရပ်ကွင်းလမ်းဆုံ",
-  "ဂန္ဓမာပေါက်",
-  "စမ်းရေပြာ",
-  "ဆိုက်ကားဂိတ်",
-  "ဘုရားဂိတ်",
-  "ရွာပေါက်",
-  "ဈေးရှေ့",
-  "သံလမ်း",
-  "ဆေးခန်း",
-  "ရွာလယ်",
-  "လမ်းသစ်",
-  "အင်းတိုင်ဝန်ထမ်း",
-  "အလယ်တန်းကျောင်းရှေ့",
-  "ကျောက်စက်",
-  "တလုတ်ကုန်း",
-  "ဝါးရုံစွန်း",
-  "ဆည်မြောင်း",
-  "ဦးဖိုးကွေ့",
-  "အနောက်ဇရပ်",
-  "ရွာဝင်ရေနံ",
-  "ရေအိုးစင်",
-  "ဆားတလင်းစက်ရှေ့",
-  "ဆားတလင်းရွာလယ်",
-  "ဆားတလင်းလမ်းဆုံ",
-  "ဆားတလင်းကျောင်းရှေ့",
-  "ဆားတလင်းပန်းခြံ",
-  "ကြာကန်တံတား",
-  "ငရုတ်ဖိုတံတား",
-  "ဘိုးတော်ပေါက်",
-  "သုံးသုံးလုံး",
-  "ရွာအဝင်ရေကန်",
-  "အထက်ရွာကျောင်းရှေ့",
-  "သမဆိုင်",
-  "အထက်ရွာကျောင်း",
-  "အထက်စက်",
-  "နှစ်ရွာကြားရေအိုးစင်",
-  "နွားခြံ",
-  "အောက်ရွာရိပ်သာ",
-  "အောက်ရွာတံတား",
-  "အောက်ရွာကျောင်း",
-  "အောက်ရွာရေအိုးစင်",
-  "အောက်စက်",
-  "အောက်ရွာဆီဆိုင်",
-  "ဆည်မြောင်း (အရှေ့ဒဂုံ)",
-  "နေလ",
-  "ဒေါပြားပေါက်",
-  "တပ်ပေါက်",
-  "မီးစက်ပေါက်",
-  "အောင်ကေသာအလယ်ပေါက်",
-  "အောင်ကေသာပထမပေါက်",
-  "သံလမ်းကွေ့",
-  "ကျောင်းလမ်း",
-  "ဘူတာ",
-  "ဘောလုံးကွင်းထိပ်",
-  "စက်ရုံရှေ့",
-  "လေးထောင့်ကန်ဆိုင်ကွေ့",
-  "မိဘရိပ်",
-  "ရိပ်သာ",
-  "သမ",
-  "ဦးခွေးပု",
-  "မုန့်ဖို",
-  "သပြေခြံ",
-  "ဒီဇင်ဘာမုဒ်ဦး",
-  "ဒီဇင်ဘာအလယ်ပေါက်",
-  "အအေးခန်း",
-  "( ၄၇ ) ယူနစ်(၃)",
-  "စီးပွားရေးတက္ကသိုလ် (ရွာသာကြီး)",
-  "ကြိုဆိုရေး",
-  "သစ်တော",
-  "လမ်းသစ်",
-  "ကျောင်းရှေ့",
-  "အကြော်တဲ",
-  "ညောင်နှစ်ပင်",
-  "အကောက်ခွန်",
-  "လိုင်စင်ရုံး",
-  "ဦးထွန်းမြတ်",
-  "ကျောက်လမ်း",
-  "တပ်ရင်း၃",
-  "ကွင်းဆင်းကျောင်း",
-  "သင်တန်းကျောင်း",
-  "နတ်စင်",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ",
-  "ကားကြီးဂိတ်",
-  "စံပြဈေး",
-  "ဘဝမြင့်",
-  "ဘီအိုစီ",
-  "ဘုရားလမ်း",
-  "ဇဝန"
-] },
-  { id: "2", color: "#e53e3e", operator: "YPS", stops: [
-  "အောင်မင်္ဂလာအဝေးပြေး(ကားဝင်း)",
-  "အောင်မင်္ဂလာအဝေးပြေးထိပ်",
-  "ဓမ္မာရုံ",
-  "၆ကွေ့",
-  "ဧရာ",
-  "ကန်သာယာလမ်းဆုံ",
-  "ဈဈေး",
-  "ရုပ်ရှင်ရုံ",
-  "နွယ်သာဂီ",
-  "မြရတနာ",
-  "ရုံး",
-  "ဥက္ကာ(ဆေး-၂)",
-  "မေဓာဝီလမ်းဆုံ",
-  "ရုံးသစ်",
-  "ဂိတ်ဟောင်း",
-  "ဂန္ဓာရုံ",
-  "ခေမာ",
-  "ဖြိုးစံပယ်",
-  "ကျောင်းကွေ့",
-  "ကျန်းမာရေး",
-  "၄၄လမ်းဆုံ",
-  "ကျောင်းလေးရှေ့",
-  "ဗညားဒလ",
-  "ဗထူးဈေး",
-  "ကြားမှတ်တိုင်",
-  "၄၆လမ်းဆုံ(ဘယ်)",
-  "၄၅ မှတ်တိုင်",
-  "၇/၈ လမ်းဆုံ",
-  "ရုံးရှေ့ (၃၈ ရပ်ကွက်)",
-  "ကုန်ပဒေသာ",
-  "စွမ်းအင်",
-  "မ၀တလမ်းဆုံ",
-  "အားကစားကွင်း",
-  "ကပရ",
-  "၂၈ တံတားထိပ်",
-  "မြို့ဦးစေတီ",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တောင်မြောက်လမ်းဆုံ (၂)",
-  "နတ်စင်",
-  "သီတာဦး",
-  "ဘော်ဒီရုံ",
-  "မြို့ဦးကျောင်း",
-  "သပြေညို",
-  "၁၈ကွေ့",
-  "တံတားထိပ်",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "ကားလေးဂိတ်",
-  "၂၀ကုန်တိုက်",
-  "သစ္စာ",
-  "ကြာကန်",
-  "စက်မှုဇုန်(၂)",
-  "ဈေးလေး",
-  "ဧရာဝတီလမ်းဆုံ",
-  "ရုံးရှေ့ (စက်မှုဇုန်)",
-  "မင်းကွန်းဈေး",
-  "ဘီအမ်ဂိတ်",
-  "ပုလဲကန်",
-  "ဆောက်လုပ်ရေး",
-  "ရတနာလမ်းဆုံ",
-  "ဆီဆိုင်",
-  "မုခ်ဦး",
-  "အဝိုင်းထိပ် (ကွန်တိန်နာဂိတ်)",
-  "၁၄လမ်း",
-  "၁၁လမ်း",
-  "၅လမ်း",
-  "ပိတောက်ကွေ့"
-] },
-  { id: "3", color: "#e53e3e", operator: "YPS", stops: [
-  "အဝိုင်းထိပ်(ကွန်တိန်နာဂိတ်)",
-  "၁၄လမ်း",
-  "၁၁လမ်း",
-  "၅လမ်း",
-  "ပိတောက်ကွေ့",
-  "မြသီတာပန်းခြံ",
-  "ယုဇနမုခ်ဦး",
-  "ဆီဆိုင်",
-  "အိုးအိမ်",
-  "အောင်ချမ်းသာ",
-  "မှတ်တိုင်သစ်",
-  "မြနန္ဒာ(အလယ်ဂိတ်)",
-  "ရတနာလမ်းဆုံ",
-  "သိမ်ချောင်းလမ်းဆုံ",
-  "အင်းဝအိမ်ရာ",
-  "အထူးဂိတ်",
-  "မင်းကွန်းဈေး",
-  "ရုံးရှေ့(စက်မှုဇုန်)",
-  "ဧရာဝတီလမ်းဆုံ",
-  "ဈေးလေး",
-  "စက်မှုဇုန်(၂)",
-  "ကြာကန်",
-  "သစ္စာ",
-  "၂၀ကုန်တိုက်",
-  "ကားလေးဂိတ်",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "တံတားထိပ်",
-  "၁၈ကွေ့",
-  "သပြေညို",
-  "မြို့ဦးကျောင်း",
-  "ဘော်ဒီရုံ",
-  "သီတာဦး",
-  "နတ်စင်",
-  "တောင်မြောက်လမ်းဆုံ(၂)",
-  "တောင်မြောက်လမ်းဆုံ",
-  "စံပြဈေး",
-  "ဇဝနလမ်းဆုံ",
-  "လေးထောင့်ကန်လမ်း",
-  "တာမွေဈေး",
-  "ယုဇနပလာဇာ",
-  "မင်္ဂလာဈေး",
-  "ပုဇွန်တောင်ဈေး",
-  "လမ်း(၅၀)",
-  "ကုန်သည်လမ်း",
-  "ဆူးလေ(မြို့တော်ခန်းမ)",
-  "ဗိုလ်ချုပ်အောင်ဆန်းလမ်း",
-  "သိမ်ဖြူစာတိုက်",
-  "ဗညားဒလလမ်း",
-  "သီတာ",
-  "ယမုံနာလမ်း",
-  "မြင်တော်သာလမ်း",
-  "ဧရာဝဏ်လမ်း",
-  "သာကေတအဝိုင်း",
-  "ဆောက်လုပ်ရေး",
-  "တိုင်းရင်းသားကျေးရွာ",
-  "ရတနာလမ်း",
-  "ဆီဆိုင်ကွေ့",
-  "ယုဇနဥယျာဉ်မြို့တော်"
-] },
-  { id: "4", color: "#e53e3e", operator: "YPS", stops: [
-  "ရတနာနှင်းဆီအိမ်ရာ",
-  "ရတနာလမ်းဆုံ",
-  "ဆီဆိုင်",
-  "မုခ်ဦး",
-  "၁၇လမ်း",
-  "၁၁လမ်း",
-  "၅လမ်း",
-  "ပိတောက်ကွေ့",
-  "အိုးအိမ်",
-  "အောင်ချမ်းသာ",
-  "မှတ်တိုင်သစ်",
-  "မြနန္ဒာ(အလယ်ဂိတ်)",
-  "ရတနာလမ်းဆုံ",
-  "သိမ်ချောင်းလမ်းဆုံ",
-  "၆၅ရပ်ကွက်",
-  "ဆောက်လုပ်ရေး",
-  "စာဥ",
-  "သာကေတအဝိုင်း",
-  "ကျောက်တိုင်",
-  "မင်းနန္ဒာလမ်း",
-  "ဒေါပုံသင်္ဘောကျင်း",
-  "မဟာဗန္ဓုလတံတား",
-  "အနော်ရထာလမ်း",
-  "လမ်း၅၀",
-  "ရွှေတိဂုံဘုရားလမ်း",
-  "ဗိုလ်ချုပ်အောင်ဆန်းဈေး",
-  "ရုပ်ရှင်ရုံ",
-  "ဆူးလေ(မဟာဗန္ဓူလပန်းခြံ)",
-  "ဗိုလ်ချုပ်အောင်ဆန်းလမ်း",
-  "သိမ်ဖြူစာတိုက်",
-  "ဗညားဒလလမ်း",
-  "သီတာ",
-  "ယမုံနာလမ်း",
-  "မြင်တော်သာလမ်း",
-  "ဧရာဝဏ်လမ်း",
-  "တိုင်းရင်းသားကျေးရွာ",
-  "ရတနာလမ်း",
-  "ဆီဆိုင်ကွေ့",
-  "ယုဇနဥယျာဉ်မြို့တော်",
-  "ပဲခူးမြစ်လမ်း",
-  "သိမ်ကျောင်း",
-  "ဧရာဝတီလမ်း",
-  "မြသီတာပန်းခြံ",
-  "ယုဇနမုခ်ဦး",
-  "မှတ်တိုင်ဟောင်း",
-  "မြနန္ဒာ",
-  "၁၄လမ်း",
-  "၁၀လမ်း",
-  "အဝိုင်းထိပ်(ကွန်တိန်နာဂိတ်)"
-] },
-  { id: "5", color: "#e53e3e", stops: [
-  "ဒဂုံဆိပ်ကမ်း(ရိုးမရိပ်သာ)",
-  "ကနောင်မင်းသားကြီးလမ်း",
-  "၈၉လမ်းဆုံ",
-  "ကနောင်ကွေ့",
-  "ယုဇနဥယျာဉ်မြို့တော်",
-  "ကျွန်းရွှေဝါလမ်း",
-  "ရွှေလီလမ်း",
-  "ဆီဆိုင်ကွေ့",
-  "ရတနာလမ်း",
-  "တိုင်းရင်းသားကျေးရွာ",
-  "ဆောက်လုပ်ရေး",
-  "သာကေတအဝိုင်း",
-  "ဧရာဝဏ်လမ်း",
-  "မြင်တော်သာလမ်း",
-  "ယမုံနာလမ်း",
-  "ဂျပန်တံတားသစ်",
-  "ပုဇွန်တောင်ဈေး",
-  "ညောင်တန်း"
-]},
-  { id: "6", color: "#e53e3e", operator: "YPS", stops: [
-  "ဒဂုံဧရာအဝေးပြေး",
-  "သမကုန်း",
-  "ဘီအိုစီ",
-  "စနေမ",
-  "၅ထိပ်(စနေမ)",
-  "မီးခွက်ဈေး(အပေါ်ထိပ်)",
-  "တံတားဖြူ",
-  "ရုံးရှေ့",
-  "၅ထိပ်",
-  "၃ထိပ်",
-  "၁ထိပ်",
-  "အင်းစိန်ကမ်းနား",
-  "ပေါက်တောဝ",
-  "ထောင်ဘူးဝ",
-  "အင်းစိန်ဈေး",
-  "အင်းစိန်ပန်းခြံ",
-  "နံ့သာကုန်း",
-  "စော်ဘွားကြီးကုန်း",
-  "ဆယ်မိုင်",
-  "ကိုးမိုင်",
-  "ရှစ်မိုင်ပန်းခြံ",
-  "နဝဒေး",
-  "ကမ္ဘာအေးဘုရား",
-  "ဂန္ဓာရုံ",
-  "ပါရမီ(ညောင်ပင်)",
-  "ဘေလီ",
-  "သံသုမာလမ်း",
-  "စံပြဈေး",
-  "တောင်မြောက်လမ်းဆုံ",
-  "ပြည်ထောင်စုလမ်း",
-  "စည်ပင်လမ်း",
-  "မောင်းမကန်သာလမ်း",
-  "သိမ်ကျောင်း",
-  "ပဲခူးမြစ်လမ်း",
-  "ယုဇနဥယျာဉ်မြို့တော်",
-  "ဒဂုံဆိပ်ကမ်း(၈၉လမ်းဆုံ)",
-  "ကနောင်မင်းသားကြီးလမ်း",
-  "ဧရာဝဏ်လမ်း",
-  "မဟာဗန္ဓုလတံတား",
-  "ဆူးလေ",
-  "ဗိုလ်ချုပ်လမ်း",
-  "ပြည်လမ်း",
-  "အင်းစိန်လမ်း",
-  "လှိုင်သာယာ",
-  "ညောင်တုန်းလမ်း",
-  "ဒဂုံဧရာအဝေးပြေး (ဂိတ်ဆုံး)"
-]},
-  { id: "7", color: "#e53e3e", operator: "YPS", stops: [
-  "အောင်မြင့်မိုရ်အိမ်ရာ",
-  "ရတနာပုံလမ်းထိပ်",
-  "မြိုင်သံသာ",
-  "ငုဝါမြိုင်",
-  "၆၂ ဂိတ်ဟောင်း",
-  "အကြော်တဲ",
-  "ရုံးရှေ့",
-  "ကျောင်းရှေ့",
-  "ဝါးဆိုင်ကွေ့",
-  "ဆိုင်သစ်",
-  "၇၁ ဈေး",
-  "ကျောင်းလမ်း",
-  "ကားကြီးဂိတ်",
-  "ကွမ်းယာဆိုင်",
-  "၅၆ လမ်းဆုံ",
-  "၅၄ သမ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "ကားလေးဂိတ်",
-  "၂၀ ကုန်တိုက်",
-  "သစ္စာ",
-  "ကြာကန်",
-  "စက်မှုဇုန် (၂)",
-  "ဂျီအီးစီ",
-  "သစ်ဆိုင်ကွေ့",
-  "ယောက်ကော်",
-  "ပန်းခြံ",
-  "ယဉ်ကျေးမှု",
-  "သုခုမ",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ",
-  "ကားကြီးဂိတ်",
-  "စံပြဈေး",
-  "ဘဝမြင့်",
-  "ဘီအိုစီ",
-  "ဘုရားလမ်း",
-  "ဇဝန",
-  "ခပ်ချီးယား",
-  "အသင်းတိုက်",
-  "သံလမ်း",
-  "ကျိုက္ကဆံလမ်းဆုံ",
-  "ကျောင်းရှေ့",
-  "တာမွေဈေးဟောင်း (အာယုဆေးရုံ)",
-  "တာမွေဈေး",
-  "ကျောက်မြောင်းဈေး",
-  "သီတာ",
-  "အောင်မင်္ဂလာ",
-  "ယုဇနပလာဇာ",
-  "မင်္ဂလာဈေး (၁၂၄ လမ်း)",
-  "မဆလာစက်",
-  "သိမ်ဖြူစာတိုက်",
-  "သိမ်ဖြူဈေး",
-  "စိန်ပေါလ်",
-  "ကြယ်ငါးပွင့်",
-  "ဘိုကလေးဈေး",
-  "ပန်းဆိုးတန်း",
-  "ဆူးလေ (ပန်းခြံ)"
-] },
-  { id: "8", color: "#805ad5", stops: [
-  "၈ ဂိတ်အစ",
-  "ဦးတရုတ်",
-  "ရိုးမရိပ်သာအိမ်ရာ",
-  "ကျီစုသုသာန်",
-  "စက်ရုံပေါက်",
-  "၅ ဂိတ်အစ",
-  "ကျောင်းဈေး",
-  "ဆေးရုံကွေ့",
-  "စက်ရုံကွေ့",
-  "ကနောင်အိမ်ရာ",
-  "ဘုရားလေး",
-  "၈/၉ လမ်းဆုံ",
-  "ကျောက်လမ်း",
-  "မြေနီလမ်း",
-  "ကြိုဆိုရေး",
-  "ပါရမီ",
-  "သာဂေါင်ကြီး",
-  "သစ္စာလေးတန်",
-  "မြနန္ဒာ",
-  "ရတနာလမ်းဆုံ",
-  "ပွိုင့်ထိပ်",
-  "အထူးဂိတ်",
-  "အင်းဝအိမ်ရာ",
-  "သိမ်ချောင်းလမ်းဆုံ",
-  "၆၅ ရပ်ကွက်",
-  "ဆောက်လုပ်ရေး",
-  "စာဥ",
-  "သစ်ဆိပ်",
-  "ဒုဋ္ဌဝတီ",
-  "သံလမ်းကွေ့",
-  "ဘုရားလေးကွေ့",
-  "၃၄ ကားကြီးဂိတ်",
-  "၁၀ ဈေး",
-  "သာကေတအဝိုင်း (တံတား/နား)",
-  "သာကေတအဝိုင်း",
-  "ဓမ္မာရုံ",
-  "ခိုင်ရွှေဝါ",
-  "အရက်ဆိုင်ကွေ့",
-  "ဂိတ်ဟောင်း",
-  "ဝေဇယန္တာ",
-  "၇ ဈေး",
-  "ကျန်းမာရေး",
-  "ရုပ်ရှင်ရုံ",
-  "နယ်မြေရုံး",
-  "စာတိုက်",
-  "ဆီဆိုင်",
-  "မာန်ပြေ",
-  "ရန်ပြေ",
-  "ဝက်စု",
-  "ရန်အောင်",
-  "ဒေါပုံသင်္ဘောကျင်း",
-  "ဝါဆို",
-  "မင်္ဂလာဈေး",
-  "မင်္ဂလာမွန်ဈေး",
-  "ဘီအိုစီ",
-  "မျက်စိဆေးရုံ",
-  "ဖိုးစိန်လမ်း",
-  "နတ်မောက်ကျောင်းရှေ့",
-  "ဂျမား",
-  "ရေခဲဆိုင်",
-  "ဗဟန်း ၃ လမ်း",
-  "ရွှေတိဂုံဘုရား (တောင်ဘက်မုခ်)",
-  "ဆက်သွယ်ရေး",
-  "ဆောက်လုပ်ရေး",
-  "လေဟာပြင်ဈေး",
-  "လသာ"
-] },
-  { id: "9", color: "#805ad5", stops: [
-  "တိုင်းရင်းသားဖွံ့ဖြိုးရေးကော်လိပ်",
-  "စာဥ",
-  "သစ်ဆိပ်",
-  "ဒုဋ္ဌဝတီ",
-  "သံလမ်းကွေ့",
-  "ဘုရားလေးကွေ့",
-  "၃၄ ကားကြီးဂိတ်",
-  "၁၀ ဈေး",
-  "သာကေတအဝိုင်း",
-  "စဂိတ်",
-  "မြေနီ",
-  "ကျောင်းကွေ့",
-  "အနော်မာ",
-  "ကျောက်တိုင်",
-  "သုဝဏ္ဏလမ်းဆုံ",
-  "ဈေးလေး (ကြက်ဘဲဈေး)",
-  "အာသောက",
-  "တာမွေဗလီ",
-  "တာမွေဈေး",
-  "ကျောက်မြောင်းဈေး",
-  "သီတာ",
-  "အောင်မင်္ဂလာ",
-  "ယုဇနပလာဇာ",
-  "မင်္ဂလာဈေး",
-  "ဝါဆို",
-  "ဒေါပုံသင်္ဘောကျင်း",
-  "ရန်အောင်",
-  "ဝက်စု",
-  "သဒ္ဒါရုံ",
-  "၁ ဈေးကွေ့",
-  "တပ်ဖွဲ့",
-  "မြေနီ",
-  "ကျောက်တိုင်",
-  "ကျောက်တိုင်",
-  "အနော်မာ",
-  "ကျောင်းကွေ့",
-  "မြေနီ",
-  "စဂိတ်",
-  "သာကေတအဝိုင်း",
-  "၁၀ ဈေး",
-  "၃၄ ကားကြီးဂိတ်",
-  "ဘုရားလေးကွေ့",
-  "သံလမ်းကွေ့",
-  "ဒုဋ္ဌဝတီ",
-  "သစ်ဆိပ်",
-  "စာဥ",
-  "တိုင်းရင်းသားဖွံ့ဖြိုးရေးကော်လိပ်"
-] },
-  { id: "10", color: "#805ad5", operator: "YPS", stops: [
-  "၃၅",
-  "၃၆",
-  "၃၇",
-  "ရုံးရှေ့",
-  "၁၀ မိုင်",
-  "အဝိုင်း",
-  "မုခ်ဝ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "တသသ",
-  "မုခ်ဝ",
-  "ဂိတ်ဟောင်း",
-  "ဈေးလေး",
-  "စိန်ပန်း",
-  "၄၆ လမ်းဆုံ (ညာ)",
-  "၄၆ လမ်းဆုံ (ဘယ်)",
-  "ကြားမှတ်တိုင်",
-  "ဗထူးဈေး",
-  "ဗညားဒလ",
-  "ကျောင်းလေးရှေ့",
-  "၄၄ လမ်းဆုံ",
-  "ကျန်းမာရေး",
-  "ကျောင်းကွေ့",
-  "ဖြိုးစံပယ်",
-  "ခေမာ",
-  "ဂန္ဓာရုံ",
-  "ဂိတ်ဟောင်း",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်း",
-  "ဘုန်းကြီးလမ်း",
-  "၂ ဈေး",
-  "၅ လမ်း",
-  "လမ်းဝ",
-  "ကမ္ဘာအေးစာတိုက်",
-  "ကမ္ဘာအေးဘုရား",
-  "ချော်တွင်းကုန်း",
-  "မဉ္ဇူ",
-  "ပါရမီညောင်ပင်",
-  "ကေတုမာလာကွေ့",
-  "ကေတုမာလာကွေ့",
-  "တကောင်း",
-  "နန္ဒဝန်ဈေး",
-  "အင်းဝ",
-  "တောင်ဥက္ကလာစာတိုက်",
-  "ပဒေသာ",
-  "၁၄/၁၅ လမ်းဆုံ",
-  "အောင်ရတနာ",
-  "သရက်တော",
-  "ဇဝနလမ်းဆုံ",
-  "ခပ်ချီးယား",
-  "အသင်းတိုက်",
-  "သုဝဏ္ဏလမ်းဆုံ",
-  "ကျောက်တိုင်",
-  "မြေနီ",
-  "တပ်ဖွဲ့",
-  "၁ ဈေးကွေ့",
-  "၁ ဈေးကွေ့",
-  "အနော်မာ",
-  "ထူပါရုံ",
-  "ရုပ်ရှင်ရုံ",
-  "၅ ကွေ့",
-  "ဝေဇယန္တာ",
-  "ကြယ်ငါးပွင့်",
-  "၄၉ အစိမ်းဂိတ်",
-  "ခန်းမ",
-  "ဂိတ်ဝ",
-  "၁၃ ဂိတ်",
-  "ကန်ကြီးထောင့်"
-] },
-  { id: "11", color: "#EFC246", operator: "YPS", stops: [
-  "အောင်မင်္ဂလာအဝေးပြေး (ကားဝင်း)",
-  "အောင်မင်္ဂလာအဝေးပြေးထိပ်",
-  "အမှတ် ၃ လမ်းဆုံ",
-  "ခရေပင်ရိပ်မွန်",
-  "သုံးရာသီ",
-  "ရာသက်ပန်",
-  "ခရေပင်လမ်းခွဲ (ခရေပင်လမ်း)",
-  "ခရေပင်လမ်းခွဲ (ပြည်လမ်း)",
-  "မင်္ဂလာဒုံစာတိုက်",
-  "ဆေးကျောင်း",
-  "ဘီအိုစီ",
-  "ပန်းခြံကုန်း",
-  "ကုလားဘုရား",
-  "ထန်းပင်ကုန်း",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ဝပ်ရှော့",
-  "အုတ်ကျင်းဝ",
-  "အင်းစိန်ပန်းခြံ",
-  "အင်းစိန်ပန်းခြံ",
-  "နို့ဈေး",
-  "ဝပ်ရှော့",
-  "ပန်းဈေး",
-  "ဘီပီအိုင် / ကြို့ကုန်း",
-  "ခဝဲခြံ",
-  "သမိုင်းမြို့သစ်",
-  "သမိုင်းဘူတာ",
-  "မာလာမြိုင် (၅/၆)",
-  "အုတ်ကျင်း",
-  "သီရိမြိုင်",
-  "သံလမ်း",
-  "ကမာရွတ်",
-  "ဘူတာရုံလမ်း",
-  "ရွာမကွေ့",
-  "ဆိုက်ကားဂိတ်",
-  "ဘီအာဘီ",
-  "ခိုင်ရွှေဝါ",
-  "ပြည်ရိပ်မွန်",
-  "ရဲဝင်း",
-  "ဟံသာဝတီဘူတာ",
-  "နတ်စင်လမ်း",
-  "စလင်းကွင်း",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကြည့်မြင်တိုင်ဘူတာ",
-  "၉ ထပ်ကြီး",
-  "ရှမ်းလမ်း",
-  "ရွှေမန်း",
-  "မြေနီကုန်း",
-  "လင့်လမ်း",
-  "မြောက်ဘက်မုခ်",
-  "အရှေ့ဘက်မုခ်",
-  "ရွှေတိဂုံဘုရား (တောင်ဘက်မုခ်)",
-  "ဆက်သွယ်ရေး",
-  "ဆောက်လုပ်ရေး"
-] },
-  { id: "12", color: "#e53e3e", operator: "YPS", stops: [
-  "ထားဝယ်ချောင်",
-  "၅၀ ကွေ့",
-  "ရုံးရှေ့ (၄၆ ရပ်ကွက်)",
-  "အအေးဆိုင်",
-  "မြဝတီ",
-  "၄၆ လမ်းဆုံ",
-  "၄၅",
-  "၇/၈ လမ်းဆုံ",
-  "ရုံးရှေ့ (၃၈ ရပ်ကွက်)",
-  "ကုန်ပဒေသာ",
-  "စွမ်းအင်",
-  "မဝတ လမ်းဆုံ",
-  "မန္တလေးလမ်း",
-  "စစ်တောင်း",
-  "ကျောင်းလမ်း",
-  "ဆက်သွယ်ရေး",
-  "၃၅",
-  "သင်းဝင်",
-  "နာရီစင်",
-  "ပင်းယ",
-  "ကေတုမာလာကွေ့",
-  "တကောင်း",
-  "နန္ဒဝန်ဈေး",
-  "အင်းဝ",
-  "တောင်ဥက္ကလာစာတိုက်",
-  "ပုဏ္ဏမီ",
-  "ဗဟိုဈေး",
-  "သံလမ်း",
-  "မိုးကောင်း",
-  "ရန်ကင်းစာတိုက်",
-  "၁၂ လုံးတန်း",
-  "ကြားမှတ်တိုင်",
-  "ဂွတ္တလစ်ဈေးကွေ့",
-  "မင်းလမ်း",
-  "လမ်းဆုံ",
-  "မြလမ်း",
-  "တာမွေအဝိုင်း",
-  "တာမွေအဝိုင်း",
-  "၆ ထပ်ကြီး",
-  "ဗန်ဒါပင်",
-  "ရွှေဂုံတိုင်",
-  "ရေခဲဆိုင်",
-  "ဗဟန်း ၃ လမ်း",
-  "ကျောက်တိုင်",
-  "ယောက်လမ်း (သမ္မတ)"
-] },
-  { id: "13", color: "#e53e3e", operator: "YPS", stops: [
-  "ထန်းတပင်",
-  "လမ်းသစ်",
-  "မီတာရုံး",
-  "မုခ်ဝ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "တသသ",
-  "မုခ်ဝ",
-  "ဂိတ်ဟောင်း",
-  "ဈေးလေး",
-  "စိန်ပန်း",
-  "၄၆ လမ်းဆုံ(ညာ)",
-  "၄၆ လမ်းဆုံ(ဘယ်)",
-  "ကြားမှတ်တိုင်",
-  "ဗထူးဈေး",
-  "ဗညားဒလ",
-  "ကျောင်းလေးရှေ့",
-  "၄၄ လမ်းဆုံ",
-  "ကျန်းမာရေး",
-  "ကျောင်းကွေ့",
-  "၄၉ ဂိတ်ဟောင်း",
-  "သိပ္ပံ(ဗိုလ်မင်းရောင်အိမ်ရာ)",
-  "တံတားဖြူ",
-  "ဂုန်းထိပ်(ဗိုလ်ဂါမဏိ)",
-  "၄၀ ဈေး",
-  "လောပိတ",
-  "၃၅",
-  "သင်းဝင်",
-  "နာရီစင်",
-  "ဘေလီ",
-  "မြင်သာဈေး",
-  "တောင်ဥက္ကလာဘုရား",
-  "မိုးဆွေ",
-  "၃၁ ဂိတ်",
-  "စီမံကိန်း",
-  "လိုင်စင်ရုံး",
-  "စံပြဈေး",
-  "စံပြဈေး",
-  "ဘဝမြင့်",
-  "ဘီအိုစီ",
-  "ဘုရားလမ်း",
-  "ဇဝန",
-  "ခပ်ချီးယား",
-  "အသင်းတိုက်",
-  "သံလမ်း",
-  "ကျိုက္ကဆံလမ်းဆုံ",
-  "ကျောင်းရှေ့",
-  "တာမွေဈေးဟောင်း(အာယုဆေးရုံ)",
-  "တာမွေဈေး",
-  "ကျောက်မြောင်းဈေး",
-  "သီတာ",
-  "အောင်မင်္ဂလာ",
-  "ယုဇနပလာဇာ",
-  "မင်္ဂလာဈေး",
-  "ပုဇွန်တောင်စာတိုက်",
-  "ပုဇွန်တောင်ဈေး",
-  "၅၀ ကွေ့",
-  "မင်္ဂလာဈေး",
-  "ပုဇွန်တောင်စာတိုက်",
-  "ပုဇွန်တောင်ဈေး",
-  "၅၀ ကွေ့",
-  "ဆီဆိုင်",
-  "ဗိုလ်တထောင်ဘုရား"
-] },
-  { id: "14", color: "#e53e3e", operator: "YPS", stops: [
-  "ပါရမီညောင်ပင်",
-  "ကေတုမာလာကွေ့",
-  "ပင်းယ",
-  "ဘေလီ",
-  "မြင်သာဈေး",
-  "တောင်ဥက္ကလာဘုရား",
-  "မိုးဆွေ",
-  "၃၁ ဂိတ်",
-  "စီမံကိန်း",
-  "လိုင်စင်ရုံး",
-  "ဒေဝဒဟ",
-  "ဘဝမြင့်",
-  "အာနန္ဒာဘုရား",
-  "ဂိတ်ဟောင်း",
-  "ကျိုက္ကဆံဘုရား",
-  "၁၄/၁၅ လမ်းဆုံ",
-  "ရတနာဈေး",
-  "ကုလားဘုရား",
-  "၁၆ ကွေ့",
-  "သံလမ်း",
-  "ကျောက်ကုန်း",
-  "မှတ်တမ်းရုံး",
-  "အဝိုင်းလေး",
-  "ရေခဲစက်",
-  "ကြားမှတ်တိုင်",
-  "၁၂ လုံးတန်း",
-  "ရန်ကင်းဈေး",
-  "စက်မှုကွေ့",
-  "လမ်းနီလေး (မြန်မာပလာဇာ)",
-  "ကုက္ကိုင်း",
-  "ရေစက်ကွေ့",
-  "သံလွင်",
-  "UFL",
-  "ကျောင်းလမ်း",
-  "ကျောင်းရှေ့ (ဓမ္မာရုံ)",
-  "လှည်းတန်းဈေး",
-  "လှည်းတန်းကျောင်းရှေ့",
-  "ဆင်မလိုက်",
-  "နတ်စင်လမ်း",
-  "ကမ်းနားဈေး",
-  "ကြည့်မြင့်တိုင်ညဈေး",
-  "ကြည့်မြင့်တိုင်စာတိုက်",
-  "သဲကွင်း",
-  "ဟုမ်းလမ်း",
-  "သီရိမင်္ဂလာဈေးဟောင်း",
-  "ဆင်မင်းဈေး",
-  "ဒန်အိုးစက်",
-  "သစ်တော",
-  "ထော်လီကွေ့",
-  "သခင်မြပန်းခြံ"
-] },
-  { id: "15", color: "#e53e3e", operator: "YPS", stops: [
-  "၃၅",
-  "၃၆",
-  "၃၇",
-  "ဒဂုံတက္ကသိုလ်",
-  "ရုံးရှေ့",
-  "၁၀ မိုင်",
-  "အဝိုင်း",
-  "မုခ်ဝ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "တသသ",
-  "မုခ်ဝ",
-  "ဂိတ်ဟောင်း",
-  "ဈေးလေး",
-  "စိန်ပန်း",
-  "၄၆ လမ်းဆုံ(ညာ)",
-  "၄၆ လမ်းဆုံ(ဘယ်)",
-  "ကြားမှတ်တိုင်",
-  "ဗထူးဈေး",
-  "ဗညားဒလ",
-  "ကျောင်းလေးရှေ့",
-  "၄၄ လမ်းဆုံ",
-  "ကျန်းမာရေး",
-  "ကျောင်းကွေ့",
-  "ဖြိုးစံပယ်",
-  "အေမာ",
-  "ဂန္ဓာရုံ",
-  "ဂိတ်ဟောင်း",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်း",
-  "ဘုန်းကြီးလမ်း",
-  "၂ ဈေး",
-  "၅ လမ်း",
-  "လမ်းဝ",
-  "နဝဒေး",
-  "၈ မိုင်ပန်းခြံ(မြိုင်ဟေဝန်)",
-  "၈ မိုင်",
-  "မဟာစည်",
-  "အေဝမ်း",
-  "၉ မိုင်",
-  "၉ မိုင်ခွဲ",
-  "၁၀ မိုင်ကုန်း",
-  "ကျောက်တော်ကြီးဘုရား",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ဝပ်ရှော့",
-  "အုတ်ကျင်းဝ",
-  "အင်းစိန်ပန်းခြံ",
-  "အင်းစိန်ပန်းခြံ",
-  "အင်းစိန်ဆေးရုံ",
-  "မညက",
-  "ဟိုက်ပက်",
-  "ဘိုကုန်း",
-  "သရက်တော",
-  "ပြည်တော်သာ",
-  "ဂျပန်လမ်း",
-  "ဖော့ကန်ဈေး",
-  "စောင်စက်ရုံ(၂)",
-  "၁ ဂိတ်",
-  "ကျောင်းဂိတ်",
-  "အောင်ဆန်းဈေး",
-  "ရွာသစ်",
-  "ဘိုခြံ"
-]},
-  { id: "16", color: "#EF4444", stops: [
-  "အေဝမ်း",
-  "၁၀၂ ဂတ်စ်ဆိုင်",
-  "၁၇ ရပ်ကွက်",
-  "ရေခဲစက်",
-  "ကျောက်လမ်းထိပ်",
-  "မော်ကျွန်း",
-  "ကားကြီးဂိတ်",
-  "ဓမ္မာရုံ",
-  "ကျောင်းလမ်း",
-  "၆ ကွေ့",
-  "ဧရာ",
-  "ကန်သာယာလမ်းဆုံ",
-  "ဈ ဈေး",
-  "သရုပ်ရှင်ရုံ",
-  "နွယ်သာဂီ",
-  "မြရတနာ",
-  "ရုံး",
-  "ဥက္ကာ (ဆေး-၂)",
-  "မေဓာဝီလမ်းဆုံ",
-  "ရုံးသစ်",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်း",
-  "ဘုန်းကြီးလမ်း",
-  "၂ ဈေး",
-  "၅ လမ်း",
-  "လမ်းဝ",
-  "နဝဒေး",
-  "၈ မိုင်ပန်းခြံ (မြိုင်ဟေဝန်)",
-  "၈ မိုင်",
-  "ရဲဘော်ဟောင်း",
-  "ကျိုက်ဝိုင်းဘုရား",
-  "ရဲရန်အောင်",
-  "သမိုင်းလမ်းဆုံ",
-  "ကြွေ ၁",
-  "ဦးဘဟန်",
-  "ဈေးဘူတာ",
-  "ဘုရင့်နောင်လမ်းဆုံ (တံတား ပေါ်/အောက်)",
-  "တပ်ထိပ်",
-  "စက်မှုဇုံ",
-  "ဗိုလ်ချုပ်",
-  "အဆင့်မြင့်",
-  "နဝဒေး",
-  "ဘုရားလမ်း",
-  "ဆောက်လုပ်ရေး",
-  "မီးခွက်ဈေး (အောက်ထိပ်)",
-  "တိုးချဲ့",
-  "ဘီအိုစီ",
-  "သမကုန်း"
-] },
-  { id: "17", color: "#e53e3e", operator: "YPS", stops: [
-  "၁၇ ဂိတ်",
-  "ဆေးရုံကွေ့",
-  "မီးသတ်",
-  "မင်းထူးကျော်",
-  "ကျောက်လမ်းထိပ်",
-  "မော်ကျွန်း",
-  "ကားကြီးဂိတ်",
-  "ဓမ္မာရုံ",
-  "ကျောင်းလမ်း",
-  "၆ ကွေ့",
-  "ဓမ္မာရုံ",
-  "အောင်မင်္ဂလာအဝေးပြေးထိပ်",
-  "အမှတ် ၃ လမ်းဆုံ",
-  "ခရေပင်ရိပ်မွန်",
-  "သုံးရာသီ",
-  "ရာသက်ပန်",
-  "ခရေပင်လမ်းခွဲ (ခရေပင်လမ်း)",
-  "ဆေးကျောင်းပေါက်",
-  "၁၀၆",
-  "ပန်းခြံ",
-  "၆၄၆",
-  "အစာစက်",
-  "ဒညင်းကုန်းလမ်းဆုံ",
-  "ဒညင်းကုန်းဘူတာဈေး",
-  "၁၄ လမ်းဆုံ",
-  "၁၉၉ ဂိတ်ဟောင်း",
-  "ဧရာမြေ",
-  "မိုင် ၂၀",
-  "အလယ်ရွာ",
-  "ပေါက်တန်းအဝိုင်း",
-  "ရိုးကြီး",
-  "ရိုးလေး",
-  "၁၂၄",
-  "ကျောင်းရှေ့ (ရိုးလေး)",
-  "၈၆ ဂိတ်ဟောင်း",
-  "ရွှေရင်အေးဘုရား",
-  "ကျောင်းလမ်း",
-  "ပဲခူးလမ်း",
-  "ဈေးလေး",
-  "၁၂ သမ",
-  "အောင်မင်္ဂလာဈေး",
-  "အားမာန်",
-  "သမကုန်း",
-  "သမကုန်း",
-  "ဒဂုံဧရာအဝေးပြေး"
-] },
-  { id: "18", color: "#4D17D5", operator: "YPS", stops: [
-  "ထောက်ကြန့် (ရေနံမြေ)",
-  "ဘီအာတီ ဂိတ်ဟောင်း",
-  "ဘုရားလေးကွေ့",
-  "ညောင်ပင်",
-  "ထောက်ကြန့်လမ်းဆုံ",
-  "ပုပ္ပါးကျောင်း",
-  "လမ်းသစ် (ထောက်ကြန့်)",
-  "ကျောင်းရှေ့ (ထောက်ကြန့်)",
-  "နွယ်ခွေ (ပြည်လမ်း)",
-  "စီပီလိုက်",
-  "ဒေဝူး",
-  "ဆေးဂဲလ်",
-  "မွေးမြူရေး",
-  "ရေစင်",
-  "ခြံပေါက် (ပျဉ်းမပင်)",
-  "ကုန်းထိပ်",
-  "ဘုရားလေး",
-  "ရဲဘော်ဟောင်း",
-  "ရှမ်းစု",
-  "ဘိုခြံ",
-  "တစ်နံပါတ်",
-  "ဆင်မင်း",
-  "ရေကြည်အိုင်",
-  "ဝါယာလက်",
-  "ကျိုက္ကလို့",
-  "ကျိုက္ကလဲ့/ဆပ်ပလိုင်း",
-  "ဗဟိုနိုင်ငံရေး",
-  "မင်္ဂလာဒုံဈေး",
-  "ခရေပင်လမ်းခွဲ (ခရေပင်လမ်း)",
-  "ရာသက်ပန်",
-  "သုံးရာသီ",
-  "ခရေပင်ရိပ်မွန်",
-  "အမှတ် ၃ လမ်းဆုံ (အဝေးပြေးထိပ်)",
-  "အောင်မင်္ဂလာအဝေးပြေးထိပ်",
-  "ဓမ္မာရုံ",
-  "၆ ကွေ့",
-  "ဧရာ",
-  "ကန်သာယာလမ်းဆုံ",
-  "ဥဇ္ဇာနာ",
-  "ဣန္ဒာ",
-  "သုနန္ဒာ",
-  "ဝဇီရာ",
-  "သန္တာ",
-  "ဃ ဈေး",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်း",
-  "ရွာဘုန်းကြီးလမ်း",
-  "ကျောင်းကွေ့",
-  "၂ ဈေး",
-  "ကျောင်းလမ်း",
-  "အုတ်ပုံဆိပ်",
-  "၄၃၅",
-  "၄၃၆",
-  "ခလရ ၂၆ / တပ်ရင်း ၁၆",
-  "ဘေလီ",
-  "မြင်သာဈေး",
-  "တောင်ဥက္ကလာဘုရား",
-  "မိုးဆွေ",
-  "၃၁ ဂိတ်",
-  "စီမံကိန်း",
-  "လိုင်စင်ရုံး",
-  "စံပြဈေး",
-  "ကားကြီးဂိတ်",
-  "တံတားဖြူ",
-  "တောင်မြောက်လမ်းဆုံ",
-  "သုခုမ",
-  "ယဉ်ကျေးမှု"
-] },
-  { id: "19", color: "#e53e3e", operator: "YPS", stops: [
-  "ဆင်ဖုံ",
-  "ထွန်းရွှေဝါ",
-  "ဝါးဆိုင်",
-  "၁၁ ဈေး",
-  "အောင်မင်္ဂလာ",
-  "အောင်မေတ္တာ",
-  "၁၂ ဈေး",
-  "၁၀၃ ဂိတ်ဟောင်း",
-  "ဆင်ဖုံကွေ့",
-  "တံတားဖြူ",
-  "ထ(၆) ကျောင်း",
-  "ဆေးရုံကွေ့",
-  "မီးသတ်",
-  "မင်းထူးကျော်",
-  "ကျောက်လမ်းထိပ်",
-  "မော်ကျွန်း",
-  "ကားကြီးဂိတ်",
-  "ဓမ္မာရုံ",
-  "ကျောင်းလမ်း",
-  "၆ ကွေ့",
-  "ဧရာ",
-  "ကန်သာယာလမ်းဆုံ",
-  "ဥဇ္ဇာနာ",
-  "ဣန္ဒာ",
-  "သုနန္ဒာ",
-  "ဝဇီရာ",
-  "သန္တာ",
-  "ဃ ဈေး",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်း",
-  "ဘုန်းကြီးလမ်း",
-  "၂ ဈေး",
-  "၅ လမ်း",
-  "လမ်းဝ",
-  "နဝဒေး",
-  "၈ မိုင်ပန်းခြံ(မြိုင်ဟေဝန်)",
-  "၈ မိုင်",
-  "ရဲဘော်ဟောင်း",
-  "ကျိုက်ဝိုင်းဘုရား",
-  "ရဲရန်အောင်",
-  "သမိုင်းလမ်းဆုံ",
-  "ကြွေ ၁",
-  "ဦးဘဟန်",
-  "ဈေးဘူတာ",
-  "ဘုရင့်နောင်လမ်းဆုံ (တံတား ပေါ်/အောက်)",
-  "ဘုရင့်နောင်လမ်းဆုံ",
-  "အုတ်ကျင်း",
-  "သီရိမင်္ဂလာဈေးသစ်",
-  "အိုဝမ်း",
-  "ဘူတာရုံလမ်း",
-  "ချောင်းဝ",
-  "ရွာမကွေ့",
-  "ရေကြောင်း",
-  "သင်္ဘောကျင်း",
-  "ဆင်မလိုက်",
-  "နတ်စင်လမ်း",
-  "ကမ်းနားဈေး",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကြည့်မြင်တိုင်စာတိုက်",
-  "သဲကွင်း",
-  "ရာဟုမ်းလမ်း",
-  "သီရိမင်္ဂလာဈေးဟောင်း",
-  "ဆင်မင်းဈေး",
-  "ဒန်အိုးစက်",
-  "သီရိမင်္ဂလာဈေးဟောင်း",
-  "ဆင်မင်းဈေး",
-  "ဒန်အိုးစက်",
-  "သစ်တော",
-  "ထော်လီကွေ့",
-  "သခင်မြပန်းခြံ"
-] },
-  { id: "20", color: "#4D17D5", stops: [
-  "ဒဂုံဧရာအဝေးပြေး",
-  "သမကုန်း",
-  "ဘီအိုစီ",
-  "စနေမ",
-  "၅ ထိပ် (စနေမ)",
-  "မီးခွက်ဈေး (အပေါ်ထိပ်)",
-  "တံတားဖြူ",
-  "ရုံးရှေ့",
-  "ဈေးလေး",
-  "ဘုရားလမ်း",
-  "နဝဒေး",
-  "အဆင့်မြင့်",
-  "ဗိုလ်ချုပ်",
-  "စက်မှုဇုံ",
-  "တပ်ထိပ်",
-  "ဘုရင့်နောင်လမ်းဆုံ",
-  "အုတ်ကျင်း",
-  "သီရိမင်္ဂလာဈေးသစ်",
-  "အိုဝမ်း",
-  "ဘူတာရုံလမ်း",
-  "ချောင်းဝ",
-  "ရွာမကွေ့",
-  "ရေကြောင်း",
-  "သင်္ဘောကျင်း",
-  "ဆင်မလိုက်",
-  "နတ်စင်လမ်း",
-  "ကမ်းနားဈေး",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကြည့်မြင်တိုင်စာတိုက်",
-  "ကျောင်းရှေ့",
-  "၉ ထပ်ကြီး",
-  "ရှမ်းလမ်း",
-  "ရွှေမန်း",
-  "မြေနီကုန်း",
-  "လင့်လမ်း",
-  "အုတ်လမ်း",
-  "ရွှေဂုံတိုင်",
-  "ဗန်ဒါပင်",
-  "၅ ထပ်ကြီး",
-  "၆ ထပ်ကြီး",
-  "တာမွေအဝိုင်း",
-  "တာမွေပလာဇာ",
-  "တာမွေဈေး",
-  "ကျောက်မြောင်းဈေး",
-  "သီတာ",
-  "အောင်မင်္ဂလာ",
-  "ယုဇနပလာဇာ",
-  "မင်္ဂလာဈေး (၁၂၄ လမ်း)",
-  "မဆလာစက်",
-  "သိမ်ဖြူစာတိုက်",
-  "သိမ်ဖြူဈေး",
-  "စိန်ပေါလ်",
-  "ကြယ်ငါးပွင့်",
-  "ဘိုကလေးဈေး",
-  "ပန်းဆိုးတန်း",
-  "လမ်း ၃၀",
-  "လသာ",
-  "ညောင်ပင်လေးဈေး",
-  "၁၅ လမ်း",
-  "မော်တင်",
-  "ကီလီ",
-  "လသာ",
-  "ညောင်ပင်လေးဈေး",
-  "၁၅ လမ်း",
-  "မော်တင်",
-  "ကီလီ",
-  "သခင်မြပန်းခြံ"
-] },
-  { id: "21", color: "#4D17D5", operator: "YPS", stops: [
-  "ရန်ကုန်အနောက်ပိုင်းတက္ကသိုလ်",
-  "အဆောင်ရှေ့ (WYU)",
-  "သရက်ခြံ",
-  "ဒိတ်ကုန်း",
-  "ပေါက်တန်း",
-  "ပေါက်တန်းအဝိုင်း",
-  "ပေါက်တန်းအဝိုင်း",
-  "အလယ်ရွာ",
-  "မိုင် ၂၀",
-  "ဧရာမြေ",
-  "၁၉၉ ဂိတ်ဟောင်း",
-  "၁၄ လမ်းဆုံ",
-  "ဒညင်းကုန်းဘူတာဈေး",
-  "ဒညင်းကုန်းလမ်းဆုံ",
-  "ဘိုခြံ",
-  "ရွာသစ်",
-  "အောင်ဆန်းဈေး",
-  "ကျောင်းဂိတ်",
-  "၁ ဂိတ်",
-  "စောင်စက်ရုံ (၂)",
-  "ဖော့ကန်ဈေး",
-  "ဂျပန်လမ်း",
-  "ပြည်တော်သာ",
-  "သရက်တော",
-  "ဘိုကုန်း",
-  "ဟိုက်ပက်",
-  "မညက",
-  "အင်းစိန်ဆေးရုံ",
-  "အင်းစိန်ပန်းခြံ",
-  "အင်းစိန်ပန်းခြံ",
-  "ဘီအိုစီ",
-  "ကြို့ကုန်း",
-  "ဘီပီအိုင် (YTU)",
-  "ခဝဲခြံ",
-  "ကုလားကျောင်း",
-  "သမိုင်းလမ်းဆုံ (Junction)",
-  "သမိုင်းလမ်းဆုံ",
-  "ဘုရားလမ်း",
-  "အုတ်ကျင်း",
-  "ဘာတာ",
-  "သံလမ်း",
-  "သုခလမ်း",
-  "ဘူတာရုံလမ်း",
-  "ဆင်ရေတွင်း",
-  "စံရိပ်ငြိမ်",
-  "လှည်းတန်း",
-  "စိုက်ပျိုးရေး",
-  "ဟံသာဝတီအဝိုင်း",
-  "မဟာမြိုင်",
-  "မြေနီကုန်း",
-  "ဟယ်လ်ပင်",
-  "ပဲခူးကလပ်",
-  "စိန်ဂျွန်း",
-  "သရက်တောကျောင်း",
-  "အရေးပေါ်ဌာန",
-  "လသာ (မဟာဗန္ဓုလလမ်း)",
-  "လသာ (အနော်ရထာလမ်း)"
-] },
-  { id: "22", color: "#4D17D5", operator: "YPS", stops: [
-  "ရန်ကုန်အနောက်ပိုင်းတက္ကသိုလ်",
-  "အဆောင်ရှေ့ (WYU)",
-  "သရက်ခြံ",
-  "ဒိတ်ကုန်း",
-  "ပေါက်တန်း",
-  "ပေါက်တန်းအဝိုင်း",
-  "ရိုးကြီး",
-  "ရိုးလေး",
-  "၁၂၄",
-  "ကျောင်းရှေ့ (ရိုးလေး)",
-  "၈၆ ဂိတ်ဟောင်း",
-  "ရွှေရင်အေးဘုရား",
-  "ကျောင်းလမ်း",
-  "ပဲခူးလမ်း",
-  "ဈေးလေး",
-  "၁၂ သမ",
-  "အောင်မင်္ဂလာဈေး",
-  "အားမာန်",
-  "သမကုန်း",
-  "ဘီအိုစီ",
-  "စနေမ",
-  "၅ ထိပ် (စနေမ)",
-  "မီးခွက်ဈေး (အပေါ်ထိပ်)",
-  "တံတားဖြူ",
-  "ရုံးရှေ့",
-  "၅ ထိပ်",
-  "၃ ထိပ်",
-  "၁ ထိပ်",
-  "အင်းစိန်ကမ်းနား",
-  "ပေါက်တောဝ",
-  "ထောင်ဘူးဝ",
-  "အင်းစိန်ဈေး",
-  "အင်းစိန်ပန်းခြံ",
-  "နို့ဈေး",
-  "ဝပ်ရှော့",
-  "ပန်းဈေး",
-  "ဘီပီအိုင် / ကြို့ကုန်း",
-  "ခဝဲခြံ",
-  "သမိုင်းမြို့သစ်",
-  "သမိုင်းဘူတာ",
-  "မာလာမြိုင် (၅/၆)",
-  "အုတ်ကျင်း",
-  "သီရိမြိုင်",
-  "သံလမ်း",
-  "ကမာရွတ်",
-  "ဘူတာရုံလမ်း",
-  "ရွာမကွေ့",
-  "ဆိုက်ကားဂိတ်",
-  "ဘီအာဘီ",
-  "ခိုင်ရွှေဝါ",
-  "ပြည်ရိပ်မွန်",
-  "ရဲဝင်း",
-  "ဟံသာဝတီဘူတာ",
-  "နတ်စင်လမ်း",
-  "စလင်းကွင်း",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကြည့်မြင်တိုင်ဘူတာ",
-  "ကျောင်းရှေ့ (RC3)",
-  "ဟုမ်းလမ်း",
-  "ဝှိုက်တော",
-  "ဆင်မင်းဈေး",
-  "ချန်မာဖီ",
-  "အလုံစာတိုက်",
-  "ဂျမခါနာ",
-  "သခင်မြပန်းခြံ"
-] },
-  { id: "23", color: "#4D17D5", operator: "YPS", stops: [
-  "အနောက်ပိုင်းနည်းပညာတက္ကသိုလ်",
-  "အဝိုင်း",
-  "မြစိမ်းရောင်",
-  "တပ်ရင်း ၉",
-  "ဆောက်လုပ်ရေး",
-  "ဒဂုံဧရာအဝေးပြေး",
-  "သမကုန်း",
-  "ဘီအိုစီ",
-  "တိုးချဲ့",
-  "မီးခွက်ဈေး (အောက်ထိပ်)",
-  "ဆောက်လုပ်ရေး",
-  "ဘုရားလမ်း",
-  "နဝဒေး",
-  "အဆင့်မြင့်",
-  "ဗိုလ်ချုပ်",
-  "စက်မှုဇုံ",
-  "တပ်ထိပ်",
-  "ဘုရင့်နောင်လမ်းဆုံ",
-  "အုတ်ကျင်း",
-  "သီရိမင်္ဂလာဈေးသစ်",
-  "အိုဝမ်း",
-  "ဘူတာရုံလမ်း",
-  "ချောင်းဝ",
-  "ရွာမကွေ့",
-  "ရေကြောင်း",
-  "သင်္ဘောကျင်း",
-  "ဆင်မလိုက်",
-  "နတ်စင်လမ်း",
-  "ကမ်းနားဈေး",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကြည့်မြင်တိုင်စာတိုက်",
-  "သဲကွင်း",
-  "ဟုမ်းလမ်း",
-  "သီရိမင်္ဂလာဈေးဟောင်း",
-  "ဆင်မင်းဈေး",
-  "ဒန်အိုးစက်",
-  "သစ်တော",
-  "ထော်လီကွေ့",
-  "သခင်မြပန်းခြံ"
-]},
-  { id: "24", color: "#e53e3e", operator: "YPS", stops: [
-  "၃၅",
-  "၃၆",
-  "၃၇",
-  "ဒဂုံတက္ကသိုလ်",
-  "ရုံးရှေ့",
-  "၁၀ မိုင်",
-  "အဝိုင်း",
-  "မုခ်ဝ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "မော်လမြိုင်",
-  "၁၂ ဂတ်စ်ဆိုင်",
-  "၃၆ ဂိတ်ဟောင်း",
-  "ဗိုလ်မင်းခေါင်",
-  "စိုးမြတ်",
-  "တံတားထိပ်",
-  "ဗိုလ်စောနောင်",
-  "ကျောင်းလမ်း",
-  "ကုန်ပဒေသာ",
-  "စွမ်းအင်",
-  "မ၀တ လမ်းဆုံ",
-  "အားကစားကွင်း",
-  "ကပရ",
-  "၂၈ တံတားထိပ်",
-  "မြို့ဦးစေတီ",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ",
-  "ကားကြီးဂိတ်",
-  "စံပြဈေး",
-  "ဘဝမြင့်",
-  "ဘီအိုစီ",
-  "ဘုရားလမ်း",
-  "ဇဝန",
-  "ခပ်ချီးယား",
-  "အသင်းတိုက်",
-  "သုဝဏ္ဏလမ်းဆုံ",
-  "ဈေးလေး (ကြက်ဘဲဈေး)",
-  "ပုသိမ်ညွှန့် (၆ လမ်း)",
-  "အေဘီစီ",
-  "ရုံးလေး",
-  "၉ လမ်း",
-  "အသင်းတိုက်",
-  "ပုဇွန်တောင်စာတိုက်",
-  "ပုဇွန်တောင်ဈေး",
-  "ရွှေညောင်တန်း",
-  "သီတာဆိပ်",
-  "ပုဇွန်တောင်စာတိုက်",
-  "ပုဇွန်တောင်ဈေး",
-  "ညောင်တန်း",
-  "သီတာဆိပ်",
-  "အိုးရှင်း",
-  "ဗိုလ်တထောင်ဘုရား"
-] },
-  { id: "25", color: "#e53e3e", operator: "YPS", stops: [
-  "၃၅",
-  "၃၆",
-  "၃၇",
-  "ဒဂုံတက္ကသိုလ်",
-  "ရုံးရှေ့",
-  "၁၀ မိုင်",
-  "အဝိုင်း",
-  "မုခ်ဝ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "ဈေးလမ်း",
-  "ဂိတ်ဟောင်း",
-  "ကျောင်းလမ်း",
-  "၈ သမ",
-  "၇/၈ လမ်းဆုံ",
-  "၇/၈ လမ်းဆုံ",
-  "ရုံးရှေ့ (၃၈ ရပ်ကွက်)",
-  "ကုန်ပဒေသာ",
-  "စွမ်းအင်",
-  "မ၀တ လမ်းဆုံ",
-  "အားကစားကွင်း",
-  "ကပရ",
-  "၂၈ တံတားထိပ်",
-  "မြို့ဦးစေတီ",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ",
-  "ကားကြီးဂိတ်",
-  "သစ်စက်",
-  "ကျောင်းရှေ့",
-  "ချမ်းအေး (သွားဆေးတက္ကသိုလ်)",
-  "ဝေဘူလ",
-  "သုဝဏ္ဏဈေး",
-  "မီးဒုံး",
-  "မင်းဒင်",
-  "ကျောင်းလမ်း",
-  "စုပေါင်း",
-  "ရေစက်",
-  "သုဝဏ္ဏလမ်းဆုံ",
-  "ဈေးလေး (ကြက်ဘဲဈေး)",
-  "အာသောက",
-  "တာမွေဗလီ",
-  "တာမွေဈေး",
-  "ကျောက်မြောင်းဈေး",
-  "သီတာ",
-  "အောင်မင်္ဂလာ",
-  "ယုဇနပလာဇာ",
-  "မင်္ဂလာဈေး (၁၂၄ လမ်း)",
-  "မဆလာစက်",
-  "သိမ်ဖြူစာတိုက်",
-  "သိမ်ဖြူဈေး",
-  "စိန်ပေါလ်"
-] },
-  { id: "26", color: "#e53e3e", operator: "YPS", stops: [
-  "၃၅",
-  "၃၆",
-  "၃၇",
-  "ဒဂုံတက္ကသိုလ်",
-  "ရုံးရှေ့",
-  "၁၀ မိုင်",
-  "အဝိုင်း",
-  "မုခ်ဝ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "မော်လမြိုင်",
-  "၁၂ ဂတ်စ်ဆိုင်",
-  "၃၆ ဂိတ်ဟောင်း",
-  "ဗိုလ်မင်းခေါင်",
-  "စိုးမြတ်",
-  "တံတားထိပ်",
-  "ဗိုလ်စောနောင်",
-  "ကျောင်းလမ်း",
-  "ကုန်ပဒေသာ",
-  "စွမ်းအင်",
-  "မ၀တ လမ်းဆုံ",
-  "မန္တလေးလမ်း",
-  "စစ်တောင်း",
-  "ကျောင်းလမ်း",
-  "ဆက်သွယ်ရေး",
-  "၃၅",
-  "သင်းဝင်",
-  "နာရီစင်",
-  "ဘေလီ",
-  "မြင်သာဈေး",
-  "တောင်ဥက္ကလာဘုရား",
-  "မိုးဆွေ",
-  "၃၁ ဂိတ်ဟောင်း",
-  "၁၃ ဈေး",
-  "ဆေးရုံရှေ့",
-  "ပဒေသာဈေး/၁၀ ရပ်ကွက်ဈေး",
-  "ပဒေသာလမ်းဆုံ",
-  "ပဒေသာ",
-  "၁၄/၁၅ လမ်းဆုံ",
-  "ရတနာဈေး",
-  "ကုလားဘုရား",
-  "၁၆ ကွေ့",
-  "သံလမ်း",
-  "ကျောက်ကုန်း",
-  "မှတ်တမ်းရုံး",
-  "အဝိုင်းလေး",
-  "ကုလားဈေး",
-  "ကျိုက္ကဆံလမ်းဆုံ",
-  "ကျောင်းရှေ့",
-  "တာမွေဈေးဟောင်း (အာယုဆေးရုံ)",
-  "တာမွေဈေး",
-  "ကျောက်မြောင်းဈေး",
-  "သီတာ",
-  "အောင်မင်္ဂလာ",
-  "ယုဇနပလာဇာ",
-  "မင်္ဂလာဈေး",
-  "ပုဇွန်တောင်စာတိုက်",
-  "ပုဇွန်တောင်ဈေး",
-  "ပုဇွန်တောင်စာတိုက်",
-  "ပုဇွန်တောင်ဈေး",
-  "ညောင်တန်း",
-  "သီတာဆိပ်",
-  "အိုးရှင်း",
-  "ဗိုလ်တထောင်ဘုရား"
-] },
-  { id: "27", color: "#e53e3e", operator: "YPS", stops: [
-  "စိတ်ကျန်းမာရေးဆေးရုံ",
-  "ဘုရားလမ်း",
-  "ရှင်မတောင်",
-  "ရဲစခန်း",
-  "၃၆ ဂိတ်ဟောင်း",
-  "ကျော်ကြား",
-  "ရပ်ကွက်ထိပ်",
-  "မယက",
-  "စည်ပင်ရုံး",
-  "ဆေးရုံရှေ့",
-  "ထန်းတပင်",
-  "လမ်းသစ်",
-  "မီတာရုံး",
-  "မုခ်ဝ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "ဈေးလမ်း",
-  "ဂိတ်ဟောင်း",
-  "ကျောင်းလမ်း",
-  "၈ သမ",
-  "၇/၈ လမ်းဆုံ",
-  "၄၅",
-  "၄၆ လမ်းဆုံ (ဘယ်)",
-  "ကြားမှတ်တိုင်",
-  "ဗထူးဈေး",
-  "ဗညားဒလ",
-  "ကျောင်းလေးရှေ့",
-  "၄၄ လမ်းဆုံ",
-  "ကျန်းမာရေး",
-  "ကျောင်းကွေ့",
-  "ဖြိုးစံပယ်",
-  "ခေမာ",
-  "ဂိတ်ဟောင်း",
-  "ကူးတို့ဆိပ်",
-  "ဇော်ဂျီ",
-  "ကားကြီးဂိတ်",
-  "ကားလေးဂိတ်",
-  "မဟာမြိုင် (ဆိုက်ရှေ့)",
-  "အကြော်တဲ",
-  "ဟောင်ကောင်",
-  "၆ လမ်း",
-  "နာရီစင်",
-  "ဘေလီ",
-  "မြင်သာဈေး",
-  "တောင်ဥက္ကလာဘုရား",
-  "မိုးဆွေ",
-  "၃၁ ဂိတ်",
-  "စီမံကိန်း",
-  "လိုင်စင်ရုံး",
-  "ဒေဝဒဟ",
-  "ဘဝမြင့်",
-  "အာနန္ဒာဘုရား",
-  "ဂိတ်ဟောင်း",
-  "ကျိုက္ကဆံဘုရား",
-  "၁၄/၁၅ လမ်းဆုံ",
-  "ရတနာဈေး",
-  "ကုလားဘုရား",
-  "၁၆ ကွေ့",
-  "သံလမ်း",
-  "ကျောက်ကုန်း",
-  "မှတ်တမ်းရုံး",
-  "အဝိုင်းလေး",
-  "ကုလားဈေး",
-  "ကျိုက္ကဆံလမ်းဆုံ",
-  "ကျောင်းရှေ့",
-  "တာမွေဈေးဟောင်း (အာယုဆေးရုံ)",
-  "တာမွေဈေး",
-  "ကျောက်မြောင်းဈေး",
-  "သီတာ",
-  "အောင်မင်္ဂလာ",
-  "ယုဇနပလာဇာ"
-] },
-  { id: "28", color: "#e53e3e", operator: "YPS", stops: [
-  "၃၅",
-  "၃၆",
-  "၃၇",
-  "ဒဂုံတက္ကသိုလ်",
-  "ရုံးရှေ့",
-  "၁၀ မိုင်",
-  "အဝိုင်း",
-  "မုခ်ဝ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "တသသ",
-  "မုခ်ဝ",
-  "ဂိတ်ဟောင်း",
-  "ဈေးလေး",
-  "စိန်ပန်း",
-  "၄၆ လမ်းဆုံ(ညာ)",
-  "၄၆ လမ်းဆုံ(ဘယ်)",
-  "ကြားမှတ်တိုင်",
-  "ဗထူးဈေး",
-  "ဗညားဒလ",
-  "ကျောင်းလေးရှေ့",
-  "၄၄ လမ်းဆုံ",
-  "ကျန်းမာရေး",
-  "ကျောင်းကွေ့",
-  "ဖြိုးစံပယ်",
-  "ခေမာ",
-  "ဂန္ဓာရုံ",
-  "ဂိတ်ဟောင်း",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်း",
-  "ဘုန်းကြီးလမ်း",
-  "၂ ဈေး",
-  "၅ လမ်း",
-  "လမ်းဝ",
-  "ကမ္ဘာအေးစာတိုက်",
-  "ကမ္ဘာအေးဘုရား",
-  "ချော်တွင်းကုန်း",
-  "၁၀၆",
-  "ရိပ်သာ",
-  "လမ်းနီ",
-  "လမ်းနီလေး (မြန်မာပလာဇာ)",
-  "ကုက္ကိုင်း",
-  "ဟာမစ်တစ်",
-  "နှင်းဆီကုန်းဘိုးဘွားရိပ်သာ",
-  "ရေခဲဆိုင်",
-  "ဗဟန်း ၃ လမ်း",
-  "ကျောက်တိုင်",
-  "ယောက်လမ်း (သမ္မတ)",
-  "ဆူးလေ (ရှန်ဂရီလာ)",
-  "ဆူးလေ (မြို့တော်ခန်းမ)"
-] },
-  { id: "29", color: "#e53e3e", operator: "YPS", stops: [
-  "ရွှေပေါက္ကံတံတားထိပ်",
-  "ရာဇသင်္ကြန်",
-  "ဗိုလ်ဘစိုး",
-  "ဝင်္ကဘာ",
-  "မုခ်ဝ",
-  "တသသ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "ဈေးလမ်း",
-  "ဂိတ်ဟောင်း",
-  "ကျောင်းလမ်း",
-  "၈ သမ",
-  "၇/၈ လမ်းဆုံ",
-  "၇/၈ လမ်းဆုံ",
-  "ရုံးရှေ့ (၃၈ ရပ်ကွက်)",
-  "ကုန်ပဒေသာ",
-  "စွမ်းအင်",
-  "မဝတ လမ်းဆုံ",
-  "မန္တလေးလမ်း",
-  "စစ်တောင်း",
-  "ကျောင်းလမ်း",
-  "ဆက်သွယ်ရေး",
-  "၃၅",
-  "သင်းဝင်",
-  "နာရီစင်",
-  "ဘေလီ",
-  "မြင်သာဈေး",
-  "တောင်ဥက္ကလာဘုရား",
-  "ဂိတ်ဟောင်း",
-  "ဘုရားလမ်း",
-  "တောင်ဥက္ကလာစာတိုက်",
-  "ပုဏ္ဏမီ",
-  "ဗဟိုဈေး",
-  "သံလမ်း",
-  "မိုးကောင်း",
-  "ရန်ကင်းစာတိုက်",
-  "၁၂ လုံးတန်း",
-  "ကြားမှတ်တိုင်",
-  "ဂွတ္တလစ်ဈေးကွေ့",
-  "မင်းလမ်း",
-  "လမ်းဆုံ",
-  "မြလမ်း",
-  "တာမွေအဝိုင်း",
-  "တာမွေအဝိုင်း",
-  "၆ ထပ်ကြီး",
-  "၅ ထပ်ကြီး",
-  "ဗန်ဒါပင်",
-  "ရွှေဂုံတိုင်",
-  "ရေခဲဆိုင်",
-  "ဗဟန်း ၃ လမ်း",
-  "ကျောက်တိုင်",
-  "ယောက်လမ်း (သမ္မတ)",
-  "ဆူးလေ (ရှန်ဂရီလာ)",
-  "ဆူးလေ (မြို့တော်ခန်းမ)"
-] },
-  { id: "30", color: "#e53e3e", operator: "YPS", stops: [
-  "၃၅",
-  "၃၆",
-  "၃၇",
-  "ဒဂုံတက္ကသိုလ်",
-  "ရုံးရှေ့",
-  "၁၀ မိုင်",
-  "အဝိုင်း",
-  "မုခ်ဝ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "ဈေးလမ်း",
-  "ဂိတ်ဟောင်း",
-  "ကျောင်းလမ်း",
-  "၈ သမ",
-  "၇/၈ လမ်းဆုံ",
-  "၇/၈ လမ်းဆုံ",
-  "ရုံးရှေ့ (၃၈ ရပ်ကွက်)",
-  "ကုန်ပဒေသာ",
-  "စွမ်းအင်",
-  "မဝတ လမ်းဆုံ",
-  "မန္တလေးလမ်း",
-  "စစ်တောင်း",
-  "ကျောင်းလမ်း",
-  "ဆက်သွယ်ရေး",
-  "၃၅",
-  "သင်းဝင်",
-  "နာရီစင်",
-  "ပင်းယ",
-  "ကေတုမာလာကွေ့",
-  "ပါရမီညောင်ပင်",
-  "မဉ္ဇူ",
-  "ချော်တွင်းကုန်း",
-  "ကမ္ဘာအေးဘုရား",
-  "ကမ္ဘာအေးစာတိုက်",
-  "နဝဒေး",
-  "၈ မိုင်ပန်းခြံ (မြိုင်ဟေဝန်)",
-  "၈ မိုင်",
-  "ရဲဘော်ဟောင်း",
-  "ကျိုက်ဝိုင်းဘုရား",
-  "ရဲရန်အောင်",
-  "သမိုင်းလမ်းဆုံ",
-  "သမိုင်းလမ်းဆုံ",
-  "ဘုရားလမ်း",
-  "အုတ်ကျင်း",
-  "ဘာတာ",
-  "သံလမ်း",
-  "သုခလမ်း",
-  "ဘူတာရုံလမ်း",
-  "ဆင်ရေတွင်း",
-  "စံရိပ်ငြိမ်",
-  "လှည်းတန်း",
-  "လှည်းတန်းဈေး",
-  "လှည်းတန်းကျောင်းရှေ့",
-  "ဆင်မလိုက်",
-  "နတ်စင်လမ်း",
-  "ကမ်းနားဈေး",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကြည့်မြင်တိုင်စာတိုက်",
-  "သဲကွင်း",
-  "ဟုမ်းလမ်း",
-  "သီရိမင်္ဂလာဈေးဟောင်း",
-  "ဆင်မင်းဈေး",
-  "ဒန်အိုးစက်",
-  "သစ်တော",
-  "ထော်လီကွေ့",
-  "သခင်မြပန်းခြံ"
-] },
-  { id: "31", color: "#A78BFA", operator: "YPS", stops: [
-  "ခြောက်လမ်းသွား",
-  "အရှေ့ပိုင်းတက္ကသိုလ်",
-  "ကွမ်းယာဆိုင်",
-  "ညောင်ပင်",
-  "ဘုရားကုန်းလမ်းဆုံ",
-  "ကျိုက်ခေါက်ဘုရားရှေ့",
-  "၁၈ ကုန်းထိပ်",
-  "အောင်ချမ်းသာ",
-  "ဆည်မြောင်း",
-  "သမကောလိပ်",
-  "ကျားဘုရား",
-  "ဆေးရုံ အပေါ်ကွေ့",
-  "ဆေးရုံ အောက်ကွေ့",
-  "ပဲခူးစု",
-  "ဖို့မြေ",
-  "မြို့မဈေး (သန်လျင်)",
-  "မြို့မလမ်း (သန်လျင်)",
-  "လမ်းဆုံ (ဒါရ်ဂါလမ်းဆုံ)",
-  "ရေနံဂိတ်ဝ",
-  "မီးပွိုင့်",
-  "လက်မှတ်ဂိတ်",
-  "ဆောက်လုပ်ရေး",
-  "ကန်ကြီးထောင့်",
-  "၁၃ ဂိတ်",
-  "ဂိတ်ဝ",
-  "ခန်းမ",
-  "၄၉ အစိမ်းဂိတ်",
-  "ကြယ်ငါးပွင့်",
-  "ဝေဇယန္တာ",
-  "၅ ကွေ့",
-  "ဆီဆိုင်",
-  "မီးသွေးဆိုင်",
-  "ကျောင်းရှေ့",
-  "ရှုခင်းသာ",
-  "၃ ဂိတ်ဟောင်း",
-  "မာန်ပြေ",
-  "ရန်ပြေ",
-  "သင်္ဘောကျင်း",
-  "အိုးရှင်း",
-  "ဂန္ဒီ",
-  "လမ်း ၅၀",
-  "ဘိုကလေးဈေး"
-] },
-  { id: "32", color: "#FB7185", operator: "YPS", stops: [
-  "မြို့ရှောင်လမ်း",
-  "ထောက်ကြန့်ဈေးသစ်",
-  "ထောက်ကြန့်ဈေး",
-  "ပုပ္ပါးကျောင်း",
-  "လမ်းသစ်",
-  "ကျောင်းရှေ့",
-  "၁ ရပ်ကွက်",
-  "၄ ရပ်ကွက်",
-  "နွယ်ခွေ",
-  "ဝါးဆိုင်",
-  "ကုက္ကိုပင်",
-  "အမှတ် ၃",
-  "ရေစက်",
-  "တပ်ရင်း ၉",
-  "ကုန်းတလဘောင်",
-  "ပိုက်လုံး",
-  "ဂိတ်ဟောင်း (လန်ဒန်)",
-  "ဆိုင်းဘုတ်",
-  "နီလာ",
-  "မှိုရုံ",
-  "သုံးသုံးလုံး",
-  "ပုလဲလမ်းဆုံ",
-  "တံတားဖြူ",
-  "ရခိုင်ကျောင်း",
-  "၆ လမ်း",
-  "ပုလဲအိမ်ရာ",
-  "၁၂ လမ်း",
-  "သင်္ဃန်းကျွန်းကြီး",
-  "ညောင်ပင်",
-  "အိုးအိမ်",
-  "တရားရုံးရှေ့",
-  "အလယ်ပေါက်",
-  "အမှတ် ၃ လမ်းဆုံ (အဝေးပြေးထိပ်)",
-  "အောင်မင်္ဂလာအဝေးပြေးထိပ်",
-  "ဓမ္မာရုံ",
-  "၆ ကွေ့",
-  "ဧရာ",
-  "ကန်သာယာလမ်းဆုံ",
-  "ဥဇ္ဇာနာ",
-  "ဣန္ဒာ",
-  "သုနန္ဒာ",
-  "ဝဇီရာ",
-  "သန္တာ",
-  "ဃ ဈေး",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်း",
-  "ဘုန်းကြီးလမ်း",
-  "ကျောင်းကွေ့",
-  "၂ ဈေး",
-  "ကျောင်းလမ်း",
-  "အုတ်ပုံဆိပ်",
-  "၄၃၅",
-  "၄၃၆",
-  "ခလရ ၂၆ / တပ်ရင်း ၁၆",
-  "ပင်းယ",
-  "ကေတုမာလာကွေ့",
-  "ကေတုမာလာကွေ့",
-  "တကောင်း",
-  "နန္ဒဝန်ဈေး",
-  "အင်းဝ",
-  "တောင်ဥက္ကလာစာတိုက်",
-  "ပဒေသာ",
-  "၁၄/၁၅ လမ်းဆုံ",
-  "အောင်ရတနာ",
-  "သရက်တော",
-  "ဇဝနလမ်းဆုံ",
-  "ခပ်ချီးယား",
-  "အသင်းတိုက်",
-  "သုဝဏ္ဏလမ်းဆုံ",
-  "ကျောက်တိုင်",
-  "အနော်မာ",
-  "ကျောင်းကွေ့",
-  "မြေနီ",
-  "စ ဂိတ်",
-  "သာကေတအဝိုင်း",
-  "၁၀၈ တောင်စေတီ",
-  "ဆောက်လုပ်ရေး",
-  "လက်မှတ်ဂိတ်",
-  "မီးပွိုင့်",
-  "ရေနံဂိတ်ဝ",
-  "လမ်းဆုံ (ဒါရ်ဂါလမ်းဆုံ)",
-  "မြို့မလမ်း (သန်လျင်)",
-  "မြို့မဈေး (သန်လျင်)",
-  "ဖို့မြေ",
-  "ပဲခူးစု",
-  "ဆေးရုံအောက်ကွေ့",
-  "ဆေးရုံအပေါ်ကွေ့",
-  "ကျားဘုရား",
-  "သမကောလိပ်",
-  "ဆည်မြောင်း",
-  "အောင်ချမ်းသာ",
-  "၁၈ ကုန်းထိပ်",
-  "ကျိုက်ခေါက်ဘုရားရှေ့",
-  "ဖားအောက်",
-  "ရေကြောင်းလမ်းဆုံ",
-  "အဆောင်ရှေ့",
-  "ရေကြောင်းတက္ကသိုလ်"
-]},
-  { id: "33", color: "#2DD4BF", stops: [
-  "ရေလယ်ကျောက်တန်း",
-  "ပန်းတောလှဆိပ်",
-  "အုန်းနှစ်ပင်",
-  "ဂါတ်တဲကွေ့",
-  "ပဲလှော်ဖို",
-  "အောင်ချမ်းသာ",
-  "မုန့်ဖို့ ၈",
-  "ချမ်းမြေ့သာယာ",
-  "ပါဒကြီး",
-  "သိမ်ကုန်း",
-  "မြွေဘုရား",
-  "ညောင်ဝိုင်း",
-  "မော်တော်ဆိပ်",
-  "စိုက်ပျိုးရေး",
-  "တမံဦးကုန်းထိပ်",
-  "တမံဦးဘုန်းကြီးကျောင်းရှေ့",
-  "ပဲလှော်ဖို",
-  "ဂိတ်ဟောင်း",
-  "ဂိတ်သစ်",
-  "အောင်သပြေခြံ",
-  "နည်းပညာတက္ကသိုလ် (TTU)",
-  "ကိုတင်မောင်ခြံဝ",
-  "ဘုရားလေး",
-  "ဆေးခန်းရှေ့",
-  "ထားမလုံ",
-  "ဘုရားငါးဆူ",
-  "စော်ဘွားကုန်းထိပ်",
-  "နတ်စင်ကုန်း",
-  "ဂိတ်ဝ",
-  "ကျိုက်အင်း",
-  "ဆန်စက်",
-  "စစ်စည်းတော",
-  "နတ်စင်တရာ",
-  "ဘုရားကုန်းလမ်းဆုံ",
-  "ကျိုက်ခေါက်ဘုရားရှေ့",
-  "၁၈ ကုန်းထိပ်",
-  "အောင်ချမ်းသာ",
-  "ဆည်မြောင်း",
-  "သမကောလိပ်",
-  "ကျားဘုရား",
-  "ဆေးရုံကွေ့",
-  "နာရီစင်",
-  "နံ့သာကုန်း",
-  "အညာစု",
-  "အောက်ကွေ့",
-  "အောင်သုခ",
-  "လက်မှတ်ဂိတ်",
-  "ဆောက်လုပ်ရေး",
-  "၁၀၈ တောင်စေတီ",
-  "သာကေတအဝိုင်း",
-  "စ ဂိတ်",
-  "မြေနီ",
-  "ကျောင်းကွေ့",
-  "အနော်မာ",
-  "ကျောက်တိုင်",
-  "ကျောက်တိုင်",
-  "မြေနီ",
-  "တပ်ဖွဲ့",
-  "၁ ဈေးကွေ့",
-  "သဒ္ဒါရုံ",
-  "ဝက်စု",
-  "ရန်အောင်",
-  "ဒေါပုံသင်္ဘောကျင်း",
-  "ဝါဆို",
-  "မင်္ဂလာဈေး"
-] },
-  { id: "34", color: "#EF4444", stops: [
-  "ခရမ်းကားဂိတ်",
-  "နာရီစင်",
-  "ဘီအိုစီ",
-  "သစ်ဆိုင်ကွေ့",
-  "မြေနီလမ်းကွေ့",
-  "ကြိုဆိုရေး",
-  "ကွမ်းမိုးဒိန်း",
-  "ဖိုးနီလမ်း",
-  "ဒေးပေါက်",
-  "အပျိုကြီးတဲစု",
-  "လက်ပန်းတန်းဘုရား",
-  "ပုဂံတောင်ထိပ်",
-  "ပတုပ်ကြီး",
-  "ကျောင်းစုပတုပ်",
-  "သူကြီးပတုပ်",
-  "ဦးကြားမှိုင်",
-  "မုဒိသာ",
-  "လက်ပံကျိုး",
-  "ဇွဲသော်ကာထိပ်",
-  "သခွားခြံ",
-  "ဖရုံလမ်းခွဲ",
-  "တကောလမ်းထိပ်",
-  "ကြိုဆိုပါ၏",
-  "ဦးဥတ္တမ",
-  "ကားကြီးဂိတ်",
-  "ဦးသံချောင်း",
-  "မီးခွက်ဈေး",
-  "တောကားဂိတ်",
-  "၉ လမ်းဆုံ",
-  "မြေနီလမ်း",
-  "သမလမ်းစုံ",
-  "လင်းမဟာ",
-  "ဈေးရှေ့/ဘဏ်ရှေ့",
-  "လေဆိုင်",
-  "၇ ထိပ်",
-  "စိုက်ပျိုးရေးကွေ့",
-  "မိသားစုတံတား",
-  "ရွှေအိမ်စည်",
-  "ဝါးတံတား",
-  "ဘုရားလေးတံတား",
-  "ငပိတ်အုတ်ပေါက်",
-  "ဦးတင်လှတံတား",
-  "ရဲနွယ်",
-  "အုန်းတံတား",
-  "၂ ထပ်ကွေ့",
-  "ဂျစ်ကားတံတား",
-  "ညောင်နီတံတားထိပ်",
-  "ပွင့်ကူ",
-  "တံတားဖြူ",
-  "တံတားနီ",
-  "ကြယ်ငါးပွင့်",
-  "မန်ဒါလီပန်းခြံ",
-  "တံတားပြာ",
-  "သောင်ဘို့ကန်သဲလမ်း",
-  "ဥယျာဉ်တာထိပ်",
-  "ပျဉ်းမကန်သာထိပ်",
-  "ကံမြင့်ဘုန်းကြီးကျောင်းလမ်း",
-  "ကံမြင့်အနောက်ဇရပ်",
-  "ပုလဲ",
-  "စန္ဒာသု",
-  "ကုက္ကိုနှစ်ပင်",
-  "ရွှေထန်းပင်",
-  "ရွှေအုန်းပင်",
-  "ရွှေညီကို",
-  "ချင်းမ",
-  "ဘုန်းကြီးကျောင်းလမ်း",
-  "ကရင်ဆိပ်သမ",
-  "ကရင်ဆိပ်နောက်ဖျား",
-  "ရွာကျောင်းဇရပ်",
-  "ဆန်စက်",
-  "သူဋ္ဌေးကွင်း",
-  "ရထားလမ်းအုတ်ပေါက်",
-  "ခြံဝိုင်း",
-  "ညောင်ပင်လေးဈေး",
-  "မော်တော်ဆိပ်",
-  "စစ်ပင်ကွင်း",
-  "ချောင်းသစ်",
-  "နေလ",
-  "ကြာနီကန်",
-  "ခြောက်လမ်းသွား",
-  "အရှေ့ပိုင်းတက္ကသိုလ်",
-  "ကွမ်းယာဆိုင်",
-  "ညောင်ပင်",
-  "ဘုရားကုန်းလမ်းဆုံ",
-  "ကျိုက်ခေါက်ဘုရားရှေ့",
-  "၁၈ ကုန်းထိပ်",
-  "အောင်ချမ်းသာ",
-  "ဆည်မြောင်း",
-  "သမကောလိပ်",
-  "ကျားဘုရား",
-  "ဆေးရုံကွေ့",
-  "နာရီစင်",
-  "နံ့သာကုန်း",
-  "အညာစု",
-  "အောက်ကွေ့",
-  "အောင်သုခ",
-  "လက်မှတ်ဂိတ်",
-  "ဆောက်လုပ်ရေး",
-  "၁၀၈ တောင်စေတီ",
-  "သာကေတအဝိုင်း",
-  "၈ ဂိတ်",
-  "မြေနီ",
-  "ကျောင်းကွေ့",
-  "ဘုရားရှေ့",
-  "၇ ဈေး",
-  "ကျန်းမာရေး",
-  "ရုပ်ရှင်ရုံ",
-  "နယ်မြေရုံး",
-  "စာတိုက်",
-  "ဆီဆိုင်",
-  "ခင်မမကြား",
-  "၃ ဈေး",
-  "အရှေ့ကြား",
-  "၃ ဂိတ်ဟောင်း",
-  "မာန်ပြေ",
-  "ရန်ပြေ",
-  "သင်္ဘောကျင်း",
-  "အိုးရှင်း",
-  "ဂန္ဒီ",
-  "ဆီဆိုင်"
-] },
-  { id: "35", color: "#3B82F6", operator: "YPS", stops: [
-  "မြို့ရှောင်လမ်း",
-  "ထောက်ကြန့်ဈေးသစ်",
-  "ထောက်ကြန့်ဈေး",
-  "ပုပ္ပါးကျောင်း",
-  "လမ်းသစ်",
-  "ကျောင်းရှေ့",
-  "၁ ရပ်ကွက်",
-  "၄ ရပ်ကွက်",
-  "နွယ်ခွေ",
-  "ဝါးဆိုင်",
-  "ကုက္ကိုပင်",
-  "အမှတ် ၃",
-  "ရေစက်",
-  "တပ်ရင်း ၉",
-  "ကုန်းတလဘောင်",
-  "ပိုက်လုံး",
-  "ဂိတ်ဟောင်း (လန်ဒန်)",
-  "ဆိုင်းဘုတ်",
-  "နီလာ",
-  "မှိုရုံ",
-  "သုံးသုံးလုံး",
-  "ပုလဲလမ်းဆုံ",
-  "တံတားဖြူ",
-  "ရခိုင်ကျောင်း",
-  "၆ လမ်း",
-  "ပုလဲအိမ်ရာ",
-  "၁၂ လမ်း",
-  "သင်္ဃန်းကျွန်းကြီး",
-  "ညောင်ပင်",
-  "အိုးအိမ်",
-  "တရားရုံးရှေ့",
-  "အလယ်ပေါက်",
-  "အမှတ် ၃ လမ်းဆုံ (အဝေးပြေးထိပ်)",
-  "အောင်မင်္ဂလာအဝေးပြေးထိပ်",
-  "ဓမ္မာရုံ",
-  "၆ ကွေ့",
-  "ဧရာ",
-  "ကန်သာယာလမ်းဆုံ",
-  "ဥဇ္ဇာနာ",
-  "ဣန္ဒာ",
-  "သုနန္ဒာ",
-  "ဝဇီရာ",
-  "သန္တာ",
-  "ဃ ဈေး",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်း",
-  "ဘုန်းကြီးလမ်း",
-  "၂ ဈေး",
-  "နဂ္ဂ ၅ လမ်း",
-  "လမ်းဝ",
-  "နဝဒေး",
-  "၈ မိုင်ပန်းခြံ (မြိုင်ဟေဝန်)",
-  "၇ မိုင်",
-  "အေဒီ",
-  "ကျောင်းကွေ့",
-  "၆ မိုင်ခွဲ",
-  "တံတားဖြူ",
-  "မာလာ",
-  "စိုက်ပျိုးရေး",
-  "ဟံသာဝတီအဝိုင်း",
-  "မဟာမြိုင်",
-  "မြေနီကုန်း",
-  "ဟယ်လ်ပင်",
-  "ပဲခူးကလပ်",
-  "စိန်ဂျွန်း",
-  "သရက်တောကျောင်း",
-  "အရေးပေါ်ဌာန",
-  "ညောင်ပင်လေးဈေး"
-] },
-  { id: "36", color: "#10B981", operator: "YPS", stops: [
-  "တံတားဖြူ",
-  "ထ၆ ကျောင်း",
-  "ဆေးရုံကွေ့",
-  "မီးသတ်",
-  "မင်းထူးကျော်",
-  "ကျောက်လမ်းထိပ်",
-  "မော်ကျွန်း",
-  "ကားကြီးဂိတ်",
-  "ဓမ္မာရုံ",
-  "ကျောင်းလမ်း",
-  "၆ ကွေ့",
-  "ဧရာ",
-  "ကန်သာယာလမ်းဆုံ",
-  "ဈ ဈေး",
-  "ရုပ်ရှင်ရုံ",
-  "နွယ်သာဂီ",
-  "မြရတနာ",
-  "ရုံး",
-  "ဥက္ကာ (ဆေး-၂)",
-  "မေဓာဝီလမ်းဆုံ",
-  "ရုံးသစ်",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်း",
-  "ဘုန်းကြီးလမ်း",
-  "၂ ဈေး",
-  "၅ လမ်း",
-  "လမ်းဝ",
-  "ကမ္ဘာအေးစာတိုက်",
-  "ကမ္ဘာအေးဘုရား",
-  "ချော်တွင်းကုန်း",
-  "၁၀၆",
-  "ရိပ်သာ",
-  "လမ်းနီ",
-  "လမ်းနီလေး (မြန်မာပလာဇာ)",
-  "ကုက္ကိုင်း",
-  "ဟာမစ်တစ်",
-  "နှင်းဆီကုန်းဘိုးဘွားရိပ်သာ",
-  "ရေခဲဆိုင်",
-  "ဗဟန်း ၃ လမ်း",
-  "ကျောက်တိုင်",
-  "ယောက်လမ်း (သမ္မတ)",
-  "ဆူးလေ (ရှန်ဂရီလာ)",
-  "ဆူးလေ (မြို့တော်ခန်းမ)"
-]},
-  { id: "37", color: "#F59E0B", operator: "YPS", stops: [
-  "ဘီအာတီ ဂိတ်ဟောင်း",
-  "ဘုရားလေးကွေ့",
-  "ညောင်ပင်",
-  "ထောက်ကြန့်လမ်းဆုံ",
-  "ပုပ္ပါးကျောင်း",
-  "လမ်းသစ်",
-  "ကျောင်းရှေ့",
-  "နွယ်ခွေ (ပြည်လမ်း)",
-  "စီပီလိုက်",
-  "ဒေဝူး",
-  "ဆေးဂဲလ်",
-  "မွေးမြူရေး",
-  "ရေစင်",
-  "ခြံပေါက် (ပျဉ်းမပင်)",
-  "ကုန်းထိပ်",
-  "ဘုရားလေး",
-  "ရဲဘော်ဟောင်း",
-  "ရှမ်းစု",
-  "ဘိုခြံ",
-  "တစ်နံပါတ်",
-  "ဆင်မင်း",
-  "ရေကြည်အိုင်",
-  "ဝါယာလက်",
-  "ကျိုက္ကလို့",
-  "ကျိုက္ကလဲ့/ဆပ်ပလိုင်း",
-  "ဗဟိုနိုင်ငံရေး",
-  "မင်္ဂလာဒုံဈေး",
-  "ခရေပင်လမ်းခွဲ (ပြည်လမ်း)",
-  "မင်္ဂလာဒုံစာတိုက်",
-  "ဆေးကျောင်း",
-  "ဘီအိုစီ",
-  "ပန်းခြံကုန်း",
-  "ကုလားဘုရား",
-  "ထန်းပင်ကုန်း",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ကျောက်တော်ကြီးဘုရား",
-  "၁၀ မိုင်ကုန်း",
-  "၉ မိုင်ခွဲ",
-  "၉ မိုင်",
-  "အေဝမ်း",
-  "မဟာစည်",
-  "၈ မိုင်",
-  "၇ မိုင်",
-  "အေဒီ",
-  "ကျောင်းကွေ့",
-  "၆ မိုင်ခွဲ",
-  "တံတားဖြူ",
-  "မာလာ",
-  "စိုက်ပျိုးရေး",
-  "ဟံသာဝတီအဝိုင်း",
-  "မဟာမြိုင်",
-  "မြေနီကုန်း",
-  "မြေနီကုန်း (ပြည်လမ်း)",
-  "ဟယ်လ်ပင်",
-  "ပဲခူးကလပ်",
-  "စိန်ဂျွန်း",
-  "သရက်တောကျောင်း",
-  "ရန်ကုန်ပြည်သူ့ဆေးရုံကြီး",
-  "ဗိုလ်ချုပ်ဈေး",
-  "ဆူးလေ (ရှန်ဂရီလာ)"
-] },
-  { id: "38", color: "#8B5CF6", operator: "YPS", stops: [
-  "ပါရမီညောင်ပင်",
-  "ကေတုမာလာကွေ့",
-  "ပင်းယ",
-  "ဘေလီ",
-  "မြင်သာဈေး",
-  "တောင်ဥက္ကလာဘုရား",
-  "ဂိတ်ဟောင်း",
-  "ဘုရားလမ်း",
-  "တောင်ဥက္ကလာစာတိုက်",
-  "ပုဏ္ဏမီ",
-  "ဗဟိုဈေး",
-  "သံလမ်း",
-  "မိုးကောင်း",
-  "ရန်ကင်းစာတိုက်",
-  "၁၂ လုံးတန်း",
-  "၁၂ လုံးတန်း",
-  "ရန်ကင်းဈေး",
-  "စက်မှုကွေ့",
-  "လမ်းနီလေး (မြန်မာပလာဇာ)",
-  "ကုက္ကိုင်း",
-  "ရေစက်ကွေ့",
-  "သံလွင်",
-  "UFL",
-  "ကျောင်းလမ်း",
-  "ကျောင်းရှေ့ (ဓမ္မာရုံ)",
-  "လှည်းတန်းဈေး",
-  "လှည်းတန်းကျောင်းရှေ့",
-  "သင်္ဘောကျင်း",
-  "ရေကြောင်း",
-  "ရွာမကွေ့",
-  "ချောင်းဝ",
-  "ဘူတာရုံလမ်း",
-  "အိုဝမ်း",
-  "သီရိမင်္ဂလာဈေးသစ်"
-] },
-  { id: "39", color: "#EC4899", operator: "YPS", stops: [
-  "ဝါးတရာ",
-  "လေးလွှာ",
-  "ဈေးလမ်း",
-  "ရှင်းလင်းဆောင်",
-  "၆၅ ဂိတ်",
-  "သိမ်းချောင်း",
-  "ရွှေပြည်သာလိန်ကုန်း",
-  "ကွက်သစ်",
-  "ဒဒွေး",
-  "လှော်ကားအောက်ဂိတ်",
-  "ဂျိုကာ",
-  "ဘုရားလေး",
-  "ဈေးသံလမ်း",
-  "ဂိတ်ဟောင်း (လှော်ကား)",
-  "ကျောင်းရှေ့ (လှော်ကား)",
-  "လှော်ကားတာဆုံ",
-  "လှော်ကားတာဆုံ",
-  "ပိုက်လုံး",
-  "ကျောင်းရှေ့ (ကွန်ပျူတာတက္ကသိုလ်)",
-  "နွားခြံ",
-  "သဘာဝ",
-  "သာဓုကန်",
-  "ဇေယျာသီရီ",
-  "ပုည",
-  "အုတ်ဖို",
-  "သံဖြူဆိုင်",
-  "ရဲတပ်ရင်း (၆)",
-  "ဂိတ်ဟောင်း",
-  "ရွှေပြည်သာကွေ့",
-  "စစ်တပ်",
-  "ကျောင်းလမ်း",
-  "ကန်သာယာ",
-  "မြင်းလှည်းဂိတ်",
-  "ဘုန်းကြီးကျောင်း",
-  "ဆောက်လုပ်ရေး",
-  "ဒညင်းကုန်းလမ်းဆုံ",
-  "ဘိုခြံ",
-  "ရွာသစ်",
-  "အောင်ဆန်းဈေး",
-  "ကျောင်းဂိတ်",
-  "၁ ဂိတ်",
-  "စောင်စက်ရုံ (၂)",
-  "ဖော့ကန်ဈေး",
-  "ဂျပန်လမ်း",
-  "ပြည်တော်သာ",
-  "ရွာမ",
-  "အေးသိဒ္ဓိ",
-  "အင်းစိန်ဆေးရုံ",
-  "အင်းစိန်ပန်းခြံ",
-  "ဘီအိုစီ (အင်းစိန်)",
-  "ကြို့ကုန်း",
-  "ဘီပီအိုင် (YTU)",
-  "ခဝဲခြံ",
-  "ကုလားကျောင်း",
-  "သမိုင်းလမ်းဆုံ (Junction)",
-  "သမိုင်းလမ်းဆုံ",
-  "ဘုရားလမ်း",
-  "အုတ်ကျင်း",
-  "ဘာတာ",
-  "သံလမ်း",
-  "သုခလမ်း",
-  "ဘူတာရုံလမ်း",
-  "ဆင်ရေတွင်း",
-  "စံရိပ်ငြိမ်",
-  "လှည်းတန်း",
-  "စိုက်ပျိုးရေး",
-  "ဟံသာဝတီအဝိုင်း",
-  "မဟာမြိုင်",
-  "မြေနီကုန်း",
-  "မြေနီကုန်း (ပြည်လမ်း)",
-  "ဟယ်လ်ပင်",
-  "ပဲခူးကလပ်",
-  "စိန်ဂျွန်း",
-  "သရက်တောကျောင်း",
-  "အရေးပေါ်ဌာန",
-  "လသာ (မဟာဗန္ဓုလလမ်း)",
-  "လသာ (အနော်ရထာလမ်း)"
-]},
-  { id: "40", color: "#06B6D4", operator: "YPS", stops: [
-  "ရွှေအင်းဝ",
-  "ရေပြာ",
-  "ရွှေရုံ",
-  "ချစ်ကောင်း",
-  "ပတ္တမြားဈေး",
-  "ထန်းခြောက်ပင်",
-  "ကားလေးဂိတ်",
-  "၈၁ ဂိတ်",
-  "ပျော်ဘွယ်",
-  "ဇင်ယော်",
-  "ပုလဲလမ်းဆုံ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "တံတားထိပ်",
-  "၁၉၉ ဂိတ်ဟောင်း",
-  "၁၄ လမ်းဆုံ",
-  "ဒညင်းကုန်းဘူတာဈေး",
-  "ဒညင်းကုန်းလမ်းဆုံ",
-  "ဘိုခြံ",
-  "ရွာသစ်",
-  "အောင်ဆန်းဈေး",
-  "ကျောင်းဂိတ်",
-  "၁ ဂိတ်",
-  "စောင်စက်ရုံ (၂)",
-  "ဖော့ကန်ဈေး",
-  "ဂျပန်လမ်း",
-  "ပြည်တော်သာ",
-  "ရွာမ",
-  "ဆရာတော်ကြီး",
-  "မင်းစေတီ",
-  "၄၈ ဂိတ်",
-  "ပေါက်တောဝ",
-  "ညောင်ပင်",
-  "မြို့သစ်ဈေး",
-  "ပိတောက်လမ်း",
-  "ကြို့ကုန်း",
-  "ဘုရင့်နောင်ဈေးပွဲရုံ",
-  "ဓမ္မာရုံ",
-  "ဘုရင့်နောင်လမ်းဆုံ",
-  "အုတ်ကျင်း",
-  "သီရိမင်္ဂလာဈေးသစ်",
-  "အိုဝမ်း",
-  "ဘူတာရုံလမ်း",
-  "ချောင်းဝ",
-  "ရွာမကွေ့",
-  "ရေကြောင်း",
-  "သင်္ဘောကျင်း",
-  "ဆင်မလိုက်",
-  "နတ်စင်လမ်း",
-  "ကမ်းနားဈေး",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကြည့်မြင်တိုင်စာတိုက်",
-  "သဲကွင်း",
-  "ဟုမ်းလမ်း",
-  "သီရိမင်္ဂလာဈေးဟောင်း",
-  "ဆင်မင်းဈေး",
-  "ဒန်အိုးစက်",
-  "သစ်တော",
-  "ထော်လီကွေ့"
-] },
-  { id: "41", color: "#F97316", stops: [
-  "စုပေါင်းရုံး",
-  "ပေါ်တော်မူ",
-  "ရွှေပြည်အေး",
-  "ဖောက်စက်",
-  "ဆီစက် (ချမ်းမြေ့ရိပ်သာ)",
-  "စိုက်ပျိုးရေး",
-  "အမှတ် ၇",
-  "ထန်းတပင်တာဆုံ",
-  "လျှပ်စစ်ရုံး",
-  "ကားလေးဂိတ်",
-  "မှော်ဘီဈေး",
-  "ရုပ်ရှင်ရုံ",
-  "စာတိုက် (ကားမရပ်)",
-  "အမှတ် ၄ လမ်းဆုံ",
-  "ရုံးပေါက်",
-  "လေထီး ၁၆",
-  "ဆပ်ပလိုင်း",
-  "ဂျီအီး",
-  "လေတပ်",
-  "မော်တော်ယာဉ်",
-  "ဗိုလ်သင်တန်း",
-  "ဆက်သွယ်ရေး",
-  "၉၁ ဂိတ်ကြီး",
-  "ဆပ်သွားတော ဘုန်းကြီးကျောင်း",
-  "မိန်းမလိုင်း",
-  "စမ်းချောင်းပေါက် (ဂျပန်ဘုရား)",
-  "ရဲဘော်ဈေး",
-  "ကြက်ဖြူကန်",
-  "အသုံးလုံး",
-  "ဆေးခန်း",
-  "မီးစက်",
-  "ကိုးလုံးကွင်း ဘုန်းကြီးကျောင်း",
-  "မင်္ဂလာဈေး",
-  "တင့်ကား",
-  "ရုံသံ",
-  "၂ ဂိတ်",
-  "ရေအိုးစင် (ပက်စီ)",
-  "ဆောက်လုပ်ရေး",
-  "၈၂ ဂိတ်ကြီး",
-  "စက္ကူစက်",
-  "၉ ဂိတ်",
-  "ဘီအာတီ ဂိတ်ဟောင်း",
-  "ဘုရားလေးကွေ့",
-  "ညောင်ပင်",
-  "ထောက်ကြန့်လမ်းဆုံ",
-  "ပုပ္ပါးကျောင်း",
-  "လမ်းသစ်",
-  "ကျောင်းရှေ့",
-  "နွယ်ခွေ (ပြည်လမ်း)",
-  "စီပီလိုက်",
-  "ဒေဝူး",
-  "ဆေးဂဲလ်",
-  "မွေးမြူရေး",
-  "ရေစင်",
-  "ခြံပေါက် (ပျဉ်းမပင်)",
-  "ကုန်းထိပ်",
-  "ဘုရားလေး",
-  "ရဲဘော်ဟောင်း",
-  "ရှမ်းစု",
-  "ဘိုခြံ",
-  "တစ်နံပါတ်",
-  "ဆင်မင်း",
-  "ရေကြည်အိုင်",
-  "ဝါယာလက်",
-  "ကျိုက္ကလို့",
-  "ကျိုက္ကလဲ့/ဆပ်ပလိုင်း",
-  "ဗဟိုနိုင်ငံရေး",
-  "မင်္ဂလာဒုံဈေး",
-  "ခရေပင်လမ်းခွဲ (ပြည်လမ်း)",
-  "မင်္ဂလာဒုံစာတိုက်",
-  "ဆေးကျောင်း",
-  "ဘီအိုစီ",
-  "ပန်းခြံကုန်း",
-  "ကုလားဘုရား",
-  "ထန်းပင်ကုန်း",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ဝပ်ရှော့",
-  "အုတ်ကျင်းဝ",
-  "အင်းစိန်ပန်းခြံ",
-  "အင်းစိန်ပန်းခြံ",
-  "ဘီအိုစီ",
-  "ကြို့ကုန်း",
-  "ဘီပီအိုင် (YTU)",
-  "ခဝဲခြံ",
-  "ကုလားကျောင်း",
-  "သမိုင်းလမ်းဆုံ (Junction)",
-  "သမိုင်းလမ်းဆုံ",
-  "ဘုရားလမ်း",
-  "အုတ်ကျင်း",
-  "ဘာတာ",
-  "သံလမ်း",
-  "သုခလမ်း",
-  "ဘူတာရုံလမ်း",
-  "ဆင်ရေတွင်း",
-  "စံရိပ်ငြိမ်",
-  "လှည်းတန်း",
-  "လှည်းတန်းဈေး",
-  "လှည်းတန်းကျောင်းရှေ့",
-  "ဟံသာဝတီဘူတာ",
-  "နတ်စင်လမ်း",
-  "စလင်းကွင်း",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကြည့်မြင်တိုင်ဘူတာ",
-  "ကျောင်းရှေ့ (RC3)",
-  "ဟုမ်းလမ်း",
-  "ဝှိုက်တော",
-  "ဆင်မင်းဈေး",
-  "ချန်မာဖီ",
-  "အလုံစာတိုက်",
-  "ဂျမခါနာ",
-  "သခင်မြပန်းခြံ"
-] },
-  { id: "42", color: "#6366F1", operator: "YPS", stops: [
-  "သာဓုကန်",
-  "သဘာဝ",
-  "နွားခြံ",
-  "ကျောင်းရှေ့ (ကွန်ပျူတာတက္ကသိုလ်)",
-  "ပိုက်လုံး",
-  "လှော်ကားတာဆုံ",
-  "လှော်ကားတာဆုံ",
-  "ကျောင်းရှေ့ (လှော်ကား)",
-  "ဂိတ်ဟောင်း (လှော်ကား)",
-  "ဈေးသံလမ်း",
-  "ဘုရားလေး",
-  "ဂျိုကာ",
-  "လှော်ကားအောက်ဂိတ်",
-  "မိုးဆန်း",
-  "တရုံးရှေ့",
-  "အိမ်မဲကြီး",
-  "အောင်မေတ္တာ",
-  "အောင်ချမ်းသာ",
-  "ဏ ဈေး (အောင်သုခ)",
-  "ငြိမ်းချမ်းရေး",
-  "အမိုးကြီး",
-  "ဏ ကွေ့",
-  "ရုံးရှေ့",
-  "ကိုးသုံးလုံး",
-  "ဆင်နှစ်ကောင်",
-  "၃ ထိပ်",
-  "ငမောက်ဈေး",
-  "ဂိတ်ဟောင်း",
-  "ရေချမ်းစင်",
-  "နဝရတ်ဈေး",
-  "ကျော်စွာ",
-  "တော်ဝင်",
-  "ရွှေညာမောင်",
-  "ကားကြီးဂိတ်",
-  "ဆေးခန်း",
-  "ထန်းခြောက်ပင်",
-  "ကားလေးဂိတ်",
-  "ခေါင်းသုံးလုံး",
-  "သံလမ်း",
-  "ရေစင်",
-  "ရွှေပြည်သာကွေ့",
-  "စစ်တပ်",
-  "ကျောင်းလမ်း",
-  "ကန်သာယာ",
-  "မြင်းလှည်းဂိတ်",
-  "ဘုန်းကြီးကျောင်း",
-  "ဆောက်လုပ်ရေး",
-  "ဒညင်းကုန်းလမ်းဆုံ",
-  "အစာစက်",
-  "၆၄၆",
-  "ပန်းခြံ",
-  "၁၀၆",
-  "ဆေးကျောင်းပေါက်",
-  "ခရေပင်လမ်းခွဲ (ခရေပင်လမ်း)",
-  "ရာသက်ပန်",
-  "သုံးရာသီ",
-  "ခရေပင်ရိပ်မွန်",
-  "အမှတ် ၃ လမ်းဆုံ (အဝေးပြေးထိပ်)",
-  "အောင်မင်္ဂလာအဝေးပြေးထိပ်",
-  "ဓမ္မာရုံ",
-  "၆ ကွေ့",
-  "ဧရာ",
-  "ကန်သာယာလမ်းဆုံ",
-  "ဥဇ္ဇာနာ",
-  "ဣန္ဒာ",
-  "သုနန္ဒာ",
-  "ဝဇီရာ",
-  "သန္တာ",
-  "ဃ ဈေး",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်း",
-  "ဘုန်းကြီးလမ်း",
-  "ကျောင်းကွေ့",
-  "၂ ဈေး",
-  "၄၄ ကျောင်းလမ်း",
-  "အုတ်ပုံဆိပ်",
-  "၄၃၅",
-  "၄၃၆",
-  "ခလရ ၂၆ / တပ်ရင်း ၁၆",
-  "ဘေလီ",
-  "မြင်သာဈေး",
-  "တောင်ဥက္ကလာဘုရား",
-  "မိုးဆွေ",
-  "၃၁ ဂိတ်",
-  "စီမံကိန်း",
-  "လိုင်စင်ရုံး",
-  "စံပြဈေး",
-  "သစ်စက်",
-  "ကျောင်းရှေ့",
-  "ချမ်းအေး (သွားဆေးတက္ကသိုလ်)",
-  "ဝေဘူလ",
-  "သုဝဏ္ဏဈေး",
-  "အောင်ဇေယျ",
-  "ဘုရင့်နောင်",
-  "ညောင်ပင်",
-  "စက်ုံရှေ့",
-  "၈/၉ လမ်းဆုံ",
-  "သာကေတအဝိုင်း (တံတားနား)",
-  "၁၀၈ တောင်စေတီ"
-] },
-  { id: "43", color: "#14B8A6", operator: "YPS", stops: [
-  "ဆင်မင်း",
-  "ရေကြည်အိုင်",
-  "ဝါယာလက်",
-  "ကျိုက္ကလို့",
-  "ကျိုက္ကလဲ့/ဆပ်ပလိုင်း",
-  "ဗဟိုနိုင်ငံရေး",
-  "မင်္ဂလာဒုံဈေး",
-  "ခရေပင်လမ်းခွဲ (ပြည်လမ်း)",
-  "မင်္ဂလာဒုံစာတိုက်",
-  "ဆေးကျောင်း",
-  "ဘီအိုစီ",
-  "ပန်းခြံကုန်း",
-  "ကုလားဘုရား",
-  "ထန်းပင်ကုန်း",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ကျောက်တော်ကြီးဘုရား",
-  "၁၀ မိုင်ကုန်း",
-  "၉ မိုင်ခွဲ",
-  "၉ မိုင်",
-  "အေဝမ်း",
-  "မဟာစည်",
-  "၈ မိုင်",
-  "၈ မိုင်ပန်းခြံ (မြိုင်ဟေဝန်)",
-  "နဝဒေး",
-  "ကမ္ဘာအေးစာတိုက်",
-  "ကမ္ဘာအေးဘုရား",
-  "ချော်တွင်းကုန်း",
-  "၁၀၆",
-  "ရိပ်သာ",
-  "လမ်းနီ",
-  "ရန်ကင်းကလေးဆေးရုံ",
-  "ရန်ကင်းစာတိုက်",
-  "၁၂ လုံးတန်း",
-  "ကြားမှတ်တိုင်",
-  "ဂွတ္တလစ်ဈေးကွေ့",
-  "မင်းလမ်း",
-  "လမ်းဆုံ",
-  "မြလမ်း",
-  "တာမွေအဝိုင်း",
-  "ဗျိုင်းရေအိုးစင် (သျှင်ပါဂူ)",
-  "ကျောက်မြောင်းဈေး",
-  "သီတာ",
-  "အောင်မင်္ဂလာ",
-  "ယုဇနပလာဇာ",
-  "မင်္ဂလာဈေး (၁၂၄ လမ်း)",
-  "မဆလာစက်",
-  "သိမ်ဖြူစာတိုက်",
-  "သိမ်ဖြူဈေး",
-  "စိန်ပေါလ်",
-  "ကြယ်ငါးပွင့်",
-  "ဘိုကလေးဈေး",
-  "ဆီဆိုင်",
-  "ဗိုလ်တထောင်ဘုရား"
-] },
-  { id: "44", color: "#D946EF", stops: [
-  "လှည်းကူးတာဆုံ",
-  "သဉ္ဇာဦး",
-  "လှည်းကူးဈေး",
-  "ရိပ်သာ",
-  "ရုပ်ရှင်ရုံ",
-  "ရုံးရှေ့",
-  "စိန်နဂါး",
-  "ပန်းချယ်ရီ",
-  "အာဇီဝ",
-  "အရှေ့ဇရပ်",
-  "အနောက်ဇရပ်",
-  "ရိတ်သိမ်း",
-  "ဆည်မြောင်း",
-  "ရတနာမြေ",
-  "ရွှေဝါမြေ",
-  "အမှတ် ၃ လမ်းဆုံ",
-  "မြို့ရှောင်လမ်း",
-  "ထောက်ကြန့်ဈေးသစ်",
-  "ထောက်ကြန့်ဈေး",
-  "ပုပ္ပါးကျောင်း",
-  "လမ်းသစ်",
-  "ကျောင်းရှေ့",
-  "နွယ်ခွေ (ပြည်လမ်း)",
-  "စီပီလိုက်",
-  "ဒေဝူး",
-  "ဆေးဂဲလ်",
-  "မွေးမြူရေး",
-  "ရေစင်",
-  "ခြံပေါက် (ပျဉ်းမပင်)",
-  "ကုန်းထိပ်",
-  "ဘုရားလေး",
-  "ရဲဘော်ဟောင်း",
-  "ရှမ်းစု",
-  "ဘိုခြံ",
-  "တစ်နံပါတ်",
-  "ဆင်မင်း",
-  "ရေကြည်အိုင်",
-  "ဝါယာလက်",
-  "ကျိုက္ကလို့",
-  "ကျိုက္ကလဲ့/ဆပ်ပလိုင်း",
-  "ဗဟိုနိုင်ငံရေး",
-  "မင်္ဂလာဒုံဈေး",
-  "ခရေပင်လမ်းခွဲ (ပြည်လမ်း)",
-  "မင်္ဂလာဒုံစာတိုက်",
-  "ဆေးကျောင်း",
-  "ဘီအိုစီ",
-  "ပန်းခြံကုန်း",
-  "ကုလားဘုရား",
-  "ထန်းပင်ကုန်း",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ကျောက်တော်ကြီးဘုရား",
-  "၁၀ မိုင်ကုန်း",
-  "၉ မိုင်ခွဲ",
-  "၉ မိုင်",
-  "အေဝမ်း",
-  "မဟာစည်",
-  "၈ မိုင်",
-  "၈ မိုင် (ပြည်လမ်း)",
-  "ရဲဘော်ဟောင်း",
-  "ကျိုက်ဝိုင်းဘုရား",
-  "ရဲရန်အောင်",
-  "သမိုင်းလမ်းဆုံ",
-  "ကြွေ",
-  "ဦးဘဟန်",
-  "ဈေးဘူတာ",
-  "ဘုရင့်နောင်လမ်းဆုံ (တံတားပေါ်/အောက်)",
-  "ဘုရင့်နောင်လမ်းဆုံ",
-  "အုတ်ကျင်း",
-  "သီရိမင်္ဂလာဈေးသစ်"
-] },
-  { id: "45", color: "#475569", stops: [
-  "လှည်းကူးဈေး",
-  "သဉ္ဇာဦး",
-  "လှည်းကူးတာဆုံ",
-  "စန်းသော်တာ",
-  "ဆောက်လုပ်ရေး",
-  "ညောင်ပင်",
-  "ဆည်မြောင်းရုံး",
-  "ငပိတဲ",
-  "ဝါးဆိုင်",
-  "လေးအိမ်တန်း",
-  "စခန်းကြီး",
-  "ပန်းခြံ",
-  "မှန်ကုန်း",
-  "မှန်ကုန်းရွာလယ်",
-  "ရွာဖျားဈေးဆိုင်",
-  "ရှင်းလင်းဆောင်",
-  "နှုတ်ခမ်းမွှေးသိုက်",
-  "မြင့်မိုရ်ဦး",
-  "ဇီးကုန်း",
-  "ထိန်သုံးပင်",
-  "ကလီထော်",
-  "အောင်သပြေ",
-  "ကြာကန်",
-  "ကဒစ်",
-  "နှုတ်ခမ်းမွှေးသိုက်",
-  "ဆီအုန်း",
-  "သပြေကုန်း",
-  "စာဘူးတောင်း",
-  "အမြန်လမ်းဆုံ",
-  "ညောင်းကုန်း",
-  "ကြို့ကုန်းလမ်းသစ်",
-  "ဟိုင်းကူး",
-  "သပြေတောင်",
-  "ဥယျာဉ်ဝ",
-  "ဥယျာဉ်ဝလမ်းသစ်",
-  "ဘုရားကုန်း",
-  "စည်ပင်လမ်းခွဲ",
-  "ဖောင်ကြီးတာဆုံ",
-  "အောင်ချမ်းသာ",
-  "ဆေးရုံကုန်း",
-  "ဗဟိုဝန်ထမ်းတက္ကသိုလ်",
-  "စံပြ",
-  "၂ ဂိတ်",
-  "သမဝါယမကောလိပ်",
-  "ဆောက်လုပ်ရေးလမ်းခွဲ",
-  "မင်းကုန်း"
-] },
-  { id: "46", color: "#34D399", stops: [
-  "ကမ်းနား",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "ကျောင်းရှေ့",
-  "တောရ",
-  "အုတ်ဖို့တံတား",
-  "ဥက္ကံကြီး",
-  "ဘုန်းကြီးကျောင်းပေါက်",
-  "မြောက်ပိုင်းလမ်းဆုံ",
-  "အလယ်ပိုင်းလမ်းဆုံ",
-  "ဘုရားကြီးလမ်းဆုံ",
-  "ဈေးရှေ့",
-  "ဆေးရုံလမ်း",
-  "လမ်းဆုံ",
-  "သံလမ်းကွေ့",
-  "ကျောက်တံတား",
-  "ငါးကန်ပေါက်",
-  "စက်မှုဇုန်",
-  "ဘုန်းကြီးကျောင်း",
-  "ဆည်မြောင်းကြီး",
-  "အမှတ် ၃",
-  "အမှတ် ၂",
-  "ဗေဒါလမ်း",
-  "ဆည်မြောင်းလေး",
-  "ဘုန်ကြီးကျောင်းရှေ့",
-  "ဆားတလင်းလမ်းဆုံ",
-  "ဆားတလင်းကျောင်းရှေ့",
-  "ဆားတလင်းပန်းခြံ",
-  "ကြာကန်တံတား",
-  "ငရုတ်ဖိုတံတား",
-  "ဘိုးတော်ပေါက်",
-  "သုံးသုံးလုံး",
-  "ရွာအဝင်ရေကန်",
-  "အထက်ရွာကျောင်းရှေ့",
-  "သမဆိုင်",
-  "အထက်ရွာကျောင်း",
-  "အထက်စက်",
-  "နှစ်ရွာကြားရေအိုးစင်",
-  "နွားခြံ",
-  "အောက်ရွာရိပ်သာ",
-  "အောက်ရွာတံတား",
-  "အောက်ရွာကျောင်း",
-  "အောက်ရွာရေအိုးစင်",
-  "အောက်စက်",
-  "အောက်ရွာဆီဆိုင်",
-  "ဆည်မြောင်း",
-  "နေလ",
-  "ဒေါပြားပေါက်",
-  "တပ်ပေါက်",
-  "မီးစက်ပေါက်",
-  "အောင်ကေသာအလယ်ပေါက်",
-  "အောင်ကေသာပထမပေါက်",
-  "သံလမ်းကွေ့",
-  "ကျောင်းလမ်း",
-  "ဘူတာ",
-  "ဘောလုံးကွင်းထိပ်",
-  "စက်ရုံရှေ့",
-  "လေးထောင့်ကန်ဆိုင်ကွေ့",
-  "မိဘရိပ်",
-  "ရိပ်သာ",
-  "သမ",
-  "ဦးခွေးပု",
-  "မုန့်ဖို",
-  "သပြေခြံ",
-  "ဒီဇင်ဘာမုဒ်ဦး",
-  "ဒီဇင်ဘာအလယ်ပေါက်",
-  "အအေးခန်း",
-  "ယူနစ် (၃)",
-  "စီးပွားရေးတက္ကသိုလ် (ရွာသာကြီး)",
-  "ကြိုဆိုရေး",
-  "သစ်တော",
-  "လမ်းသစ်",
-  "ကျောင်းရှေ့",
-  "အကြော်တဲ",
-  "ညောင်နှစ်ပင်",
-  "အကောက်ခွန်",
-  "လိုင်စင်ရုံး",
-  "ဦးထွန်းမြတ်",
-  "ကျောက်လမ်း",
-  "တပ်ရင်း ၃",
-  "ကွင်းဆင်းကျောင်း",
-  "သင်တန်းကျောင်း",
-  "နတ်စင်",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ",
-  "ကားကြီးဂိတ်",
-  "စံပြဈေး",
-  "ဘဝမြင့်",
-  "ဘီအိုစီ",
-  "ဘုရားလမ်း",
-  "ဇဝန"
-] },
-  { id: "47", color: "#60A5FA", stops: [
-  "ဘီအိုစီ",
-  "လှိုင်သာယာ ကော့မှူးကားဂိတ်",
-  "တွံတေးကြိုးတံတား",
-  "ဘုရားငုတ္တိ",
-  "ကံဘဲ့",
-  "တွံတေး"
-] },
-  { id: "48", color: "#F472B6", stops: ["ဒလ", "ဘုရားငုတ်တို", "ကံဘဲ့", "တွံတေး"] },
-  { id: "49", color: "#A78BFA", stops: [
-  "ဘီအိုစီ",
-  "လှိုင်သာယာ ကော့မှူးကားဂိတ်",
-  "တွံတေးကြိုးတံတား",
-  "ဘုရားငုတ္တိ",
-  "ကံဘဲ့",
-  "ကော့မှူး",
-  "ကွမ်းခြံကုန်း"
-] },
-  { id: "50", color: "#FB7185", stops: ["ဒလ", "ဘုရားငုတ်တို", "ကံဘဲ့", "ကော့မှူး", "ကွမ်းခြံကုန်း"] },
-  { id: "51", color: "#2DD4BF", stops: ["ခရမ်း", "ဇွဲတွန်", "သက္ကလ", "အုန်းနဲ", "ရစ်ကန်", "ကမာစဲ", "သနပ်ပင်", "ပဲခူး"] },
-  { id: "52", color: "#EF4444", stops: [
-  "မီးခွက်ဈေး (အပေါ်ထိပ်)",
-  "၅ ထိပ် (စနေမ)",
-  "စနေမ",
-  "ဘီအိုစီ",
-  "သမကုန်း",
-  "ဒဂုံဧရာအဝေးပြေး",
-  "တပ်ရင်း ၉",
-  "ဆောက်လုပ်ရေး",
-  "မြစိမ်းအောင်",
-  "အီးပီစီ",
-  "အလုပ်သမားဆေးရုံ",
-  "တူးချောင်း",
-  "ကျောက်တံတား",
-  "ဝါးတံတား",
-  "ဘုရာလမ်း",
-  "လမ်းဆုံ",
-  "ကျောင်းရှေ့",
-  "ကျိုက္ခနာ",
-  "ဖိုးလဈေး",
-  "ကျူလေးစု",
-  "တာသစ်",
-  "တိုးတက်",
-  "သဲဖြူ (ရိပ်သာ)",
-  "သဲဖြူ (ရွာထိပ်)",
-  "သံပုရာကုန်း",
-  "တောလမ်းလေး",
-  "ရိုးဂွ (လှေဆိပ်)",
-  "အေးသာယာ",
-  "ရွှေပြည်သာ",
-  "ကျောင်းကုန်း (ဆိုင်းဘုတ်)",
-  "ကျောင်းကုန်း (ဟိုဘက်ထိပ်)",
-  "ငုတ်တို",
-  "သီရိမြိုင်",
-  "ကျော်မိုး",
-  "ချစ်ဆောင်",
-  "တင်အောင်",
-  "မောင်သိန်း",
-  "တင်မြင့်",
-  "လမ်းဆုံ (တရားရုံး)",
-  "နန်းဝေလင်း",
-  "ကျောင်းရှေ့",
-  "ကုမုဒြာပန်းခြံ"
-] },
-  { id: "53", color: "#3B82F6", stops: [
-  "အလယ်ရွာ",
-  "အဝိုင်းထိပ် (မီးသတ်အဝိုင်း)",
-  "မူကြိုလမ်းဆုံ",
-  "စိန်ပန်း",
-  "ဈေးလေး",
-  "ကျောင်းရှေ့",
-  "ရွှေသီးလေး",
-  "၁၅ ဈေး",
-  "၁၂၇ ဂိတ်ဟောင်း",
-  "ကမ္ဘာဇ",
-  "၁၀၃ ဂိတ်ဟောင်း",
-  "ရုံးရှေ့",
-  "ဈေးလေး (အောက်ထိပ်)",
-  "ဘုရားလမ်း",
-  "နဝဒေး",
-  "အဆင့်မြင့်",
-  "ဗိုလ်ချုပ်",
-  "စက်မှုဇုံ",
-  "တပ်ထိပ်",
-  "တပ်ထိပ်",
-  "စက်မှုဇုံ",
-  "ဗိုလ်ချုပ်",
-  "အဆင့်မြင့်",
-  "နဝဒေး",
-  "ဘုရားလမ်း",
-  "ဈေးလေး (အောက်ထိပ်)",
-  "ရုံးရှေ့",
-  "တံတားဖြူ",
-  "မီးခွက်ဈေး (အပေါ်ထိပ်)",
-  "၆ သမ",
-  "ပင်လုံဈေး",
-  "ဓမ္မာရုံ",
-  "အလက ၃",
-  "၁၆ ကွေ့",
-  "အုန်းတော",
-  "ပန်းခြံ",
-  "၉၆ အပြာဂိတ်",
-  "ကြက်ခြံ",
-  "အဖြူဂိတ်",
-  "ရိုးလေး",
-  "ရိုးကြီး",
-  "ပေါက်တန်းအဝိုင်း"
-]},
-  { id: "54", color: "#10B981", stops: ["ရိုးလေး", "ကျောင်းလမ်း", "ရွှေရင်အေးကျောင်းလမ်း", "ဗိုလ်အောင်ကျော်လမ်း", "မီးခွက်ဈေး", "အောက်ထိပ်", "ပုသိမ်လမ်း", "ဘုရားလမ်း", "ကျန်စစ်သားလမ်း", "ရုံးရှေ့", "ညောင်တုန်းလမ်း", "မီးခွက်ဈေး"] },
-  { id: "55", color: "#F59E0B", operator: "YPS", stops: [
-  "ပါရမီညောင်ပင်",
-  "မဉ္ဇူ",
-  "ချော်တွင်းကုန်း",
-  "ကမ္ဘာအေးဘုရား",
-  "ကမ္ဘာအေးစာတိုက်",
-  "နဝဒေး",
-  "၈ မိုင်ပန်းခြံ (မြိုင်ဟေဝန်)",
-  "၈ မိုင်",
-  "မဟာစည်",
-  "အေဝမ်း",
-  "၉ မိုင်",
-  "၉ မိုင်ခွဲ",
-  "၁၀ မိုင်ကုန်း",
-  "ကျောက်တော်ကြီးဘုရား",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ဝပ်ရှော့",
-  "အုတ်ကျင်းဝ",
-  "အင်းစိန်ပန်းခြံ",
-  "အင်းစိန်ဈေး",
-  "ထောင်ဘူးဝ",
-  "ပေါက်တောဝ",
-  "ညောင်ပင်",
-  "မြို့သစ်ဈေး",
-  "ပိတောက်လမ်း",
-  "ကြို့ကုန်း",
-  "ဘုရင့်နောင်ဈေးပွဲရုံ",
-  "ဓမ္မာရုံ",
-  "ဘုရင့်နောင်လမ်းဆုံ",
-  "အုတ်ကျင်း",
-  "သီရိမင်္ဂလာဈေးသစ်",
-  "အိုဝမ်း",
-  "ဘူတာရုံလမ်း",
-  "ချောင်းဝ",
-  "ရွာမကွေ့",
-  "ရေကြောင်း",
-  "သင်္ဘောကျင်း",
-  "ဆင်မလိုက်",
-  "နတ်စင်လမ်း",
-  "ကမ်းနားဈေး",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကြည့်မြင်တိုင်စာတိုက်",
-  "သဲကွင်း",
-  "ဟုမ်းလမ်း",
-  "သီရိမင်္ဂလာဈေးဟောင်း",
-  "ဆင်မင်းဈေး",
-  "ဒန်အိုးစက်"
-] },
-  { id: "56", color: "#8B5CF6", stops: [
-  "သခင်မြပန်းခြံ",
-  "ဗဟိုရ်စည် / မော်တင်",
-  "သရက်တောကျောင်း",
-  "ရန်ကုန်ပြည်သူ့ဆေးရုံကြီး",
-  "ဗိုလ်ချုပ်ဈေး",
-  "ပန်းဆိုးတန်း",
-  "အိုးအိမ် (ချမ်းမြေ့ဈေး)",
-  "၄၆ လမ်း",
-  "လမ်း ၅၀",
-  "ညောင်တန်း",
-  "ဂန္ဒီ",
-  "လမ်း ၅၀",
-  "ဘိုကလေးဈေး",
-  "ပန်းဆိုးတန်း",
-  "လမ်း ၃၀",
-  "လသာ",
-  "ညောင်ပင်လေးဈေး",
-  "၁၅ လမ်း"
-] },
-  { id: "57", color: "#EC4899", operator: "YPS", stops: [
-  "သခင်မြပန်းခြံ",
-  "ကီလီ",
-  "မော်တင်",
-  "၁၅ လမ်း",
-  "လသာ",
-  "သိမ်ကြီးဈေး",
-  "ဆူးလေ (ပန်းခြံ)",
-  "ပန်းဆိုးတန်း",
-  "ဘိုကလေးဈေး",
-  "၄၆ လမ်း",
-  "လမ်း ၅၀",
-  "ဂန္ဒီ",
-  "အိုးရှင်း",
-  "လင်းစဒေါင်း",
-  "ဂန္ဒီ",
-  "ဆီဆိုင်",
-  "ဗိုလ်တထောင်ဘုရား",
-  "ဘိုကလေးဈေး",
-  "ပန်းဆိုးတန်း",
-  "၆ ထပ်ရုံး",
-  "လသာ",
-  "ညောင်ပင်လေးဈေး",
-  "၁၅ လမ်း",
-  "မော်တင်",
-  "ကီလီ",
-  "သခင်မြပန်းခြံ"
-] },
-  { id: "58", color: "#06B6D4", operator: "YPS", stops: [
-  "သခင်မြပန်းခြံ",
-  "ကီလီ",
-  "မော်တင်",
-  "၁၅ လမ်း",
-  "ညောင်ပင်လေးဈေး",
-  "လသာ",
-  "၆ ထပ်ရုံး",
-  "ပန်းဆိုးတန်း",
-  "ဘိုကလေးဈေး",
-  "ဗိုလ်တထောင်ဘုရား",
-  "လင်းစဒေါင်း",
-  "သီတာဆိပ်",
-  "မဆလာစက် / ဂန္ဒီ",
-  "လမ်း ၅၀",
-  "လမ်း ၄၆",
-  "ပန်းဆိုးတန်း",
-  "ဘားလမ်း",
-  "လမ်း ၃၀",
-  "ကုန်ဈေးတန်း (သိမ်ကြီးဈေး)",
-  "လသာ",
-  "၁၅ လမ်း",
-  "စံပြ"
-] },
-  { id: "59", color: "#F97316", operator: "YPS", stops: [
-  "ကျောက်လမ်း",
-  "အကြော်တဲ",
-  "ရတနာပုံကွေ့",
-  "ဇေယျာမြိုင်",
-  "၆ လမ်း",
-  "၃ လမ်း",
-  "ကားကြီးဂိတ်",
-  "ကွမ်းယာဆိုင်",
-  "၅၆ လမ်းဆုံ",
-  "၅၄ သမ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "တံတားထိပ်",
-  "၁၈ ကွေ့",
-  "ကျန်းမာရေး",
-  "ကျောင်းရှေ့",
-  "ဂိတ်ဟောင်း",
-  "ကုန်ပဒေသာ",
-  "သစ်ဆိုင်ကွေ့",
-  "ယောက်ကော်",
-  "ပန်းခြံ",
-  "ယဉ်ကျေးမှု",
-  "သုခုမ",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ",
-  "ကားကြီးဂိတ်",
-  "သစ်စက်",
-  "ကျောင်းရှေ့",
-  "ချမ်းအေး (သွားဆေးတက္ကသိုလ်)",
-  "ဝေဘူလ",
-  "သုဝဏ္ဏဈေး",
-  "မီးဒုံး",
-  "မင်းဒင်",
-  "ကျောင်းလမ်း",
-  "စုပေါင်း",
-  "ရေစက်",
-  "သုဝဏ္ဏလမ်းဆုံ",
-  "ဈေးလေး (ကြက်ဘဲဈေး)",
-  "အာသောက",
-  "တာမွေဗလီ",
-  "တာမွေပလာဇာ",
-  "တာမွေအဝိုင်း",
-  "၆ ထပ်ကြီး",
-  "၅ ထပ်ကြီး",
-  "ဗန်ဒါပင်",
-  "ရွှေဂုံတိုင်",
-  "အုတ်လမ်း",
-  "လင့်လမ်း",
-  "မြေနီကုန်း",
-  "ရွှေမန်း",
-  "ရှမ်းလမ်း",
-  "၉ ထပ်ကြီး",
-  "ကျောင်းရှေ့ (RC3)",
-  "ဟုမ်းလမ်း",
-  "ဝှိုက်တော",
-  "ဆင်မင်းဈေး",
-  "ချန်မာဖီ",
-  "အလုံစာတိုက်",
-  "ဂျမခါနာ",
-  "သခင်မြပန်းခြံ",
-  "ဗဟိုအမျိုးသမီးဆေးရုံ"
-] },
-  { id: "60", color: "#6366F1", operator: "YPS", stops: [
-  "ယုဇနအိမ်ယာ",
-  "မြသီတာပန်းခြံ",
-  "ယုဇနမုခ်ဦး",
-  "ဆီဆိုင်",
-  "အိုးအိမ်",
-  "အောင်ချမ်းသာ",
-  "မှတ်တိုင်သစ်",
-  "မြနန္ဒာ (အလယ်ဂိတ်)",
-  "ရတနာလမ်းဆုံ",
-  "သိမ်ချောင်းလမ်းဆုံ",
-  "၆၅ ရပ်ကွက်",
-  "ဆောက်လုပ်ရေး",
-  "ပုလဲကန်",
-  "ဘီအမ်ဂိတ်",
-  "မင်းကွန်းဈေး",
-  "ရုံးရှေ့",
-  "ဧရာတီလမ်းဆုံ",
-  "ဈေးလေး",
-  "စက်မှုဇုန် (၂)",
-  "ဂျီအီးစီ",
-  "သစ်ဆိုင်ကွေ့",
-  "ယောက်ကော်",
-  "ပန်းခြံ",
-  "ယဉ်ကျေးမှု",
-  "သုခုမ",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ",
-  "ကားကြီးဂိတ်",
-  "စံပြဈေး",
-  "လိုင်စင်ရုံး",
-  "ဒေဝဒဟ",
-  "ဘဝမြင့်",
-  "အာနန္ဒာဘုရား",
-  "ဂိတ်ဟောင်း",
-  "ကျိုက္ကဆံဘုရား",
-  "၁၄/၁၅ လမ်းဆုံ",
-  "ရတနာဈေး",
-  "ကုလားဘုရား",
-  "၁၆ ကွေ့",
-  "သံလမ်း",
-  "ကျောက်ကုန်း (AMPS Condo)",
-  "မဟာဗောဓိ",
-  "မိုးကောင်း",
-  "ရန်ကင်းစာတိုက်",
-  "၁၂ လုံးတန်း",
-  "၁၂ လုံးတန်း",
-  "ရန်ကင်းဈေး",
-  "စက်မှုကွေ့",
-  "လမ်းနီလေး (မြန်မာပလာဇာ)",
-  "ကုက္ကိုင်း",
-  "ရေစက်ကွေ့",
-  "သံလွင်",
-  "UFL",
-  "ကျောင်းလမ်း",
-  "ကျောင်းရှေ့ (ဓမ္မာရုံ)",
-  "လှည်းတန်းဈေး",
-  "လှည်းတန်းကျောင်းရှေ့",
-  "သင်္ဘောကျင်း",
-  "ရေကြောင်း",
-  "ရွာမကွေ့",
-  "ချောင်းဝ",
-  "ဘူတာရုံလမ်း",
-  "အိုဝမ်း",
-  "သီရိမင်္ဂလာဈေးသစ်"
-]},
-  { id: "61", color: "#14B8A6", operator: "YPS", stops: [
-  "အနောက်ပိုင်းနည်းပညာတက္ကသိုလ်",
-  "အဝိုင်း",
-  "မြစိမ်းရောင်",
-  "တပ်ရင်း ၉",
-  "ဆောက်လုပ်ရေး",
-  "ဒဂုံဧရာအဝေးပြေး",
-  "သမကုန်း",
-  "ဘီအိုစီ",
-  "စနေမ",
-  "၅ ထိပ် (စနေမ)",
-  "မီးခွက်ဈေး (အပေါ်ထိပ်)",
-  "တံတားဖြူ",
-  "ရုံးရှေ့",
-  "၅ ထိပ်",
-  "၃ ထိပ်",
-  "၁ ထိပ်",
-  "အင်းစိန်ကမ်းနား",
-  "ပေါက်တောဝ",
-  "ပေါက်တောဝ",
-  "ညောင်ပင်",
-  "မြို့သစ်ဈေး",
-  "ပိတောက်လမ်း",
-  "ကြို့ကုန်း",
-  "ဘုရင့်နောင်ဈေးပွဲရုံ",
-  "ဓမ္မာရုံ",
-  "ဘုရင့်နောင်လမ်းဆုံ (တံတားပေါ်/အောက်)",
-  "ဈေးဘူတာ",
-  "ဦးဘဟန်",
-  "ကြွေ ၁",
-  "သမိုင်းလမ်းဆုံ",
-  "ဘုရားလမ်း",
-  "အုတ်ကျင်း",
-  "ဘာတာ",
-  "သံလမ်း",
-  "သုခလမ်း",
-  "ဘူတာရုံလမ်း",
-  "ဆင်ရေတွင်း",
-  "စံရိပ်ငြိမ်",
-  "လှည်းတန်း",
-  "စိုက်ပျိုးရေး",
-  "ဟံသာဝတီအဝိုင်း",
-  "မဟာမြိုင်",
-  "မြေနီကုန်း",
-  "လင့်လမ်း",
-  "အုတ်လမ်း",
-  "ရွှေဂုံတိုင်",
-  "ရွှေဂုံတိုင်",
-  "ရေခဲဆိုင်",
-  "ဗဟန်း ၃ လမ်း",
-  "ကျောက်တိုင်",
-  "ယောက်လမ်း (သမ္မတ)",
-  "ဆူးလေ (ရှန်ဂရီလာ)",
-  "ဆူးလေ (မြို့တော်ခန်းမ)"
-] },
-  { id: "62", color: "#D946EF", operator: "YPS", stops: [
-  "မီတာရုံး",
-  "မုခ်ဝ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "တသသ",
-  "ကျန်စစ်သားလမ်းမုခ်ဝ",
-  "ဝင်္ကဘာ",
-  "ဗိုလ်ဘစိုး",
-  "မဓ",
-  "အောင်တောင်မူ",
-  "အမှိုက်ကန်",
-  "ဓမ္မာရုံ",
-  "၅၀ ကွေ့",
-  "ရုံးရှေ့ (၄၆ ရပ်ကွက်)",
-  "အအေးဆိုင်",
-  "မြဝတီ",
-  "၄၆ လမ်းဆုံ",
-  "၄၅",
-  "၇/၈ လမ်းဆုံ",
-  "ရုံးရှေ့ (၃၈ ရပ်ကွက်)",
-  "ကုန်ပဒေသာ",
-  "စွမ်းအင်",
-  "မဝတ လမ်းဆုံ",
-  "အားကစားကွင်း",
-  "ကပရ",
-  "တံတားထိပ်",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ",
-  "ကားကြီးဂိတ်",
-  "စံပြဈေး",
-  "ဘဝမြင့်",
-  "ဘီအိုစီ",
-  "ဘုရားလမ်း",
-  "ဇဝန",
-  "ခပ်ချီးယား",
-  "အသင်းတိုက်",
-  "သံလမ်း",
-  "ကျိုက္ကဆံလမ်းဆုံ",
-  "ကျောင်းရှေ့",
-  "တာမွေအဝိုင်း",
-  "၆ ထပ်ကြီး",
-  "ဗန်ဒါပင်",
-  "ရွှေဂုံတိုင်",
-  "အုတ်လမ်း",
-  "လင့်လမ်း",
-  "မြေနီကုန်း",
-  "ရွှေမန်း",
-  "ရှမ်းလမ်း",
-  "၉ ထပ်ကြီး",
-  "ကျောင်းရှေ့",
-  "ကြည့်မြင်တိုင်စာတိုက်",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကမ်းနားဈေး",
-  "နတ်စင်လမ်း",
-  "ဆင်မလိုက်",
-  "ဟံသာဝတီဘူတာ"
-] },
-  { id: "63", color: "#475569", operator: "YPS", stops: [
-  "ကျောက်ကုန်း",
-  "သံလမ်း",
-  "၁၆ ကွေ့",
-  "ကုလားဘုရား",
-  "ရတနာဈေး",
-  "၁၄/၁၅ လမ်းဆုံ",
-  "ကျိုက္ကဆံဘုရား",
-  "ဂိတ်ဟောင်း",
-  "အာနန္ဒာဘုရား",
-  "ဘဝမြင့်",
-  "ဒေဝဒဟ",
-  "လိုင်စင်ရုံး",
-  "လိုင်စင်ရုံး (အပြန်)",
-  "စံပြဈေး",
-  "သစ်စက်",
-  "ကျောင်းရှေ့",
-  "ချမ်းအေး (သွားဆေးတက္ကသိုလ်)",
-  "ဝေဘူလ",
-  "သုဝဏ္ဏဈေး",
-  "မီးဒုံး",
-  "မင်းဒင်",
-  "ကျောင်းလမ်း",
-  "စုပေါင်း",
-  "ရေစက်",
-  "သုဝဏ္ဏလမ်းဆုံ",
-  "ဈေးလေး (ကြက်ဘဲဈေး)",
-  "ပုသိမ်ညွှန့် (၆ လမ်း)",
-  "အေဘီစီ",
-  "ရုံးလေး",
-  "၉ လမ်း",
-  "အသင်းတိုက်",
-  "ပုဇွန်တောင်စာတိုက်",
-  "ပုဇွန်တောင်ဈေး",
-  "ညောင်တန်း",
-  "မဆလာစက် / ဂန္ဒီ",
-  "၅၀ ကွေ့",
-  "ဆီဆိုင်",
-  "ဗိုလ်တထောင်ဘုရား",
-  "အိုးရှင်း",
-  "သီတာဆိပ်"
-] },
-  { id: "64", color: "#34D399", operator: "YPS", stops: [
-  "ဝေဘာဂီ",
-  "နွယ်သာကီ",
-  "ဘုရားလေးကွေ့",
-  "၆ ကွေ့",
-  "ဧရာ",
-  "ကန်သာယာလမ်းဆုံ",
-  "ဈ ဈေး",
-  "ရုပ်ရှင်ရုံ",
-  "နွယ်သာဂီ",
-  "မြရတနာ",
-  "ရုံး",
-  "ဥက္ကာ (ဆေး-၂)",
-  "မေဓာဝီလမ်းဆုံ",
-  "ရုံးသစ်",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်း",
-  "ဘုန်းကြီးလမ်း",
-  "၂ ဈေး",
-  "၅ လမ်း",
-  "လမ်းဝ",
-  "ကမ္ဘာအေးစာတိုက်",
-  "ကမ္ဘာအေးဘုရား",
-  "ချော်တွင်းကုန်း",
-  "၁၀၆",
-  "ရိပ်သာ",
-  "လမ်းနီ",
-  "စက်မှုကွေ့",
-  "ရန်ကင်းဈေး",
-  "၁၂ လုံးတန်း",
-  "၁၂ လုံးတန်း",
-  "ကြားမှတ်တိုင်",
-  "ဂွတ္တလစ်ဈေးကွေ့",
-  "မင်းလမ်း",
-  "လမ်းဆုံ",
-  "မြလမ်း",
-  "တာမွေအဝိုင်း",
-  "ကျောက်မြောင်းဈေး",
-  "ဗျိုင်းရေအိုးစင် (သျှင်ပါဂူ)",
-  "သီတာ",
-  "အောင်မင်္ဂလာ",
-  "ယုဇနပလာဇာ",
-  "မင်္ဂလာဈေး (၁၂၄ လမ်း)",
-  "မဆလာစက်",
-  "သိမ်ဖြူစာတိုက်",
-  "သိမ်ဖြူဈေး",
-  "စိန်ပေါလ်",
-  "ကြယ်ငါးပွင့်",
-  "ဘိုကလေးဈေး",
-  "ပန်းဆိုးတန်း (ကမ်းနား)",
-  "ပန်းဆိုးတန်း (မဟာဗန္ဓုလလမ်း)"
-] },
-  { id: "65", color: "#60A5FA", operator: "YPS", stops: [
-  "၆၅ ဂိတ်", "သိမ်းချောင်း", "ရွှေပြည်သာလိန်ကုန်း", "ကွက်သစ်", "ဒဒွေး", "လှော်ကားအောက်ဂိတ်",
-  "မိုးဆန်း", "ရုံးရှေ့", "အိမ်မဲကြီး", "အောင်မေတ္တာ", "အောင်ချမ်းသာ", "ဏ ဈေး (အောင်သုခ)",
-  "ငြိမ်းချမ်းရေး", "အမိုးကြီး", "ဏ ကွေ့", "ရုံးရှေ့", "ကိုးသုံးလုံး", "ဆင်နှစ်ကောင်",
-  "၃ ထိပ်", "ငမောက်ဈေး", "ဂိတ်ဟောင်း", "ရေချမ်းစင်", "နဝရတ်ဈေး", "ကျော်စွာ",
-  "တော်ဝင်", "ရွှေညာမောင်", "ကားကြီးဂိတ်", "ဆေးခန်း", "ထန်းခြောက်ပင်", "ကားလေးဂိတ်",
-  "ခေါင်းသုံးလုံး", "သံလမ်း", "ရေစင်", "ရွှေပြည်သာကွေ့", "စစ်တပ်", "ကျောင်းလမ်း",
-  "ကန်သာယာ", "မြင်းလှည်းဂိတ်", "ဘုန်းကြီးကျောင်း", "ဆောက်လုပ်ရေး", "ဒညင်းကုန်းလမ်းဆုံ",
-  "ဘိုခြံ", "ရွာသစ်", "အောင်ဆန်းဈေး", "ကျောင်းဂိတ်", "၁ ဂိတ်", "စောင်စက်ရုံ (၂)",
-  "ဖော့ကန်ဈေး", "ဂျပန်လမ်း", "ပြည်တော်သာ", "ရွာမ", "အေးသိဒ္ဓိ", "အင်းစိန်ဆေးရုံ",
-  "အင်းစိန်ပန်းခြံ", "ဘီအိုစီ", "ကြို့ကုန်း", "ဘီပီအိုင် (YTU)", "ခဝဲခြံ", "ကုလားကျောင်း",
-  "သမိုင်းလမ်းဆုံ (Junction)", "သမိုင်းလမ်းဆုံ", "ဘုရားလမ်း", "အုတ်ကျင်း", "ဘာတာ",
-  "သံလမ်း", "သုခလမ်း", "ဘူတာရုံလမ်း", "ဆင်ရေတွင်း", "စံရိပ်ငြိမ်", "လှည်းတန်း",
-  "စိုက်ပျိုးရေး", "ဟံသာဝတီအဝိုင်း", "မဟာမြိုင်", "မြေနီကုန်း", "မြေနီကုန်း", "လင့်လမ်း",
-  "အုတ်လမ်း", "ရွှေဂုံတိုင်", "ဗန်ဒါပင်", "၅ ထပ်ကြီး", "၆ ထပ်ကြီး", "တာမွေအဝိုင်း",
-  "တာမွေပလာဇာ", "တာမွေဈေး", "ကျောက်မြောင်းဈေး", "သီတာ", "အောင်မင်္ဂလာ", "ယုဇနပလာဇာ",
-  "မင်္ဂလာဈေး", "ပုဇွန်တောင်စာတိုက်", "ပုဇွန်တောင်ဈေး", "ညောင်တန်း", "မဆလာစက် / ဂန္ဒီ",
-  "၅၀ ကွေ့", "ဆီဆိုင်", "ဗိုလ်တထောင်ဘုရား"
-] },
-  { id: "66", color: "#F472B6", operator: "YPS", stops: [
-  "စိတ်ကျန်းမာရေးဆေးရုံ", "ဘုရားလမ်း", "ရှင်မတောင်", "ရဲစခန်း", "၃၆ ဂိတ်ဟောင်း",
-  "ကျော်ကြား", "ရပ်ကွက်ထိပ်", "မယက", "စည်ပင်ရုံး", "ဆေးရုံရှေ့", "ထန်းတပင်",
-  "လမ်းသစ်", "မီတာရုံး", "မုခ်ဝ", "ဘုန်းကြီးကျောင်းကွေ့", "ဈေးလမ်း", "ဂိတ်ဟောင်း",
-  "ကျောင်းလမ်း", "၈ သမ", "၇/၈ လမ်းဆုံ", "၄၅", "၄၆ လမ်းဆုံ", "မြဝတီ", "အအေးဆိုင်",
-  "ရုံးရှေ့ (၄၆ ရပ်ကွက်)", "၅၀ ကွေ့", "၅၀ ကွေ့ (အပြန်)", "ကျန်းမာရေး", "ဒူးယားလမ်း",
-  "၅၀ ဈေး", "ကြိုးတံတား", "ကရုဏာကွေ့", "ဂိတ်ဟောင်းကွေ့", "စံပယ်ဖြူ", "ကျောင်းလမ်း",
-  "ကန်သာယာလမ်းဆုံ", "ကန်သာယာလမ်းဆုံ", "ဧရာ", "၆ ကွေ့", "ဓမ္မာရုံ",
-  "အောင်မင်္ဂလာအဝေးပြေးထိပ်", "အမှတ် ၃ လမ်းဆုံ", "ခရေပင်ရိပ်မွန်", "သုံးရာသီ",
-  "ရာသက်ပန်", "ခရေပင်လမ်းခွဲ", "ဆေးကျောင်းပေါက်", "၁၀၆", "ပန်းခြံ", "၆၄၆",
-  "အစာစက်", "ဒညင်းကုန်းလမ်းဆုံ", "ဆောက်လုပ်ရေး", "ဘုန်းကြီးကျောင်း", "မြင်းလှည်းဂိတ်",
-  "ကန်သာယာ", "ကျောင်းလမ်း", "စစ်တပ်", "ရွှေပြည်သာကွေ့", "ဂိတ်ဟောင်း", "ရဲတပ်ရင်း (၆)",
-  "သံဖြူဆိုင်", "အုတ်ဖို", "ပုည", "ဇေယျာသီရီ", "သာဓုကန်", "သဘာဝ", "နွားခြံ",
-  "ကျောင်းရှေ့ (ကွန်ပျူတာတက္ကသိုလ်)"
-] },
-  { id: "67", color: "#A78BFA", stops: [
-  "အလယ်ရွာ",
-  "အဝိုင်းထိပ် (မီးသတ်အဝိုင်း)",
-  "မူကြိုလမ်းဆုံ",
-  "စိန်ပန်း",
-  "ဈေးလေး",
-  "ကျောင်းရှေ့",
-  "ရွှေသီးလေး",
-  "၁၅ ဈေး",
-  "၁၂၇ ဂိတ်ဟောင်း",
-  "ကမ္ဘာဇ",
-  "၁၀၃ ဂိတ်ဟောင်း",
-  "ရုံးရှေ့",
-  "ဈေးလေး (အောက်ထိပ်)",
-  "ဘုရားလမ်း",
-  "ရေဥက္ကံ",
-  "ထနောင်းရိပ်",
-  "ကျန်းမာရေး",
-  "ဆင်နှစ်ကောင်ကွေ့",
-  "အောင်ချမ်းသာပြာပုံ",
-  "၅ သုံးလုံး",
-  "ညောင်ရွာဈေးထိပ်"
-]},
-  { id: "68", color: "#FB7185", operator: "YPS", stops: [
-  "အိမ်မဲကြီး", "အောင်မေတ္တာ", "အောင်ချမ်းသာ", "ဏ ဈေး (အောင်သုခ)", "ငြိမ်းချမ်းရေး",
-  "အမိုးကြီး", "ဏ ကွေ့", "ရုံးရှေ့", "ကိုးသုံးလုံး", "ဆင်နှစ်ကောင်", "၃ ထိပ်",
-  "ငမောက်ဈေး", "ဂိတ်ဟောင်း", "ရေချမ်းစင်", "နဝရတ်ဈေး", "ကျော်စွာ", "တော်ဝင်",
-  "ရွှေညာမောင်", "ကားကြီးဂိတ်", "ဆေးခန်း", "ထန်းခြောက်ပင်", "ကားလေးဂိတ်",
-  "၈၁ ဂိတ်", "ပျော်ဘွယ်", "ဇင်ယော်", "ပုလဲလမ်းဆုံ", "ဘုန်းကြီးကျောင်းကွေ့",
-  "တံတားထိပ်", "၁၉၉ ဂိတ်ဟောင်း", "၁၄ လမ်းဆုံ", "မြဝတီမင်းကြီး", "အေအမ်စီ",
-  "ဦးခက်", "ဦးထွန်း", "ကနောင်မင်းသားကြီး", "ဆင်နှစ်ကောင်အလယ်ပေါက်", "ဦးမြဲ",
-  "သစ်စက်ကျောင်း", "ဆောက်လုပ်ရေး", "ကြွေမြေ", "သံမဏိ", "ပြည်တော်သာ", "ရွာမ",
-  "အေးသိဒ္ဓိ", "အင်းစိန်ဆေးရုံ", "အင်းစိန်ပန်းခြံ", "ဘီအိုစီ", "ကြို့ကုန်း",
-  "ဘီပီအိုင် (YTU)", "ခဝဲခြံ", "ကုလားကျောင်း", "သမိုင်းလမ်းဆုံ (Junction)",
-  "ကြွေ", "ဦးဘဟန်", "ဈေးဘူတာ", "ဘုရင့်နောင်လမ်းဆုံ (တံတားပေါ်/အောက်)",
-  "တပ်ထိပ်", "စက်မှုဇုံ", "ဗိုလ်ချုပ်", "အဆင့်မြင့်", "နဝဒေး", "ဘုရားလမ်း",
-  "ဆောက်လုပ်ရေး", "မီးခွက်ဈေး (အောက်ထိပ်)", "တိုးချဲ့", "ဘီအိုစီ", "သမကုန်း",
-  "ဒဂုံဧရာအဝေးပြေး", "ဆောက်လုပ်ရေး", "တပ်ရင်း ၉", "မြစိမ်းရောင်",
-  "နည်းပညာတက္ကသိုလ်အဝိုင်း", "အနောက်ပိုင်းနည်းပညာတက္ကသိုလ်"
-]},
-  { id: "69", color: "#2DD4BF", stops: [
-  "ထန်း ၃ ပင်", "အုပ်ချုပ်ရေးမှူးရုံး", "ဒဒွေး ၁၇ ဂိတ်ဟောင်း", "(၅) အပိုင်း ၂",
-  "အပိုင်း ၃", "ဓမ္မာရုံ", "ဖုန်းဆိုင်", "ကျောင်းရှေ့", "ကွက်သစ်", "ဒဒွေး",
-  "လှော်ကားအောက်ဂိတ်", "ဂျိုကာ", "ဘုရားလေး", "ဈေးသံလမ်း", "ဂိတ်ဟောင်း (လှော်ကား)",
-  "ကျောင်းရှေ့ (လှော်ကား)", "လှော်ကားတာဆုံ", "ပိုက်လုံး", "ကျောင်းရှေ့ (ကွန်ပျူတာတက္ကသိုလ်)",
-  "နွားခြံ", "သဘာဝ", "သာဓုကန်", "ဇေယျာသီရီ", "ပုည", "အုတ်ဖို", "သံဖြူဆိုင်",
-  "ရဲတပ်ရင်း (၆)", "ဂိတ်ဟောင်း", "ရွှေပြည်သာကွေ့", "စစ်တပ်", "ကျောင်းလမ်း",
-  "ကန်သာယာ", "မြင်းလှည်းဂိတ်", "ဘုန်းကြီးကျောင်း", "ဆောက်လုပ်ရေး", "ဒညင်းကုန်းလမ်းဆုံ",
-  "ဘိုခြံ", "ရွာသစ်", "အောင်ဆန်းဈေး", "ကျောင်းဂိတ်", "၁ ဂိတ်", "စောင်စက်ရုံ (၂)",
-  "ဖော့ကန်ဈေး", "ဂျပန်လမ်း", "ပြည်တော်သာ", "ရွာမ", "ဆရာတော်ကြီး", "မင်းစေတီ",
-  "၄၈ ဂိတ်", "ပေါက်တောဝ", "အင်းစိန်ကမ်းနား", "၁ ထိပ်", "၃ ထိပ်", "၅ ထိပ်",
-  "ရုံးရှေ့", "တံတားဖြူ", "မီးခွက်ဈေး (အပေါ်ထိပ်)", "၅ ထိပ် (စနေမ)", "စနေမ",
-  "ဘီအိုစီ", "သမကုန်း", "ဒဂုံဧရာအဝေးပြေး"
-] },
-  { id: "70", color: "#EF4444", stops: [
-  "သီလဝါဥယျာဉ်အိမ်ရာ", "GTI", "အောင်သပြေခြံ", "နည်းပညာတက္ကသိုလ် (TTU)",
-  "ကိုတင်မောင်ခြံဝ", "ဘုရားလေး", "ဆေးခန်းရှေ့", "ထားမလုံ", "ဘုရားငါးဆူ",
-  "စော်ဘွားကုန်းထိပ်", "နတ်စင်ကုန်း", "ဂိတ်ဝ", "ကျိုက်အင်း", "ဆန်စက်",
-  "စစ်စည်းတော", "နတ်စင်တရာ", "ဘုရားကုန်းလမ်းဆုံ", "ကျိုက်ခေါက်ဘုရားရှေ့",
-  "၁၈ ကုန်းထိပ်", "အောင်ချမ်းသာ", "ဆည်မြောင်း", "သမကောလိပ်", "ကျားဘုရား",
-  "ဆေးရုံအပေါ်ကွေ့", "ဆေးရုံအောက်ကွေ့", "ပဲခူးစု", "ဖို့မြေ", "မြို့မဈေး (သန်လျင်)",
-  "မြို့မလမ်း (သန်လျင်)", "လမ်းဆုံ (ဒါရ်ဂါလမ်းဆုံ)", "ရေနံဂိတ်ဝ", "မီးပွိုင့်",
-  "လက်မှတ်ဂိတ်", "ဆောက်လုပ်ရေး", "၁၀၈ တောင်စေတီ", "သာကေတအဝိုင်း", "စ ဂိတ်",
-  "မြေနီ", "ကျောင်းကွေ့", "ဘုရားရှေ့", "၇ ဈေး", "ကျန်းမာရေး", "ရုပ်ရှင်ရုံ",
-  "နယ်မြေရုံး", "စာတိုက်", "ဆီဆိုင်", "ခင်မမကြား", "၃ ဈေး", "အရှေ့ကြား",
-  "၃ ဂိတ်ဟောင်း", "မာန်ပြေ", "ရန်ပြေ", "သင်္ဘောကျင်း", "အိုးရှင်း", "ဂန္ဒီ",
-  "လမ်း ၅၀", "ဘိုကလေးဈေး", "ပန်းဆိုးတန်း", "ပန်းဆိုးတန်း (Final Stop)"
-]},
-  { id: "71", color: "#3B82F6", stops: [
-  "သရက်ပင်ချောင်", "၅ လမ်း", "၄ လမ်း", "၃ လမ်း", "၂ လမ်း", "၁ လမ်း",
-  "ကျောင်းလမ်းရိပ်သာ", "ရုံးရှေ့", "ညောင်ပင်ရွာထိပ်", "မြန်မာ့သားကောင်း",
-  "ဂိတ်ဟောင်း", "ဥက္ကံလမ်း", "ဘုရားလမ်း", "သစ်စက်လမ်း", "မြေနီလမ်း",
-  "ကျောင်းရှေ့", "ဆေးရုံလမ်း", "လေးထောင့်ကန်ဈေး", "မိဘရိပ်", "ရိပ်သာ",
-  "သမ", "ဦးခွေးပု", "မုန့်ဖို", "သပြေခြံ", "ဒီဇင်ဘာမုဒ်ဦး",
-  "ဒီဇင်ဘာအလယ်ပေါက်", "အအေးခန်း", "ယူနစ် (၃)", "စီးပွားရေးတက္ကသိုလ် (ရွာသာကြီး)",
-  "ကြိုဆိုရေး", "သစ်တော", "လမ်းသစ်", "ကျောင်းရှေ့", "အကြော်တဲ", "ညောင်နှစ်ပင်",
-  "အကောက်ခွန်", "လိုင်စင်ရုံး", "ဦးထွန်းမြတ်", "ကျောက်လမ်း", "တပ်ရင်း ၃",
-  "ကွင်းဆင်းကျောင်း", "သင်တန်းကျောင်း", "နတ်စင်", "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ", "ကားကြီးဂိတ်", "စံပြဈေး", "ဘဝမြင့်", "ဘီအိုစီ", "ဘုရားလမ်း", "ဇဝန"
-] },
-  { id: "72", color: "#10B981", operator: "YPS", stops: [
-  "၁၃ ဂိတ်",
-  "ကန်ကြီးထောင့်",
-  "ဆောက်လုပ်ရေး",
-  "လယ်ယာဂိတ်ရင်း",
-  "၃၄ ကားကြီးဂိတ်",
-  "၁၀ ဈေး",
-  "သာကေတအဝိုင်း (တံတားနား)",
-  "သာကေတအဝိုင်း",
-  "ဓမ္မာရုံ",
-  "ခိုင်ရွှေဝါ",
-  "အရက်ဆိုင်ကွေ့",
-  "၄၉ အစိမ်းဂိတ်",
-  "ကြယ်ငါးပွင့်",
-  "ဝေဇယန္တာ",
-  "၅ ကွေ့",
-  "ရုပ်ရှင်ရုံ",
-  "ထူပါရုံ",
-  "အနော်မာ",
-  "၁ ဈေးကွေ့",
-  "၁ ဈေးကွေ့ (အပြန်)",
-  "တပ်ဖွဲ့",
-  "မြေနီ",
-  "ကျောက်တိုင်",
-  "တံတားဟောင်း (တရားရုံး)",
-  "ပုသိမ်ညွှန့် (၆ လမ်း)",
-  "အာသောက",
-  "တာမွေဗလီ",
-  "တာမွေဈေး",
-  "ကျောက်မြောင်းဈေး",
-  "သီတာ",
-  "အောင်မင်္ဂလာ",
-  "ယုဇနပလာဇာ",
-  "မင်္ဂလာဈေး (၁၂၄ လမ်း)",
-  "မဆလာစက်",
-  "သိမ်ဖြူစာတိုက်",
-  "၉၁ လမ်း",
-  "၈၈ လမ်း",
-  "ယောက်လမ်း (သမ္မတ)",
-  "ဆူးလေ (ရှန်ဂရီလာ)",
-  "ဆူးလေ (မြို့တော်ခန်းမ)"
-] },
-  { id: "73", color: "#F59E0B", stops: [
-  "ရွှေပြည်သာလိန်ကုန်း", "ကွက်သစ်", "ဒဒွေး", "လှော်ကားအောက်ဂိတ်", "မိုးဆန်း",
-  "ရုံးရှေ့", "အိမ်မဲကြီး", "အောင်မေတ္တာ", "အောင်ချမ်းသာ", "ဈေး (အောင်သုခ)",
-  "ငြိမ်းချမ်းရေး", "အမိုးကြီး", "ကွေ့", "ရုံးရှေ့", "ကိုးသုံးလုံး", "ဆင်နှစ်ကောင်",
-  "၃ ထိပ်", "ငမောက်ဈေး", "ဂိတ်ဟောင်း", "ရေချမ်းစင်", "နဝရတ်ဈေး", "ကျော်စွာ",
-  "တော်ဝင်", "ရွှေညာမောင်", "ကားကြီးဂိတ်", "ဆေးခန်း", "ထန်းခြောက်ပင်", "ကားလေးဂိတ်",
-  "ခေါင်းသုံးလုံး", "သံလမ်း", "ရေစင်", "ရွှေပြည်သာကွေ့", "စစ်တပ်", "ကျောင်းလမ်း",
-  "ကန်သာယာ", "မြင်းလှည်းဂိတ်", "ဘုန်းကြီးကျောင်း", "ဆောက်လုပ်ရေး", "ဒညင်းကုန်းလမ်းဆုံ",
-  "အစာစက်", "၆၄၆", "ပန်းခြံ", "၁၀၆", "ဆေးကျောင်းပေါက်", "ခရေပင်လမ်းခွဲ",
-  "ရာသက်ပန်", "သုံးရာသီ", "ခရေပင်ရိပ်မွန်", "အမှတ် ၃ လမ်းဆုံ (အဝေးပြေးထိပ်)",
-  "အမှတ် ၃ လမ်းဆုံ (Terminal)", "အလယ်ပေါက်", "တရားရုံးရှေ့", "အိုးအိမ်",
-  "ညောင်ပင်", "သင်္ဃန်းကျွန်းကြီး", "၁၂ လမ်း", "ပုလဲအိမ်ရာ", "၆ လမ်း", "ရခိုင်ကျောင်း",
-  "တံတားဖြူ", "ပုလဲလမ်းဆုံ", "သုံးသုံးလုံး", "မှိုရုံ", "နီလာ", "ဆိုင်းဘုတ်",
-  "ဂိတ်ဟောင်း (လန်ဒန်)", "ပိုက်လုံး", "ကုန်းတလဘောင်", "တပ်ရင်း ၉", "ရေစက်",
-  "အမှတ် ၃", "၄၇ ကုက္ကိုပင်", "ဝါးဆိုင်", "နွယ်ခွေ", "၄ ရပ်ကွက်", "၁ ရပ်ကွက်",
-  "ကျောင်းရှေ့ (ထောက်ကြန့်)", "လမ်းသစ် (ထောက်ကြန့်)", "ပုပ္ပါးကျောင်း",
-  "ထောက်ကြန့်ဈေး", "ထောက်ကြန့်ဈေးသစ်", "မြို့ရှောင်လမ်း"
-] },
-  { id: "74", color: "#8B5CF6", stops: [
-  "၇၄ ဂိတ်", "ရွှေဂူမိုးကုတ်", "နှင်းဆီနီ", "ပုသိမ်ကျောင်းလမ်း", "ကျောင်းရှေ့",
-  "သံဒင်းဈေး", "ငွေပုလဲ", "ကမ္ဘာလုံး", "ပေါ်တော်မူ", "သံဒင်းမောင်",
-  "၁၂၄ ဂိတ်ဟောင်း", "ထန်းခြောက်ပင်", "ကားလေးဂိတ်", "ခေါင်းသုံးလုံး", "သံလမ်း",
-  "ရေစင်", "ရွှေပြည်သာကွေ့", "စစ်တပ်", "ကျောင်းလမ်း", "ကန်သာယာ",
-  "မြင်းလှည်းဂိတ်", "ဘုန်းကြီးကျောင်း", "ဆောက်လုပ်ရေး", "ဒညင်းကုန်းလမ်းဆုံ",
-  "ဒညင်းကုန်းဘူတာဈေး", "၁၄ လမ်းဆုံ", "၁၉၉ ဂိတ်ဟောင်း", "ဧရာမြေ", "မိုင် ၂၀",
-  "အလယ်ရွာ", "ပေါက်တန်းအဝိုင်း", "ရိုးကြီး", "ရိုးလေး", "၁၂၄",
-  "ကျောင်းရှေ့ (ရိုးလေး)", "၈၆ ဂိတ်ဟောင်း", "ရွှေရင်အေးဘုရား", "ကျောင်းလမ်း",
-  "ပဲခူးလမ်း", "ဈေးလေး", "၁၂ သမ", "အောင်မင်္ဂလာဈေး", "အားမာန်",
-  "သမကုန်း", "သမကုန်း (အပြန်)", "ဒဂုံဧရာအဝေးပြေး"
-] },
-  { id: "75", color: "#EC4899", stops: [
-  "ပင်လုံအိမ်ယာ",
-  "၄ ထိပ်",
-  "ပင်လုံဆေးရုံ",
-  "၁ ထိပ်",
-  "ပင်လုံနှင်းဆီ",
-  "စီးတီမော",
-  "လပြည့်ဝန်း",
-  "ကင်းတဲ",
-  "ဗိုလ်ဖိုးစောလမ်းထိပ်",
-  "၂၈ တံတားထိပ်",
-  "မြို့ဦးစေတီ",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ",
-  "ကားကြီးဂိတ်",
-  "သစ်စက်",
-  "ကျောင်းရှေ့",
-  "ချမ်းအေး (သွားဆေးတက္ကသိုလ်)",
-  "ဝေဘူလ",
-  "သုဝဏ္ဏဈေး",
-  "မီးဒုံး",
-  "မင်းဒင်",
-  "ကျောင်းလမ်း",
-  "စုပေါင်း",
-  "ရေစက်",
-  "သုဝဏ္ဏလမ်းဆုံ",
-  "ဈေးလေး (ကြက်ဘဲဈေး)",
-  "အာသောက",
-  "တာမွေဗလီ",
-  "တာမွေပလာဇာ",
-  "တာမွေအဝိုင်း",
-  "၆ ထပ်ကြီး",
-  "ဗန်ဒါပင်",
-  "ရွှေဂုံတိုင်",
-  "အုတ်လမ်း",
-  "လင့်လမ်း",
-  "မြေနီကုန်း",
-  "ရွှေမန်း",
-  "ရှမ်းလမ်း",
-  "၉ ထပ်ကြီး",
-  "ကြည့်မြင်တိုင်ဘူတာ",
-  "ကြည့်မြင်တိုင်ညဈေး"
-] },
-  { id: "76", color: "#06B6D4", operator: "YPS", stops: [
-  "အရှေ့ပိုင်းတက္ကသိုလ်", "ကွမ်းယာဆိုင်", "ညောင်ပင်", "ဘုရားကုန်းလမ်းဆုံ",
-  "ကျိုက်ခေါက်ဘုရားရှေ့", "၁၈ ကုန်းထိပ်", "အောင်ချမ်းသာ", "ဆည်မြောင်း",
-  "သမကောလိပ်", "ကျားဘုရား", "ဆေးရုံအပေါ်ကွေ့", "ဆေးရုံအောက်ကွေ့",
-  "ပဲခူးစု", "ဖို့မြေ", "မြို့မဈေး (သန်လျင်)", "မြို့မလမ်း (သန်လျင်)",
-  "လမ်းဆုံ (ဒါရ်ဂါလမ်းဆုံ)", "ရေနံဂိတ်ဝ", "မီးပွိုင့်", "လက်မှတ်ဂိတ်",
-  "ဆောက်လုပ်ရေး", "၁၀၈ တောင်စေတီ", "သာကေတအဝိုင်း", "၈ ဂိတ်", "မြေနီ",
-  "ကျောင်းကွေ့", "အနော်မာ", "ကျောက်တိုင်", "သုဝဏ္ဏလမ်းဆုံ", "ဈေးလေး (ကြက်ဘဲဈေး)",
-  "အာသောက", "တာမွေဗလီ", "တာမွေပလာဇာ", "တာမွေအဝိုင်း", "မြလမ်း", "လမ်းဆုံ",
-  "မင်းလမ်း", "ဂွတ္တလစ်ဈေးကွေ့", "ကြားမှတ်တိုင်", "၁၂ လုံးတန်း", "နဒီ ၁၂ လုံးတန်း",
-  "ရန်ကင်းဈေး", "စက်မှုကွေ့", "မြန်မာပလာဇာ", "ကုက္ကိုင်း", "ရေစက်ကွေ့",
-  "သံလွင်", "UFL", "ကျောင်းလမ်း", "ကျောင်းရှေ့ (ဓမ္မာရုံ)", "လှည်းတန်း",
-  "စံရိပ်ငြိမ်", "ဆင်ရေတွင်း", "ဘူတာရုံလမ်း", "သုခလမ်း", "သံလမ်း", "ဘာတာ",
-  "အုတ်ကျင်း", "ဘုရားလမ်း", "သမိုင်းလမ်းဆုံ", "သမိုင်းလမ်းဆုံ (အပြန်)",
-  "ရဲရန်အောင်", "ကျိုက်ဝိုင်းဘုရား", "ရွှေကမ္ဘာအိမ်ရာ", "မင်းဓမ္မအိမ်ရာ",
-  "ရတနာဆင်ဖြူတော်ဥယျာဉ်"
-] },
-  { id: "77", color: "#F97316", operator: "YPS", stops: [
-  "ရွှေပြည်သာ (သဲကွင်း)", "တာယာဆိုင်ကွေ့", "၁၂၄", "ကျောက်ခွဲစက်", "နိဗ္ဗာန်လမ်း",
-  "ပုလဲလမ်းဆုံ", "မလေးရှား", "သံလမ်း", "ဘဘကြီး", "ကန်သာယာ", "မြင်းလှည်းဂိတ်",
-  "ဘုန်းကြီးကျောင်း", "ဆောက်လုပ်ရေး", "ဒညင်းကုန်းလမ်းဆုံ", "ဘိုခြံ", "ရွာသစ်",
-  "အောင်ဆန်းဈေး", "ကျောင်းဂိတ်", "၁ ဂိတ်", "စောင်စက်ရုံ (၂)", "ဖော့ကန်ဈေး",
-  "ဂျပန်လမ်း", "ပြည်တော်သာ", "သရက်တော", "ဘိုကုန်း", "ဟိုက်ပက်", "မညက",
-  "အင်းစိန်ဆေးရုံ", "အင်းစိန်ပန်းခြံ", "အုတ်ကျင်းဝ", "ဝပ်ရှော့", "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ကျောက်တော်ကြီးဘုရား", "၁၀ မိုင်ကုန်း", "၉ မိုင်ခွဲ", "၉ မိုင်", "အေဝမ်း",
-  "မဟာစည်", "၈ မိုင်", "၈ မိုင် (အပြန်)", "ရဲဘော်ဟောင်း", "ကျိုက်ဝိုင်းဘုရား",
-  "ရဲရန်အောင်", "သမိုင်းလမ်းဆုံ", "သမိုင်းလမ်းဆုံ (အပြန်)", "ဘုရားလမ်း", "အုတ်ကျင်း",
-  "ဘာတာ", "သံလမ်း", "သုခလမ်း", "ဘူတာရုံလမ်း", "ဆင်ရေတွင်း", "စံရိပ်ငြိမ်",
-  "လှည်းတန်း", "စိုက်ပျိုးရေး", "ဟံသာဝတီအဝိုင်း", "မဟာမြိုင်", "မြေနီကုန်း",
-  "မြေနီကုန်း (အပြန်)", "လင့်လမ်း", "မြောက်ဘက်မုခ်", "အရှေ့ဘက်မုခ်",
-  "ရွှေတိဂုံဘုရား (တောင်ဘက်မုခ်)", "ဆက်သွယ်ရေး", "ဆောက်လုပ်ရေး", "လေဟာပြင်ဈေး", "လသာ"
-]},
-  { id: "78", color: "#6366F1", operator: "YPS", stops: [
-  "ကျောင်းရှေ့ (ကွန်ပျူတာတက္ကသိုလ်)", "နွားခြံ", "သဘာဝ", "သာဓုကန်", "ဇေယျာသီရီ",
-  "ပုည", "အုတ်ဖို", "သံဖြူဆိုင်", "ရဲတပ်ရင်း (၆)", "ဂိတ်ဟောင်း", "ရွှေပြည်သာကွေ့",
-  "စစ်တပ်", "ကျောင်းလမ်း", "ကန်သာယာ", "မြင်းလှည်းဂိတ်", "ဘုန်းကြီးကျောင်း",
-  "ဆောက်လုပ်ရေး", "ဒညင်းကုန်းလမ်းဆုံ", "ဘိုခြံ", "ရွာသစ်", "အောင်ဆန်းဈေး",
-  "ကျောင်းဂိတ်", "၁ ဂိတ်", "စောင်စက်ရုံ (၂)", "ဖော့ကန်ဈေး", "ဂျပန်လမ်း",
-  "ပြည်တော်သာ", "သရက်တော", "ဘိုကုန်း", "ဟိုက်ပက်", "မညက", "အင်းစိန်ဆေးရုံ",
-  "အင်းစိန်ပန်းခြံ", "အင်းစိန်ပန်းခြံ (အပြန်)", "ဘီအိုစီ", "ကြို့ကုန်း",
-  "ဘီပီအိုင် (YTU)", "ခဝဲခြံ", "ကုလားကျောင်း", "သမိုင်းလမ်းဆုံ (Junction)",
-  "သမိုင်းလမ်းဆုံ", "ဘုရားလမ်း", "အုတ်ကျင်း", "ဘာတာ", "သံလမ်း", "သုခလမ်း",
-  "ဘူတာရုံလမ်း", "ဆင်ရေတွင်း", "စံရိပ်ငြိမ်", "လှည်းတန်း", "စိုက်ပျိုးရေး",
-  "ဟံသာဝတီအဝိုင်း", "မဟာမြိုင်", "မြေနီကုန်း", "ဟယ်လ်ပင်", "ပဲခူးကလပ်",
-  "စိန်ဂျွန်း", "သရက်တောကျောင်း", "အရေးပေါ်ဌာန", "လသာ", "သိမ်ကြီးဈေး",
-  "ဆူးလေ (မြို့တော်ခန်းမ)", "ရန်ကုန်ဘူတာကြီး"
-] },
-  { id: "79", color: "#14B8A6", operator: "YPS", stops: [
-  "ရန်ကုန်အနောက်ပိုင်းတက္ကသိုလ် (WYU)", "အဆောင်ရှေ့ (WYU)", "သရက်ခြံ", "ဒိတ်ကုန်း", 
-  "ပေါက်တန်း", "ပေါက်တန်းအဝိုင်း", "ရိုးကြီး", "ရိုးလေး", "၁၂၄", "ကျောင်းရှေ့ (ရိုးလေး)", 
-  "၈၆ ဂိတ်ဟောင်း", "ရွှေရင်အေးဘုရား", "ကျောင်းလမ်း", "ပဲခူးလမ်း", "ဈေးလေး", 
-  "၁၂ သမ", "အောင်မင်္ဂလာဈေး", "အားမာန်", "သမကုန်း", "ဘီအိုစီ", "စနေမ", 
-  "၅ ထိပ် (စနေမ)", "မီးခွက်ဈေး (အပေါ်ထိပ်)", "တံတားဖြူ", "ရုံးရှေ့", "၅ ထိပ်", 
-  "၃ ထိပ်", "၁ ထိပ်", "အင်းစိန်ကမ်းနား", "ပေါက်တောဝ", "ပေါက်တောဝ (အပြန်)", 
-  "ညောင်ပင်", "မြို့သစ်ဈေး", "ပိတောက်လမ်း", "ကြို့ကုန်း", "ဘုရင့်နောင်ဈေးပွဲရုံ", 
-  "ဓမ္မာရုံ", "ဘုရင့်နောင်လမ်းဆုံ", "ဈေးဘူတာ", "ဦးဘဟန်", "ကြွေ ၁", "သမိုင်းလမ်းဆုံ", 
-  "ရဲရန်အောင်", "ကျိုက်ဝိုင်းဘုရား", "ရဲဘော်ဟောင်း", "၈ မိုင်", "၈ မိုင်ပန်းခြံ (မြိုင်ဟေဝန်)", 
-  "နဝဒေး", "ကမ္ဘာအေးစာတိုက်", "ကမ္ဘာအေးဘုရား", "ချော်တွင်းကုန်း", "၁၀၆", "ရိပ်သာ", 
-  "လမ်းနီ", "ရန်ကင်းဈေး", "၁၂ လုံးတန်း (ရန်ရှင်းလမ်း)", "၁၂ လုံးတန်း (ရန်ကင်းလမ်း)", 
-  "ကြားမှတ်တိုင်", "ဂွတ္တလစ်ဈေးကွေ့", "မင်းလမ်း", "လမ်းဆုံ", "မြလမ်း", 
-  "တာမွေအဝိုင်း", "တာမွေပလာဇာ", "တာမွေဗလီ", "အာသောက", "ပုသိမ်ညွှန့် (၆ လမ်း)", 
-  "အေဘီစီ", "ရိုးလေး", "၉ လမ်း", "အသင်းတိုက်", "ပုဇွန်တောင်စာတိုက်", "ပုဇွန်တောင်ဈေး", 
-  "ညောင်တန်း", "သီတာဆိပ်", "အိုးရှင်း", "ဗိုလ်တထောင်ဘုရား", "လင်းစဒေါင်း"
-] },
-  { id: "80", color: "#D946EF", operator: "YPS", stops: [
-  "၁၆၈ ရပ်ကွက်", "ဦးတရုတ်လမ်း", "လှသိင်္ဂီ", "ဆေးရုံကွေ့", "ဆီဆိုင်",
-  "ရတနာသိင်္ခ", "၉ ဂိတ် (၈၇ ရပ်ကွက်)", "ဘောဂဗလ", "၁၄၆ ဂိတ်ဟောင်း",
-  "မြင့်ဇူ (စိန်ပန်း)", "ဈေးလမ်း", "ကြိုဆိုရေး", "ပါရမီ", "သာဂေါင်ကြီး",
-  "သစ္စာလေးတန်", "မြနန္ဒာ", "စမားနီးယား", "ရတနာလမ်းဆုံ", "သိမ်ကျောင်းလမ်းဆုံ",
-  "ပြည်တော်သာကန်", "ဘုန်းကြီးကျောင်းရှေ့", "၆၅", "ရွှေပြည့်ငွေလျှန်", "ပေါ်ပြူလာ",
-  "စက်မှုဇုန် (ယောက်ကော်)", "ဆိုလာ", "ဘုရင့်နောင်", "အောင်ဇေယျ", "သုဝဏ္ဏဈေး",
-  "မီးဒုံး", "မင်းဒင်", "ကျောင်းလမ်း", "စုပေါင်း", "ရေစက်", "သုဝဏ္ဏလမ်းဆုံ",
-  "ဈေးလေး (ကြက်ဘဲဈေး)", "အာသောက", "တာမွေဗလီ", "တာမွေဈေး", "ကျောက်မြောင်းဈေး",
-  "သီတာ", "အောင်မင်္ဂလာ", "ယုဇနပလာဇာ", "မင်္ဂလာဈေး", "တော်ဝင်ပလာဇာ", "အမဲဈေး",
-  "စာတိုက်", "၉၁ လမ်း", "ကျောက်ကွေ့", "ရန်ကုန်ဘူတာကြီး"
-] },
-  { id: "81", color: "#475569", operator: "YPS", stops: [
-  "သုခဒဂုံအိမ်ရာ", "သပြေခြံ", "ဒီဇင်ဘာမုဒ်ဦး", "ဒီဇင်ဘာအလယ်ပေါက်", "အအေးခန်း",
-  "ယူနစ် (၃)", "စီးပွားရေးတက္ကသိုလ် (ရွာသာကြီး)", "ကြိုဆိုရေး", "သစ်တော", "လမ်းသစ်",
-  "ကျောင်းရှေ့", "အကြော်တဲ", "ညောင်နှစ်ပင်", "အကောက်ခွန်", "လိုင်စင်ရုံး",
-  "ဦးထွန်းမြတ်", "ကျောက်လမ်း", "တပ်ရင်း ၃", "ကွင်းဆင်းကျောင်း", "သင်တန်းကျောင်း",
-  "နတ်စင်", "တောင်မြောက်လမ်းဆုံ", "တံတားဖြူ", "ကားကြီးဂိတ်", "သစ်စက်",
-  "ကျောင်းရှေ့", "ချမ်းအေး (သွားဆေးတက္ကသိုလ်)", "ဝေဘူလ", "သုဝဏ္ဏဈေး", "ဘုရင့်နောင်",
-  "ညောင်ပင်", "စက်ရုံရှေ့", "၈/၉ လမ်းဆုံ", "သာကေတအဝိုင်း (တံတားနား)", "သာကေတအဝိုင်း",
-  "ဓမ္မာရုံ", "ခိုင်ရွှေဝါ", "အရက်ဆိုင်ကွေ့", "ဂိတ်ဟောင်း", "ဝေဇယန္တာ",
-  "၇ ဈေး", "ကျန်းမာရေး", "ရုပ်ရှင်ရုံ", "ထူပါရုံ", "အနော်မာ",
-  "၁ ဈေးကွေ့", "သဒ္ဒါရုံ", "ဝက်စု", "ရန်အောင်", "ဒေါပုံသင်္ဘောကျင်း",
-  "အိုးရှင်း", "ဂန္ဒီ", "လမ်း ၅၀", "ဘိုကလေးဈေး", "ပန်းဆိုးတန်း"
-] },
-  { id: "82", color: "#34D399", stops: [
-  "ဒဂုံဧရာအဝေးပြေး", "သမကုန်း", "ဘီအိုစီ", "စနေမ", "၅ ထိပ် (စနေမ)", 
-  "မီးခွက်ဈေး (အပေါ်ထိပ်)", "တံတားဖြူ", "ရုံးရှေ့", "၅ ထိပ်", "၃ ထိပ်", 
-  "၁ ထိပ်", "အင်းစိန်ကမ်းနား", "ပေါက်တောဝ", "ပေါက်တောဝ (အပြန်)", "ညောင်ပင်", 
-  "မြို့သစ်ဈေး", "ပိတောက်လမ်း", "ကြို့ကုန်း", "ဘုရင့်နောင်ဈေးပွဲရုံ", 
-  "ဘုရင့်နောင်လမ်းဆုံ", "ပါရမီလမ်းဆုံ", "ပါရမီသံလမ်း", "ပါရမီစိန်ဂေဟာ", 
-  "အုတ်ကျင်း", "ဘာတာ", "သံလမ်း", "သုခလမ်း", "ဘူတာရုံလမ်း", "ဆင်ရေတွင်း", 
-  "စံရိပ်ငြိမ်", "လှည်းတန်း", "စိုက်ပျိုးရေး", "ဟံသာဝတီအဝိုင်း", "မဟာမြိုင်", 
-  "မြေနီကုန်း", "မြေနီကုန်း (အပြန်)", "လင့်လမ်း", "အုတ်လမ်း", "ရွှေဂုံတိုင်", 
-  "ရေခဲဆိုင်", "ဗဟန်း ၃ လမ်း", "ကျောက်တိုင်", "ယောမင်းကြီးလမ်း (သမ္မတ)", 
-  "ဆူးလေ (ရှန်ဂရီလာ)", "ဆူးလေ (မြို့တော်ခန်းမ)", "ပန်းဆိုးတန်း", 
-  "ဘိုကလေးဈေး", "ဗိုလ်တထောင်ဘုရား"
-]},
-  { id: "83", color: "#60A5FA", stops: [
-  "ဒဂုံဧရာအဝေးပြေး", "သမကုန်း", "ဘီအိုစီ", "တိုးချဲ့", "မီးခွက်ဈေး (အောက်ထိပ်)",
-  "ဆောက်လုပ်ရေး", "ဘုရားလမ်း", "နဝဒေး", "အဆင့်မြင့်", "ဗိုလ်ချုပ်", "စက်မှုဇုံ",
-  "တပ်ထိပ်", "ဘုရင့်နောင်လမ်းဆုံ (တံတား ပေါ်/အောက်)", "ဈေးဘူတာ", "ဦးဘဟန်",
-  "ကြွေ ၁", "သမိုင်းလမ်းဆုံ", "ရဲရန်အောင်", "ကျိုက်ဝိုင်းဘုရား", "ရဲဘော်ဟောင်း",
-  "၈ မိုင်", "၈ မိုင်ပန်းခြံ (မြိုင်ဟေဝန်)", "နဝဒေး", "ကမ္ဘာအေးစာတိုက်",
-  "ကမ္ဘာအေးဘုရား", "ချော်တွင်းကုန်း", "၁၀၆", "ရိပ်သာ", "လမ်းနီ", "ရန်ကင်းကလေးဆေးရုံ",
-  "မိုးကောင်း", "သံလမ်း", "ဗဟိုဈေး", "ပုဏ္ဏမီ", "တောင်ဥက္ကလာစာတိုက်", "ဘုရားလမ်း",
-  "ဂိတ်ဟောင်း", "တောင်ဥက္ကလာဘုရား", "မိုးဆွေ", "၃၁ ဂိတ်", "စီမံကိန်း", "လိုင်စင်ရုံး",
-  "စံပြဈေး", "ကားကြီးဂိတ်", "တံတားဖြူ", "တောင်မြောက်လမ်းဆုံ", "သုခုမ", "ယဉ်ကျေးမှု",
-  "ပန်းခြံ", "ယောက်ကော်", "သစ်ဆိုင်ကွေ့", "ဂျီအီးစီ", "စက်မှုဇုန် (၂)", "ကြာကန်",
-  "သစ္စာ", "၂၀ ကုန်တိုက်", "ကားလေးဂိတ်", "ဘုန်းကြီးကျောင်းကွေ့", "ကွမ်းယာဆိုင်",
-  "အဝေရာ", "ပွိုင့်ထိပ်", "အထူးဂိတ်", "အင်းဝအိမ်ရာ", "သိမ်ချောင်းလမ်းဆုံ",
-  "၆၅ ရပ်ကွက်", "ဆောက်လုပ်ရေး", "ရတနာနှင်းဆီအိမ်ရာ"
-]},
-  { id: "84", color: "#F472B6", operator: "YPS", stops: [
-  "အစိမ်းဂိတ်", "ကြယ်ငါးပွင့်", "ဝေဇယန္တာ", "၅ ကွေ့", "ရုပ်ရှင်ရုံ",
-  "ထူပါရုံ", "အနော်မာ", "၁ ဈေးကွေ့", "တပ်ဖွဲ့", "မြေနီ", "ကျောက်တိုင်",
-  "သုဝဏ္ဏလမ်းဆုံ", "အသင်းတိုက်", "ခပ်ချီးယား", "ဇဝန", "ဘုရားလမ်း",
-  "ဘီအိုစီ", "ဘဝမြင့်", "စံပြဈေး", "စံပြဈေး (အပြန်)", "လိုင်စင်ရုံး",
-  "စီမံကိန်း", "၃၁ ဂိတ်", "မိုးဆွေ", "တောင်ဥက္ကလာဘုရား", "မြင်သာဈေး",
-  "ဘေလီ", "နာရီစင်", "၆ လမ်း", "ဟောင်ကောင်", "အကြော်တဲ",
-  "မဟာမြိုင် (ဆိုက်ရှေ့)", "ကားလေးဂိတ်", "ကားကြီးဂိတ်", "ဇော်ဂျီ",
-  "ဗိုလ်မင်းရောင်အိမ်ရာ", "တံတားဖြူ/ပင်လုံခန်းမ", "ဗိုလ်ထွန်းစံ", "၄၄",
-  "ဗိုလ်ထွန်းစိန်", "လပြည့်ဝန်း", "ခိုင်ရွှေဝါ", "၇/၈ လမ်းဆုံ", "၈ သမ",
-  "ကျောင်းလမ်း", "ဂိတ်ဟောင်း", "အမှတ် ၈ ဈေး", "ဗိုလ်မင်းခေါင်",
-  "ဆည်းဆာရိပ်ရိပ်သာရှေ့", "အထည်ဆိုင်", "၁၄ ရပ်ကွက်လမ်းဆုံ"
-] },
-  { id: "85", color: "#A78BFA", operator: "YPS", stops: [
-  "တူးချောင်း", "အလုပ်သမားဆေးရုံ", "အီးပီစီ", "မြစိမ်းအောင်", "တပ်ရင်း ၉", 
-  "ဆောက်လုပ်ရေး", "ဒဂုံဧရာအဝေးပြေး", "သမကုန်း", "ဘီအိုစီ", "စနေမ", 
-  "၅ ထိပ် (စနေမ)", "မီးခွက်ဈေး (အပေါ်ထိပ်)", "တံတားဖြူ", "ရုံးရှေ့", "၅ ထိပ်", 
-  "၃ ထိပ်", "၁ ထိပ်", "နတ်စင်", "အလုပ်သမားလမ်း", "ညောင်ပင်", "ကျောင်းရှေ့", 
-  "စက်မှုဇုံ", "တပ်ထိပ်", "ဘုရင့်နောင်လမ်းဆုံ", "အုတ်ကျင်း", "သီရိမင်္ဂလာဈေးသစ်", 
-  "အိုဝမ်း", "ဘူတာရုံလမ်း", "ချောင်းဝ", "ရွာမကွေ့", "ရေကြောင်း", "သင်္ဘောကျင်း", 
-  "ဆင်မလိုက်", "နတ်စင်လမ်း", "ကမ်းနားဈေး", "ကြည့်မြင့်တိုင်ညဈေး", 
-  "ကြည့်မြင့်တိုင်စာတိုက်", "ကျောင်းရှေ့", "၉ ထပ်ကြီး", "ရှမ်းလမ်း", "ရွှေမန်း", 
-  "မြေနီကုန်း", "လင့်လမ်း", "အုတ်လမ်း", "ရွှေဂုံတိုင်", "ဗန်ဒါပင်", "၅ ထပ်ကြီး", 
-  "၆ ထပ်ကြီး", "တာမွေအဝိုင်း", "တာမွေပလာဇာ", "တာမွေဈေး", "ကျောက်မြောင်းဈေး", 
-  "သီတာ", "အောင်မင်္ဂလာ", "ယုဇနပလာဇာ", "မင်္ဂလာဈေး", "ဝါဆို", "ဒေါပုံသင်္ဘောကျင်း", 
-  "ရန်အောင်", "ဝက်စု", "သဒ္ဒါရုံ", "၁ ဈေးကွေ့", "တပ်ဖွဲ့", "မြေနီ", "ကျောက်တိုင်", 
-  "ကျောက်တိုင် (အပြန်)", "အနော်မာ", "ကျောင်းကွေ့", "မြေနီ (သာကေတ)", "စ ဂိတ်", 
-  "သာကေတအဝိုင်း", "၈/၉ လမ်းဆုံ"
-] },
-  { id: "86", color: "#FB7185", stops: [
-  "ပေါက်တန်းအဝိုင်း", "ရိုးကြီး", "ရိုးလေး", "၁၂၄", "ကျောင်းရှေ့ (ရိုးလေး)",
-  "၈၆ ဂိတ်ဟောင်း", "ရွှေရင်အေးဘုရား", "ကျောင်းလမ်း", "ပဲခူးလမ်း", "ဈေးလေး",
-  "၁၂ သမ", "အောင်မင်္ဂလာဈေး", "အားမာန်", "သမကုန်း", "ဘီအိုစီ", "တိုးချဲ့",
-  "မီးခွက်ဈေး (အောက်ထိပ်)", "ဆောက်လုပ်ရေး", "ဘုရားလမ်း", "နဝဒေး", "အဆင့်မြင့်",
-  "ဗိုလ်ချုပ်", "စက်မှုဇုံ", "တပ်ထိပ်", "ဘုရင့်နောင်လမ်းဆုံ (တံတား ပေါ်/အောက်)",
-  "ဈေးဘူတာ", "ဦးဘဟန်", "ကြွေ ၁", "သမိုင်းလမ်းဆုံ", "ဘုရားလမ်း", "အုတ်ကျင်း",
-  "ဘာတာ", "သံလမ်း", "သုခလမ်း", "ဘူတာရုံလမ်း", "ဆင်ရေတွင်း", "စံရိပ်ငြိမ်",
-  "လှည်းတန်း", "ကျောင်းရှေ့ (ဓမ္မာရုံ)", "ကျောင်းလမ်း", "UFL", "သံလွင်",
-  "ရေစက်ကွေ့", "ကုက္ကိုင်း", "လမ်းနီလေး (မြန်မာပလာဇာ)", "စက်မှုကွေ့",
-  "ရန်ကင်းဈေး", "၁၂ လုံးတန်း (ရန်ရှင်းလမ်း)", "၁၂ လုံးတန်း (ရန်ကင်းလမ်း)",
-  "ကြားမှတ်တိုင်", "ဂွတ္တလစ်ဈေးကွေ့", "မင်းလမ်း", "လမ်းဆုံ", "မြလမ်း",
-  "တာမွေအဝိုင်း", "တာမွေပလာဇာ", "တာမွေဗလီ", "အာသောက", "ပုသိမ်ညွှန့် (၆ လမ်း)",
-  "အေဘီစီ", "ရုံးလေး", "၉ လမ်း", "အသင်းတိုက်", "ပုဇွန်တောင်စာတိုက်",
-  "ပုဇွန်တောင်ဈေး", "ညောင်တန်း", "သီတာဆိပ်"
-] },
-  { id: "87", color: "#2DD4BF", operator: "YPS", stops: [
-  "မီတာရုံး", "မုခ်ဝ", "ဘုန်းကြီးကျောင်းကွေ့", "တသသ", "မုခ်ဝ", 
-  "ဂိတ်ဟောင်း", "ဈေးလေး", "စိန်ပန်း", "၄၆ လမ်းဆုံ (ညာ)", "၄၅", 
-  "၇/၈ လမ်းဆုံ", "ရုံးရှေ့ (၃၈ ရပ်ကွက်)", "ကုန်ပဒေသာ", "စွမ်းအင်", 
-  "မဝတ လမ်းဆုံ", "မန္တလေးလမ်း", "စစ်တောင်း", "ကျောင်းလမ်း", "ဆက်သွယ်ရေး", 
-  "၃၅", "သင်းဝင်", "နာရီစင်", "ပင်းယ", "ကေတုမာလာကွေ့", "တကောင်း", 
-  "နန္ဒဝန်ဈေး", "အင်းဝ", "တောင်ဥက္ကလာစာတိုက်", "ပုဏ္ဏမီ", "ဗဟိုဈေး", 
-  "သံလမ်း", "မိုးကောင်း", "ရန်ကင်းစာတိုက်", "၁၂ လုံးတန်း (ရန်ကင်းလမ်း)", 
-  "၁၂ လုံးတန်း (ရန်ရှင်းလမ်း)", "ရန်ကင်းဈေး", "စက်မှုကွေ့", 
-  "လမ်းနီလေး (မြန်မာပလာဇာ)", "ကုက္ကိုင်း", "ဟာမစ်တစ်", 
-  "နှင်းဆီကုန်းဘိုးဘွားရိပ်သာ", "ရေခဲဆိုင်", "ဗဟန်း ၃ လမ်း", "ကျောက်တိုင်", 
-  "ယောမင်းကြီးလမ်း (သမ္မတ)", "ဆူးလေ (ရှန်ဂရီလာ)", "ဆူးလေ (မြို့တော်ခန်းမ)"
-] },
-  { id: "88", color: "#EF4444", operator: "YPS", stops: [
-  "မီတာရုံး", "မုခ်ဝ", "ဘုန်းကြီးကျောင်းကွေ့", "တသသ", "မုခ်ဝ (အပြန်)", 
-  "ဂိတ်ဟောင်း", "ဈေးလေး", "စိန်ပန်း", "၄၆ လမ်းဆုံ (ညာ)", "၄၅", 
-  "၇/၈ လမ်းဆုံ", "ရုံးရှေ့ (၃၈ ရပ်ကွက်)", "ကုန်ပဒေသာ", "စွမ်းအင်", 
-  "မဝတ လမ်းဆုံ", "မန္တလေးလမ်း", "စစ်တောင်း", "ကျောင်းလမ်း", "ဆက်သွယ်ရေး", 
-  "၃၅", "သင်းဝင်", "နာရီစင်", "ဘေလီ", "ပင်းယ", "ကေတုမာလာကွေ့", 
-  "ပါရမီညောင်ပင်", "မဉ္ဇူ", "ချော်တွင်းကုန်း", "ကမ္ဘာအေးဘုရား", "ကမ္ဘာအေးစာတိုက်", 
-  "နဝဒေး", "၈ မိုင်ပန်းခြံ (မြိုင်ဟေဝန်)", "၈ မိုင်", "ရဲဘော်ဟောင်း", 
-  "ကျိုက်ဝိုင်းဘုရား", "ရဲရန်အောင်", "သမိုင်းလမ်းဆုံ", "သမိုင်းလမ်းဆုံ (Junction)", 
-  "ကုလားကျောင်း", "ခဝဲခြံ", "ဘီပီအိုင် (YTU)", "ကြို့ကုန်း", "အင်းစိန်ပန်းခြံ", 
-  "အင်းစိန်ဆေးရုံ", "မညက", "ဟိုက်ပက်", "ဘိုကုန်း", "သရက်တော", "ပြည်တော်သာ", 
-  "ဂျပန်လမ်း", "ဖော့ကန်ဈေး", "စောင်စက်ရုံ (၂)", "၁ ဂိတ်", "ကျောင်းဂိတ်", 
-  "အောင်ဆန်းဈေး", "ရွာသစ်", "ဘိုခြံ", "ဒညင်းကုန်းလမ်းဆုံ"
-] },
-  { id: "89", color: "#3B82F6", operator: "YPS", stops: [
-  "အောက်ကွေ့", "အာဆီယံ", "ဗေလုဝကွေ့", "လယ်ယာ", "၄၉ ဂိတ်ဟောင်း", 
-  "ဆောက်လုပ်ရေး", "၁၀၈ တောင်စေတီ", "သာကေတအဝိုင်း", "စ ဂိတ်", "မြေနီ", 
-  "ကျောင်းကွေ့", "အနော်မာ", "ကျောက်တိုင်", "ကျောက်တိုင် (အပြန်)", "မြေနီ (သာကေတ)", 
-  "တပ်ဖွဲ့", "၁ ဈေးကွေ့", "သဒ္ဒါရုံ", "ဝက်စု", "ရန်အောင်", 
-  "ဒေါပုံသင်္ဘောကျင်း", "အိုးရှင်း", "ဂန္ဒီ", "လမ်း ၅၀", "ဘိုကလေးဈေး", 
-  "ပန်းဆိုးတန်း", "လမ်း ၃၀", "လသာ", "ညောင်ပင်လေးဈေး", "၁၅ လမ်း", 
-  "မော်တင်", "ကီလီ", "သခင်မြပန်းခြံ", "ထော်လီကွေ့", "သစ်တော", 
-  "ဒန်အိုးစက်", "ဆင်မင်းဈေး", "သီရိမင်္ဂလာဈေးဟောင်း", "ဟုမ်းလမ်း", "သဲကွင်း", 
-  "ကြည့်မြင်တိုင်စာတိုက်", "ကြည့်မြင်တိုင်ညဈေး", "ကမ်းနားဈေး", "ပန်းပင်ကြီးလမ်း"
-] },
-  { id: "90", color: "#10B981", operator: "YPS", stops: [
-    "တိုက်ကြီးဂိတ်", "တိုက်ကြီးခန်းမ", "လျှပ်စစ်ရုံး", "ကျောင်းလမ်း", "ဖောင်ကြီးလမ်းခွဲ",
-    "ဆည်းမြောင်း", "ရေတံခါး", "တာဂွဘုန်းကြီးကျောင်း", "ရွှေဘုံသာ", "တာဂွတာဆုံ",
-    "ကံကုန်း", "ခြင်္သေ့နှစ်ကောင်", "အင်းရွက်ကြီး", "ရွှေမြယာတာဆုံ", "ငှက်ပျော်ခြံ",
-    "ကျွန်းချောင်း(ဥက္ကံ)", "မြောက်ချောကုန်း", "ရေကျော်", "စိန်ကုလား", "မြောင်းတကာတာဆုံ",
-    "ကျွဲလမ်း", "အေးချမ်း", "ဖရဲခင်း", "ဆောက်လုပ်ရေး", "စက်မှုဇုန်လမ်းသစ်",
-    "ကြက်ခြံပေါက်", "ကုလားကုန်း", "ဆိုက်သစ်", "မနီ", "ဆေးဝါးကုန်ကြမ်း",
-    "ဘောလုံးစက်", "ဖိနပ်စက်", "ဂျပန်ဆိုက်", "မြို့ကျောင်းလမ်းဆုံ", "ဆည်မြောင်းဌာနလမ်းဆုံ",
-    "နည်းပညာတက္ကသိုလ်", "အုန်းခြံ", "သုံးသုံးလုံး", "ဒေါင်းလေးကွေ့", "ဘုရားလမ်းဈေး",
-    "ကျောင်းရှေ့", "မင်္ဂလာတိုက်", "စုပေါင်းရုံး", "ပေါ်တော်မူ", "ရွှေပြည်အေး",
-    "ဖောက်စက်", "ဆီစက်(ချမ်းမြေ့ရိပ်သာ)", "စိုက်ပျိုးရေး", "အမှတ်၇", "ထန်းတပင်တာဆုံ",
-    "လျှပ်စစ်ရုံး", "ကားလေးဂိတ်", "မှော်ဘီဈေး", "ရုပ်ရှင်ရုံ", "စာတိုက်",
-    "အမှတ်၄လမ်းဆုံ", "ရုံးပေါက်", "လေထီး ၁၆", "ဆပ်ပလိုင်း", "ဂျီအီး",
-    "လေတပ်", "မော်တော်ယာဉ်", "ဗိုလ်သင်တန်း", "ဆက်သွယ်ရေး", "၉၁ဂိတ်ကြီး",
-    "ဆပ်သွားတော ဘုန်းကြီးကျောင်း", "မိန်းမလိုင်း", "စမ်းချောင်းပေါက်(ဂျပန်ဘုရား)", "ရဲဘော်ဈေး", "ကြက်ဖြူကန်",
-    "အသုံးလုံး", "ဆေးခန်း", "မီးစက်", "ကိုးလုံးကွင်း ဘုန်းကြီးကျောင်း", "မင်္ဂလာဈေး",
-    "တင့်ကား", "ရုံသံ", "၂ဂိတ်", "ရေအိုးစင် (ပက်စီ)", "ဆောက်လုပ်ရေး",
-    "၈၂ ဂိတ်ကြီး", "စက္ကူစက်", "၉ဂိတ်", "ဘီအာတီ ဂိတ်ဟောင်း", "ဘုရားလေးကွေ့",
-    "ညောင်ပင်", "ထောက်ကြန့်လမ်းဆုံ", "ပုပ္ပါးကျောင်း", "လမ်းသစ်", "ကျောင်းရှေ့",
-    "နွယ်ခွေ", "စီပီလိုက်", "ဒေဝူး", "ဆေးဂဲလ်", "မွေးမြူရေး",
-    "ရေစင်", "ခြံပေါက်(ပျဉ်းမပင်)", "ကုန်းထိပ်", "ဘုရားလေး", "ရဲဘော်ဟောင်း",
-    "ရှမ်းစု", "ဘိုခြံ", "တစ်နံပါတ်", "ဆင်မင်း", "ရေကြည်အိုင်",
-    "ဝါယာလက်", "ကျိုက္ကလို့", "ကျိုက္ကလဲ့/ဆပ်ပလိုင်း", "ဗဟိုနိုင်ငံရေး", "မင်္ဂလာဒုံဈေး",
-    "ခရေပင်လမ်းခွဲ", "မင်္ဂလာဒုံစာတိုက်", "ဆေးကျောင်း", "ဘီအိုစီ", "ပန်းခြံကုန်း",
-    "ကုလားဘုရား", "ထန်းပင်ကုန်း", "စော်ဘွားကြီးကုန်းလမ်းဆုံ", "ကျောက်တော်ကြီးဘုရား", "၁၀မိုင်ကုန်း",
-    "၉မိုင်ခွဲ", "၉မိုင်", "အေဝမ်း", "မဟာစည်", "၈မိုင်",
-    "၈မိုင်", "ရဲဘော်ဟောင်း", "ကျိုက်ဝိုင်းဘုရား", "ရဲရန်အောင်", "သမိုင်းလမ်းဆုံ",
-    "သမိုင်းလမ်းဆုံ", "ဘုရားလမ်း", "အုတ်ကျင်း", "ဘာတာ", "သံလမ်း",
-    "သုခလမ်း", "ဘူတာရုံလမ်း", "ဆင်ရေတွင်း", "စံရိပ်ငြိမ်", "လှည်းတန်း",
-    "လှည်းတန်းဈေး", "လှည်းတန်းကျောင်းရှေ့", "ဆင်မလိုက်", "နတ်စင်လမ်း", "ကမ်းနားဈေး",
-    "ကြည့်မြင့်တိုင်ညဈေး", "ကြည့်မြင့်တိုင်စာတိုက်", "သဲကွင်း", "ဟုမ်းလမ်း", "သီရိမင်္ဂလာဈေးဟောင်း",
-    "ဆင်မင်းဈေး", "ဒန်အိုးစက်", "သစ်တော", "ထော်လီကွေ့", "သခင်မြပန်းခြံ"
-  ]},
-  { id: "91", color: "#F59E0B", stops: [
-    "တိုက်ကြီးဂိတ်",
-    "တိုက်ကြီးခန်းမ",
-    "လျှပ်စစ်ရုံး",
-    "ကျောင်းလမ်း",
-    "ဖောင်ကြီးလမ်းခွဲ",
-    "ဆည်းမြောင်း",
-    "ရေတံခါး",
-    "တာဂွဘုန်းကြီးကျောင်း",
-    "ရွှေဘုံသာ",
-    "တာဂွတာဆုံ",
-    "ကံကုန်း",
-    "ခြင်္သေ့နှစ်ကောင်",
-    "အင်းရွက်ကြီး",
-    "ရွှေမြယာတာဆုံ",
-    "ငှက်ပျော်ခြံ",
-    "ကျွန်းချောင်း(ဥက္ကံ)",
-    "မြောက်ချောကုန်း",
-    "ရေကျော်",
-    "စိန်ကုလား",
-    "မြောင်းတကာတာဆုံ",
-    "ကျွဲလမ်း",
-    "အေးချမ်း",
-    "ဖရဲခင်း",
-    "ဆောက်လုပ်ရေး",
-    "စက်မှုဇုန်လမ်းသစ်",
-    "ကြက်ခြံပေါက်",
-    "ကုလားကုန်း",
-    "ဆိုက်သစ်",
-    "မနီ",
-    "ဆေးဝါးကုန်ကြမ်း",
-    "ဘောလုံးစက်",
-    "ဖိနပ်စက်",
-    "ဂျပန်ဆိုက်",
-    "မြို့ကျောင်းလမ်းဆုံ",
-    "ဆည်မြောင်းဌာနလမ်းဆုံ",
-    "နည်းပညာတက္ကသိုလ်",
-    "အုန်းခြံ",
-    "သုံးသုံးလုံး",
-    "ဒေါင်းလေးကွေ့",
-    "ဘုရားလမ်းဈေး",
-    "ကျောင်းရှေ့",
-    "မင်္ဂလာတိုက်",
-    "စုပေါင်းရုံး",
-    "ပေါ်တော်မူ",
-    "ရွှေပြည်အေး",
-    "ဖောက်စက်",
-    "ဆီစက်(ချမ်းမြေ့ရိပ်သာ)",
-    "စိုက်ပျိုးရေး",
-    "အမှတ်၇",
-    "ထန်းတပင်တာဆုံ",
-    "လျှပ်စစ်ရုံး",
-    "ကားလေးဂိတ်",
-    "မှော်ဘီဈေး",
-    "ရုပ်ရှင်ရုံ",
-    "စာတိုက်",
-    "အမှတ်၄လမ်းဆုံ",
-    "ရုံးပေါက်",
-    "လေထီး ၁၆",
-    "ဆပ်ပလိုင်း",
-    "ဂျီအီး",
-    "လေတပ်",
-    "မော်တော်ယာဉ်",
-    "ဗိုလ်သင်တန်း",
-    "ဆက်သွယ်ရေး",
-    "၉၁ဂိတ်ကြီး",
-    "ဆပ်သွားတော ဘုန်းကြီးကျောင်း",
-    "မိန်းမလိုင်း",
-    "စမ်းချောင်းပေါက်(ဂျပန်ဘုရား)",
-    "ရဲဘော်ဈေး",
-    "ကြက်ဖြူကန်",
-    "အသုံးလုံး",
-    "ဆေးခန်း",
-    "မီးစက်",
-    "ကိုးလုံးကွင်း ဘုန်းကြီးကျောင်း",
-    "မင်္ဂလာဈေး",
-    "တင့်ကား",
-    "ရုံသံ",
-    "၂ဂိတ်",
-    "ရေအိုးစင် (ပက်စီ)",
-    "ဆောက်လုပ်ရေး",
-    "၈၂ ဂိတ်ကြီး",
-    "စက္ကူစက်",
-    "၉ဂိတ်",
-    "ဘီအာတီ ဂိတ်ဟောင်း",
-    "ဘုရားလေးကွေ့",
-    "ညောင်ပင်",
-    "ထောက်ကြန့်လမ်းဆုံ",
-    "ပုပ္ပါးကျောင်း",
-    "လမ်းသစ်",
-    "ကျောင်းရှေ့",
-    "နွယ်ခွေ",
-    "စီပီလိုက်",
-    "ဒေဝူး",
-    "ဆေးဂဲလ်",
-    "မွေးမြူရေး",
-    "ရေစင်",
-    "ခြံပေါက်(ပျဉ်းမပင်)",
-    "ကုန်းထိပ်",
-    "ဘုရားလေး",
-    "ရဲဘော်ဟောင်း",
-    "ရှမ်းစု",
-    "ဘိုခြံ",
-    "တစ်နံပါတ်",
-    "ဆင်မင်း",
-    "ရေကြည်အိုင်",
-    "ဝါယာလက်",
-    "ကျိုက္ကလို့",
-    "ကျိုက္ကလဲ့/ဆပ်ပလိုင်း",
-    "ဗဟိုနိုင်ငံရေး",
-    "မင်္ဂလာဒုံဈေး",
-    "ခရေပင်လမ်းခွဲ",
-    "မင်္ဂလာဒုံစာတိုက်",
-    "ဆေးကျောင်း",
-    "ဘီအိုစီ",
-    "ပန်းခြံကုန်း",
-    "ကုလားဘုရား",
-    "ထန်းပင်ကုန်း",
-    "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-    "ဝပ်ရှော့",
-    "အုတ်ကျင်းဝ",
-    "အင်းစိန်ပန်းခြံ"
-  ]
- },
-  { id: "92", color: "#8B5CF6", operator: "YPS", stops: [
-  "မြို့ရှောင်လမ်း",
-  "ထောက်ကြန့်ဈေးသစ်",
-  "ထောက်ကြန့်ဈေး",
-  "ပုပ္ပါးကျောင်း",
-  "လမ်းသစ် (ထောက်ကြန့်)",
-  "ကျောင်းရှေ့ (ထောက်ကြန့်)",
-  "၁ရပ်ကွက်",
-  "၄ရပ်ကွက်",
-  "နွယ်ခွေ",
-  "ဝါးဆိုင်",
-  "ကုက္ကိုပင်",
-  "အမှတ်၃",
-  "ရေစက်",
-  "တပ်ရင်း၉",
-  "ကုန်းတလဘောင်",
-  "ပိုက်လုံး",
-  "ဂိတ်ဟောင်း(လန်ဒန်)",
-  "ဆိုင်းဘုတ်",
-  "နီလာ",
-  "မှိုရုံ",
-  "သုံးသုံးလုံး",
-  "ပုလဲလမ်းဆုံ",
-  "တံတားဖြူ",
-  "ရခိုင်ကျောင်း",
-  "၆လမ်း",
-  "ပုလဲအိမ်ရာ",
-  "၁၂လမ်း",
-  "သင်္ဃန်းကျွန်းကြီး",
-  "ညောင်ပင်",
-  "အိုးအိမ်",
-  "တရားရုံးရှေ့",
-  "အလယ်ပေါက်",
-  "အမှတ်၃လမ်းဆုံ(အဝေးပြေးထိပ်)",
-  "အောင်မင်္ဂလာအဝေးပြေးထိပ်",
-  "ဓမ္မာရုံ",
-  "၆ကွေ့",
-  "ဧရာ",
-  "ကန်သာယာလမ်းဆုံ",
-  "ဈဈေး",
-  "ရုပ်ရှင်ရုံ",
-  "နွယ်သာဂီ",
-  "မြရတနာ",
-  "ရုံး",
-  "ဥက္ကာ(ဆေး-၂)",
-  "မေဓာဝီလမ်းဆုံ",
-  "ရုံးသစ်",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်း",
-  "ဘုန်းကြီးလမ်း",
-  "ကျောင်းကွေ့",
-  "Jဈေး",
-  "ကျောင်းလမ်း",
-  "အုတ်ပုံဆိပ်",
-  "၄၃၅",
-  "၄၃၆",
-  "ခလရ ၂၆/တပ်ရင်း၁၆",
-  "ဘေလီ",
-  "မြင်သာဈေး",
-  "တောင်ဥက္ကလာဘုရား",
-  "မိုးဆွေ",
-  "၃၁ဂိတ်",
-  "စီမံကိန်း",
-  "လိုင်စင်ရုံး",
-  "စံပြဈေး",
-  "စံပြဈေး (အပြန်)",
-  "ဘဝမြင့်",
-  "ဘီအိုစီ",
-  "ဘုရားလမ်း",
-  "ဇဝန"
-] },
-  { id: "93", color: "#EC4899", operator: "YPS", stops: [
-  "ရန်ကုန်အနောက်ပိုင်းတက္ကသိုလ်",
-  "အဆောင်ရှေ့ (WYU)",
-  "သရက်ခြံ",
-  "ဒိတ်ကုန်း",
-  "ပေါက်တန်း",
-  "ပေါက်တန်းအဝိုင်း",
-  "ပေါက်တန်းအဝိုင်း",
-  "အလယ်ရွာ",
-  "မိုင်၂၀",
-  "ဧရာမြေ",
-  "ဂိတ်ဟောင်း",
-  "၁၄လမ်းဆုံ",
-  "ဒညင်းကုန်းဘူတာဈေး",
-  "ဒညင်းကုန်းလမ်းဆုံ",
-  "အစာစက်",
-  "၆၄၆",
-  "ပန်းခြံ",
-  "၁၀၆",
-  "ဆေးကျောင်းပေါက်",
-  "ခရေပင်လမ်းခွဲ",
-  "ရာသက်ပန်",
-  "သုံးရာသီ",
-  "ခရေပင်ရိပ်မွန်",
-  "အမှတ်၃လမ်းဆုံ(အဝေးပြေးထိပ်)",
-  "အောင်မင်္ဂလာအဝေးပြေးထိပ်",
-  "ဓမ္မာရုံ",
-  "၆ကွေ့",
-  "ဧရာ",
-  "ကန်သာယာလမ်းဆုံ",
-  "ဥဇ္ဇာနာ",
-  "ဣန္ဒာ",
-  "သုနန္ဒာ",
-  "ဝဇီရာ",
-  "သန္တာ",
-  "ဃဈေး",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်း",
-  "ဘုန်းကြီးလမ်း",
-  "၂ဈေး",
-  "၅လမ်း",
-  "သံဃတက္ကသိုလ်",
-  "ဂန္ဓာမာဟိုးဆေး",
-  "ညောင်ပင်(ပါရမီ)",
-  "ဗြဟ္မစိုရ်",
-  "ဓမ္မာရုံ",
-  "ဗဟိုဈေး",
-  "၁၆ကွေ့",
-  "အောင်ရတနာ",
-  "ပြည်သာယာ",
-  "အသင်းတိုက်",
-  "သုဝဏ္ဏဘောလုံးကွင်း",
-  "သုဝဏ္ဏလမ်းဆုံ",
-  "ဈေးလေး(ကြက်ဘဲဈေး)",
-  "ပုသိမ်ညွှန့်(၆လမ်း)",
-  "အေဘီစီ",
-  "ရုံးလေး",
-  "၉လမ်း",
-  "အသင်းတိုက်",
-  "ပုဇွန်တောင်စာတိုက်",
-  "ပုဇွန်တောင်ဈေး",
-  "လမ်း၅၀",
-  "လမ်း၄၆",
-  "ရွှေပန်းဆိုးတန်း",
-  "ဘားလမ်း",
-  "ရန်ကုန်ဘူတာကြီး"
-]},
-  { id: "94", color: "#06B6D4", operator: "YPS", stops: [
-  "ကျောင်းရှေ့ (ကွန်ပျူတာတက္ကသိုလ်)",
-  "နွားခြံ",
-  "သဘာဝ",
-  "သာဓုကန်",
-  "ဇေယျာသီရီ",
-  "ပုည",
-  "အုတ်ဖို",
-  "သံဖြူဆိုင်",
-  "ရဲတပ်ရင်း(၆)",
-  "ဂိတ်ဟောင်း",
-  "ရွှေပြည်သာကွေ့",
-  "စစ်တပ်",
-  "ကျောင်းလမ်း",
-  "ကန်သာယာ",
-  "မြင်းလှည်းဂိတ်",
-  "ဘုန်းကြီးကျောင်း",
-  "ဆောက်လုပ်ရေး",
-  "ဒညင်းကုန်းလမ်းဆုံ",
-  "ဘိုခြံ",
-  "ရွာသစ်",
-  "အောင်ဆန်းဈေး",
-  "ကျောင်းဂိတ်",
-  "၁ဂိတ်",
-  "စောင်စက်ရုံ(၂)",
-  "ဖော့ကန်ဈေး",
-  "ဂျပန်လမ်း",
-  "ပြည်တော်သာ",
-  "သရက်တော",
-  "ဘိုကုန်း",
-  "ဟိုက်ပက်",
-  "မညက",
-  "အင်းစိန်ဆေးရုံ",
-  "အင်းစိန်ပန်းခြံ",
-  "အင်းစိန်ပန်းခြံ(မရပ်တော့)",
-  "နို့ဈေး",
-  "ဝပ်ရှော့",
-  "ပန်းဈေး",
-  "ဘီပီအိုင်/ကြို့ကုန်း",
-  "ခဝဲခြံ",
-  "သမိုင်းမြို့သစ်",
-  "သမိုင်းဘူတာ",
-  "မာလာမြိုင်(၅/၆)",
-  "အုတ်ကျင်း",
-  "သီရိမြိုင်",
-  "သံလမ်း",
-  "ကမာရွတ်",
-  "ဘူတာရုံလမ်း",
-  "ရွာမကွေ့",
-  "ဆိုက်ကားဂိတ်",
-  "ဘီအာဘီ",
-  "ခိုင်ရွှေဝါ",
-  "ပြည်ရိပ်မွန်",
-  "ရဲဝင်း",
-  "ဟံသာဝတီဘူတာ",
-  "နတ်စင်လမ်း",
-  "စလင်းကွင်း",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကြည့်မြင်တိုင်ဘူတာ",
-  "ကျောင်းရှေ့(RC3)",
-  "ဟုမ်းလမ်း",
-  "ဝှိုက်တော",
-  "ဆင်မင်းဈေး",
-  "ချန်မာဖီ",
-  "အလုံစာတိုက်",
-  "ဂျမခါနာ",
-  "သခင်မြပန်းခြံ",
-  "ဗဟိုရ်စည်/မော်တင်",
-  "သရက်တောကျောင်း",
-  "ရန်ကုန်ပြည်သူ့ဆေးရုံကြီး",
-  "ဗိုလ်ချုပ်ဈေး",
-  "ရန်ကုန်ဘူတာကြီး"
-]},
-  { id: "95", color: "#F97316", stops: [
-  "ရေလယ်ကျောက်တန်း",
-  "၂၁၆ဈေး",
-  "အုန်းနှစ်ပင်",
-  "ဂါတ်တဲကွေ့",
-  "ပဲလှော်ဖို",
-  "အောင်ချမ်းသာ",
-  "မုန့်ဖို့ ၈",
-  "ချမ်းမြေ့သာယာ",
-  "ပါဒကြီး",
-  "သိမ်ကုန်း",
-  "မြွေဘုရား",
-  "ညောင်ဝိုင်း",
-  "မော်တော်ဆိပ်",
-  "စိုက်ပျိုးရေး",
-  "တမံဦးကုန်းထိပ်",
-  "တမံဦးဘုန်းကြီးကျောင်းရှေ့",
-  "ပဲလှော်ဖို",
-  "ဂိတ်ဟောင်း",
-  "ဂိတ်သစ်",
-  "အောင်သပြေခြံ",
-  "နည်းပညာတက္ကသိုလ်(TTU)",
-  "ကိုတင်မောင်ခြံဝ",
-  "ဘုရားလေး",
-  "ဆေးခန်းရှေ့",
-  "ထားမလုံ",
-  "ဘုရားငါးဆူ",
-  "စော်ဘွားကုန်းထိပ်",
-  "နတ်စင်ကုန်း",
-  "ဂိတ်ဝ",
-  "ကျိုက်အင်း",
-  "ဆန်စက်",
-  "စစ်စည်းတော",
-  "နတ်စင်တရာ",
-  "ဘုရားကုန်းလမ်းဆုံ",
-  "ကျိုက်ခေါက်ဘုရားရှေ့",
-  "၁၈ကုန်းထိပ်",
-  "အောင်ချမ်းသာ",
-  "ဆည်မြောင်း",
-  "သမကောလိပ်",
-  "ကျားဘုရား",
-  "ဆေးရုံကွေ့",
-  "နာရီစင်",
-  "နံ့သာကုန်း",
-  "အညာစု",
-  "အောက်ကွေ့",
-  "အောင်သုခ",
-  "လက်မှတ်ဂိတ်",
-  "ဆောက်လုပ်ရေး",
-  "၁၀၈တောင်စေတီ",
-  "သာကေတအဝိုင်း",
-  "စဂိတ်",
-  "မြေနီ",
-  "ကျောင်းကွေ့",
-  "အနော်မာ",
-  "ကျောက်တိုင်",
-  "သုဝဏ္ဏလမ်းဆုံ",
-  "ဈေးလေး(ကြက်ဘဲဈေး)",
-  "အာသောက",
-  "တတာမွေဗလီ",
-  "တာမွေဈေး",
-  "ကျောက်မြောင်းဈေး",
-  "သီတာ",
-  "အောင်မင်္ဂလာ",
-  "ယုဇနပလာဇာ",
-  "မင်္ဂလာမွန်ဈေး",
-  "ဘီအိုစီ",
-  "မျက်စိဆေးရုံ",
-  "ဖိုးစိန်လမ်း",
-  "နတ်မောက်ကျောင်းရှေ့",
-  "ဂျမား",
-  "ရေခဲဆိုင်",
-  "ဗဟန်း၃လမ်း"
-]},
-  { id: "96", color: "#6366F1", operator: "YPS", stops: [
-  "ရဲစုတောင်",
-  "ထောက်ကြန့်ဈေးသစ်",
-  "ထောက်ကြန့်ဈေး",
-  "ထောက်ကြန့်လမ်းဆုံ",
-  "ဂိတ်ဟောင်း",
-  "လှော်ကားဥယျာဉ်",
-  "၁၄၅ဂိတ်",
-  "ရဲအကြပ်သင်တန်းကျောင်း",
-  "လှော်ကားတာဆုံ",
-  "ပိုက်လုံး",
-  "ကျောင်းရှေ့ (ကွန်ပျူတာတက္ကသိုလ်)",
-  "နွားခြံ",
-  "သဘာဝ",
-  "သာဓုကန်",
-  "ဇေယျာသီရီ",
-  "ပုည",
-  "အုတ်ဖို",
-  "သံဖြူဆိုင်",
-  "ရဲတပ်ရင်း(၆)",
-  "ဂိတ်ဟောင်း",
-  "ရွှေပြည်သာကွေ့",
-  "စစ်တပ်",
-  "ကျောင်းလမ်း",
-  "ကန်သာယာ",
-  "မြင်းလှည်းဂိတ်",
-  "ဘုန်းကြီးကျောင်း",
-  "ဆောက်လုပ်ရေး",
-  "ဒညင်းကုန်းလမ်းဆုံ",
-  "အစာစက်",
-  "၆၄၆",
-  "ပန်းခြံ",
-  "၁၀၆",
-  "ဆေးကျောင်းပေါက်",
-  "ခရေပင်လမ်းခွဲ(ပြည်လမ်း)",
-  "မင်္ဂလာဒုံစာတိုက်",
-  "ဆေးကျောင်း",
-  "ဘီအိုစီ",
-  "ပန်းခြံကုန်း",
-  "ကုလားဘုရား",
-  "ထန်းပင်ကုန်း",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ကျောက်တော်ကြီးဘုရား",
-  "၁၀မိုင်ကုန်း",
-  "၉မိုင်ခွဲ",
-  "၉မိုင်",
-  "အေဝမ်း",
-  "မဟာစည်",
-  "၈မိုင်",
-  "၈မိုင်ပန်းခြံ(မြိုင်ဟေဝန်)",
-  "နဝဒေး",
-  "ကမ္ဘာအေးစာတိုက်",
-  "ကမ္ဘာအေးဘုရား",
-  "ချော်တွင်းကုန်း",
-  "မဉ္ဇူ",
-  "ပါရမီညောင်ပင်",
-  "ကေတုမာလာကွေ့",
-  "ကေတုမာလာကွေ့",
-  "တကောင်း",
-  "နန္ဒဝန်ဈေး",
-  "အင်းဝ",
-  "တောင်ဥက္ကလာစာတိုက်",
-  "ပဒေသာ",
-  "၁၄/၁၅လမ်းဆုံ",
-  "အောင်ရတနာ",
-  "သရက်တော",
-  "ဇဝနလမ်းဆုံ",
-  "ဘုရားလမ်း",
-  "ဘီအိုစီ",
-  "ဘဝမြင့်",
-  "စံပြဈေး",
-  "သစ်စက်",
-  "ကျောင်းရှေ့",
-  "ချမ်းအေး(သွားဆေးတက္ကသိုလ်)",
-  "ဝေဘူလ",
-  "သုဝဏ္ဏဈေး",
-  "အောင်ဇေယျ",
-  "ဘုရင့်နောင်",
-  "ညောင်ပင်",
-  "စက်ရုံရှေ့",
-  "၈/၉လမ်းဆုံ",
-  "သာကေတအဝိုင်း(တံတားနား)",
-  "၁၀ဈေး",
-  "၃၄ကားကြီးဂိတ်",
-  "တိုင်းရင်းသားကျေးရွာ"
-] },
-  { id: "97", color: "#14B8A6", operator: "YPS", stops: [
-  "သုခဒဂုံအိမ်ရာ",
-  "သပြေခြံ",
-  "ဒီဇင်ဘာမုဒ်ဦး",
-  "ဒီဇင်ဘာအလယ်ပေါက်",
-  "အအေးခန်း",
-  "ယူနစ်(၃)",
-  "စီးပွားရေးတက္ကသိုလ်(ရွာသာကြီး)",
-  "ကြိုဆိုရေး",
-  "သစ်တော",
-  "လမ်းသစ်",
-  "ကျောင်းရှေ့",
-  "အကြော်တဲ",
-  "ညောင်နှစ်ပင်",
-  "အကောက်ခွန်",
-  "လိုင်စင်ရုံး",
-  "ဦးထွန်းမြတ်",
-  "ကျောက်လမ်း",
-  "တပ်ရင်း၃",
-  "ကွင်းဆင်းကျောင်း",
-  "သင်တန်းကျောင်း",
-  "နတ်စင်",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ",
-  "ကားကြီးဂိတ်",
-  "စံပြဈေး",
-  "လိုင်စင်ရုံး",
-  "စီမံကိန်း",
-  "၃၁ဂိတ်",
-  "မိုးဆွေ",
-  "တောင်ဥက္ကလာဘုရား",
-  "မြင်သာဈေး",
-  "ဘေလီ",
-  "ပင်းယ",
-  "ကေတုမာလာကွေ့",
-  "ပါရမီညောင်ပင်",
-  "မဉ္ဇူ",
-  "ချော်တွင်းကုန်း",
-  "ကမ္ဘာအေးဘုရား",
-  "ကမ္ဘာအေးစာတိုက်",
-  "နဝဒေး",
-  "၈မိုင်ပန်းခြံ(မြိုင်ဟေဝန်)",
-  "၈မိုင်",
-  "မဟာစည်",
-  "အေဝမ်း",
-  "၉မိုင်",
-  "၉မိုင်ခွဲ",
-  "၁၀မိုင်ကုန်း",
-  "ကျောက်တော်ကြီးဘုရား",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ထန်းပင်ကုန်း",
-  "ကုလားဘုရား",
-  "ပန်းခြံကုန်း",
-  "ဘီအိုစီ",
-  "ဆေးကျောင်း",
-  "မင်္ဂလာဒုံစာတိုက်",
-  "ခရေပင်လမ်းခွဲ(ပြည်လမ်း)",
-  "ခရေပင်လမ်းခွဲ(ခရေပင်လမ်း)",
-  "ရာသက်ပန်",
-  "သုံးရာသီ",
-  "ခရေပင်ရိပ်မွန်",
-  "အမှတ်၃လမ်းဆုံ(Terminal)",
-  "အလယ်ပေါက်",
-  "တရားရုံးရှေ့",
-  "အိုးအိမ်",
-  "ညောင်ပင်",
-  "သင်္ဃန်းကျွန်းကြီး",
-  "၁၂လမ်း",
-  "ပုလဲအိမ်ရာ",
-  "၆လမ်း",
-  "ရခိုင်ကျောင်း",
-  "တံတားဖြူ",
-  "ပုလဲလမ်းဆုံ",
-  "သုံးသုံးလုံး",
-  "မှိုရုံ",
-  "နီလာ",
-  "ဆိုင်းဘုတ်",
-  "ဂိတ်ဟောင်း(လန်ဒန်)",
-  "ပိုက်လုံး",
-  "ကုန်းတလဘောင်",
-  "တပ်ရင်း၉",
-  "ရေစက်",
-  "အမှတ်၃",
-  "ကုက္ကိုပင်",
-  "ဝါးဆိုင်",
-  "နွယ်ခွေ",
-  "၄ရပ်ကွက်",
-  "၁ရပ်ကွက်",
-  "ကျောင်းရှေ့ (ထောက်ကြန့်)",
-  "လမ်းသစ် (ထောက်ကြန့်)",
-  "ပုပ္ပါးကျောင်း",
-  "ထောက်ကြန့်ဈေး",
-  "ထောက်ကြန့်ဈေးသစ်",
-  "မြို့ရှောင်လမ်း"
-] },
-  { id: "98", color: "#D946EF", stops: [
-  "ဒဂုံဧရာအဝေးပြေး",
-  "သမကုန်း",
-  "ဘီအိုစီ",
-  "စနေမ",
-  "၅ထိပ်(စနေမ)",
-  "မီးခွက်ဈေး(အပေါ်ထိပ်)",
-  "တံတားဖြူ",
-  "ရုံးရှေ့",
-  "၅ထိပ်",
-  "၃ထိပ်",
-  "၁ထိပ်",
-  "အင်းစိန်ကမ်းနား",
-  "ပေါက်တောဝ",
-  "ပေါက်တောဝ (အပြန်)",
-  "ညောင်ပင်",
-  "မြို့သစ်ဈေး",
-  "ပိတောက်လမ်း",
-  "ကြို့ကုန်း",
-  "ဘုရင့်နောင်ဈေးပွဲရုံ",
-  "ဘုရင့်နောင်လမ်းဆုံ",
-  "အုတ်ကျင်း",
-  "သီရိမင်္ဂလာဈေးသစ်",
-  "အိုဝမ်း",
-  "ဘူတာရုံလမ်း",
-  "ချောင်းဝ",
-  "ရွာမကွေ့",
-  "ရေကြောင်း",
-  "သင်္ဘောကျင်း",
-  "ဟံသာဝတီဘူတာ",
-  "နတ်စင်လမ်း",
-  "စလင်းကွင်း",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကြည့်မြင်တိုင်ဘူတာ",
-  "ကျောင်းရှေ့(RC3)",
-  "ဟုမ်းလမ်း",
-  "ဝှိုက်တော",
-  "ဆင်မင်းဈေး",
-  "ချန်မာဖီ",
-  "အလုံစာတိုက်",
-  "ဂျမခါနာ",
-  "သခင်မြပန်းခြံ",
-  "ဗဟိုရ်စည်/မော်တင်",
-  "သရက်တောကျောင်း",
-  "ရန်ကုန်ပြည်သူ့ဆေးရုံကြီး",
-  "ဗိုလ်ချုပ်ဈေး",
-  "ပန်းဆိုးတန်း",
-  "အိုးအိမ်(ချမ်းမြေ့ဈေး)",
-  "၄၆လမ်း",
-  "လမ်း၅၀",
-  "ညောင်တန်း",
-  "သီတာဆိပ်",
-  "လင်းစဒေါင်း"
-] },
-  { id: "99", color: "#475569", stops: [
-  "ဒဂုံဧရာအဝေးပြေး",
-  "သမကုန်း",
-  "ဘီအိုစီ",
-  "စနေမ",
-  "၅ထိပ်(စနေမ)",
-  "မီးခွက်ဈေး(အပေါ်ထိပ်)",
-  "တံတားဖြူ",
-  "ရုံးရှေ့",
-  "၅ထိပ်",
-  "၃ထိပ်",
-  "၁ထိပ်",
-  "အင်းစိန်ကမ်းနား",
-  "ပေါက်တောဝ",
-  "ထောင်ဘူးဝ",
-  "အင်းစိန်ဈေး",
-  "အင်းစိန်ပန်းခြံ(မရပ်တော့)",
-  "ဘီအိုစီ",
-  "ကြို့ကုန်း",
-  "ဘီပီအိုင် (YTU)",
-  "ခဝဲခြံ",
-  "ကုလားကျောင်း",
-  "သမိုင်းလမ်းဆုံ(Junction)",
-  "သမိုင်းလမ်းဆုံ",
-  "ရဲရန်အောင်",
-  "ကျိုက်ဝိုင်းဘုရား",
-  "ရဲဘော်ဟောင်း",
-  "၈မိုင်",
-  "၈မိုင်ပန်းခြံ(မြိုင်ဟေဝန်)",
-  "နဝဒေး",
-  "ကမ္ဘာအေးစာတိုက်",
-  "ကမ္ဘာအေးဘုရား",
-  "ချော်တွင်းကုန်း",
-  "မဉ္ဇူ",
-  "ပါရမီညောင်ပင်",
-  "ကေတုမာလာကွေ့",
-  "ပင်းယ",
-  "နာရီစင်",
-  "သင်းဝင်",
-  "၃၅",
-  "ဆက်သွယ်ရေး",
-  "ကျောင်းလမ်း",
-  "စစ်တောင်း",
-  "မန္တလေးလမ်း",
-  "မဝတလမ်းဆုံ",
-  "မဝတလမ်းဆုံ",
-  "အားကစားကွင်း",
-  "ကပရ",
-  "၂၈ တံတားထိပ်",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တောင်မြောက်လမ်းဆုံ",
-  "နတ်စင်",
-  "သီတာဦး",
-  "ဘော်ဒီရုံ",
-  "မြို့ဦးကျောင်း",
-  "သပြေညို",
-  "၁၈ကွေ့",
-  "တံတားထိပ်",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "ကွမ်းယာဆိုင်",
-  "အဝေရာ",
-  "ပွိုင့်ထိပ်",
-  "အထူးဂိတ်",
-  "အင်းဝအိမ်ရာ",
-  "သိမ်ချောင်းလမ်းဆုံ",
-  "၆၅ရပ်ကွက်",
-  "ဆောက်လုပ်ရေး"
-] },
-  { id: "100", color: "#34D399", operator: "YPS", stops: [
-  "ကျီစုသုသာန်",
-  "မြနန္ဒာ",
-  "မင်းရဲကောင်းပုံကွေ့",
-  "ပီတိ",
-  "ဓမ္မာရုံ",
-  "ညောင်ပင်",
-  "၁၀၅လမ်းဆုံ",
-  "၁၀၄ရုံးရှေ့",
-  "ရွှေဝါဝင်း",
-  "ရွှေညောင်ပင်",
-  "၇၀/၇၁ဈေးမီးပွိုင့်",
-  "မဏိစည်သူ",
-  "နဝရတ်",
-  "ကားကြီးဂိတ်",
-  "ပွိုင့်ထိပ်",
-  "အထူးဂိတ်",
-  "အင်းဝအိမ်ရာ",
-  "သိမ်ချောင်းလမ်းဆုံ",
-  "၆၅ရပ်ကွက်",
-  "ဆောက်လုပ်ရေး",
-  "စာဥ",
-  "သစ်ဆိပ်",
-  "ဒုဋ္ဌဝတီ",
-  "သံလမ်းကွေ့",
-  "ဘုရားလေးကွေ့",
-  "၃၄ကားကြီးဂိတ်",
-  "၁၀ဈေး",
-  "သာကေတအဝိုင်း(တံတားနား)",
-  "သာကေတအဝိုင်း",
-  "ဓမ္မာရုံ",
-  "ခိုင်ရွှေဝါ",
-  "အရက်ဆိုင်ကွေ့",
-  "ဂိတ်ဟောင်း",
-  "ဝေဇယန္တာ",
-  "၇ဈေး",
-  "ကျန်းမာရေး",
-  "ရုပ်ရှင်ရုံ",
-  "ထူပါရုံ",
-  "အနော်မာ",
-  "၁ဈေးကွေ့",
-  "သဒ္ဒါရုံ",
-  "ဝက်စု",
-  "ရန်အောင်",
-  "ဒေါပုံသင်္ဘောကျင်း",
-  "ဝါဆို",
-  "ပုဇွန်တောင်စာတိုက်",
-  "ပုဇွန်တောင်ဈေး",
-  "ညောင်တန်း",
-  "သီတာဆိပ်",
-  "အိုးရှင်း",
-  "ဂန္ဒီ",
-  "ဆီဆိုင်",
-  "ဗိုလ်တထောင်ဘုရား",
-  "လင်းစဒေါင်း"
-] },
-  { id: "101", color: "#60A5FA", stops: [
-  "အနောက်ပိုင်းနည်းပညာတက္ကသိုလ်",
-  "နည်းပညာတက္ကသိုလ်အဝိုင်း",
-  "မြစိမ်းရောင်",
-  "တပ်ရင်း၉",
-  "ဆောက်လုပ်ရေး",
-  "ဒဂုံဧရာအဝေးပြေး",
-  "သမကုန်း",
-  "သမကုန်း (အပြန်)",
-  "အားမာန်",
-  "အောင်မင်္ဂလာဈေး",
-  "၁၂သမ",
-  "ဈေးလေး",
-  "ပဲခူးလမ်း",
-  "ကျောင်းလမ်း",
-  "ရွှေရင်အေးဘုရား",
-  "၈၆ဂိတ်ဟောင်း",
-  "ကျောင်းရှေ့(ရိုးလေး)",
-  "၁၂၄",
-  "ရိုးလေး",
-  "ရိုးကြီး",
-  "ပေါက်တန်းအဝိုင်း",
-  "အလယ်ရွာ",
-  "မိုင်၂၀",
-  "ဧရာမြေ",
-  "၁၉၉ ဂိတ်ဟောင်း",
-  "၁၄လမ်းဆုံ",
-  "ဒညင်းကုန်းဘူတာဈေး",
-  "ဒညင်းကုန်းလမ်းဆုံ",
-  "အစာစက်",
-  "၆၄၆",
-  "ပန်းခြံ",
-  "၁၀၆",
-  "ဆေးကျောင်းပေါက်",
-  "ခရေပင်လမ်းခွဲ(ခရေပင်လမ်း)",
-  "ရာသက်ပန်",
-  "သုံးရာသီ",
-  "ခရေပင်ရိပ်မွန်",
-  "အမှတ်၃လမ်းဆုံ(အဝေးပြေးထိပ်)",
-  "အောင်မင်္ဂလာအဝေးပြေးထိပ်",
-  "ဓမ္မာရုံ",
-  "၆ကွေ့",
-  "ဧရာ",
-  "ကန်သာယာလမ်းဆုံ",
-  "ဈဈေး",
-  "ရုပ်ရှင်ရုံ",
-  "နွယ်သာဂီ",
-  "မြရတနာ",
-  "ရုံး",
-  "ဥက္ကာ(ဆေး-၂)",
-  "မေဓာဝီလမ်းဆုံ",
-  "ရုံးသစ်",
-  "ဂိတ်ဟောင်း",
-  "ဂန္ဓာရုံ",
-  "ခေမာ",
-  "ဖြိုးစံပယ်",
-  "ကျောင်းကွေ့",
-  "ကျန်းမာရေး",
-  "၄၄လမ်းဆုံ",
-  "ကျောင်းလေးရှေ့",
-  "ဗညားဒလ",
-  "ဗထူးဈေး",
-  "ကြားမှတ်တိုင်",
-  "၄၆လမ်းဆုံ(ဘယ်)",
-  "၄၆လမ်းဆုံ(ညာ)",
-  "စိန်ပန်း",
-  "ဈေးလေး",
-  "ဂိတ်ဟောင်း",
-  "မုခ်ဝ",
-  "တသသ",
-  "မော်လမြိုင်",
-  "၁၂ဂတ်စ်ဆိုင်",
-  "ဘုန်းကြီးလမ်း",
-  "ဆဒုံဒူးဝါး",
-  "၁၃ဂိတ်",
-  "ကျောက်လမ်း",
-  "ဦးထွန်းမြတ်",
-  "လိုင်စင်ရုံး",
-  "အကောက်ခွန်",
-  "ညောင်နှစ်ပင်",
-  "အကြော်တဲ",
-  "ကျောင်းရှေ့",
-  "လမ်းသစ်",
-  "သစ်တော",
-  "ကြိုဆိုရေး",
-  "စီးပွားရေးတက္ကသိုလ်(ရွာသာကြီး)"
-] },
-  { id: "102", color: "#F472B6", stops: [
-  "အဝိုင်းထိပ်(ကွန်တိန်နာဂိတ်)",
-  "၁၄လမ်း",
-  "၁၁လမ်း",
-  "၅လမ်း",
-  "ပိတောက်ကွေ့",
-  "မြသီတာပန်းခြံ",
-  "ယုဇနမုခ်ဦး",
-  "ဆီဆိုင်",
-  "အိုးအိမ်",
-  "အောင်ချမ်းသာ",
-  "မှတ်တိုင်သစ်",
-  "မြနန္ဒာ(အလယ်ဂိတ်)",
-  "ရတနာလမ်းဆုံ",
-  "သိမ်ချောင်းလမ်းဆုံ",
-  "အင်းဝအိမ်ရာ",
-  "အထူးဂိတ်",
-  "ပွိုင့်ထိပ်",
-  "ကားကြီးဂိတ်",
-  "နဝရတ်",
-  "မဏိစည်သူ",
-  "၇၀/၇၁ဈေးမီးပွိုင့်",
-  "၇၁ဈေး",
-  "ကျောင်းလမ်း",
-  "ကားကြီးဂိတ်",
-  "ကွမ်းယာဆိုင်",
-  "၅၆လမ်းဆုံ",
-  "၅၄သမ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "တံတားထိပ်",
-  "၁၈ကွေ့",
-  "ကျန်းမာရေး",
-  "ကျောင်းရှေ့",
-  "ဂိတ်ဟောင်း",
-  "ကုန်ပဒေသာ",
-  "သစ်ဆိုင်ကွေ့",
-  "ယောက်ကော်",
-  "ပန်းခြံ",
-  "ယဉ်ကျေးမှု",
-  "သုခုမ",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ",
-  "ကားကြီးဂိတ်",
-  "စံပြဈေး",
-  "လိုင်စင်ရုံး",
-  "စီမံကိန်း",
-  "၃၁ဂိတ်",
-  "မိုးဆွေ",
-  "တောင်ဥက္ကလာဘုရား",
-  "မြင်သာဈေး",
-  "ဘေလီ",
-  "နာရီစင်",
-  "၆လမ်း",
-  "ဟောင်ကောင်",
-  "ကျောင်းလမ်း",
-  "ဗိုလ်စောနောင်",
-  "တံတားထိပ်",
-  "စိုးမြတ်",
-  "ဗိုလ်မင်းခေါင်",
-  "၃၆ဂိတ်ဟောင်း",
-  "၁၂ဂတ်စ်ဆိုင်",
-  "မော်လမြိုင်",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "မုခ်ဝ",
-  "အဝိုင်း",
-  "၁၀မိုင်",
-  "ရုံးရှေ့",
-  "ဒဂုံတက္ကသိုလ်",
-  "၃၇",
-  "၃၆",
-  "၃၅"
-]},
-  { id: "103", color: "#A78BFA", operator: "YPS", stops: [
-  "ဒဂုံဧရာအဝေးပြေး",
-  "သမကုန်း",
-  "ဘီအိုစီ",
-  "စနေမ",
-  "၅ထိပ်(စနေမ)",
-  "မီးခွက်ဈေး(အပေါ်ထိပ်)",
-  "တံတားဖြူ",
-  "ရုံးရှေ့",
-  "၅ထိပ်",
-  "၃ထိပ်",
-  "၁ထိပ်",
-  "အင်းစိန်ကမ်းနား",
-  "ပေါက်တောဝ",
-  "ထောင်ဘူးဝ",
-  "အင်းစိန်ဈေး",
-  "အင်းစိန်ပန်းခြံ",
-  "အုတ်ကျင်းဝ",
-  "ဝပ်ရှော့",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ကျောက်တော်ကြီးဘုရား",
-  "၁၀မိုင်ကုန်း",
-  "၉မိုင်ခွဲ",
-  "၉မိုင်",
-  "အေဝမ်း",
-  "မဟာစည်",
-  "၈မိုင်",
-  "၈မိုင်ပန်းခြံ(မြိုင်ဟေ၀န်)",
-  "နဝဒေး",
-  "ကမ္ဘာအေးစာတိုက်",
-  "ကမ္ဘာအေးဘုရား",
-  "ချော်တွင်းကုန်း",
-  "မဉ္ဇူ",
-  "ပါရမီညောင်ပင်",
-  "ကေတုမာလာကွေ့",
-  "ပင်းယ",
-  "ဘေလီ",
-  "မြင်သာဈေး",
-  "တောင်ဥက္ကလာဘုရား",
-  "မိုးဆွေ",
-  "၃၁ဂိတ်",
-  "စီမံကိန်း",
-  "လိုင်စင်ရုံး",
-  "စံပြဈေး",
-  "ကားကြီးဂိတ်",
-  "တံတားဖြူ",
-  "တောင်မြောက်လမ်းဆုံ",
-  "သုခုမ",
-  "ယဉ်ကျေးမှု",
-  "ပန်းခြံ",
-  "ယောက်ကော်",
-  "သစ်ဆိုင်ကွေ့",
-  "ဂျီအီးစီ",
-  "စက်မှုဇုန်(၂)",
-  "ကြာကန်",
-  "သစ္စာ",
-  "၂၀ကုန်တိုက်",
-  "ကားလေးဂိတ်",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "၅၄သမ",
-  "၅၆လမ်းဆုံ",
-  "ကွမ်းယာဆိုင်",
-  "ကားကြီးဂိတ်",
-  "ကျောင်းလမ်း",
-  "၇၁ဈေး",
-  "ရုံးရှေ့",
-  "၁၀၇ဂိတ်ဟောင်း",
-  "ကျောင်းလမ်း",
-  "၁၀၆လမ်းဆုံ",
-  "GTC",
-  "၄၀ဂိတ်ဟောင်း",
-  "အောင်မြင့်မိုရ်အိမ်ရာ",
-  "မင်းရဲကောင်းပုံကွေ့",
-  "မြနန္ဒာ",
-  "ကျီစုသုသာန်"
-] },
-  { id: "104", color: "#FB7185", operator: "YPS", stops: [
-  "ဝါယာလက်",
-  "ကျိုက္ကလို့",
-  "ကျိုက္ကလဲ့/ဆပ်ပလိုင်း",
-  "ဗဟိုနိုင်ငံရေး",
-  "မင်္ဂလာဒုံဈေး",
-  "ခရေပင်လမ်းခွဲ(ပြည်လမ်း)",
-  "မင်္ဂလာဒုံစာတိုက်",
-  "ဆေးကျောင်း",
-  "ဘီအိုစီ",
-  "ပန်းခြံကုန်း",
-  "ကုလားဘုရား",
-  "ထန်းပင်ကုန်း",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ကျောက်တော်ကြီးဘုရား",
-  "၁၀မိုင်ကုန်း",
-  "၉မိုင်ခွဲ",
-  "၉မိုင်",
-  "အေဝမ်း",
-  "မဟာစည်",
-  "၈မိုင်",
-  "၇မိုင်",
-  "အေဒီ",
-  "ကျောင်းကွေ့",
-  "၆မိုင်ခွဲ",
-  "တံတားဖြူ",
-  "မာလာ",
-  "စိုက်ပျိုးရေး",
-  "ဟံသာဝတီအဝိုင်း",
-  "မဟာမြိုင်",
-  "မြေနီကုန်း",
-  "မြေနီကုန်း(ပြည်လမ်း)",
-  "ဟယ်လ်ပင်",
-  "ပဲခူးကလပ်",
-  "စိန်ဂျွန်း",
-  "သရက်တောကျောင်း",
-  "ရန်ကုန်ပြည်သူ့ဆေးရုံကြီး",
-  "ဗိုလ်ချုပ်ဈေး",
-  "ဆူးလေ(ရှန်ဂရီလာ)",
-  "၆ထပ်ရုံး"
-] },
-  { id: "105", color: "#2DD4BF", operator: "YPS", stops: [
-  "နည်းပညာတက္ကသိုလ်",
-  "အုန်းခြံ",
-  "သုံးသုံးလုံး",
-  "ဒေါင်းလေးကွေ့",
-  "ဘုရားလမ်းဈေး",
-  "ကျောင်းရှေ့",
-  "မင်္ဂလာတိုက်",
-  "စုပေါင်းရုံး",
-  "ပေါ်တော်မူ",
-  "ရွှေပြည်အေး",
-  "ဖောက်စက်",
-  "ဆီစက်(ချမ်းမြေ့ရိပ်သာ)",
-  "စိုက်ပျိုးရေး",
-  "အမှတ်၇",
-  "ထန်းတပင်တာဆုံ",
-  "လျှပ်စစ်ရုံး",
-  "ကားလေးဂိတ်",
-  "မှော်ဘီဈေး",
-  "ရုပ်ရှင်ရုံ",
-  "စာတိုက်",
-  "အမှတ်၄လမ်းဆုံ",
-  "ရုံးပေါက်",
-  "လေထီး ၁၆",
-  "ဆပ်ပလိုင်း",
-  "ဂျီအီး",
-  "လေတပ်",
-  "မော်တော်ယာဉ်",
-  "ဗိုလ်သင်တန်း",
-  "ဆက်သွယ်ရေး",
-  "၉၁ဂိတ်ကြီး",
-  "ဆပ်သွားတော ဘုန်းကြီးကျောင်း",
-  "မိန်းမလိုင်း",
-  "စမ်းချောင်းပေါက်(ဂျပန်ဘုရား)",
-  "ရဲဘော်ဈေး",
-  "ကြက်ဖြူကန်",
-  "အသုံးလုံး",
-  "ဆေးခန်း",
-  "မီးစက်",
-  "ကိုးလုံးကွင်း ဘုန်းကြီးကျောင်း",
-  "မင်္ဂလာဈေး",
-  "တင့်ကား",
-  "ရုံသံ",
-  "၂ဂိတ်",
-  "ရေအိုးစင် (ပက်စီ)",
-  "ဆောက်လုပ်ရေး",
-  "၈၂ ဂိတ်ကြီး",
-  "စက္ကူစက်",
-  "၉ဂိတ်",
-  "ဘီအာတီ ဂိတ်ဟောင်း",
-  "ဘုရားလေးကွေ့",
-  "ညောင်ပင်",
-  "ထောက်ကြန့်လမ်းဆုံ",
-  "ပုပ္ပါးကျောင်း",
-  "လမ်းသစ် (ထောက်ကြန့်)",
-  "ကျောင်းရှေ့ (ထောက်ကြန့်)",
-  "နွယ်ခွေ(ပြည်လမ်း)",
-  "စီပီလိုက်",
-  "ဒေဝူး",
-  "ဆေးဂဲလ်",
-  "မွေးမြူရေး",
-  "ရေစင်",
-  "ခြံပေါက် (ပျဉ်းမပင်)",
-  "ကုန်းထိပ်",
-  "ဘုရားလေး",
-  "ရဲဘော်ဟောင်း",
-  "ရှမ်းစု",
-  "ဘိုခြံ",
-  "တစ်နံပါတ်",
-  "ဆင်မင်း",
-  "ရေကြည်အိုင်",
-  "ဝါယာလက်",
-  "ကျိုက္ကလို့",
-  "ကျိုက္ကလဲ့/ဆပ်ပလိုင်း",
-  "ဗဟိုနိုင်ငံရေး",
-  "မင်္ဂလာဒုံဈေး",
-  "ခရေပင်လမ်းခွဲ(ပြည်လမ်း)",
-  "မင်္ဂလာဒုံစာတိုက်",
-  "ဆေးကျောင်း",
-  "ဘီအိုစီ",
-  "ပန်းခြံကုန်း",
-  "ကုလားဘုရား",
-  "ထန်းပင်ကုန်း",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ကျောက်တော်ကြီးဘုရား",
-  "၁၀မိုင်ကုန်း",
-  "၉မိုင်ခွဲ",
-  "၉မိုင်",
-  "အေဝမ်း",
-  "မဟာစည်",
-  "၈မိုင်",
-  "၇မိုင်",
-  "အေဒီ",
-  "ကျောင်းကွေ့",
-  "၆မိုင်ခွဲ",
-  "တံတားဖြူ",
-  "မာလာ",
-  "စိုက်ပျိုးရေး",
-  "ဟံသာဝတီအဝိုင်း",
-  "မဟာမြိုင်",
-  "မြေနီကုန်း",
-  "မြေနီကုန်း(ပြည်လမ်း)",
-  "ဟယ်လ်ပင်",
-  "ပဲခူးကလပ်",
-  "စိန်ဂျွန်း",
-  "သရက်တောကျောင်း",
-  "ရန်ကုန်ပြည်သူ့ဆေးရုံကြီး",
-  "ဗိုလ်ချုပ်ဈေး",
-  "ဆူးလေ(ရှန်ဂရီလာ)",
-  "၆ထပ်ရုံး"
-] },
-  { id: "106", color: "#EF4444", operator: "YPS", stops: [
-  "ဥက္ကံဂိတ်",
-  "ဥက္ကံဂုန်းကွေ့",
-  "ဥက္ကံဆေးရုံရှေ့",
-  "ပါဒဘုရားလမ်း",
-  "ဥက္ကံရွာမဘုရားလမ်း",
-  "သိမ်ကုန်းတာဆုံ",
-  "ကန်ကုန်းရွာလယ်",
-  "ကွန်းခြံကုန်း",
-  "အုန်းပင်စု",
-  "ဖလုံ",
-  "ကွမ်းချောင်း",
-  "အုပ်ဖုန်းရွာလယ်",
-  "ဇရပ်ဖြူရွာလယ်",
-  "ရေတွင်းကြီး",
-  "အဖျောက်တာဆုံ",
-  "ဥတိုတာဆုံ",
-  "ကျိုက်စစ်ကိုင်းရွာလွယ်",
-  "ကြည်ကုန်းလမ်းဆုံ",
-  "ရင်တိုက်ကွင်းရွာလွယ်",
-  "ကျီးပင်အင်းလမ်းဆုံ",
-  "ဂျိုးဖြူရွာလယ်",
-  "ကျောက်တိုက်ကွေ့",
-  "အောင်စိုးမိုးဂိတ်",
-  "တိုက်ကြီးဂိတ်",
-  "တိုက်ကြီးခန်းမ",
-  "လျှပ်စစ်ရုံး",
-  "ကျောင်းလမ်း",
-  "ဖောင်ကြီးလမ်းခွဲ",
-  "ဆည်းမြောင်း",
-  "ရေတံခါး",
-  "တတာဂွဘုန်းကြီးကျောင်း",
-  "ရွှေဘုံသာ",
-  "တာဂွတာဆုံ",
-  "ကံကုန်း",
-  "ခြင်္သေ့နှစ်ကောင်",
-  "အင်းရွက်ကြီး",
-  "ရွှေမြယာတာဆုံ",
-  "ငှက်ပျော်ခြံ",
-  "ကျွန်းချောင်း(ဥက္ကံ)",
-  "မြောက်ချောကုန်း",
-  "ရေကျော်",
-  "စိန်ကုလား",
-  "မြောင်းတကာတာဆုံ",
-  "ကျွဲလမ်း",
-  "အေးချမ်း",
-  "ဖရဲခင်း",
-  "ဆောက်လုပ်ရေး",
-  "စက်မှုဇုန်လမ်းသစ်",
-  "ကြက်ခြံပေါက်",
-  "ကုလားကုန်း",
-  "ဆိုက်သစ်",
-  "မနီ",
-  "ဆေးဝါးကုန်ကြမ်း",
-  "ဘောလုံးစက်",
-  "ဖိနပ်စက်",
-  "ဂျပန်ဆိုက်",
-  "မြို့ကျောင်းလမ်းဆုံ",
-  "ဆည်မြောင်းဌာနလမ်းဆုံ",
-  "နည်းပညာတက္ကသိုလ်",
-  "အုန်းခြံ",
-  "သုံးသုံးလုံး",
-  "ဒေါင်းလေးကွေ့",
-  "ဘုရားလမ်းဈေး",
-  "ကျောင်းရှေ့",
-  "မင်္ဂလာတိုက်",
-  "စုပေါင်းရုံး",
-  "ပေါ်တော်မူ",
-  "ရွှေပြည်အေး",
-  "ဖောက်စက်",
-  "ဆီစက်",
-  "စိုက်ပျိုးရေး",
-  "အမှတ်၇",
-  "ထန်းတပင်တာဆုံ",
-  "လျှပ်စစ်ရုံး",
-  "ကားလေးဂိတ်",
-  "မှော်ဘီဈေး",
-  "ရုပ်ရှင်ရုံ",
-  "စာတိုက်",
-  "အမှတ်၄လမ်းဆုံ",
-  "ရုံးပေါက်",
-  "လေထီး ၁၆",
-  "ဆပ်ပလိုင်း",
-  "ဂျီအီး",
-  "လေတပ်",
-  "မော်တော်ယာဉ်",
-  "ဗိုလ်သင်တန်း",
-  "ဆက်သွယ်ရေး",
-  "၉၁ဂိတ်ကြီး",
-  "ဆပ်သွားတော ဘုန်းကြီးကျောင်း",
-  "မိန်းမလိုင်း",
-  "စမ်းချောင်းပေါက်",
-  "ရဲဘော်ဈေး",
-  "ကြက်ဖြူကန်",
-  "အသုံးလုံး",
-  "ဆေးခန်း",
-  "မီးစက်",
-  "ကိုးလုံးကွင်း ဘုန်းကြီးကျောင်း",
-  "မင်္ဂလာဈေး",
-  "တင့်ကား",
-  "ရုံသံ",
-  "၂ဂိတ်",
-  "ရေအိုးစင် (ပက်စီ)",
-  "ဆောက်လုပ်ရေး",
-  "၈၂ ဂိတ်ကြီး",
-  "စက္ကူစက်",
-  "၉ဂိတ်",
-  "ဘီအာတီ ဂိတ်ဟောင်း",
-  "ဘုရားလေးကွေ့",
-  "ညောင်ပင်",
-  "ထောက်ကြန့်လမ်းဆုံ",
-  "ပုပ္ပါးကျောင်း",
-  "လမ်းသစ် (ထောက်ကြန့်)",
-  "ကျောင်းရှေ့ (ထောက်ကြန့်)",
-  "နွယ်ခွေ",
-  "စီပီလိုက်",
-  "ဒေဝူး",
-  "ဆေးဂဲလ်",
-  "မွေးမြူရေး",
-  "ရေစင်",
-  "ခြံပေါက် (ပျဉ်းမပင်)",
-  "ကုန်းထိပ်",
-  "ဘုရားလေး",
-  "ရဲဘော်ဟောင်း",
-  "ရှမ်းစု",
-  "ဘိုခြံ",
-  "တစ်နံပါတ်",
-  "ဆင်မင်း",
-  "ရေကြည်အိုင်",
-  "ဝါယာလက်",
-  "ကျိုက္ကလို့",
-  "ကျိုက္ကလဲ့/ဆပ်ပလိုင်း",
-  "ဗဟိုနိုင်ငံရေး",
-  "မင်္ဂလာဒုံဈေး",
-  "ခရေပင်လမ်းခွဲ(ပြည်လမ်း)",
-  "မင်္ဂလာဒုံစာတိုက်",
-  "ဆေးကျောင်း",
-  "ဘီအိုစီ",
-  "ပန်းခြံကုန်း",
-  "ကုလားဘုရား",
-  "ထန်းပင်ကုန်း",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ကျောက်တော်ကြီးဘုရား",
-  "၁၀မိုင်ကုန်း",
-  "၉မိုင်ခွဲ",
-  "၉မိုင်",
-  "အေဝမ်း",
-  "မဟာစည်",
-  "၈မိုင်",
-  "၇မိုင်",
-  "အေဒီ",
-  "ကျောင်းကွေ့",
-  "၆မိုင်ခွဲ",
-  "တံတားဖြူ",
-  "မာလာ",
-  "စိုက်ပျိုးရေး",
-  "ဟံသာဝတီအဝိုင်း",
-  "မဟာမြိုင်",
-  "မြေနီကုန်း"
-] },
-  { id: "107", color: "#3B82F6", operator: "YPS", stops: [
-  "၁၀၇ဂိတ်",
-  "မီးသတ်",
-  "ငှက်ပျောတော",
-  "ရေဆင်းလမ်း",
-  "လှည်းကူးတာဆုံ",
-  "သဉ္ဇာဦး",
-  "လှည်းကူးဈေး",
-  "ရိပ်သာ",
-  "ရုပ်ရှင်ရုံ",
-  "ရုံးရှေ့",
-  "စိန်နဂါး",
-  "ပန်းချယ်ရီ",
-  "အာဇီဝ",
-  "အရှေ့ဇရပ်",
-  "အနောက်ဇရပ်",
-  "ရိတ်သိမ်း",
-  "ဆည်မြောင်း",
-  "ရတနာမြေ",
-  "ရွှေဝါမြေ",
-  "အမှတ်၃လမ်းဆုံ",
-  "ထောက်ကြန့်ဈေးသစ်",
-  "ထောက်ကြန့်ဈေး",
-  "ပုပ္ပါးကျောင်း",
-  "လမ်းသစ် (ထောက်ကြန့်)",
-  "ကျောင်းရှေ့ (ထောက်ကြန့်)",
-  "နွယ်ခွေ(ပြည်လမ်း)",
-  "စီပီလိုက်",
-  "ဒေဝူး",
-  "ဆေးဂဲလ်",
-  "မွေးမြူရေး",
-  "ရေစင်",
-  "ခြံပေါက် (ပျဉ်းမပင်)",
-  "ကုန်းထိပ်",
-  "ဘုရားလေး",
-  "ရဲဘော်ဟောင်း",
-  "ရှမ်းစု",
-  "ဘိုခြံ",
-  "တစ်နံပါတ်",
-  "ဆင်မင်း",
-  "ရေကြည်အိုင်",
-  "ဝါယာလက်",
-  "ကျိုက္ကလို့",
-  "ကျိုက္ကလဲ့/ဆပ်ပလိုင်း",
-  "ဗဟိုနိုင်ငံရေး",
-  "မင်္ဂလာဒုံဈေး",
-  "ခရေပင်လမ်းခွဲ(ပြည်လမ်း)",
-  "မင်္ဂလာဒုံစာတိုက်",
-  "ဆေးကျောင်း",
-  "ဘီအိုစီ",
-  "ပန်းခြံကုန်း",
-  "ကုလားဘုရား",
-  "ထန်းပင်ကုန်း",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ကျောက်တော်ကြီးဘုရား",
-  "၁၀မိုင်ကုန်း",
-  "၉မိုင်ခွဲ",
-  "၉မိုင်",
-  "အေဝမ်း",
-  "မဟာစည်",
-  "၈မိုင်",
-  "၇မိုင်",
-  "အေဒီ",
-  "ကျောင်းကွေ့",
-  "၆မိုင်ခွဲ",
-  "တံတားဖြူ",
-  "မာလာ",
-  "စိုက်ပျိုးရေး",
-  "ဟံသာဝတီအဝိုင်း",
-  "မဟာမြိုင်",
-  "မြေနီကုန်း",
-  "မြေနီကုန်း(ပြည်လမ်း)",
-  "ဟယ်လ်ပင်",
-  "ပဲခူးကလပ်",
-  "စိန်ဂျွန်း",
-  "သရက်တောကျောင်း",
-  "ရန်ကုန်ပြည်သူ့ဆေးရုံကြီး",
-  "ဗိုလ်ချုပ်ဈေး",
-  "ဆူးလေ(ရှန်ဂရီလာ)",
-  "၆ထပ်ရုံး"
-] },
-  { id: "108", color: "#10B981", operator: "YPS", stops: [
-  "မီတာရုံး",
-  "မုခ်ဝ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "မော်လမြိုင်",
-  "မုခ်ဝ",
-  "ဂိတ်ဟောင်း",
-  "ဈေးလေး",
-  "စိန်ပန်း",
-  "၄၆လမ်းဆုံ(ညာ)",
-  "ကြားမှတ်တိုင်",
-  "ဗထူးဈေး",
-  "ဗညားဒလ",
-  "ကျောင်းလေးရှေ့",
-  "၄၄လမ်းဆုံ",
-  "ကျန်းမာရေး",
-  "ကျောင်းကွေ့",
-  "ဖြိုးစံပယ်",
-  "ခေမာ",
-  "ဂိတ်ဟောင်း",
-  "ကူးတို့ဆိပ်",
-  "ဇော်ဂျီ",
-  "ကားကြီးဂိတ်",
-  "ကားလေးဂိတ်",
-  "မဟာမြိုင်(ဆိုက်ရှေ့)",
-  "အကြော်တဲ",
-  "ဟောင်ကောင်",
-  "၆လမ်း",
-  "နာရီစင်",
-  "ပင်းယ",
-  "ကေတုမာလာကွေ့",
-  "တကောင်း",
-  "နန္ဒဝန်ဈေး",
-  "အင်းဝ",
-  "တောင်ဥက္ကလာစာတိုက်",
-  "ပုဏ္ဏမီ",
-  "ဗဟိုဈေး",
-  "သံလမ်း",
-  "မိုးကောင်း",
-  "ရန်ကင်းစာတိုက်",
-  "၁၂လုံးတန်း",
-  "၁၂လုံးတန်း (အပြန်)",
-  "ရန်ကင်းဈေး",
-  "စက်မှုကွေ့",
-  "လမ်းနီလေး(မြန်မာပလာဇာ)",
-  "ကုက္ကိုင်း",
-  "ဟာမစ်တစ်",
-  "နှင်းဆီကုန်းဘိုးဘွားရိပ်သာ",
-  "ရေခဲဆိုင်",
-  "ဗဟန်း၃လမ်း",
-  "ကျောက်တိုင်",
-  "ယောက်လမ်း(သမ္မတ)",
-  "ဆူးလေ(ရှန်ဂရီလာ)",
-  "ဆူးလေ(မြို့တော်ခန်းမ)"
-] },
-  { id: "109", color: "#F59E0B", operator: "YPS", stops: [
-  "နည်းပညာတက္ကသိုလ်",
-  "အုန်းခြံ",
-  "သုံးသုံးလုံး",
-  "ဒေါင်းလေးကွေ့",
-  "ဘုရားလမ်းဈေး",
-  "ကျောင်းရှေ့",
-  "မင်္ဂလာတိုက်",
-  "စုပေါင်းရုံး",
-  "ပေါ်တော်မူ",
-  "ရွှေပြည်အေး",
-  "ဖောက်စက်",
-  "ဆီစက်(ချမ်းမြေ့ရိပ်သာ)",
-  "စိုက်ပျိုးရေး",
-  "အမှတ်၇",
-  "ထန်းတပင်တာဆုံ",
-  "လျှပ်စစ်ရုံး",
-  "ကားလေးဂိတ်",
-  "မှော်ဘီဈေး",
-  "ရုပ်ရှင်ရုံ",
-  "စာတိုက်",
-  "အမှတ်၄လမ်းဆုံ",
-  "ကျောက်ကုန်းရွာ",
-  "ညောင်ပင်ရွာ",
-  "ဖန်ခါးကုန်း",
-  "အုတ်စက်",
-  "ကြည်ခြံပေါက်",
-  "ရေကျော်",
-  "သဲဖြူ",
-  "ကင်မလင်း",
-  "သာယာကုန်း",
-  "သဲကုန်းရွာ",
-  "တောရွာကြီး",
-  "ညောင်ပင်ပေါက်",
-  "လှော်ကားတာဆုံ",
-  "ပိုက်လုံး",
-  "ကျောင်းရှေ့(ကွန်ပျူတာတက္ကသိုလ်)",
-  "နွားခြံ",
-  "သဘာဝ",
-  "သာဓုကန်",
-  "ဇေယျာသီရီ",
-  "ပုည",
-  "အုတ်ဖို",
-  "သံဖြူဆိုင်",
-  "ရဲတပ်ရင်း(၆)",
-  "ဂိတ်ဟောင်း",
-  "ရွှေပြည်သာကွေ့",
-  "စစ်တပ်",
-  "ကျောင်းလမ်း",
-  "ကန်သာယာ",
-  "မြင်းလှည်းဂိတ်",
-  "ဘုန်းကြီးကျောင်း",
-  "ဆောက်လုပ်ရေး",
-  "ဒညင်းကုန်းလမ်းဆုံ",
-  "ဘိုခြံ",
-  "ရွာသစ်",
-  "အောင်ဆန်းဈေး",
-  "ကျောင်းဂိတ်",
-  "၁ဂိတ်",
-  "စောင်စက်ရုံ(၂)",
-  "ဖော့ကန်ဈေး",
-  "ဂျပန်လမ်း",
-  "ပြည်တော်သာ",
-  "ရွာမ",
-  "အေးသိဒ္ဓိ",
-  "အင်းစိန်ဆေးရုံ",
-  "အင်းစိန်ပန်းခြံ"
-] },
-  { id: "110", color: "#8B5CF6", operator: "YPS", stops: [
-  "အဝိုင်းထိပ်(ကွန်တိန်နာဂိတ်)",
-  "၁၄လမ်း",
-  "၁၁လမ်း",
-  "၅လမ်း",
-  "ပိတောက်ကွေ့",
-  "မြသီတာပန်းခြံ",
-  "ယုဇနမုခ်ဦး",
-  "ဆီဆိုင်",
-  "အိုးအိမ်",
-  "အောင်ချမ်းသာ",
-  "၂၅မှတ်တိုင်သစ်",
-  "မြနန္ဒာ(အလယ်ဂိတ်)",
-  "ရတနာလမ်းဆုံ",
-  "သိမ်ချောင်းလမ်းဆုံ",
-  "အင်းဝအိမ်ရာ",
-  "အထူးဂိတ်",
-  "ပွိုင့်ထိပ်",
-  "အဝေရာ",
-  "ကွမ်းယာဆိုင်",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "တံတားထိပ်",
-  "၁၈ကွေ့",
-  "ကျန်းမာရေး",
-  "ကျောင်းရှေ့",
-  "ဂိတ်ဟောင်း",
-  "ကုန်ပဒေသာ",
-  "သစ်ဆိုင်ကွေ့",
-  "ယောက်ကော်",
-  "ပန်းခြံ",
-  "ယဉ်ကျေးမှု",
-  "သုခုမ",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ",
-  "ကားကြီးဂိတ်",
-  "သစ်စက်",
-  "ကျောင်းရှေ့",
-  "ချမ်းအေး(သွားဆေးတက္ကသိုလ်)",
-  "ဝေဘူလ",
-  "သုဝဏ္ဏဈေး",
-  "မီးဒုံး",
-  "မင်းဒင်",
-  "ကျောင်းလမ်း",
-  "စုပေါင်း",
-  "ရေစက်",
-  "သုဝဏ္ဏလမ်းဆုံ",
-  "ဈေးလေး(ကြက်ဘဲဈေး)",
-  "ပုသိမ်ညွှန့်(၆လမ်း)",
-  "အေဘီစီ",
-  "ရုံးလေး",
-  "၉လမ်း",
-  "အသင်းတိုက်",
-  "ပုဇွန်တောင်စာတိုက်",
-  "ပုဇွန်တောင်ဈေး",
-  "၅၀ကွေ့",
-  "လမ်း၅၀",
-  "ဘိုကလေးဈေး",
-  "ပန်းဆိုးတန်း",
-  "ဆူးလေ(မြို့တော်ခန်းမ)"
-] },
-  { id: "111", color: "#EC4899", operator: "YPS", stops: [
-  "ကရုဏာလမ်းဆုံ",
-  "၁၀၅ဈေး",
-  "၁၀၆လမ်းဆုံ",
-  "ကျောင်းလမ်း",
-  "၁၀၇ဂိတ်ဟောင်း",
-  "ရုံးရှေ့",
-  "၇၁ဈေး",
-  "ကျောင်းလမ်း",
-  "ကားကြီးဂိတ်",
-  "ကွမ်းယာဆိုင်",
-  "၅၆လမ်းဆုံ",
-  "၅၄သမ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "ကားလေးဂိတ်",
-  "၂၀ကုန်တိုက်",
-  "သစ္စာ",
-  "ကြာကန်",
-  "စက်မှုဇုန်(၂)",
-  "ဂျီအီးစီ",
-  "သစ်ဆိုင်ကွေ့",
-  "ယောက်ကော်",
-  "ပန်းခြံ",
-  "ယဉ်ကျေးမှု",
-  "သုခုမ",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ",
-  "ကားကြီးဂိတ်",
-  "စံပြဈေး",
-  "ဘဝမြင့်",
-  "ဘီအိုစီ",
-  "ဘုရားလမ်း",
-  "ဇဝန",
-  "ခပ်ချီးယား",
-  "အသင်းတိုက်",
-  "သံလမ်း",
-  "ကျိုက္ကဆံလမ်းဆုံ",
-  "ကျောင်းရှေ့",
-  "တာမွေဈေးဟောင်း(အာယုဆေးရုံ)",
-  "တာမွေဈေး",
-  "ကျောက်မြောင်းဈေး",
-  "သီတာ",
-  "အောင်မင်္ဂလာ",
-  "ယုဇနပလာဇာ",
-  "မင်္ဂလာဈေး(၁၂၄လမ်း)",
-  "မဆလာစက်",
-  "သိမ်ဖြူစာတိုက်",
-  "သိမ်ဖြူဈေး",
-  "စိန်ပေါလ်",
-  "ကြယ်ငါးပွင့်",
-  "ဘိုကလေးဈေး",
-  "ပန်းဆိုးတန်း",
-  "ဆူးလေ(ပန်းခြံ)"
-] },
-  { id: "112", color: "#06B6D4", operator: "YPS", stops: [
-  "အောင်မြင့်မိုရ်အိမ်ရာ",
-  "၄၀ဂိတ်ဟောင်း",
-  "GTC",
-  "၁၀၆လမ်းဆုံ",
-  "ကျောင်းလမ်း",
-  "၁၀၇ဂိတ်ဟောင်း",
-  "ရုံးရှေ့",
-  "၇၁ဈေး",
-  "ကျောင်းလမ်း",
-  "ကားကြီးဂိတ်",
-  "ကွမ်းယာဆိုင်",
-  "၅၆လမ်းဆုံ",
-  "၅၄သမ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "ကားလေးဂိတ်",
-  "၂၀ကုန်တိုက်",
-  "သစ္စာ",
-  "ကြာကန်",
-  "စက်မှုဇုန်(၂)",
-  "ဂျီအီးစီ",
-  "သစ်ဆိုင်ကွေ့",
-  "ယောက်ကော်",
-  "ပန်းခြံ",
-  "ယဉ်ကျေးမှု",
-  "သုခုမ",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ",
-  "ကားကြီးဂိတ်",
-  "စံပြဈေး",
-  "ဘဝမြင့်",
-  "ဘီအိုစီ",
-  "ဘုရားလမ်း",
-  "ဇဝန",
-  "ခပ်ချီးယား",
-  "အသင်းတိုက်",
-  "သံလမ်း",
-  "ကျိုက္ကဆံလမ်းဆုံ",
-  "ကျောင်းရှေ့",
-  "တာမွေဈေးဟောင်း(အာယုဆေးရုံ)",
-  "တာမွေဈေး",
-  "ကျောက်မြောင်းဈေး",
-  "သီတာ",
-  "အောင်မင်္ဂလာ",
-  "ယုဇနပလာဇာ",
-  "မင်္ဂလာဈေး(၁၂၄လမ်း)",
-  "မဆလာစက်",
-  "သိမ်ဖြူစာတိုက်",
-  "သိမ်ဖြူဈေး",
-  "စိန်ပေါလ်",
-  "ကြယ်ငါးပွင့်",
-  "ဘိုကလေးဈေး",
-  "ပန်းဆိုးတန်း",
-  "ဆူးလေ(မြို့တော်ခန်းမ)"
-] },
-  { id: "113", color: "#F97316", operator: "YPS", stops: [
-  "ကားကြီးဂိတ်",
-  "စံပြဈေး",
-  "ဘဝမြင့်",
-  "ဘီအိုစီ",
-  "ဘုရားလမ်း",
-  "ဇဝန",
-  "ခပ်ချီးယား",
-  "အသင်းတိုက်",
-  "သံလမ်း",
-  "ကျိုက္ကဆံလမ်းဆုံ",
-  "ကျောင်းရှေ့",
-  "တာမွေဈေးဟောင်း(အာယုဆေးရုံ)",
-  "တာမွေဈေး",
-  "ကျောက်မြောင်းဈေး",
-  "သီတာ",
-  "အောင်မင်္ဂလာ",
-  "ယုဇနပလာဇာ",
-  "မင်္ဂလာဈေး(၁၂၄လမ်း)",
-  "မဆလာစက်",
-  "သိမ်ဖြူစာတိုက်",
-  "သိမ်ဖြူဈေး",
-  "စိန်ပေါလ်",
-  "ကြယ်ငါးပွင့်",
-  "ဘိုကလေးဈေး",
-  "ပန်းဆိုးတန်း",
-  "ဆူးလေ(ပန်းခြံ)"
-] },
-  { id: "114", color: "#6366F1", operator: "YPS", stops: [
-  "၁၀၈ရပ်ကွက်",
-  "၁၃ဂိတ်",
-  "ဆဒုံဒူးဝါး",
-  "ဘုန်းကြီးလမ်း",
-  "၁၂ဂတ်စ်ဆိုင်",
-  "၃၆ဂိတ်ဟောင်း",
-  "ဗိုလ်မင်းခေါင်",
-  "စိုးမြတ်",
-  "တံတားထိပ်",
-  "ဗိုလ်စောနောင်",
-  "ကျောင်းလမ်း",
-  "ကုန်ပဒေသာ",
-  "စွမ်းအင်",
-  "မ၀တလမ်းဆုံ",
-  "အားကစားကွင်း",
-  "ကပရ",
-  "တံတားထိပ်",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ",
-  "ကားကြီးဂိတ်",
-  "စံပြဈေး",
-  "ဘဝမြင့်",
-  "ဘီအိုစီ",
-  "ဘုရားလမ်း",
-  "ဇဝန",
-  "ခပ်ချီးယား",
-  "အသင်းတိုက်",
-  "သုဝဏ္ဏလမ်းဆုံ",
-  "ဈေးလေး(ကြက်ဘဲဈေး)",
-  "ပုသိမ်ညွှန့်(၆လမ်း)",
-  "အေဘီစီ",
-  "ရုံးလေး",
-  "၉လမ်း",
-  "အသင်းတိုက်",
-  "ပုဇွန်တောင်စာတိုက်",
-  "ပုဇွန်တောင်ဈေး",
-  "ညောင်တန်း",
-  "သီတာဆိပ်",
-  "အိုးရှင်း",
-  "ဂန္ဒီ",
-  "ဆီဆိုင်",
-  "ဗိုလ်တထောင်ဘုရား"
-] },
-  { id: "115", color: "#14B8A6", operator: "YPS", stops: [
-  "အောင်မင်္ဂလာအဝေးပြေးထိပ်",
-  "ဓမ္မာရုံ",
-  "၆ကွေ့",
-  "ဧရာ",
-  "ကန်သာယာလမ်းဆုံ",
-  "ဥဇ္ဇာနာ",
-  "ဣန္ဒာ",
-  "သုနန္ဒာ",
-  "ဝဇီရာ",
-  "သန္တာ",
-  "ယဈေး",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်း",
-  "ဘုန်းကြီးလမ်း",
-  "၂ဈေး",
-  "၅လမ်း",
-  "လမ်းဝ",
-  "ကမ္ဘာအေးစာတိုက်",
-  "ကမ္ဘာအေးဘုရား",
-  "ချော်တွင်းကုန်း",
-  "၁၀၆",
-  "ရိပ်သာ",
-  "လမ်းနီ",
-  "လမ်းနီလေး(မြန်မာပလာဇာ)",
-  "ကုက္ကိုင်း",
-  "ဟာမစ်တစ်",
-  "နှင်းဆီကုန်းဘိုးဘွားရိပ်သာ",
-  "ရေခဲဆိုင်",
-  "ဗဟန်း၃လမ်း",
-  "ကျောက်တိုင်",
-  "ယောက်လမ်း(သမ္မတ)",
-  "ဆူးလေ(ရှန်ဂရီလာ)",
-  "ဆူးလေ(မြို့တော်ခန်းမ)"
-] },
-  { id: "116", color: "#D946EF", operator: "YPS", stops: [
-  "၁၁၆ဂိတ်",
-  "ဆောက်လုပ်ရေး",
-  "၈၂ ဂိတ်ကြီး",
-  "စက္ကူစက်",
-  "၉ဂိတ်",
-  "ဘီအာတီ ဂိတ်ဟောင်း",
-  "ဘုရားလေးကွေ့",
-  "ညောင်ပင်",
-  "ထောက်ကြန့်လမ်းဆုံ",
-  "ပုပ္ပါးကျောင်း",
-  "လမ်းသစ်",
-  "ကျောင်းရှေ့",
-  "၁ရပ်ကွက်",
-  "၄ရပ်ကွက်",
-  "နွယ်ခွေ",
-  "ဝါးဆိုင်",
-  "ကုက္ကိုပင်",
-  "အမှတ်၃",
-  "ရေစက်",
-  "တပ်ရင်း၉",
-  "ကုန်းတလဘောင်",
-  "ပိုက်လုံး",
-  "ဂိတ်ဟောင်း(လန်ဒန်)",
-  "ဆိုင်းဘုတ်",
-  "နီလာ",
-  "မှိုရုံ",
-  "သုံးသုံးလုံး",
-  "ပုလဲလမ်းဆုံ",
-  "တံတားဖြူ",
-  "ရခိုင်ကျောင်း",
-  "၆လမ်း",
-  "ပုလဲအိမ်ရာ",
-  "၁၂လမ်း",
-  "သင်္ဃန်းကျွန်းကြီး",
-  "ညောင်ပင်",
-  "အိုးအိမ်",
-  "တရားရုံးရှေ့",
-  "အလယ်ပေါက်",
-  "အမှတ်၃လမ်းဆုံ(အဝေးပြေးထိပ်)",
-  "အောင်မင်္ဂလာအဝေးပြေးထိပ်",
-  "ဓမ္မာရုံ",
-  "၆ကွေ့",
-  "ဧရာ",
-  "ကန်သာယာလမ်းဆုံ",
-  "ဥဇ္ဇာနာ",
-  "ဣန္ဒာ",
-  "သုနန္ဒာ",
-  "ဝဇီရာ",
-  "သန္တာ",
-  "ဃဈေး",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်း",
-  "ဘုန်းကြီးလမ်း",
-  "၂ဈေး",
-  "၅လမ်း",
-  "လမ်းဝ",
-  "ကမ္ဘာအေးစာတိုက်",
-  "ကမ္ဘာအေးဘုရား",
-  "ချော်တွင်းကုန်း",
-  "၁၀၆",
-  "ရိပ်သာ",
-  "လမ်းနီ",
-  "လမ်းနီလေး(မြန်မာပလာဇာ)",
-  "ကုက္ကိုင်း",
-  "ဟာမစ်တစ်",
-  "နှင်းဆီကုန်းဘိုးဘွားရိပ်သာ",
-  "ရေခဲဆိုင်",
-  "ဗဟန်း၃လမ်း",
-  "ကျောက်တိုင်",
-  "ယောက်လမ်း(သမ္မတ)",
-  "ဆူးလေ(ရှန်ဂရီလာ)",
-  "ဆူးလေ(မြို့တော်ခန်းမ)"
-] },
-  { id: "117", color: "#475569", operator: "YPS", stops: [
-  "၃၅",
-  "၃၆",
-  "၃၇",
-  "ဒဂုံတက္ကသိုလ်",
-  "ရုံးရှေ့",
-  "၁၀မိုင်",
-  "အဝိုင်း",
-  "မုခ်ဝ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "ဈေးလမ်း",
-  "ဂိတ်ဟောင်း",
-  "ကျောင်းလမ်း",
-  "၈သမ",
-  "၇/၈လမ်းဆုံ",
-  "၇/၈လမ်းဆုံ (အပြန်)",
-  "ရုံးရှေ့(၃၈ရပ်ကွက်)",
-  "ကုန်ပဒေသာ",
-  "၄၀‌ဈေး",
-  "ဟောင်ကာင်",
-  "၆လမ်း",
-  "နာရီစင်",
-  "ပင်းယ",
-  "ကေတုမာလာကွေ့",
-  "ပါရမီညောင်ပင်",
-  "မဉ္ဇူ",
-  "ချော်တွင်းကုန်း",
-  "ကမ္ဘာအေးဘုရား",
-  "ကမ္ဘာအေးစာတိုက်",
-  "နဝဒေး",
-  "၈မိုင်ပန်းခြံ(မြိုင်ဟေဝန်)",
-  "၇မိုင်",
-  "အေဒီ",
-  "ကျောင်းကွေ့",
-  "၆မိုင်ခွဲ",
-  "တံတားဖြူ",
-  "မာလာ",
-  "လှည်းတန်းဈေး",
-  "လှည်းတန်းကျောင်းရှေ့",
-  "ဟံသာဝတီဘူတာ",
-  "နတ်စင်လမ်း",
-  "စလင်းကွင်း",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကြည့်မြင်တိုင်ဘူတာ",
-  "ကျောင်းရှေ့(RC3)",
-  "ဟုမ်းလမ်း",
-  "ဝှိုက်တော",
-  "ဆင်မင်းဈေး",
-  "ချန်မာဖီ",
-  "အလုံစာတိုက်",
-  "ဂျမခါနာ",
-  "သခင်မြပန်းခြံ"
-] },
-  { id: "118", color: "#34D399", operator: "YPS", stops: [
-  "သုခဒဂုံအိမ်ရာ",
-  "သပြေခြံ",
-  "ဒီဇင်ဘာမုဒ်ဦး",
-  "ဒီဇင်ဘာအလယ်ပေါက်",
-  "အအေးခန်း",
-  "ယူနစ်(၃)",
-  "စီးပွားရေးတက္ကသိုလ်(ရွာသာကြီး)",
-  "ကြိုဆိုရေး",
-  "သစ်တော",
-  "လမ်းသစ်",
-  "ကျောင်းရှေ့",
-  "အကြော်တဲ",
-  "ညောင်နှစ်ပင်",
-  "အကောက်ခွန်",
-  "လိုင်စင်ရုံး",
-  "ဦးထွန်းမြတ်",
-  "ကျောက်လမ်း",
-  "တပ်ရင်း၃",
-  "ကွင်းဆင်းကျောင်း",
-  "သင်တန်းကျောင်း",
-  "နတ်စင်",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ",
-  "ကားကြီးဂိတ်",
-  "သစ်စက်",
-  "ကျောင်းရှေ့",
-  "ချမ်းအေး(သွားဆေးတက္ကသိုလ်)",
-  "ဝေဘူလ",
-  "သုဝဏ္ဏဈေး",
-  "မီးဒုံး",
-  "မင်းဒင်",
-  "ကျောင်းလမ်း",
-  "စုပေါင်း",
-  "ရေစက်",
-  "သုဝဏ္ဏလမ်းဆုံ",
-  "ဈေးလေး(ကြက်ဘဲဈေး)",
-  "အာသောက",
-  "တာမွေဗလီ",
-  "တာမွေပလာဇာ",
-  "တာမွေအဝိုင်း",
-  "၆ထပ်ကြီး",
-  "ဗန်ဒါပင်",
-  "ရွှေဂုံတိုင်",
-  "အုတ်လမ်း",
-  "လင့်လမ်း",
-  "မြေနီကုန်း",
-  "မြေနီကုန်း(ပြည်လမ်း)",
-  "ဟယ်လ်ပင်",
-  "ပဲခူးကလပ်",
-  "စိန်ဂျွန်း",
-  "သရက်တောကျောင်း",
-  "အရေးပေါ်ဌာန",
-  "လသာ",
-  "သိမ်ကြီးဈေး",
-  "ဆူးလေ(မြို့တော်ခန်းမ)",
-  "ရန်ကုန်ဘူတာကြီး"
-] },
-  { id: "119", color: "#60A5FA", operator: "YPS", stops: [
-  "အောင်မင်္ဂလာအဝေးပြေး(ကားဝင်း)",
-  "အောင်မင်္ဂလာအဝေးပြေးထိပ်",
-  "ဓမ္မာရုံ",
-  "၆ကွေ့",
-  "ဧရာ",
-  "ကန်သာယာလမ်းဆုံ",
-  "ဥဇ္ဇာနာ",
-  "ဣန္ဒာ",
-  "သုနန္ဒာ",
-  "ဝဇီရာ",
-  "သန္တာ",
-  "ဃဈေး",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်း",
-  "ဘုန်းကြီးလမ်း",
-  "၂ဈေး",
-  "၅လမ်း",
-  "လမ်းဝ",
-  "နဝဒေး",
-  "၈မိုင်ပန်းခြံ(မြိုင်ဟေဝန်)",
-  "၈မိုင်",
-  "ရဲဘော်ဟောင်း",
-  "ကျိုက်ဝိုင်းဘုရား",
-  "ရဲရန်အောင်",
-  "သမိုင်းလမ်းဆုံ",
-  "သမိုင်းလမ်းဆုံ(Junction)",
-  "ကုလားကျောင်း",
-  "ခဝဲခြံ",
-  "ဘီပီအိုင် (YTU)",
-  "ကြို့ကုန်း",
-  "ဘီအိုစီ",
-  "အင်းစိန်ပန်းခြံ",
-  "အင်းစိန်ဈေး",
-  "ထောင်ဘူးဝ",
-  "ပေါက်တောဝ",
-  "အင်းစိန်ကမ်းနား",
-  "၁ထိပ်",
-  "၃ထိပ်",
-  "၅ထိပ်",
-  "ရုံးရှေ့",
-  "တံတားဖြူ",
-  "မီးခွက်ဈေး(အပေါ်ထိပ်)",
-  "၅ထိပ်(စနေမ)",
-  "စနေမ",
-  "ဘီအိုစီ",
-  "သမကုန်း",
-  "ဒဂုံဧရာအဝေးပြေး"
-] },
-  { id: "120", color: "#F472B6", operator: "YPS", stops: [
-  "အနော်မာ",
-  "ကျောင်းကွေ့",
-  "ကျောင်းကွေ့",
-  "ဘုရားရှေ့",
-  "၇ဈေး",
-  "ကျန်းမာရေး",
-  "ရုပ်ရှင်ရုံ",
-  "ထူပါရုံ",
-  "အနော်မာ",
-  "၁ဈေးကွေ့",
-  "၁ဈေးကွေ့",
-  "သဒ္ဒါရုံ",
-  "ဝက်စု",
-  "ရန်အောင်",
-  "ဒေါပုံသင်္ဘောကျင်း",
-  "ဝါဆို",
-  "မင်္ဂလာဈေး",
-  "မင်္ဂလာဈေး(၁၂၄လမ်း)",
-  "မဆလာစက်",
-  "စာတိုက်",
-  "၉၁လမ်း",
-  "ကျောက်ကွေ့",
-  "ရန်ကုန်ဘူတာကြီး"
-] },
-  { id: "121", color: "#A78BFA", stops: [
-  "သာဓုကန်",
-  "သဘာဝ",
-  "နွားခြံ",
-  "ကျောင်းရှေ့ (ကွန်ပျူတာတက္ကသိုလ်)",
-  "ပိုက်လုံး",
-  "လှော်ကားတာဆုံ",
-  "လှော်ကားတာဆုံ (အပြန်)",
-  "ကျောင်းရှေ့(လှော်ကား)",
-  "ဂိတ်ဟောင်း(လှော်ကား)",
-  "ဈေးသံလမ်း",
-  "ဘုရားလေး",
-  "ဂျိုကာ",
-  "လှော်ကားအောက်ဂိတ်",
-  "လှော်ကားအောက်ဂိတ် (အပြန်)",
-  "မိုးဆန်း",
-  "ရုံးရှေ့",
-  "အိမ်မဲကြီး",
-  "အောင်မေတ္တာ",
-  "အောင်ချမ်းသာ",
-  "ဏဈေး(အောင်သုခ)",
-  "ငြိမ်းချမ်းရေး",
-  "အမိုးကြီး",
-  "ဏကွေ့",
-  "ရုံးရှေ့",
-  "ကိုးသုံးလုံး",
-  "ဆင်နှစ်ကောင်",
-  "၃ထိပ်",
-  "ငမောက်ဈေး",
-  "ဂိတ်ဟောင်း",
-  "ရေချမ်းစင်",
-  "နဝရတ်ဈေး",
-  "ကျော်စွာ",
-  "တော်ဝင်",
-  "ရွှေညာမောင်",
-  "ကားကြီးဂိတ်",
-  "ဆေးခန်း",
-  "ထန်းခြောက်ပင်",
-  "ကားလေးဂိတ်",
-  "ခေါင်းသုံးလုံး",
-  "သံလမ်း",
-  "ရေစင်",
-  "ရွှေပြည်သာကွေ့",
-  "စစ်တပ်",
-  "ကျောင်းလမ်း",
-  "ကန်သာယာ",
-  "မြင်းလှည်းဂိတ်",
-  "ဘုန်းကြီးကျောင်း",
-  "ဆောက်လုပ်ရေး",
-  "ဒညင်းကုန်းဘူတာဈေး",
-  "၁၄လမ်းဆုံ",
-  "ဂိတ်ဟောင်း",
-  "ဧရာမြေ",
-  "မိုင်၂၀",
-  "အလယ်ရွာ",
-  "ပေါက်တန်းအဝိုင်း",
-  "ရိုးကြီး",
-  "ရိုးလေး",
-  "၁၂၄",
-  "ကျောင်းရှေ့(ရိုးလေး)",
-  "၈၆ဂိတ်ဟောင်း",
-  "ရွှေရင်အေးဘုရား",
-  "ကျောင်းလမ်း",
-  "ပဲခူးလမ်း",
-  "ဈေးလေး",
-  "၁၂သမ",
-  "အောင်မင်္ဂလာဈေး",
-  "အားမာန်",
-  "သမကုန်း",
-  "သမကုန်း (အပြန်)",
-  "ဒဂုံဧရာအဝေးပြေး"
-] },
-  { id: "122", color: "#FB7185", stops: [
-  "တိုက်ကြီးဂိတ်",
-  "တိုက်ကြီးခန်းမ",
-  "လျှပ်စစ်ရုံး",
-  "ကျောင်းလမ်း",
-  "ဖောင်ကြီးလမ်းခွဲ",
-  "ဆည်းမြောင်း",
-  "ရေတံခါး",
-  "တာဂွဘုန်းကြီးကျောင်း",
-  "ရွှေဘုံသာ",
-  "တာဂွတာဆုံ",
-  "ကံကုန်း",
-  "ခြင်္သေ့နှစ်ကောင်",
-  "အင်းရွက်ကြီး",
-  "ရွှေမြယာတာဆုံ",
-  "ငှက်ပျော်ခြံ",
-  "ကျွန်းချောင်း(ဥက္ကံ)",
-  "မြောက်ချောကုန်း",
-  "ရေကျော်",
-  "စိန်ကုလား",
-  "မြောင်းတကာတာဆုံ",
-  "ကျွဲလမ်း",
-  "အေးချမ်း",
-  "ဖရဲခင်း",
-  "ဆောက်လုပ်ရေး",
-  "စက်မှုဇုန်လမ်းသစ်",
-  "ကြက်ခြံပေါက်",
-  "ကုလားကုန်း",
-  "ဆိုက်သစ်",
-  "မနီ",
-  "ဆေးဝါးကုန်ကြမ်း",
-  "ဘောလုံးစက်",
-  "ဖိနပ်စက်",
-  "ဂျပန်ဆိုက်",
-  "မြို့ကျောင်းလမ်းဆုံ",
-  "ဆည်မြောင်းဌာနလမ်းဆုံ",
-  "နည်းပညာတက္ကသိုလ်",
-  "အုန်းခြံ",
-  "သုံးသုံးလုံး",
-  "ဒေါင်းလေးကွေ့",
-  "ဘုရားလမ်းဈေး",
-  "ကျောင်းရှေ့",
-  "မင်္ဂလာတိုက်",
-  "စုပေါင်းရုံး",
-  "ပေါ်တော်မူ",
-  "ရွှေပြည်အေး",
-  "ဖောက်စက်",
-  "ဆီစက်(ချမ်းမြေ့ရိပ်သာ)",
-  "စိုက်ပျိုးရေး",
-  "အမှတ်၇",
-  "ထန်းတပင်တာဆုံ",
-  "လျှပ်စစ်ရုံး",
-  "ကားလေးဂိတ်",
-  "မှော်ဘီဈေး",
-  "ရုပ်ရှင်ရုံ",
-  "စာတိုက်",
-  "အမှတ်၄လမ်းဆုံ",
-  "ရုံးပေါက်",
-  "လေထီး ၁၆",
-  "ဆပ်ပလိုင်း",
-  "ဂျီအီး",
-  "လေတပ်",
-  "မော်တော်ယာဉ်",
-  "ဗိုလ်သင်တန်း",
-  "ဆက်သွယ်ရေး",
-  "၉၁ဂိတ်ကြီး",
-  "ဆပ်သွားတော ဘုန်းကြီးကျောင်း",
-  "မိန်းမလိုင်း",
-  "စမ်းချောင်းပေါက်(ဂျပန်ဘုရား)",
-  "ရဲဘော်ဈေး",
-  "ကြက်ဖြူကန်",
-  "အသုံးလုံး",
-  "ဆေးခန်း",
-  "မီးစက်",
-  "ကိုးလုံးကွင်း ဘုန်းကြီးကျောင်း",
-  "မင်္ဂလာဈေး",
-  "တင့်ကား",
-  "ရုံသံ",
-  "၂ဂိတ်",
-  "ရေအိုးစင် (ပက်စီ)",
-  "ဆောက်လုပ်ရေး",
-  "၈၂ ဂိတ်ကြီး",
-  "စက္ကူစက်",
-  "၉ဂိတ်",
-  "ဘီအာတီ ဂိတ်ဟောင်း",
-  "ဘုရားလေးကွေ့",
-  "ညောင်ပင်",
-  "ထောက်ကြန့်လမ်းဆုံ",
-  "ပုပ္ပါးကျောင်း",
-  "လမ်းသစ်",
-  "ကျောင်းရှေ့",
-  "နွယ်ခွေ(ပြည်လမ်း)",
-  "စီပီလိုက်",
-  "ဒေဝူး",
-  "ဆေးဂဲလ်",
-  "မွေးမြူရေး",
-  "ရေစင်",
-  "ခြံပေါက် (ပျဉ်းမပင်)",
-  "ကုန်းထိပ်",
-  "ဘုရားလေး",
-  "ရဲဘော်ဟောင်း",
-  "ရှမ်းစု",
-  "ဘိုခြံ",
-  "တစ်နံပါတ်",
-  "ဆင်မင်း",
-  "ရေကြည်အိုင်",
-  "ဝါယာလက်",
-  "ကျိုက္ကလို့",
-  "ကျိုက္ကလဲ့/ဆပ်ပလိုင်း",
-  "ဗဟိုနိုင်ငံရေး",
-  "မင်္ဂလာဒုံဈေး",
-  "ခရေပင်လမ်းခွဲ(ပြည်လမ်း)",
-  "မင်္ဂလာဒုံစာတိုက်",
-  "ဆေးကျောင်း",
-  "ဘီအိုစီ",
-  "ပန်းခြံကုန်း",
-  "ကုလားဘုရား",
-  "ထန်းပင်ကုန်း",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ဝပ်ရှော့",
-  "အုတ်ကျင်းဝ",
-  "အင်းစိန်ပန်းခြံ",
-  "အင်းစိန်ဈေး",
-  "အင်းစိန်ပန်းခြံ(မရပ်တော့)",
-  "ဘီအိုစီ",
-  "ကြို့ကုန်း",
-  "ဘီပီအိုင် (YTU)",
-  "ခဝဲခြံ",
-  "ကုလားကျောင်း"
-]},
-  { id: "123", color: "#2DD4BF", stops: [
-  "အဖျောက်ဂိတ်",
-  "ချောင်းသုံးခွ",
-  "အာရှလမ်းဆုံ",
-  "မီးသွေးကျင်း",
-  "အဖျောက်လမ်းဆုံ",
-  "အဖျောက်တာဆုံ",
-  "ဥတိုတာဆုံ",
-  "ကျိုက်စစ်ကိုင်းရွာလွယ်",
-  "ကြည်ကုန်းလမ်းဆုံ",
-  "ရင်တိုက်ကွင်းရွာလွယ်",
-  "ကျီးပင်အင်းလမ်းဆုံ",
-  "ဂျိုးဖြူရွာလယ်",
-  "ကျောက်တိုက်ကွေ့",
-  "အောင်စိုးမိုးဂိတ်",
-  "တိုက်ကြီးဂိတ်",
-  "တိုက်ကြီးခန်းမ",
-  "လျှပ်စစ်ရုံး",
-  "ကျောင်းလမ်း",
-  "ဖောင်ကြီးလမ်းခွဲ",
-  "ဆည်းမြောင်း",
-  "ရေတံခါး",
-  "တာဂွဘုန်းကြီးကျောင်း",
-  "ရွှေဘုံသာ",
-  "တာဂွတာဆုံ",
-  "ကံကုန်း",
-  "ခြင်္သေ့နှစ်ကောင်",
-  "အင်းရွက်ကြီး",
-  "ရွှေမြယာတာဆုံ",
-  "ငှက်ပျော်ခြံ",
-  "ကျွန်းချောင်း(ဥက္ကံ)",
-  "မြောက်ချောကုန်း",
-  "ရေကျော်",
-  "စိန်ကုလား",
-  "မြောင်းတကာတာဆုံ",
-  "ကျွဲလမ်း",
-  "အေးချမ်း",
-  "ဖရဲခင်း",
-  "ဆောက်လုပ်ရေး",
-  "စက်မှုဇုန်လမ်းသစ်",
-  "ကြက်ခြံပေါက်",
-  "ကုလားကုန်း",
-  "ဆိုက်သစ်",
-  "မနီ",
-  "ဆေးဝါးကုန်ကြမ်း",
-  "ဘောလုံးစက်",
-  "ဖိနပ်စက်",
-  "ဂျပန်ဆိုက်",
-  "မြို့ကျောင်းလမ်းဆုံ",
-  "ဆည်မြောင်းဌာနလမ်းဆုံ",
-  "နည်းပညာတက္ကသိုလ်",
-  "အုန်းခြံ",
-  "သုံးသုံးလုံး",
-  "ဒေါင်းလေးကွေ့",
-  "ဘုရားလမ်းဈေး",
-  "ကျောင်းရှေ့",
-  "မင်္ဂလာတိုက်",
-  "စုပေါင်းရုံး",
-  "ပေါ်တော်မူ",
-  "ရွှေပြည်အေး",
-  "ဖောက်စက်",
-  "ဆီစက်(ချမ်းမြေ့ရိပ်သာ)",
-  "စိုက်ပျိုးရေး",
-  "အမှတ်၇",
-  "ထန်းတပင်တာဆုံ",
-  "လျှပ်စစ်ရုံး",
-  "ကားလေးဂိတ်",
-  "မှော်ဘီဈေး",
-  "ရုပ်ရှင်ရုံ",
-  "စာတိုက်",
-  "အမှတ်၄လမ်းဆုံ",
-  "ရုံးပေါက်",
-  "လေထီး ၁၆",
-  "ဆပ်ပလိုင်း",
-  "ဂျီအီး",
-  "လေတပ်",
-  "မော်တော်ယာဉ်",
-  "ဗိုလ်သင်တန်း",
-  "ဆက်သွယ်ရေး",
-  "၉၁ဂိတ်ကြီး",
-  "ဆပ်သွားတော ဘုန်းကြီးကျောင်း",
-  "မိန်းမလိုင်း",
-  "စမ်းချောင်းပေါက်(ဂျပန်ဘုရား)",
-  "ရဲဘော်ဈေး",
-  "ကြက်ဖြူကန်",
-  "အသုံးလုံး",
-  "ဆေးခန်း",
-  "မီးစက်",
-  "ကိုးလုံးကွင်း ဘုန်းကြီးကျောင်း",
-  "မင်္ဂလာဈေး",
-  "တင့်ကား",
-  "ရုံသံ",
-  "၂ဂိတ်",
-  "ရေအိုးစင် (ပက်စီ)",
-  "ဆောက်လုပ်ရေး",
-  "၈၂ ဂိတ်ကြီး",
-  "စက္ကူစက်",
-  "၉ဂိတ်",
-  "ဘီအာတီ ဂိတ်ဟောင်း",
-  "ဘုရားလေးကွေ့",
-  "ညောင်ပင်",
-  "ထောက်ကြန့်လမ်းဆုံ",
-  "ပုပ္ပါးကျောင်း",
-  "လမ်းသစ်",
-  "ကျောင်းရှေ့",
-  "နွယ်ခွေ(ပြည်လမ်း)",
-  "စီပီလိုက်",
-  "ဒေဝူး",
-  "ဆေးဂဲလ်",
-  "မွေးမြူရေး",
-  "ရေစင်",
-  "ခြံပေါက် (ပျဉ်းမပင်)",
-  "ကုန်းထိပ်",
-  "ဘုရားလေး",
-  "ရဲဘော်ဟောင်း",
-  "ရှမ်းစု",
-  "ဘိုခြံ",
-  "တစ်နံပါတ်",
-  "ဆင်မင်း",
-  "ရေကြည်အိုင်",
-  "ဝါယာလက်",
-  "ကျိုက္ကလို့",
-  "ကျိုက္ကလဲ့/ဆပ်ပလိုင်း",
-  "ဗဟိုနိုင်ငံရေး",
-  "မင်္ဂလာဒုံဈေး",
-  "ခရေပင်လမ်းခွဲ(ပြည်လမ်း)",
-  "မင်္ဂလာဒုံစာတိုက်",
-  "ဆေးကျောင်း",
-  "ဘီအိုစီ",
-  "ပန်းခြံကုန်း",
-  "ကုလားဘုရား",
-  "ထန်းပင်ကုန်း",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ဝပ်ရှော့",
-  "အုတ်ကျင်းဝ",
-  "အင်းစိန်ပန်းခြံ",
-  "အင်းစိန်ပန်းခြံ(မရပ်တော့)",
-  "ဘီအိုစီ"
-] },
-  { id: "124", color: "#EF4444", stops: ["အဖျောက်", "တော်လတီ", "ရေပေါ်သောင်တံတား", "ကျူတောလမ်းဆုံ", "မြို့ချောင်းလမ်း", "မှော်ဘီ(TU)", "ထောက်ကြန့်", "ပြည်လမ်း", "ဝါယာလက်", "ခရေပင်လမ်းခွဲ", "စော်ဘွားကြီးကုန်း", "အင်းစိန်ပန်းခြံ", "ဘီအိုစီ"] },
-  { id: "125", color: "#3B82F6", stops: ["ဒဂုံဆိပ်ကမ်း(၈၉လမ်းဆုံ)", "ယုဇနဥယျာဉ်မြို့တော်", "သံလွင်လမ်း", "မောင်းမကန်သာလမ်း", "စည်ပင်လမ်း", "ပြည်ထောင်စုလမ်း", "တောင်မြောက်လမ်းဆုံ", "စံပြဈေး", "သံသုမာလမ်း", "ဘေလီ", "ပါရမီ(ညောင်ပင်)", "ကမ္ဘာအေးဘုရား", "နဝဒေး", "၈မိုင်ပန်းခြံ", "ပြည်လမ်း", "စော်ဘွားကြီးကုန်း", "အင်းစိန်ပန်းခြံ", "အောင်ဇေယျတံတား", "မီးခွက်ဈေး", "ညောင်တုန်းလမ်း", "ဘီအိုစီအဝိုင်း", "သမကုန်း", "ဒဂုံဧရာအဝေးပြေး"] },
-  { id: "126", color: "#10B981", stops: [
-  "ရိုးကြီး",
-  "ရိုးလေး",
-  "၁၂၄",
-  "ကျောင်းရှေ့(ရိုးလေး)",
-  "၈၆ဂိတ်ဟောင်း",
-  "ရွှေရင်အေးဘုရား",
-  "ကျောင်းလမ်း",
-  "ပဲခူးလမ်း",
-  "ဈေးလေး",
-  "၁၂သမ",
-  "အောင်မင်္ဂလာဈေး",
-  "အားမာန်",
-  "သမကုန်း",
-  "ဘီအိုစီ",
-  "စနေမ",
-  "၅ထိပ်(စနေမ)",
-  "မီးခွက်ဈေး(အပေါ်ထိပ်)",
-  "တံတားဖြူ",
-  "ရုံးရှေ့",
-  "၅ထိပ်",
-  "၃ထိပ်",
-  "၁ထိပ်",
-  "အင်းစိန်ကမ်းနား",
-  "ပေါက်တောဝ",
-  "ထောင်ဘူးဝ",
-  "အင်းစိန်ဈေး",
-  "အင်းစိန်ပန်းခြံ",
-  "အုတ်ကျင်းဝ",
-  "ဝပ်ရှော့",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ"
-]},
-  { id: "127", color: "#F59E0B", stops: ["မြန်မာ့သားကောင်းစစ်မှုထမ်းဟောင်းအိမ်ရာ", "ဘုရင့်နောင်လမ်း", "လေးထောင့်ကန်", "အမှတ်(၂)လမ်း", "တောင်/မြောက်လမ်းဆုံ", "(၇/၈)လမ်းဆုံ", "ဘုန်းကြီးကျောင်းကွေ့", "ဒဂုံတက္ကသိုလ်", "မင်းရဲကျော်စွာလမ်း", "စိတ်ကျန်းမာရေးဆေးရုံ", "မစိုထိပ်", "အမှတ် (၂) လမ်း", "လေးထောင့်ကန်", "ဘုရင့်နောင်လမ်း", "မြန်မာ့သားကောင်းစစ်မှုထမ်းဟောင်းအိမ်ရာ"] },
-  { id: "128", color: "#8B5CF6", operator: "YPS", stops: [
-  "၃၅",
-  "၃၆",
-  "၃၇",
-  "ဒဂုံတက္ကသိုလ်",
-  "ရုံးရှေ့",
-  "၁၀မိုင်",
-  "အဝိုင်း",
-  "မုခ်ဝ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "ဈေးလမ်း",
-  "ဂိတ်ဟောင်း",
-  "ကျောင်းလမ်း",
-  "၈သမ",
-  "၇/၈လမ်းဆုံ",
-  "၇/၈လမ်းဆုံ (အပြန်)",
-  "ရုံးရှေ့(၃၈ရပ်ကွက်)",
-  "ကုန်ပဒေသာ",
-  "စွမ်းအင်",
-  "မဝတလမ်းဆုံ",
-  "မန္တလေးလမ်း",
-  "စစ်တောင်း",
-  "ကျောင်းလမ်း",
-  "ဆက်သွယ်ရေး",
-  "၃၅ (မြောက်ဒဂုံ)",
-  "သင်းဝင်",
-  "နာရီစင်",
-  "ဘေလီ",
-  "မြင်သာဈေး",
-  "တောင်ဥက္ကလာဘုရား",
-  "မိုးဆွေ",
-  "၃၁ဂိတ်",
-  "စီမံကိန်း",
-  "လိုင်စင်ရုံး",
-  "စံပြဈေး",
-  "စံပြဈေး (အပြန်)",
-  "ဘဝမြင့်",
-  "ဘီအိုစီ",
-  "ဘုရားလမ်း",
-  "ဇဝန",
-  "ခပ်ချီးယား",
-  "အသင်းတိုက်",
-  "သံလမ်း",
-  "ကျိုက္ကဆံလမ်းဆုံ",
-  "ကျောင်းရှေ့",
-  "တာမွေအဝိုင်း",
-  "၆ထပ်ကြီး",
-  "ဗန်ဒါပင်",
-  "ရွှေဂုံတိုင်",
-  "အုတ်လမ်း",
-  "လင့်လမ်း",
-  "မြေနီကုန်း",
-  "မြေနီကုန်း(ပြည်လမ်း)",
-  "ဟယ်လ်ပင်",
-  "ပဲခူးကလပ်",
-  "စိန်ဂျွန်း",
-  "ဗဟိုရ်စည်/မော်တင်",
-  "သခင်မြပန်းခြံ"
-]},
-  { id: "129", color: "#EC4899", stops: [
-  "ရေလယ်ကျောက်တန်း",
-  "ပန်းတောလှဆိပ်",
-  "အုန်းနှစ်ပင်",
-  "ဂါတ်တဲကွေ့",
-  "ပဲလှော်ဖို",
-  "အောင်ချမ်းသာ",
-  "မုန့်ဖို ၈",
-  "ချမ်းမြေ့သာယာ",
-  "ပါဒကြီး",
-  "သိမ်ကုန်း",
-  "မြွေဘုရား",
-  "ညောင်ဝိုင်း",
-  "မော်တော်ဆိပ်",
-  "စိုက်ပျိုးရေး",
-  "တမံဦးကုန်းထိပ်",
-  "တမံဦးဘုန်းကြီးကျောင်းရှေ့",
-  "ပဲလှော်ဖို",
-  "ဂိတ်ဟောင်း",
-  "ဂိတ်သစ်",
-  "အောင်သပြေခြံ",
-  "နည်းပညာတက္ကသိုလ်(TTU)",
-  "ကိုတင်မောင်ခြံဝ",
-  "ဘုရားလေး",
-  "ဆေးခန်းရှေ့",
-  "ထားမလုံ",
-  "ဘုရားငါးဆူ",
-  "စော်ဘွားကုန်းထိပ်",
-  "နတ်စင်ကုန်း",
-  "ဂိတ်ဝ",
-  "ကျိုက်အင်း",
-  "ဆန်စက်",
-  "စစ်စည်းတော",
-  "နတ်စင်တရာ",
-  "ဘုရားကုန်းလမ်းဆုံ",
-  "ကျိုက်ခေါက်ဘုရားရှေ့",
-  "၁၈ကုန်းထိပ်",
-  "အောင်ချမ်းသာ",
-  "ဆည်မြောင်း",
-  "သမကောလိပ်",
-  "ကျားဘုရား",
-  "ဆေးရုံကွေ့",
-  "နာရီစင်",
-  "နံ့သာကုန်း",
-  "အညာစု",
-  "အောက်ကွေ့",
-  "အောင်သုခ",
-  "လက်မှတ်ဂိတ်",
-  "ဆောက်လုပ်ရေး",
-  "၁၀၈တောင်စေတီ",
-  "သာကေတအဝိုင်း",
-  "စဂိတ်",
-  "မြေနီ",
-  "ကျောင်းကွေ့",
-  "အနော်မာ",
-  "ကျောက်တိုင်",
-  "ကျောက်တိုင် (အပြန်)",
-  "မြေနီ (အပြန်)",
-  "တပ်ဖွဲ့",
-  "၁ဈေးကွေ့",
-  "သဒ္ဒါရုံ",
-  "ဝက်စု",
-  "ရန်အောင်",
-  "ဒေါပုံသင်္ဘောကျင်း",
-  "ဝါဆို",
-  "မင်္ဂလာဈေး",
-  "ယုဇနပလာဇာ",
-  "အောင်မင်္ဂလာ",
-  "သီတာ",
-  "ကျောက်မြောင်းဈေး",
-  "ဗျိုင်းရေအိုးစင်(သျှင်ပါဂူ)",
-  "တာမွေအဝိုင်း",
-  "မြလမ်း",
-  "လမ်းဆုံ",
-  "မင်းလမ်း",
-  "ဂွတ္တလစ်ဈေးကွေ့",
-  "အနောက်မြင်းပြိုင်ကွင်း"
-]},
-  { id: "130", color: "#06B6D4", operator: "YPS", stops: [
-  "အနောက်ပိုင်းနည်းပညာတက္ကသိုလ်",
-  "အဝိုင်း",
-  "မြစိမ်းရောင်",
-  "တပ်ရင်း ၉",
-  "ဆောက်လုပ်ရေး",
-  "ဒဂုံဧရာအဝေးပြေး",
-  "သမကုန်း",
-  "ဘီအိုစီ",
-  "စနေမ",
-  "၅ထိပ်(စနေမ)",
-  "မီးခွက်ဈေး(အပေါ်ထိပ်)",
-  "တံတားဖြူ",
-  "ရုံးရှေ့",
-  "၅ထိပ်",
-  "၃ထိပ်",
-  "၁ထိပ်",
-  "အင်းစိန်ကမ်းနား",
-  "ပေါက်တောဝ",
-  "ပေါက်တောဝ (အပြန်)",
-  "ညောင်ပင်",
-  "မြို့သစ်ဈေး",
-  "ပိတောက်လမ်း",
-  "ကြို့ကုန်း",
-  "ဘုရင့်နောင်ဈေးပွဲရုံ",
-  "ဘုရင့်နောင်လမ်းဆုံ",
-  "အုတ်ကျင်း",
-  "သီရိမင်္ဂလာဈေးသစ်",
-  "အိုဝမ်း",
-  "ဘူတာရုံလမ်း",
-  "ချောင်းဝ",
-  "ရွာမကွေ့",
-  "ရေကြောင်း",
-  "သင်္ဘောကျင်း",
-  "ဆင်မလိုက်",
-  "နတ်စင်လမ်း",
-  "ကမ်းနားဈေး",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကြည့်မြင်တိုင်စာတိုက်",
-  "သဲကွင်း",
-  "ဟုမ်းလမ်း",
-  "သီရိမင်္ဂလာဈေးဟောင်း",
-  "ဆင်မင်းဈေး",
-  "ဒန်အိုးစက်",
-  "သစ်တော",
-  "ထော်လီကွေ့",
-  "သခင်မြပန်းခြံ"
-] },
-  { id: "131", color: "#F97316", operator: "YPS", stops: [
-  "ရန်ကုန်အနောက်ပိုင်းတက္ကသိုလ်",
-  "အဆောင်ရှေ့ (WYU)",
-  "သရက်ခြံ",
-  "ဒိတ်ကုန်း",
-  "ပေါက်တန်း",
-  "ပေါက်တန်းအဝိုင်း",
-  "ပေါက်တန်းအဝိုင်း (အပြန်)",
-  "အလယ်ရွာ",
-  "မိုင်၂၀",
-  "ဧရာမြေ",
-  "ဂိတ်ဟောင်း",
-  "၁၄လမ်းဆုံ",
-  "ဒညင်းကုန်းဘူတာဈေး",
-  "ဒညင်းကုန်းလမ်းဆုံ",
-  "ဘိုခြံ",
-  "ရွာသစ်",
-  "အောင်ဆန်းဈေး",
-  "ကျောင်းဂိတ်",
-  "၁ဂိတ်",
-  "စောင်စက်ရုံ(၂)",
-  "ဖော့ကန်ဈေး",
-  "ဂျပန်လမ်း",
-  "ပြည်တော်သာ",
-  "သရက်တော",
-  "ဘိုကုန်း",
-  "ဟိုက်ပက်",
-  "မညက",
-  "အင်းစိန်ဆေးရုံ",
-  "အင်းစိန်ပန်းခြံ",
-  "အင်းစိန်ပန်းခြံ(မရပ်တော့)",
-  "ဘီအိုစီ",
-  "ကြို့ကုန်း",
-  "ဘီပီအိုင် (YTU)",
-  "ခဝဲခြံ",
-  "ကုလားကျောင်း",
-  "သမိုင်းလမ်းဆုံ(Junction)",
-  "သမိုင်းလမ်းဆုံ",
-  "ဘုရားလမ်း",
-  "အုတ်ကျင်း",
-  "ဘာတာ",
-  "သံလမ်း",
-  "သုခလမ်း",
-  "ဘူတာရုံလမ်း",
-  "ဆင်ရေတွင်း",
-  "စံရိပ်ငြိမ်",
-  "လှည်းတန်း",
-  "စိုက်ပျိုးရေး",
-  "ဟံသာဝတီအဝိုင်း",
-  "မဟာမြိုင်",
-  "မြေနီကုန်း",
-  "မြေနီကုန်း(ပြည်လမ်း)",
-  "ဟယ်လ်ပင်",
-  "ပဲခူးကလပ်",
-  "စိန်ဂျွန်း",
-  "ဗဟိုရ်စည်/မော်တင်",
-  "ကီလီ",
-  "မော်တင်"
-] },
-  { id: "132", color: "#6366F1", operator: "YPS", stops: [
-  "ရန်ကုန်အနောက်ပိုင်းတက္ကသိုလ်",
-  "အဆောင်ရှေ့ (WYU)",
-  "သရက်ခြံ",
-  "ဒိတ်ကုန်း",
-  "ပေါက်တန်း",
-  "ပေါက်တန်းအဝိုင်း",
-  "ရိုးကြီး",
-  "ရိုးလေး",
-  "၁၂၄",
-  "ကျောင်းရှေ့(ရိုးလေး)",
-  "၈၆ဂိတ်ဟောင်း",
-  "ရွှေရင်အေးဘုရား",
-  "ကျောင်းလမ်း",
-  "ပဲခူးလမ်း",
-  "ဈေးလေး",
-  "၁၂သမ",
-  "အောင်မင်္ဂလာဈေး",
-  "အားမာန်",
-  "သမကုန်း",
-  "ဘီအိုစီ",
-  "စနေမ",
-  "၅ထိပ်(စနေမ)",
-  "မီးခွက်ဈေး(အပေါ်ထိပ်)",
-  "တံတားဖြူ",
-  "ရုံးရှေ့",
-  "၅ထိပ်",
-  "၃ထိပ်",
-  "၁ထိပ်",
-  "အင်းစိန်ကမ်းနား",
-  "ပေါက်တောဝ",
-  "ပေါက်တောဝ (အပြန်)",
-  "ညောင်ပင်",
-  "မြို့သစ်ဈေး",
-  "ပိတောက်လမ်း",
-  "ကြို့ကုန်း",
-  "ဘုရင့်နောင်ဈေးပွဲရုံ",
-  "ဓမ္မာရုံ",
-  "ဘုရင့်နောင်လမ်းဆုံ(တံတားအောက်)",
-  "ဈေးဘူတာ",
-  "ဦးဘဟန်",
-  "ကြွေ၁",
-  "သမိုင်းလမ်းဆုံ",
-  "ရဲရန်အောင်",
-  "ရွှေကျိုက်ဝိုင်းဘုရား",
-  "ရဲဘော်ဟောင်း",
-  "၈မိုင်",
-  "၈မိုင်ပန်းခြံ(မြိုင်ဟေဝန်)",
-  "နဝဒေး",
-  "ကမ္ဘာအေးစာတိုက်",
-  "ကမ္ဘာအေးဘုရား",
-  "ချော်တွင်းကုန်း",
-  "၁၀၆",
-  "ရိပ်သာ",
-  "လမ်းနီ",
-  "စက်မှုကွေ့",
-  "ရန်ကင်းဈေး",
-  "၁၂လုံးတန်း",
-  "၁၂လုံးတန်း (အပြန်)",
-  "ကြားမှတ်တိုင်",
-  "ဂွတ္တလစ်ဈေးကွေ့",
-  "မင်းလမ်း",
-  "လမ်းဆုံ",
-  "မြလမ်း",
-  "တာမွေအဝိုင်း",
-  "တာမွေပလာဇာ",
-  "တာမွေဗလီ",
-  "အာသောက",
-  "ပုသိမ်ညွှန့်(၆လမ်း)",
-  "အေဘီစီ",
-  "ရုံးလေး",
-  "၉လမ်း",
-  "အသင်းတိုက်",
-  "ပုဇွန်တောင်စာတိုက်",
-  "ပုဇွန်တောင်ဈေး",
-  "၅၀ကွေ့",
-  "ဆီဆိုင်",
-  "ဗိုလ်တထောင်ဘုရား"
-] },
-  { id: "133", color: "#14B8A6", operator: "YPS", stops: [
-  "ယုဇနမုခ်ဦး",
-  "မြသီတာပန်းခြံ",
-  "ပိတောက်ကွေ့",
-  "၅လမ်း",
-  "၁၁လမ်း",
-  "၁၄လမ်း",
-  "အဝိုင်းထိပ်(ကွန်တိန်နာဂိတ်)",
-  "၁၇လမ်း",
-  "၁၁လမ်း (အပြန်)",
-  "၅လမ်း (အပြန်)",
-  "ပိတောက်ကွေ့ (အပြန်)",
-  "အိုးအိမ်",
-  "အောင်ချမ်းသာ",
-  "မှတ်တိုင်သစ်",
-  "မြနန္ဒာ(အလယ်ဂိတ်)",
-  "ရတနာလမ်းဆုံ",
-  "သိမ်ချောင်းလမ်းဆုံ",
-  "၆၅ရပ်ကွက်",
-  "ဆောက်လုပ်ရေး",
-  "စာဥ",
-  "သစ်ဆိပ်",
-  "ဒုဋ္ဌဝတီ",
-  "သံလမ်းကွေ့",
-  "ဗေလုဝကွေ့",
-  "လယ်ယာ",
-  "၄၉ဂိတ်ဟောင်း",
-  "ဆောက်လုပ်ရေး",
-  "၁၀၈တောင်စေတီ",
-  "သာကေတအဝိုင်း",
-  "စဂိတ်",
-  "မြေနီ",
-  "ကျောင်းကွေ့",
-  "အနော်မာ",
-  "ကျောက်တိုင်",
-  "ကျောက်တိုင် (အပြန်)",
-  "မြေနီ (အပြန်)",
-  "တပ်ဖွဲ့",
-  "၁ဈေးကွေ့",
-  "သဒ္ဒါရုံ",
-  "ဝက်စု",
-  "ရန်အောင်",
-  "ဒေါပုံသင်္ဘောကျင်း",
-  "အိုးရှင်း",
-  "ဂန္ဒီ",
-  "လမ်း၅၀",
-  "လမ်း၄၆",
-  "ပန်းဆိုးတန်း",
-  "ဘားလမ်း",
-  "လမ်း၃၀",
-  "ကုန်ဈေးတန်း(သိမ်ကြီးဈေး)",
-  "လသာ",
-  "အရေးပေါ်ဌာန",
-  "ရန်ကုန်ပြည်သူ့ဆေးရုံကြီး"
-] },
-  { id: "134", color: "#D946EF", operator: "YPS", stops: [
-  "စဂိတ်အစ",
-  "ဦးတရုတ်",
-  "ရိုးမရိပ်သာအိမ်ရာ",
-  "ကျီစုသုသာန်",
-  "စက်ရုံပေါက်",
-  "၅ဂိတ်အစ",
-  "ကျောင်းဈေး",
-  "ဆေးရုံကွေ့",
-  "စက်ရုံကွေ့",
-  "ကနောင်အိမ်ရာ",
-  "ဘုရားလေး",
-  "၈/၉လမ်းဆုံ",
-  "ကျောက်လမ်း",
-  "မြေနီလမ်း",
-  "ကြိုဆိုရေး",
-  "ပါရမီ",
-  "သာဂေါင်ကြီး",
-  "သစ္စာလေးတန်",
-  "မြနန္ဒာ",
-  "ရတနာလမ်းဆုံ",
-  "ပွိုင့်ထိပ်",
-  "အထူးဂိတ်",
-  "အင်းဝအိမ်ရာ",
-  "သိမ်ချောင်းလမ်းဆုံ",
-  "၆၅ရပ်ကွက်",
-  "ဆောက်လုပ်ရေး",
-  "စာဥ",
-  "သစ်ဆိပ်",
-  "ဒုဋ္ဌဝတီ",
-  "သံလမ်းကွေ့",
-  "ဘုရားလေးကွေ့",
-  "၃၄ကားကြီးဂိတ်",
-  "၁၀ဈေး",
-  "သာကေတအဝိုင်း(တံတားနား)",
-  "သာကေတအဝိုင်း",
-  "ဓမ္မာရုံ",
-  "ခိုင်ရွှေဝါ",
-  "အရက်ဆိုင်ကွေ့",
-  "ဂိတ်ဟောင်း",
-  "ဝေဇယန္တာ",
-  "၇ဈေး",
-  "ကျန်းမာရေး",
-  "ရုပ်ရှင်ရုံ",
-  "နယ်မြေရုံး",
-  "စာတိုက်",
-  "ဆီဆိုင်",
-  "ခင်မမကြား",
-  "၃ဈေး",
-  "အရှေ့ကြား",
-  "၃ဂိတ်ဟောင်း",
-  "မာန်ပြေ",
-  "ရန်ပြေ",
-  "သင်္ဘောကျင်း",
-  "ဝါဆို",
-  "မင်္ဂလာဈေး",
-  "မင်္ဂလာမွန်ဈေး",
-  "ဘီအိုစီ",
-  "မျက်စိဆေးရုံ",
-  "ဖိုးစိန်လမ်း",
-  "နတ်မောက်ကျောင်းရှေ့",
-  "ဂျမား",
-  "ရေခဲဆိုင်",
-  "ဗဟန်း ၃ လမ်း",
-  "ရွှေတိဂုံဘုရား(တောင်ဘက်မုခ်)",
-  "ဆက်သွယ်ရေး",
-  "ဆောက်လုပ်ရေး",
-  "လေဟာပြင်ဈေး",
-  "လသာ"
-] },
-  { id: "135", color: "#475569", operator: "YPS", stops: [
-  "ဆောက်လုပ်ရေး",
-  "စာဥ",
-  "သစ်ဆိပ်",
-  "ဒုဋ္ဌဝတီ",
-  "သံလမ်းကွေ့",
-  "ဗေလုဝကွေ့",
-  "လယ်ယာ",
-  "၄၉ဂိတ်ဟောင်း",
-  "ဆောက်လုပ်ရေး (သာကေတ)",
-  "၁၀၈တောင်စေတီ",
-  "သာကေတအဝိုင်း",
-  "ဓမ္မာရုံ",
-  "ခိုင်ရွှေဝါ",
-  "အရက်ဆိုင်ကွေ့",
-  "၄၉အစိမ်းဂိတ်",
-  "ကြယ်ငါးပွင့်",
-  "ဝေဇယန္တာ",
-  "၅ကွေ့",
-  "ရုပ်ရှင်ရုံ",
-  "ထူပါရုံ",
-  "အနော်မာ",
-  "၁ဈေးကွေ့",
-  "၁ဈေးကွေ့ (အပြန်)",
-  "တပ်ဖွဲ့",
-  "မြေနီ",
-  "ကျောက်တိုင်",
-  "သုဝဏ္ဏလမ်းဆုံ",
-  "အသင်းတိုက်",
-  "ခပ်ချီးယား",
-  "ဇဝနလမ်းဆုံ",
-  "သရက်တော",
-  "အောင်ရတနာ",
-  "၁၄/၁၅လမ်းဆုံ",
-  "ပဒေသာ",
-  "တောင်ဥက္ကလာစာတိုက်",
-  "အင်းဝ",
-  "နန္ဒဝန်ဈေး",
-  "တကောင်း",
-  "ကေတုမာလာကွေ့",
-  "ကေတုမာလာကွေ့ (အပြန်)",
-  "ပါရမီညောင်ပင်",
-  "မဉ္ဇူ",
-  "ချော်တွင်းကုန်း",
-  "ကမ္ဘာအေးဘုရား",
-  "ကမ္ဘာအေးစာတိုက်",
-  "လမ်းဝ",
-  "၅လမ်း",
-  "၂ဈေး",
-  "ဘုန်းကြီးလမ်း",
-  "ကျောက်ရေတွင်း",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ဂိတ်ဟောင်း",
-  "ဂန္ဓာရုံ",
-  "ခေမာ",
-  "ဖြိုးစံပယ်",
-  "ကျောင်းကွေ့",
-  "ကျန်းမာရေး",
-  "၄၄လမ်းဆုံ",
-  "ကျောင်းလေးရှေ့",
-  "ဗညားဒလ",
-  "ဗထူးဈေး",
-  "ကြားမှတ်တိုင်",
-  "၄၆လမ်းဆုံ(ဘယ်)",
-  "၄၆လမ်းဆုံ(ညာ)",
-  "စိန်ပန်း",
-  "ဈေးလေး",
-  "ဂိတ်ဟောင်း",
-  "မုခ်ဝ",
-  "တသသ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "မုခ်ဝ (ဒဂုံအရှေ့)",
-  "အဝိုင်း",
-  "၁၀မိုင်",
-  "ရုံးရှေ့",
-  "၃၇",
-  "၃၆",
-  "၃၅"
-] },
-  { id: "136", color: "#34D399", operator: "YPS", stops: [
-  "အောင်မင်္ဂလာအဝေးပြေး(ကားဝင်း)",
-  "အောင်မင်္ဂလာအဝေးပြေးထိပ်",
-  "အမှတ် ၃ လမ်းဆုံ",
-  "ခရေပင်ရိပ်မွန်",
-  "သုံးရာသီ",
-  "ရာသက်ပန်",
-  "ခရေပင်လမ်းခွဲ(ခရေပင်လမ်း)",
-  "ခရေပင်လမ်းခွဲ(ပြည်လမ်း)",
-  "မင်္ဂလာဒုံစာတိုက်",
-  "ဆေးကျောင်း",
-  "ဘီအိုစီ",
-  "ပန်းခြံကုန်း",
-  "ကုလားဘုရား",
-  "ထန်းပင်ကုန်း",
-  "စော်ဘွားကြီးကုန်းလမ်းဆုံ",
-  "ဝပ်ရှော့",
-  "အုတ်ကျင်းဝ",
-  "အင်းစိန်ပန်းခြံ",
-  "အင်းစိန်ပန်းခြံ(မရပ်တော့)",
-  "နို့ဈေး",
-  "ဝပ်ရှော့",
-  "ပန်းဈေး",
-  "ဘီပီအိုင်/ကြို့ကုန်း",
-  "ခဝဲခြံ",
-  "သမိုင်းမြို့သစ်",
-  "သမိုင်းဘူတာ",
-  "မာလာမြိုင်(၅/၆)",
-  "အုတ်ကျင်း",
-  "သီရိမြိုင်",
-  "သံလမ်း",
-  "ကမာရွတ်",
-  "ဘူတာရုံလမ်း",
-  "ရွာမကွေ့",
-  "ဆိုက်ကားဂိတ်",
-  "ဘီအာဘီ",
-  "ခိုင်ရွှေဝါ",
-  "ပြည်ရိပ်မွန်",
-  "ရဲဝင်း",
-  "ဟံသာဝတီဘူတာ",
-  "နတ်စင်လမ်း",
-  "စလင်းကွင်း",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကြည့်မြင်တိုင်ဘူတာ",
-  "၉ထပ်ကြီး",
-  "ရှမ်းလမ်း",
-  "ရွှေမန်း",
-  "မြေနီကုန်း",
-  "လင့်လမ်း",
-  "မြောက်ဘက်မုခ်",
-  "အရှေ့ဘက်မုခ်",
-  "ရွှေတိဂုံဘုရား(တောင်ဘက်မုခ်)",
-  "ဆက်သွယ်ရေး",
-  "ဆောက်လုပ်ရေး",
-  "လေဟာပြင်ဈေး",
-  "လသာ"
-] },
-  { id: "137", color: "#60A5FA", operator: "YPS", stops: [
-  "၃၅",
-  "၃၆",
-  "၃၇",
-  "ဒဂုံတက္ကသိုလ်",
-  "ရုံးရှေ့",
-  "၁၀မိုင်",
-  "အဝိုင်း",
-  "မုခ်ဝ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "တသသ",
-  "မုခ်ဝ",
-  "ဂိတ်ဟောင်း",
-  "ဈေးလေး",
-  "စိန်ပန်း",
-  "၄၆လမ်းဆုံ(ညာ)",
-  "၄၆လမ်းဆုံ",
-  "မြဝတီ",
-  "အအေးဆိုင်",
-  "ရုံးရှေ့(၄၆ရပ်ကွက်)",
-  "၅၀ကွေ့",
-  "၅၀ကွေ့ (အပြန်)",
-  "ကျန်းမာရေး",
-  "ဒူးယားလမ်း",
-  "၅၀ဈေး",
-  "ကြိုးတံတား",
-  "ကရုဏာကွေ့",
-  "ဂိတ်ဟောင်းကွေ့",
-  "စံပယ်ဖြူ",
-  "ကျောင်းလမ်း",
-  "ကန်သာယာလမ်းဆုံ",
-  "ဈဈေး",
-  "ရုပ်ရှင်ရုံ",
-  "နွယ်သာဂီ",
-  "မြရတနာ",
-  "ရုံး",
-  "ဥက္ကာ(ဆေး-၂)",
-  "မေဓာဝီလမ်းဆုံ",
-  "ရုံးသစ်",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်း",
-  "ဘုန်းကြီးလမ်း",
-  "၂ဈေး",
-  "၅လမ်း",
-  "လမ်းဝ",
-  "နဝဒေး",
-  "၈မိုင်ပန်းခြံ(မြိုင်ဟေဝန်)",
-  "၈မိုင်",
-  "ရဲဘော်ဟောင်း",
-  "ရွှေကျိုက်ဝိုင်းဘုရား",
-  "ရဲရန်အောင်",
-  "သမိုင်းလမ်းဆုံ",
-  "ကြွေ",
-  "ဦးဘဟန်",
-  "ဈေးဘူတာ",
-  "ဘုရင့်နောင်လမ်းဆုံ(တံတားအောက်)",
-  "ဓမ္မာရုံ",
-  "ဘုရင့်နောင်ဈေးပွဲရုံ",
-  "ကြို့ကုန်း",
-  "ပိတောက်လမ်း",
-  "မြို့သစ်ဈေး",
-  "ညောင်ပင်",
-  "ပေါက်တောဝ",
-  "ထောင်ဘူးဝ",
-  "အင်းစိန်ဈေး",
-  "အင်းစိန်ပန်းခြံ(မရပ်တော့)",
-  "နို့ဈေး",
-  "ဝပ်ရှော့",
-  "ပန်းဈေး",
-  "ဘီပီအိုင်/ကြို့ကုန်း"
-] },
-  { id: "138", color: "#F472B6", operator: "YPS", stops: [
-  "၁၃၈ ဂိတ်",
-  "ဆင်ဖုံ",
-  "ထွန်းရွှေဝါ",
-  "ဝါးဆိုင်",
-  "၁၁ ဈေး",
-  "အောင်မင်္ဂလာ",
-  "အောင်မေတ္တာ",
-  "၁၂ ဈေး",
-  "၁၀၃ ဂိတ်ဟောင်း",
-  "ဆင်ဖုံကွေ့",
-  "တံတားဖြူ",
-  "ထ(၆)ကျောင်း",
-  "ဆေးရုံကွေ့",
-  "မီးသတ်",
-  "မင်းထူးကျော်",
-  "ကျောက်လမ်းထိပ်",
-  "မော်ကျွန်း",
-  "ကားကြီးဂိတ်",
-  "ဓမ္မာရုံ",
-  "ကျောင်းလမ်း",
-  "၆ ကွေ့",
-  "ဓမ္မာရုံ (အပြန်)",
-  "အောင်မင်္ဂလာအဝေးပြေးထိပ်",
-  "အမှတ် ၃ လမ်းဆုံ",
-  "ခရေပင်ရိပ်မွန်",
-  "သုံးရာသီ",
-  "ရာသက်ပန်",
-  "ခရေပင်လမ်းခွဲ(ခရေပင်လမ်း)",
-  "ဆေးကျောင်းပေါက်",
-  "၁၀၆",
-  "ပန်းခြံ",
-  "၆၄၆",
-  "အစာစက်",
-  "ဒညင်းကုန်းလမ်းဆုံ",
-  "ဒညင်းကုန်းဘူတာဈေး",
-  "၁၄ လမ်းဆုံ",
-  "ဂိတ်ဟောင်း(၁၉၉)",
-  "ဧရာမြေ",
-  "မိုင် ၂၀",
-  "အလယ်ရွာ",
-  "ပေါက်တန်းအဝိုင်း",
-  "ရိုးကြီး",
-  "ရိုးလေး",
-  "၁၂၄",
-  "ကျောင်းရှေ့(ရိုးလေး)",
-  "၈၆ ဂိတ်ဟောင်း",
-  "ရွှေရင်အေးဘုရား",
-  "ကျောင်းလမ်း",
-  "ပဲခူးလမ်း",
-  "ဈေးလေး",
-  "၁၂ သမ",
-  "အောင်မင်္ဂလာဈေး",
-  "အားမာန်",
-  "သမကုန်း",
-  "သမကုန်း (အပြန်)",
-  "ဒဂုံဧရာအဝေးပြေး"
-] },
-  { id: "139", color: "#A78BFA", operator: "YPS", stops: [
-  "၃၅",
-  "၃၆",
-  "၃၇",
-  "ဒဂုံတက္ကသိုလ်",
-  "ရုံးရှေ့",
-  "၁၀မိုင်",
-  "အဝိုင်း",
-  "မုခ်ဝ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "ဈေးလမ်း",
-  "ဂိတ်ဟောင်း",
-  "ကျောင်းလမ်း",
-  "၈သမ",
-  "၇/၈လမ်းဆုံ",
-  "၇/၈လမ်းဆုံ (အပြန်)",
-  "ရုံးရှေ့(၃၈ရပ်ကွက်)",
-  "ကုန်ပဒေသာ",
-  "စွမ်းအင်",
-  "မဝတလမ်းဆုံ",
-  "မန္တလေးလမ်း",
-  "စစ်တောင်း",
-  "ကျောင်းလမ်း",
-  "ဆက်သွယ်ရေး",
-  "၃၅ (မြောက်ဒဂုံ)",
-  "သင်းဝင်",
-  "နာရီစင်",
-  "ဘေလီ",
-  "မြင်သာဈေး",
-  "တောင်ဥက္ကလာဘုရား",
-  "ဂိတ်ဟောင်း",
-  "ဘုရားလမ်း",
-  "တောင်ဥက္ကလာစာတိုက်",
-  "ပုဏ္ဏမီ",
-  "ဗဟိုဈေး",
-  "သံလမ်း",
-  "မိုးကောင်း",
-  "ရန်ကင်းစာတိုက်",
-  "၁၂လုံးတန်း",
-  "ကြားမှတ်တိုင်",
-  "ဂွတ္တလစ်ဈေးကွေ့",
-  "မင်းလမ်း",
-  "လမ်းဆုံ",
-  "မြလမ်း",
-  "တာမွေအဝိုင်း",
-  "တာမွေအဝိုင်း (အပြန်)",
-  "၆ထပ်ကြီး",
-  "ဗန်ဒါပင်",
-  "ရွှေဂုံတိုင်",
-  "ရေခဲဆိုင်",
-  "ဗဟန်း ၃ လမ်း",
-  "ကျောက်တိုင်",
-  "ယောက်လမ်း(သမ္မတ)",
-  "ဆူးလေ(ရှန်ဂရီလာ)",
-  "ဆူးလေ(မြို့တော်ခန်းမ)"
-]},
-  { id: "140", color: "#FB7185", operator: "YPS", stops: [
-  "လှော်ကားတာဆုံ",
-  "ပိုက်လုံး",
-  "ကျောင်းရှေ့(ကွန်ပျူတာတက္ကသိုလ်)",
-  "နွားခြံ",
-  "သဘာဝ",
-  "သာဓုကန်",
-  "ဇေယျာသီရိ",
-  "ပုည",
-  "အုတ်ဖို",
-  "သံဖြူဆိုင်",
-  "ရဲတပ်ရင်း(၆)",
-  "ဂိတ်ဟောင်း",
-  "ရွှေပြည်သာကွေ့",
-  "စစ်တပ်",
-  "ကျောင်းလမ်း",
-  "ကန်သာယာ",
-  "မြင်းလှည်းဂိတ်",
-  "ဘုန်းကြီးကျောင်း",
-  "ဆောက်လုပ်ရေး",
-  "ဒညင်းကုန်းလမ်းဆုံ",
-  "ဘိုခြံ",
-  "ရွာသစ်",
-  "အောင်ဆန်းဈေး",
-  "ကျောင်းဂိတ်",
-  "၁ ဂိတ်",
-  "စောင်စက်ရုံ(၂)",
-  "ဖော့ကန်ဈေး",
-  "ဂျပန်လမ်း",
-  "ပြည်တော်သာ",
-  "ရွာမ",
-  "အေးသိဒ္ဓိ",
-  "အင်းစိန်ဆေးရုံ",
-  "အင်းစိန်ပန်းခြံ",
-  "ဘီအိုစီ",
-  "ကြို့ကုန်း",
-  "ဘီပီအိုင်(YTU)",
-  "ခဝဲခြံ",
-  "ကုလားကျောင်း",
-  "သမိုင်းလမ်းဆုံ(Junction)",
-  "သမိုင်းလမ်းဆုံ",
-  "ဘုရားလမ်း",
-  "အုတ်ကျင်း",
-  "ဘာတာ",
-  "သံလမ်း",
-  "သုခလမ်း",
-  "ဘူတာရုံလမ်း",
-  "ဆင်ရေတွင်း",
-  "စံရိပ်ငြိမ်",
-  "လှည်းတန်း",
-  "စိုက်ပျိုးရေး",
-  "ဟံသာဝတီအဝိုင်း",
-  "မဟာမြိုင်",
-  "မြေနီကုန်း",
-  "မြေနီကုန်း(ပြည်လမ်း)",
-  "ဟယ်လ်ပင်",
-  "ပဲခူးကလပ်",
-  "စိန်ဂျွန်း",
-  "ဗဟိုရ်စည်/မော်တင်",
-  "သခင်မြပန်းခြံ"
-] },
-  { id: "141", color: "#2DD4BF", operator: "YPS", stops: [
-  "ရွှေပြည်သာလိန်ကုန်း",
-  "၇ ကွက်သစ်",
-  "ဒဒွေး",
-  "လှော်ကားအောက်ဂိတ်",
-  "မိုးဆန်း",
-  "ရုံးရှေ့",
-  "အိမ်မဲကြီး",
-  "အောင်မေတ္တာ",
-  "အောင်ချမ်းသာ",
-  "ဈေး(အောင်သုခ)",
-  "ငြိမ်းချမ်းရေး",
-  "အမိုးကြီး",
-  "ဏကွေ့",
-  "ရုံးရှေ့ (ရွှေပြည်သာ)",
-  "ကိုးသုံးလုံး",
-  "ဆင်နှစ်ကောင်",
-  "၃ ထိပ်",
-  "ငမောက်ဈေး",
-  "ဂိတ်ဟောင်း",
-  "ရေချမ်းစင်",
-  "နဝရတ်ဈေး",
-  "ကျော်စွာ",
-  "တော်ဝင်",
-  "ရွှေညာမောင်",
-  "ကားကြီးဂိတ်",
-  "ဆေးခန်း",
-  "ထန်းခြောက်ပင်",
-  "ကားလေးဂိတ်",
-  "၈၁ ဂိတ်",
-  "ပျော်ဘွယ်",
-  "ဇင်ယော်",
-  "ပုလဲလမ်းဆုံ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "တံတားထိပ်",
-  "၁၉၉ ဂိတ်ဟောင်း",
-  "၁၄ လမ်းဆုံ",
-  "ဒညင်းကုန်းဘူတာဈေး",
-  "ဒညင်းကုန်းလမ်းဆုံ",
-  "ဘိုခြံ",
-  "ရွာသစ်",
-  "အောင်ဆန်းဈေး",
-  "ကျောင်းဂိတ်",
-  "၁ ဂိတ်",
-  "စောင်စက်ရုံ(၂)",
-  "ဖော့ကန်ဈေး",
-  "ဂျပန်လမ်း",
-  "ပြည်တော်သာ",
-  "ရွာမ",
-  "ဆရာတော်ကြီး",
-  "မင်းစေတီ",
-  "၄၈ ဂိတ်",
-  "ပေါက်တောဝ",
-  "ညောင်ပင်",
-  "မြို့သစ်ဈေး",
-  "ပိတောက်လမ်း",
-  "ကြို့ကုန်း",
-  "ဘုရင့်နောင်ဈေးပွဲရုံ",
-  "ဓမ္မာရုံ",
-  "ဘုရင့်နောင်လမ်းဆုံ",
-  "အုတ်ကျင်း",
-  "သီရိမင်္ဂလာဈေးသစ်",
-  "အိုဝမ်း",
-  "ဘူတာရုံလမ်း",
-  "ချောင်းဝ",
-  "ရွာမကွေ့",
-  "ရေကြောင်း",
-  "သင်္ဘောကျင်း",
-  "ဆင်မလိုက်",
-  "နတ်စင်လမ်း",
-  "ကမ်းနားဈေး",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကြည့်မြင်တိုင်စာတိုက်",
-  "သဲကွင်း",
-  "ဟုမ်းလမ်း",
-  "သီရိမင်္ဂလာဈေးဟောင်း",
-  "ဆင်မင်းဈေး",
-  "ဒန်အိုးစက်",
-  "သစ်တော",
-  "ထော်လီကွေ့",
-  "သခင်မြပန်းခြံ"
-] },
-  { id: "142", color: "#EF4444", operator: "YPS", stops: [
-  "ရွှေပြည်သာလိန်ကုန်း",
-  "၇ ကွက်သစ်",
-  "ဒဒွေး",
-  "လှော်ကားအောက်ဂိတ်",
-  "မိုးဆန်း",
-  "ရုံးရှေ့",
-  "အိမ်မဲကြီး",
-  "အောင်မေတ္တာ",
-  "အောင်ချမ်းသာ",
-  "ဈေး(အောင်သုခ)",
-  "ငြိမ်းချမ်းရေး",
-  "အမိုးကြီး",
-  "ဏကွေ့",
-  "ရုံးရှေ့ (ရွှေပြည်သာ)",
-  "ကိုးသုံးလုံး",
-  "ဆင်နှစ်ကောင်",
-  "၃ ထိပ်",
-  "ငမောက်ဈေး",
-  "ဂိတ်ဟောင်း",
-  "ရေချမ်းစင်",
-  "နဝရတ်ဈေး",
-  "ကျော်စွာ",
-  "တော်ဝင်",
-  "ရွှေညာမောင်",
-  "ကားကြီးဂိတ်",
-  "ဆေးခန်း",
-  "ထန်းခြောက်ပင်",
-  "ကားလေးဂိတ်",
-  "၈၁ ဂိတ်",
-  "ပျော်ဘွယ်",
-  "ဇင်ယော်",
-  "ပုလဲလမ်းဆုံ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "တံတားထိပ်",
-  "၁၉၉ ဂိတ်ဟောင်း",
-  "၁၄ လမ်းဆုံ",
-  "ဒညင်းကုန်းဘူတာဈေး",
-  "ဒညင်းကုန်းလမ်းဆုံ",
-  "ဘိုခြံ",
-  "ရွာသစ်",
-  "အောင်ဆန်းဈေး",
-  "ကျောင်းဂိတ်",
-  "၁ ဂိတ်",
-  "စောင်စက်ရုံ(၂)",
-  "ဖော့ကန်ဈေး",
-  "ဂျပန်လမ်း",
-  "ပြည်တော်သာ",
-  "ရွာမ",
-  "ဆရာတော်ကြီး",
-  "မင်းစေတီ",
-  "၄၈ ဂိတ်",
-  "ပေါက်တောဝ",
-  "ညောင်ပင်",
-  "မြို့သစ်ဈေး",
-  "ပိတောက်လမ်း",
-  "ကြို့ကုန်း",
-  "ဘုရင့်နောင်ဈေးပွဲရုံ",
-  "ဓမ္မာရုံ",
-  "ဘုရင့်နောင်လမ်းဆုံ",
-  "အုတ်ကျင်း",
-  "သီရိမင်္ဂလာဈေးသစ်",
-  "အိုဝမ်း",
-  "ဘူတာရုံလမ်း",
-  "ချောင်းဝ",
-  "ရွာမကွေ့",
-  "ရေကြောင်း",
-  "သင်္ဘောကျင်း",
-  "ဆင်မလိုက်",
-  "နတ်စင်လမ်း",
-  "ကမ်းနားဈေး",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကြည့်မြင်တိုင်စာတိုက်",
-  "သဲကွင်း",
-  "ဟုမ်းလမ်း",
-  "သီရိမင်္ဂလာဈေးဟောင်း",
-  "ဆင်မင်းဈေး",
-  "ဒန်အိုးစက်",
-  "သစ်တော",
-  "ထော်လီကွေ့",
-  "သခင်မြပန်းခြံ"
-] },
-  { id: "143", color: "#3B82F6", operator: "YPS", stops: [
-  "ဝါးတရာ",
-  "ကောထိုက်စက်ရုံ",
-  "၁၉ လမ်းဆုံ",
-  "၇၄ ဂိတ်",
-  "ရွှေဂူမိုးကုတ်",
-  "နှင်းဆီနီ",
-  "ပုသိမ်ကျောင်းလမ်း",
-  "ကျောင်းရှေ့",
-  "သံဒင်းဈေး",
-  "ငွေပုလဲ",
-  "ကမ္ဘာလုံး",
-  "ပေါ်တော်မူ",
-  "သံဒင်းမောင်",
-  "၁၂၄ ဂိတ်ဟောင်း",
-  "ထန်းခြောက်ပင်",
-  "ကားလေးဂိတ်",
-  "ခေါင်းသုံးလုံး",
-  "သံလမ်း",
-  "ရေစင်",
-  "ရွှေပြည်သာကွေ့",
-  "စစ်တပ်",
-  "ကျောင်းလမ်း",
-  "ကန်သာယာ",
-  "မြင်းလှည်းဂိတ်",
-  "ဘုန်းကြီးကျောင်း",
-  "ဆောက်လုပ်ရေး",
-  "ဒညင်းကုန်းလမ်းဆုံ",
-  "ဘိုခြံ",
-  "ရွာသစ်",
-  "အောင်ဆန်းဈေး",
-  "ကျောင်းဂိတ်",
-  "၁ ဂိတ်",
-  "စောင်စက်ရုံ(၂)",
-  "ဖော့ကန်ဈေး",
-  "ဂျပန်လမ်း",
-  "ပြည်တော်သာ",
-  "ရွာမ",
-  "ဆရာတော်ကြီး",
-  "မင်းစေတီ",
-  "၄၈ ဂိတ်",
-  "ပေါက်တောဝ",
-  "ညောင်ပင်",
-  "မြို့သစ်ဈေး",
-  "ပိတောက်လမ်း",
-  "ကြို့ကုန်း",
-  "ဘုရင့်နောင်ဈေးပွဲရုံ",
-  "ဓမ္မာရုံ",
-  "ဘုရင့်နောင်လမ်းဆုံ",
-  "အုတ်ကျင်း",
-  "သီရိမင်္ဂလာဈေးသစ်",
-  "အိုဝမ်း",
-  "ဘူတာရုံလမ်း",
-  "ချောင်းဝ",
-  "ရွာမကွေ့",
-  "ရေကြောင်း",
-  "သင်္ဘောကျင်း",
-  "ဆင်မလိုက်",
-  "နတ်စင်လမ်း",
-  "ကမ်းနားဈေး",
-  "ကြည့်မြင်တိုင်ညဈေး",
-  "ကြည့်မြင်တိုင်စာတိုက်",
-  "သဲကွင်း",
-  "ဟုမ်းလမ်း",
-  "သီရိမင်္ဂလာဈေးဟောင်း",
-  "ဆင်မင်းဈေး",
-  "ဒန်အိုးစက်",
-  "သစ်တော",
-  "ထော်လီကွေ့",
-  "သခင်မြပန်းခြံ"
-  ]
-  },
-  { id: "144", color: "#F472B6", operator: "YPS", stops: [
-  "မြသီတာပန်းခြံ",
-  "ပိတောက်ကွေ့",
-  "၅ လမ်း",
-  "၁၁ လမ်း",
-  "၁၄ လမ်း",
-  "အဝိုင်းထိပ်(ကွန်တိန်နာဂိတ်)",
-  "မုခ်ဦး",
-  "၁၇ လမ်း",
-  "၁၁ လမ်း (အပြန်)",
-  "၅ လမ်း (အပြန်)",
-  "ပိတောက်ကွေ့ (အပြန်)",
-  "အိုးအိမ်",
-  "အောင်ချမ်းသာ",
-  "မှတ်တိုင်သစ်",
-  "မြနန္ဒာ(အလယ်ဂိတ်)",
-  "ရတနာလမ်းဆုံ",
-  "သိမ်ချောင်းလမ်းဆုံ",
-  "၆၅ ရပ်ကွက်",
-  "ဆောက်လုပ်ရေး",
-  "ပုလဲကန်",
-  "ဘီအမ်ဂိတ်",
-  "မင်းကွန်းဈေး",
-  "ရုံးရှေ့",
-  "ဧရာတီလမ်းဆုံ",
-  "ဈေးလေး",
-  "စက်မှုဇုန်(၂)",
-  "ဂျီအီးစီ",
-  "သစ်ဆိုင်ကွေ့",
-  "ယောက်ကော်",
-  "ပန်းခြံ",
-  "ယဉ်ကျေးမှု",
-  "သုခုမ",
-  "တောင်မြောက်လမ်းဆုံ",
-  "တံတားဖြူ",
-  "ကားကြီးဂိတ်",
-  "သစ်စက်",
-  "ကျောင်းရှေ့",
-  "ချမ်းအေး(သွားဆေးတက္ကသိုလ်)",
-  "ဝေဘူလ",
-  "သုဝဏ္ဏဈေး",
-  "မီးဒုံး",
-  "မင်းဒင်",
-  "ကျောင်းလမ်း",
-  "စုပေါင်း",
-  "ငွေရေစက်",
-  "သုဝဏ္ဏလမ်းဆုံ",
-  "ဈေးလေး(ကြက်ဘဲဈေး)",
-  "အာသောက",
-  "တာမွေဗလီ",
-  "တာမွေပလာဇာ",
-  "တာမွေအဝိုင်း",
-  "၆ ထပ်ကြီး",
-  "ဗန်ဒါပင်",
-  "ရွှေဂုံတိုင်",
-  "အုတ်လမ်း",
-  "လင့်လမ်း",
-  "မြေနီကုန်း",
-  "ရွှေမန်း",
-  "ရှမ်းလမ်း",
-  "၉ ထပ်ကြီး",
-  "ကျောင်းရှေ့(RC3)",
-  "ဟုမ်းလမ်း",
-  "ဝှိုက်တော",
-  "ဆင်မင်းဈေး",
-  "ချန်မာဖီ",
-  "အလုံစာတိုက်",
-  "ဂျမခါနာ",
-  "သခင်မြပန်းခြံ"
-] },
-  { id: "145", color: "#F472B6", operator: "YPS", stops: [
-  "၁၄၅ ဂိတ်",
-  "ရဲအကြပ်သင်တန်းကျောင်း",
-  "လှော်ကားတာဆုံ",
-  "ကျောင်းရှေ့(လှော်ကား)",
-  "ဂိတ်ဟောင်း(လှော်ကား)",
-  "ဈေးသံလမ်း",
-  "ဘုရားလေး",
-  "ဂျိုကာ",
-  "လှော်ကားအောက်ဂိတ်",
-  "မိုးဆန်း",
-  "တရုံးရှေ့",
-  "အိမ်မဲကြီး",
-  "အောင်မေတ္တာ",
-  "အောင်ချမ်းသာ",
-  "ဏဈေး(အောင်သုခ)",
-  "ငြိမ်းချမ်းရေး",
-  "အမိုးကြီး",
-  "ဏကွေ့",
-  "ရုံးရှေ့",
-  "ကိုးသုံးလုံး",
-  "ဆင်နှစ်ကောင်",
-  "၃ ထိပ်",
-  "ငမောက်ဈေး",
-  "ဂိတ်ဟောင်း",
-  "ရေချမ်းစင်",
-  "နဝရတ်ဈေး",
-  "ကျော်စွာ",
-  "တော်ဝင်",
-  "ရွှေညာမောင်",
-  "ကားကြီးဂိတ်",
-  "ဆေးခန်း",
-  "ထန်းခြောက်ပင်",
-  "ကားလေးဂိတ်",
-  "၈၁ ဂိတ်",
-  "ပျော်ဘွယ်",
-  "ဇင်ယော်",
-  "ပုလဲလမ်းဆုံ",
-  "ဘုန်းကြီးကျောင်းကွေ့",
-  "တံတားထိပ်",
-  "၁၉၉ ဂိတ်ဟောင်း",
-  "၁၄ လမ်းဆုံ",
-  "ဒညင်းကုန်းဘူတာဈေး",
-  "ဒညင်းကုန်းလမ်းဆုံ",
-  "ဘိုခြံ",
-  "ရွာသစ်",
-  "အောင်ဆန်းဈေး",
-  "ကျောင်းဂိတ်",
-  "၁ ဂိတ်",
-  "စောင်စက်ရုံ(၂)",
-  "ဖော့ကန်ဈေး",
-  "ဂျပန်လမ်း",
-  "ပြည်တော်သာ",
-  "သရက်တော",
-  "ဘိုကုန်း",
-  "ဟိုက်ပက်",
-  "မညက",
-  "အင်းစိန်ဆေးရုံ",
-  "အင်းစိန်ပန်းခြံ",
-  "အင်းစိန်ပန်းခြံ (အပြန်)",
-  "ဘီအိုစီ",
-  "ကြို့ကုန်း",
-  "ဘီပီအိုင်(YTU)",
-  "ခဝဲခြံ",
-  "ကုလားကျောင်း",
-  "သမိုင်းလမ်းဆုံ(Junction)",
-  "သမိုင်းလမ်းဆုံ",
-  "ဘုရားလမ်း",
-  "အုတ်ကျင်း",
-  "ဘာတာ",
-  "သံလမ်း",
-  "သုခလမ်း",
-  "ဘူတာရုံလမ်း",
-  "ဆင်ရေတွင်း",
-  "စံရိပ်ငြိမ်",
-  "လှည်းတန်း",
-  "စိုက်ပျိုးရေး",
-  "ဟံသာဝတီအဝိုင်း",
-  "မဟာမြိုင်",
-  "မြေနီကုန်း",
-  "မြေနီကုန်း (အပြန်)",
-  "လင့်လမ်း",
-  "အုတ်လမ်း",
-  "ရွှေဂုံတိုင်",
-  "ဗန်ဒါပင်",
-  "၅ ထပ်ကြီး",
-  "၆ ထပ်ကြီး",
-  "တာမွေအဝိုင်း",
-  "တာမွေပလာဇာ",
-  "တာမွေဈေး",
-  "ကျောက်မြောင်းဈေး",
-  "သီတာ",
-  "အောင်မင်္ဂလာ",
-  "ယုဇနပလာဇာ",
-  "မင်္ဂလာဈေး",
-  "ပုဇွန်တောင်စာတိုက်",
-  "ပုဇွန်တောင်ဈေး",
-  "၅၀ ကွေ့",
-  "ဆီဆိုင်",
-  "ဗိုလ်တထောင်ဘုရား"
-] },
-
-  { id: "လေဆိပ် - ဆူးလေ (ပြည်လမ်း)", color: "#10B981", stops: [
-  "အောင်မင်္ဂလာအဝေးပြေး(ကားဝင်း)",
-  "အောင်မင်္ဂလာအဝေးပြေးထိပ်",
-  "ဓမ္မာရုံ",
-  "၆ ကွေ့",
-  "ဧရာ",
-  "ကန်သာယာလမ်းဆုံ",
-  "ဥဇ္ဇာနာ",
-  "ဣန္ဒာ",
-  "သုနန္ဒာ",
-  "ဝဇီရာ",
-  "သန္တာ",
-  "ဃ ဈေး",
-  "မြောက်ဥက္ကလာပအဝိုင်း",
-  "ကျောက်ရေတွင်းတံတား",
-  "၉ မိုင်ခွဲ",
-  "၉ မိုင်",
-  "အေဝမ်း",
-  "မဟာစည်",
-  "၈ မိုင်",
-  "၇ မိုင်",
-  "အေဒီ",
-  "ကျောင်းကွေ့",
-  "၆ မိုင်ခွဲ",
-  "တံတားဖြူ",
-  "မာလာ",
-  "စိုက်ပျိုးရေး",
-  "ဟံသာဝတီအဝိုင်း",
-  "မဟာမြိုင်",
-  "မြေနီကုန်း",
-  "မြေနီကုန်း(ပြည်လမ်း)",
-  "ဟယ်လ်ပင်",
-  "ပဲခူးကလပ်",
-  "စိန်ဂျွန်း",
-  "သရက်တောကျောင်း",
-  "ရန်ကုန်ပြည်သူ့ဆေးရုံကြီး",
-  "ဗိုလ်ချုပ်ဈေး",
-  "ဆူးလေ(ရှန်ဂရီလာ)",
-  "ဆူးလေ(မြို့တော်ခန်းမ)"
-] },
-  { id: "လေဆိပ် - ဆူးလေ (ကမ္ဘာအေး)", color: "#F59E0B", stops: ["အောင်မင်္ဂလာအဝေးပြေး", "၆ကွေ့", "သုဓမ္မာလမ်း", "မြောက်ဥက္ကလာပအဝိုင်း", "လေဆိပ်", "ကျောက်ရေတွင်းတံတား", "ပြည်လမ်း", "၈မိုင်လမ်းဆုံ", "ကမ္ဘာအေးဘုရား", "မြန်မာပလာဇာ", "ဗဟန်း(၃)လမ်း", "ရန်ကုန်ဘူတာကြီး", "ဆူးလေ"] },
-  { id: "မြို့ပတ်", color: "#71717A", stops: ["အောင်မင်္ဂလာအဝေးပြေး", "၆ကွေ့", "မြောက်ဥက္ကလာပအဝိုင်း", "၈မိုင်လမ်းဆုံ", "သမိုင်းလမ်းဆုံ", "ဘုရင့်နောင့်လမ်းဆုံ", "သီရိမင်္ဂလာဈေးသစ်", "ဆင်မလိုက်", "ကြည့်မြင်တိုင်ကမ်းနားလမ်း", "သခင်မြပန်းခြံ", "ကမ်းနားလမ်း", "ဗိုလ်တထောင်ဘုရား", "အောက်ပုဇွန်တောင်လမ်း", "အေဘီစီ", "သုဝဏ္ဏလမ်းဆုံ", "စံပြဈေး", "ဘေလီ", "ပါရမီ(ညောင်ပင်)", "ဝေဇယန္တာလမ်း", "မြောက်ဥက္ကလာပအဝိုင်း", "အောင်မင်္ဂလာအဝေးပြေး"] }
-];
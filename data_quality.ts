@@ -0,0 +1,196 @@
+import { BusStop, RouteFile } from './types';
+
+// --- Dataset validation ---
+// Pure checks over the raw route files and the stop list, shared by the
+// `npm run validate-data` script and the Settings page. Nothing here touches
+// IndexedDB or the network; callers load the data and pass it in.
+
+export type DataIssueCode =
+  | 'load-failed'
+  | 'invalid-route-file'
+  | 'duplicate-route-id'
+  | 'unknown-stop'
+  | 'duplicate-stop-id'
+  | 'out-of-bounds'
+  | 'shape-far-from-stops'
+  | 'empty-name'
+  | 'name-mismatch'
+  | 'unused-stop';
+
+export interface DataIssue {
+  code: DataIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+  file?: string;
+  routeId?: string;
+  stopId?: number;
+}
+
+export interface DataQualityReport {
+  generatedAt: string;
+  summary: {
+    routeFiles: number;
+    stops: number;
+    errors: number;
+    warnings: number;
+    byCode: Partial<Record<DataIssueCode, number>>;
+  };
+  issues: DataIssue[];
+}
+
+export interface LoadedRouteFile {
+  file: string;
+  data?: unknown;
+  error?: string; // set when the file could not be read or parsed
+}
+
+// Greater Yangon, with some margin around the outermost served townships.
+export const YANGON_BOUNDS = { minLat: 16.5, maxLat: 17.6, minLng: 95.7, maxLng: 96.6 };
+// A stop this far from its route's shape is probably on the wrong road or mis-geocoded.
+export const SHAPE_TOLERANCE_METRES = 300;
+
+const MYANMAR_SCRIPT = /[က-႟]/;
+
+// Structural check for a single route file; returns the reason it is unusable, or null.
+export const checkRouteFile = (data: any): string | null => {
+  if (!data || typeof data !== 'object') return 'not a JSON object';
+  if (typeof data.route_id !== 'string' || !data.route_id.trim()) return 'missing route_id';
+  if (typeof data.color !== 'string' || !/^[0-9a-fA-F]{6}$/.test(data.color)) return `invalid color "${data.color}"`;
+  if (!Array.isArray(data.stops) || data.stops.length < 2) return 'fewer than two stops';
+  if (!data.stops.every((id: unknown) => Number.isInteger(id))) return 'non-numeric stop id';
+  if (data.shape && !Array.isArray(data.shape.geometry?.coordinates)) return 'malformed shape';
+  return null;
+};
+
+const isInBounds = (lat: number, lng: number) =>
+  lat >= YANGON_BOUNDS.minLat && lat <= YANGON_BOUNDS.maxLat &&
+  lng >= YANGON_BOUNDS.minLng && lng <= YANGON_BOUNDS.maxLng;
+
+// Distance from a point to a polyline given as [lng, lat] pairs, using a local
+// equirectangular projection (accurate to well under a metre at city scale).
+const distanceToLine = (lat: number, lng: number, line: [number, number][]): number => {
+  const metresPerDegLat = 111320;
+  const metresPerDegLng = 111320 * Math.cos((lat * Math.PI) / 180);
+  const project = ([x, y]: [number, number]) => [(x - lng) * metresPerDegLng, (y - lat) * metresPerDegLat];
+
+  let best = Infinity;
+  for (let i = 0; i < line.length; i++) {
+    const [ax, ay] = project(line[i]);
+    const [bx, by] = i + 1 < line.length ? project(line[i + 1]) : [ax, ay];
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+    best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+  return best;
+};
+
+const checkStops = (stops: BusStop[], issues: DataIssue[]) => {
+  const seen = new Set<number>();
+  stops.forEach(stop => {
+    if (seen.has(stop.id)) {
+      issues.push({ code: 'duplicate-stop-id', severity: 'error', stopId: stop.id, message: `Stop id ${stop.id} is used more than once` });
+    }
+    seen.add(stop.id);
+
+    if (!Number.isFinite(stop.lat) || !Number.isFinite(stop.lng) || !isInBounds(stop.lat, stop.lng)) {
+      issues.push({ code: 'out-of-bounds', severity: 'error', stopId: stop.id, message: `Stop ${stop.id} (${stop.lat}, ${stop.lng}) is outside Yangon` });
+    }
+
+    const nameEn = (stop.name_en || '').trim();
+    const nameMm = (stop.name_mm || '').trim();
+    if (!nameEn || !nameMm) {
+      issues.push({
+        code: 'empty-name',
+        severity: 'warning',
+        stopId: stop.id,
+        message: `Stop ${stop.id} has no ${!nameEn && !nameMm ? 'name' : !nameEn ? 'English name' : 'Myanmar name'}`
+      });
+    }
+    if ((nameEn && MYANMAR_SCRIPT.test(nameEn)) || (nameMm && !MYANMAR_SCRIPT.test(nameMm))) {
+      issues.push({ code: 'name-mismatch', severity: 'warning', stopId: stop.id, message: `Stop ${stop.id} names look swapped or mistranscribed: "${nameEn}" / "${nameMm}"` });
+    }
+  });
+};
+
+const checkRoutes = (files: LoadedRouteFile[], stopsById: Map<number, BusStop>, issues: DataIssue[]): Set<number> => {
+  const used = new Set<number>();
+  const routeIds = new Map<string, string>();
+
+  files.forEach(({ file, data, error }) => {
+    if (error) {
+      issues.push({ code: 'load-failed', severity: 'error', file, message: `${file}: ${error}` });
+      return;
+    }
+    const reason = checkRouteFile(data);
+    if (reason) {
+      issues.push({ code: 'invalid-route-file', severity: 'error', file, message: `${file}: ${reason}` });
+      return;
+    }
+
+    const route = data as RouteFile;
+    const routeId = route.route_id;
+    const firstFile = routeIds.get(routeId);
+    if (firstFile) {
+      issues.push({ code: 'duplicate-route-id', severity: 'error', file, routeId, message: `${file}: route_id "${routeId}" is already used by ${firstFile}` });
+    } else {
+      routeIds.set(routeId, file);
+    }
+
+    const unknown = [...new Set(route.stops.filter(id => !stopsById.has(id)))];
+    if (unknown.length > 0) {
+      issues.push({ code: 'unknown-stop', severity: 'error', file, routeId, message: `${file}: unknown stop ids ${unknown.join(', ')}` });
+    }
+    route.stops.forEach(id => used.add(id));
+
+    const line = route.shape?.geometry.coordinates || [];
+    if (line.length === 0) return;
+    const farStops = route.stops
+      .map(id => stopsById.get(id))
+      .filter((stop): stop is BusStop => !!stop)
+      .map(stop => ({ stop, metres: Math.round(distanceToLine(stop.lat, stop.lng, line)) }))
+      .filter(({ metres }) => metres > SHAPE_TOLERANCE_METRES);
+    farStops.forEach(({ stop, metres }) => {
+      issues.push({
+        code: 'shape-far-from-stops',
+        severity: 'warning',
+        file,
+        routeId,
+        stopId: stop.id,
+        message: `${file}: stop ${stop.id} (${stop.name_en}) is ${metres} m from the route shape`
+      });
+    });
+  });
+
+  return used;
+};
+
+export const validateDataset = (files: LoadedRouteFile[], stops: BusStop[]): DataQualityReport => {
+  const issues: DataIssue[] = [];
+  const stopsById = new Map(stops.map(s => [s.id, s]));
+
+  checkStops(stops, issues);
+  const used = checkRoutes(files, stopsById, issues);
+  stopsById.forEach(stop => {
+    if (!used.has(stop.id)) {
+      issues.push({ code: 'unused-stop', severity: 'warning', stopId: stop.id, message: `Stop ${stop.id} (${stop.name_en}) is not served by any route` });
+    }
+  });
+
+  const byCode: Partial<Record<DataIssueCode, number>> = {};
+  issues.forEach(issue => { byCode[issue.code] = (byCode[issue.code] || 0) + 1; });
+  const errors = issues.filter(i => i.severity === 'error').length;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    summary: {
+      routeFiles: files.length,
+      stops: stops.length,
+      errors,
+      warnings: issues.length - errors,
+      byCode
+    },
+    issues
+  };
+};
@@ -0,0 +1,177 @@
+import { db } from './db';
+import { checkRouteFile, DataQualityReport, LoadedRouteFile, validateDataset } from './data_quality';
+import { toKnownStopRoute, toRouteFile } from './route_import';
+import { BusRoute, BusStop, DatasetFileEntry, DatasetManifest, DatasetVersion, RouteFile } from './types';
+
+// --- Over-the-air dataset updates ---
+// A manifest names the dataset version and the sha256 of every stop/route file.
+// Only files whose hash differs from the installed one are downloaded, and only
+// the routes/stops that actually changed are rewritten. Changes are applied in
+// one transaction and the resulting tables are validated before it commits, so
+// an update that fails validation leaves the previous version in place.
+
+const VERSION_KEY = 'current';
+export const BUNDLED_DATASET_VERSION = 'bundled';
+const STOPS_HASH_KEY = 'stops';
+const MANIFEST_URL_STORAGE_KEY = 'ybs-dataset-url';
+
+export const DEFAULT_MANIFEST_URL = process.env.DATASET_MANIFEST_URL || '/dataset/manifest.json';
+
+export const getManifestUrl = () => localStorage.getItem(MANIFEST_URL_STORAGE_KEY) || DEFAULT_MANIFEST_URL;
+
+export const setManifestUrl = (url: string) => {
+  if (url.trim() && url.trim() !== DEFAULT_MANIFEST_URL) localStorage.setItem(MANIFEST_URL_STORAGE_KEY, url.trim());
+  else localStorage.removeItem(MANIFEST_URL_STORAGE_KEY);
+};
+
+export const getInstalledDataset = async (): Promise<DatasetVersion> =>
+  (await db.datasetVersions.get(VERSION_KEY)) || { key: VERSION_KEY, version: BUNDLED_DATASET_VERSION, installedAt: 0, hashes: {} };
+
+export type DatasetUpdateResult =
+  | { status: 'up-to-date'; version: string }
+  | {
+      status: 'updated';
+      version: string;
+      previousVersion: string;
+      changedRoutes: string[];
+      removedRoutes: string[];
+      changedStops: number;
+      removedStops: number;
+    }
+  | { status: 'rolled-back'; version: string; installedVersion: string; report: DataQualityReport };
+
+class DatasetValidationError extends Error {
+  constructor(public report: DataQualityReport) {
+    super(`Dataset failed validation with ${report.summary.errors} errors`);
+  }
+}
+
+const sha256 = async (buffer: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Downloads a manifest entry and checks it against its published hash.
+const fetchEntry = async (entry: DatasetFileEntry, baseUrl: URL): Promise<unknown> => {
+  const response = await fetch(new URL(entry.path, baseUrl));
+  if (!response.ok) throw new Error(`${entry.path}: HTTP ${response.status}`);
+  const buffer = await response.arrayBuffer();
+  if ((await sha256(buffer)) !== entry.sha256) throw new Error(`${entry.path}: sha256 mismatch`);
+  return JSON.parse(new TextDecoder().decode(buffer));
+};
+
+const isManifest = (data: any): data is DatasetManifest =>
+  !!data && typeof data.version === 'string' && Array.isArray(data.routes) &&
+  data.routes.every((e: any) => typeof e.path === 'string' && typeof e.sha256 === 'string' && typeof e.routeId === 'string');
+
+export const fetchManifest = async (manifestUrl: string): Promise<DatasetManifest> => {
+  const response = await fetch(manifestUrl, { cache: 'no-cache' });
+  if (!response.ok) throw new Error(`Manifest: HTTP ${response.status}`);
+  const data = await response.json();
+  if (!isManifest(data)) throw new Error('Manifest is missing a version or route list');
+  return data;
+};
+
+export const applyDatasetUpdate = async (manifestUrl: string = getManifestUrl()): Promise<DatasetUpdateResult> => {
+  const baseUrl = new URL(manifestUrl, window.location.href);
+  const manifest = await fetchManifest(baseUrl.href);
+  const installed = await getInstalledDataset();
+  if (manifest.version === installed.version) return { status: 'up-to-date', version: installed.version };
+  if (manifest.baseVersion && manifest.baseVersion !== installed.version) {
+    throw new Error(`Update ${manifest.version} applies on top of ${manifest.baseVersion}, but ${installed.version} is installed`);
+  }
+
+  // A delta builds on the installed hashes; a full manifest replaces them.
+  const hashes: Record<string, string> = manifest.baseVersion ? { ...installed.hashes } : {};
+  const changedEntries = manifest.routes.filter(e => installed.hashes[e.routeId!] !== e.sha256);
+  const removedRoutes = manifest.baseVersion
+    ? manifest.removedRoutes || []
+    : (await db.busRoutes.toCollection().primaryKeys()).filter(id => !manifest.routes.some(e => e.routeId === id));
+  manifest.routes.forEach(e => { hashes[e.routeId!] = e.sha256; });
+  removedRoutes.forEach(id => { delete hashes[id]; });
+
+  const stopsChanged = !!manifest.stops && manifest.stops.sha256 !== installed.hashes[STOPS_HASH_KEY];
+  if (manifest.stops) hashes[STOPS_HASH_KEY] = manifest.stops.sha256;
+  else if (!manifest.baseVersion) throw new Error('Full manifest has no stops file');
+
+  // Everything is downloaded before the transaction opens: IndexedDB commits
+  // a transaction as soon as it waits on anything but its own requests.
+  const [changedFiles, newStops] = await Promise.all([
+    Promise.all(changedEntries.map(async (entry): Promise<LoadedRouteFile> => {
+      try {
+        return { file: entry.path, data: await fetchEntry(entry, baseUrl) };
+      } catch (error) {
+        return { file: entry.path, error: error instanceof Error ? error.message : String(error) };
+      }
+    })),
+    stopsChanged ? fetchEntry(manifest.stops!, baseUrl) as Promise<BusStop[]> : Promise.resolve(null)
+  ]);
+  if (newStops && !Array.isArray(newStops)) throw new Error(`${manifest.stops!.path}: not a stop list`);
+
+  const result: DatasetUpdateResult = {
+    status: 'updated',
+    version: manifest.version,
+    previousVersion: installed.version,
+    changedRoutes: changedEntries.map(e => e.routeId!),
+    removedRoutes,
+    changedStops: 0,
+    removedStops: 0
+  };
+
+  try {
+    await db.transaction('rw', [db.busStops, db.busRoutes, db.datasetVersions], async () => {
+      if (newStops) {
+        const current = new Map((await db.busStops.toArray()).map(s => [s.id, JSON.stringify(s)]));
+        const changed = newStops.filter(s => current.get(s.id) !== JSON.stringify(s));
+        const incoming = new Set(newStops.map(s => s.id));
+        const removed = [...current.keys()].filter(id => !incoming.has(id));
+        await db.busStops.bulkPut(changed);
+        await db.busStops.bulkDelete(removed);
+        result.changedStops = changed.length;
+        result.removedStops = removed.length;
+      }
+
+      const knownStops = new Set(await db.busStops.toCollection().primaryKeys());
+      const unusable: LoadedRouteFile[] = [];
+      const unusableRoutes: string[] = [];
+      const loadedRoutes: BusRoute[] = [];
+      changedFiles.forEach((f, i) => {
+        // A route left with fewer than two known stops fails validation on its unknown stops.
+        const route = f.error || checkRouteFile(f.data) || toKnownStopRoute(f.file, f.data as RouteFile, knownStops);
+        if (typeof route !== 'string') {
+          loadedRoutes.push(route);
+          return;
+        }
+        unusable.push(f);
+        unusableRoutes.push(changedEntries[i].routeId!);
+      });
+      await db.busRoutes.bulkPut(loadedRoutes);
+      // The old copy of an unusable route mustn't be validated in its place.
+      await db.busRoutes.bulkDelete([...removedRoutes, ...unusableRoutes]);
+
+      // Validate what the tables now hold; unusable downloads count as errors too.
+      const stored = (await db.busRoutes.toArray()).map((route): LoadedRouteFile => ({
+        file: manifest.routes.find(e => e.routeId === route.id)?.path || route.id,
+        data: toRouteFile(route)
+      }));
+      const report = validateDataset([...unusable, ...stored], await db.busStops.toArray());
+      if (report.summary.errors > 0) throw new DatasetValidationError(report);
+
+      await db.datasetVersions.put({
+        key: VERSION_KEY,
+        version: manifest.version,
+        previousVersion: installed.version,
+        installedAt: Date.now(),
+        manifestUrl,
+        hashes
+      });
+    });
+  } catch (error) {
+    if (error instanceof DatasetValidationError) {
+      console.warn(`Dataset ${manifest.version} rolled back:`, error.report.issues.filter(i => i.severity === 'error'));
+      return { status: 'rolled-back', version: manifest.version, installedVersion: installed.version, report: error.report };
+    }
+    throw error;
+  }
+  return result;
+};
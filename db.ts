@@ -1,13 +1,20 @@
 
 // Use default import for Dexie to ensure class methods like .version() are correctly inherited and recognized by the TypeScript compiler.
 import Dexie, { Table } from 'dexie';
-import { BusStop, BusRoute, FavoriteStop, FavoriteRoute } from './types';
+import { asTwoWayLine, resolveStopNames } from './data_constants';
+import { AssistantConversation, BusStop, BusRoute, DatasetVersion, FavoriteStop, FavoriteRoute, HistoryEntry, MapTile, SavedTrip, TransitGraphIndex } from './types';
 
 export class YBSDatabase extends Dexie {
   busStops!: Table<BusStop, number>;
   busRoutes!: Table<BusRoute, string>;
   favoriteStops!: Table<FavoriteStop, number>;
   favoriteRoutes!: Table<FavoriteRoute, string>;
+  transitGraph!: Table<TransitGraphIndex, string>;
+  datasetVersions!: Table<DatasetVersion, string>;
+  savedTrips!: Table<SavedTrip, number>;
+  history!: Table<HistoryEntry, string>;
+  assistantConversations!: Table<AssistantConversation, string>;
+  mapTiles!: Table<MapTile, string>;
 
   constructor() {
     super('YBSDatabase');
@@ -21,6 +28,75 @@ export class YBSDatabase extends Dexie {
       favoriteStops: 'stopId',
       favoriteRoutes: 'routeId'
     });
+
+    // v2: persisted stop/route adjacency index used by the journey planner
+    this.version(2).stores({
+      transitGraph: 'key'
+    });
+
+    // v3: routes carry their running directions (inbound sequence, loop flag)
+    this.version(3).stores({}).upgrade(tx =>
+      tx.table('busRoutes').toCollection().modify((route: BusRoute) => {
+        Object.assign(route, asTwoWayLine(route));
+      })
+    );
+
+    // v4: routes reference BusStop ids instead of name_mm strings
+    this.version(4).stores({
+      busRoutes: 'id, *stops'
+    }).upgrade(async tx => {
+      const stops: BusStop[] = await tx.table('busStops').toArray();
+      const toIds = (list: (string | number)[]) =>
+        list.every(s => /^\d+$/.test(String(s))) ? list.map(Number) : resolveStopNames(list.map(String), stops);
+      await tx.table('busRoutes').toCollection().modify((route: BusRoute) => {
+        const hadInbound = !!route.inboundStops;
+        route.stops = toIds(route.stops);
+        if (hadInbound) Object.assign(route, asTwoWayLine(route));
+      });
+      await tx.table('transitGraph').clear();
+    });
+
+    // v5: routes come from the /routes JSON files; drop the old hand-written
+    // lines so App re-imports on next start
+    this.version(5).stores({}).upgrade(async tx => {
+      await tx.table('busRoutes').clear();
+      await tx.table('transitGraph').clear();
+    });
+
+    // v6: installed dataset version and file hashes for over-the-air updates
+    this.version(6).stores({
+      datasetVersions: 'key'
+    });
+
+    // v7: bookmarked origin/destination pairs shown on the Home page
+    this.version(7).stores({
+      savedTrips: '++id, lastUsedAt'
+    });
+
+    // v8: recent stop selections, from→to searches and viewed routes
+    this.version(8).stores({
+      history: 'key, [kind+usedAt]'
+    });
+
+    // v9: the assistant chat and what it remembers between turns
+    this.version(9).stores({
+      assistantConversations: 'key'
+    });
+
+    // v10: map tiles downloaded or imported for offline use
+    this.version(10).stores({
+      mapTiles: 'key, z'
+    });
+
+    // v11: saved trips keep both ends as stops or points instead of two stop ids
+    this.version(11).stores({}).upgrade(tx =>
+      tx.table('savedTrips').toCollection().modify(trip => {
+        trip.from = { kind: 'stop', stopId: trip.startStopId };
+        trip.to = { kind: 'stop', stopId: trip.endStopId };
+        delete trip.startStopId;
+        delete trip.endStopId;
+      })
+    );
   }
 }
 
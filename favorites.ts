@@ -0,0 +1,47 @@
+import { db } from './db';
+
+// --- Favorites ---
+// Saved routes and stops live in the `favoriteRoutes`/`favoriteStops` tables.
+// Older builds kept favourite route ids in localStorage; those are moved over
+// once on startup.
+
+const LEGACY_STORAGE_KEY = 'ybs-favorites';
+
+export interface FavoriteIds {
+  routes: Set<string>;
+  stops: Set<number>;
+}
+
+// Runs after routes are imported so ids that no longer exist can be dropped.
+export const migrateLegacyFavorites = async () => {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (stored === null) return;
+  try {
+    const ids: unknown = JSON.parse(stored);
+    if (Array.isArray(ids)) {
+      const known = await db.busRoutes.bulkGet(ids.map(String));
+      await db.favoriteRoutes.bulkPut(known.filter(r => !!r).map(r => ({ routeId: r!.id })));
+    }
+  } catch (error) {
+    console.warn('Could not migrate saved favorites:', error);
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+export const loadFavorites = async (): Promise<FavoriteIds> => {
+  const [routes, stops] = await Promise.all([
+    db.favoriteRoutes.toCollection().primaryKeys(),
+    db.favoriteStops.toCollection().primaryKeys()
+  ]);
+  return { routes: new Set(routes), stops: new Set(stops) };
+};
+
+export const setFavoriteRoute = async (routeId: string, isFavorite: boolean) => {
+  if (isFavorite) await db.favoriteRoutes.put({ routeId });
+  else await db.favoriteRoutes.delete(routeId);
+};
+
+export const setFavoriteStop = async (stopId: number, isFavorite: boolean) => {
+  if (isFavorite) await db.favoriteStops.put({ stopId });
+  else await db.favoriteStops.delete(stopId);
+};
@@ -0,0 +1,72 @@
+import { getDistance } from './geo';
+import { PLACES } from './place_constants';
+import { buildSearchFields, prepareQuery, scoreFields, SearchFields, StopSearchIndex } from './stop_search';
+import { BusStop, Place } from './types';
+
+// --- Places gazetteer ---
+// Landmarks, markets, hospitals and the like from `PLACES`, searched with the
+// same matching as stops. A place is planned to or from via the nearest stops
+// that some route serves.
+
+export interface PlaceMatch {
+  place: Place;
+  score: number;
+}
+
+export interface NearbyStop {
+  stop: BusStop;
+  metres: number;
+}
+
+interface IndexedPlace extends SearchFields {
+  place: Place;
+}
+
+export interface PlaceIndex {
+  entries: IndexedPlace[];
+}
+
+// How far riders are expected to walk between a place and its stop.
+export const PLACE_WALK_METRES = 800;
+
+// Places are shown above stops, so only fairly confident matches count.
+const MIN_PLACE_SCORE = 0.6;
+
+const isMyanmar = (text: string) => /[က-႟]/.test(text);
+
+export const buildPlaceIndex = (places: Place[] = PLACES): PlaceIndex => ({
+  entries: places.map(place => ({
+    place,
+    ...buildSearchFields([
+      { en: place.name_en, mm: place.name_mm, weight: 1 },
+      ...(place.aliases || []).map(alias => (isMyanmar(alias) ? { mm: alias, weight: 0.95 } : { en: alias, weight: 0.95 }))
+    ])
+  }))
+});
+
+export const searchPlaces = (index: PlaceIndex, query: string, limit = 5): PlaceMatch[] => {
+  const prepared = prepareQuery(query);
+  if (!prepared) return [];
+  return index.entries
+    .map(entry => ({ place: entry.place, score: scoreFields(prepared, entry) }))
+    .filter(m => m.score >= MIN_PLACE_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+// Served stops within walking distance of a point, nearest first.
+export const nearestStops = (
+  point: { lat: number; lng: number },
+  stopIndex: StopSearchIndex,
+  limit = 3,
+  maxMetres = PLACE_WALK_METRES
+): NearbyStop[] =>
+  stopIndex.entries
+    .filter(e => e.routeCount > 0)
+    .map(e => ({ stop: e.stop, metres: Math.round(getDistance(point.lat, point.lng, e.stop.lat, e.stop.lng) * 1000) }))
+    .filter(n => n.metres <= maxMetres)
+    .sort((a, b) => a.metres - b.metres)
+    .slice(0, limit);
+
+export const resolvePlace = (place: Place, stopIndex: StopSearchIndex): NearbyStop | undefined =>
+  nearestStops(place, stopIndex, 1)[0];
@@ -0,0 +1,38 @@
+import Dexie from 'dexie';
+import { db } from './db';
+import { HistoryEntry, HistoryKind } from './types';
+
+// --- Search history ---
+// One row per distinct stop, from→to pair or route, keyed so that using it
+// again only bumps `usedAt`. Each kind keeps its most recent entries.
+
+const MAX_ENTRIES_PER_KIND = 20;
+
+const record = async (entry: Omit<HistoryEntry, 'usedAt'>) => {
+  try {
+    await db.history.put({ ...entry, usedAt: Date.now() });
+    const stale = await db.history
+      .where('[kind+usedAt]').between([entry.kind, Dexie.minKey], [entry.kind, Dexie.maxKey])
+      .reverse().offset(MAX_ENTRIES_PER_KIND).primaryKeys();
+    if (stale.length > 0) await db.history.bulkDelete(stale);
+  } catch (error) {
+    console.warn('Could not record history:', error);
+  }
+};
+
+export const recordStop = (stopId: number) => record({ key: `stop:${stopId}`, kind: 'stop', stopId });
+
+export const recordTripSearch = (fromStopId: number, toStopId: number) =>
+  record({ key: `trip:${fromStopId}>${toStopId}`, kind: 'trip', fromStopId, toStopId });
+
+export const recordRouteView = (routeId: string) => record({ key: `route:${routeId}`, kind: 'route', routeId });
+
+// Most recent first.
+export const listHistory = (kind: HistoryKind, limit = MAX_ENTRIES_PER_KIND): Promise<HistoryEntry[]> =>
+  db.history
+    .where('[kind+usedAt]').between([kind, Dexie.minKey], [kind, Dexie.maxKey])
+    .reverse().limit(limit).toArray();
+
+export const deleteHistoryEntry = (key: string) => db.history.delete(key);
+
+export const clearHistory = () => db.history.clear();
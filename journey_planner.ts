@@ -0,0 +1,292 @@
+import { getDistance } from './geo';
+import { getTransitGraph, MAX_FOOTPATH_METRES, TransitGraph } from './transit_graph';
+import { AccessWalk, GeoPoint, JourneyEndpoint, PathStep, RoutePattern, SearchResult } from './types';
+
+export interface PlannerOptions {
+  maxTransfers?: number;
+  maxResults?: number;
+  walkRadius?: number; // metres; longest single walk between two stops
+  maxWalk?: number; // metres; total walking allowed between stops per journey
+  accessRadius?: number; // metres; farthest stop considered from a point origin or destination
+}
+
+const DEFAULT_MAX_TRANSFERS = 4;
+const DEFAULT_MAX_RESULTS = 8;
+const DEFAULT_WALK_RADIUS = 300;
+const DEFAULT_MAX_WALK = 800;
+const DEFAULT_ACCESS_RADIUS = 800;
+const MAX_ACCESS_STOPS = 12;
+const WALK_METRES_PER_MINUTE = 75;
+
+export const walkMinutes = (metres: number) => Math.max(1, Math.round(metres / WALK_METRES_PER_MINUTE));
+
+// --- Multi-criteria RAPTOR ---
+// Round k settles every journey that uses exactly k rides. Each stop keeps a
+// Pareto bag over (transfers, in-vehicle stops, distance, walking); labels
+// dominated by the stop's bag or by an arrival already found at the
+// destination are pruned. Patterns are only ridden forward; loops may carry on
+// past their last stop but never all the way round to the boarding stop.
+// After each round, stops reached by bus relax their footpaths, so a journey
+// never walks twice in a row.
+//
+// A point origin or destination is expanded into every served stop within
+// walking distance of it. Each origin stop starts with its access walk already
+// counted, and each destination stop adds its egress walk on arrival; arrivals
+// at any destination stop share one bag, which also does the pruning.
+
+interface Label {
+  stop: number;
+  transfers: number;
+  rideStops: number;
+  distance: number;
+  walk: number; // metres walked so far, access and egress walks included
+  access: number; // metres walked from the origin point to the first stop
+  egress: number; // metres walked from the last stop to the destination point; set on arrivals
+  parent: Label | null;
+  pattern: RoutePattern | null; // pattern ridden to reach `stop`; null for walks and the origin
+  lastRouteId: string | null; // route of the most recent ride, so it isn't boarded again after a walk
+}
+
+interface AccessCandidate {
+  stop: number;
+  metres: number;
+}
+
+interface Boarding {
+  base: Label;
+  position: number; // position on the pattern, counting laps for loops
+  stopOffset: number;
+  distanceOffset: number;
+}
+
+const dominates = (a: Label, b: Label) =>
+  a.transfers <= b.transfers && a.rideStops <= b.rideStops &&
+  a.distance <= b.distance && a.walk <= b.walk;
+
+const insertIntoBag = (bag: Label[], label: Label): boolean => {
+  if (bag.some(l => dominates(l, label))) return false;
+  for (let i = bag.length - 1; i >= 0; i--) {
+    if (dominates(label, bag[i])) bag.splice(i, 1);
+  }
+  bag.push(label);
+  return true;
+};
+
+const insertBoarding = (routeBag: Boarding[], boarding: Boarding) => {
+  const covers = (a: Boarding, b: Boarding) =>
+    a.base.transfers <= b.base.transfers && a.base.walk <= b.base.walk &&
+    a.stopOffset <= b.stopOffset && a.distanceOffset <= b.distanceOffset;
+  if (routeBag.some(b => covers(b, boarding))) return;
+  for (let i = routeBag.length - 1; i >= 0; i--) {
+    if (covers(boarding, routeBag[i])) routeBag.splice(i, 1);
+  }
+  routeBag.push(boarding);
+};
+
+const toSearchResult = (label: Label, graph: TransitGraph, from: JourneyEndpoint, to: JourneyEndpoint): SearchResult => {
+  const steps: PathStep[] = [];
+  let current: Label = label;
+  while (current.parent) {
+    if (current.pattern) {
+      steps.unshift({
+        type: 'ride',
+        route: graph.routes.get(current.pattern.routeId)!,
+        direction: current.pattern.direction,
+        fromStop: graph.stops.get(current.parent.stop)!,
+        toStop: graph.stops.get(current.stop)!,
+        intermediateStops: current.rideStops - current.parent.rideStops - 1
+      });
+    } else {
+      const metres = current.walk - current.parent.walk;
+      steps.unshift({
+        type: 'walk',
+        fromStop: graph.stops.get(current.parent.stop)!,
+        toStop: graph.stops.get(current.stop)!,
+        metres,
+        minutes: walkMinutes(metres)
+      });
+    }
+    current = current.parent;
+  }
+  const pointWalk = (endpoint: JourneyEndpoint, stop: number, metres: number): AccessWalk | undefined =>
+    endpoint.kind === 'point'
+      ? { point: endpoint.point, stop: graph.stops.get(stop)!, metres, minutes: walkMinutes(metres) }
+      : undefined;
+  return {
+    steps,
+    transferCount: label.transfers,
+    totalDistance: label.distance,
+    totalStops: label.rideStops,
+    totalWalk: label.walk,
+    access: pointWalk(from, current.stop, label.access),
+    egress: pointWalk(to, label.stop, label.egress)
+  };
+};
+
+// Served stops within `radius` metres of a point, nearest first.
+const accessCandidates = (graph: TransitGraph, point: GeoPoint, radius: number): AccessCandidate[] => {
+  const candidates: AccessCandidate[] = [];
+  graph.stops.forEach(stop => {
+    if (!graph.stopRoutes.has(stop.id)) return;
+    const metres = Math.round(getDistance(point.lat, point.lng, stop.lat, stop.lng) * 1000);
+    if (metres <= radius) candidates.push({ stop: stop.id, metres });
+  });
+  return candidates.sort((a, b) => a.metres - b.metres).slice(0, MAX_ACCESS_STOPS);
+};
+
+const endpointCandidates = (graph: TransitGraph, endpoint: JourneyEndpoint, radius: number): AccessCandidate[] =>
+  endpoint.kind === 'stop'
+    ? (graph.stops.has(endpoint.stop.id) ? [{ stop: endpoint.stop.id, metres: 0 }] : [])
+    : accessCandidates(graph, endpoint.point, radius);
+
+export const planJourneysBetween = (
+  graph: TransitGraph,
+  from: JourneyEndpoint,
+  to: JourneyEndpoint,
+  options: PlannerOptions = {}
+): SearchResult[] => {
+  const maxTransfers = options.maxTransfers ?? DEFAULT_MAX_TRANSFERS;
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+  const walkRadius = Math.min(options.walkRadius ?? DEFAULT_WALK_RADIUS, MAX_FOOTPATH_METRES);
+  const maxWalk = options.maxWalk ?? DEFAULT_MAX_WALK;
+  const accessRadius = options.accessRadius ?? DEFAULT_ACCESS_RADIUS;
+  if (from.kind === 'stop' && to.kind === 'stop' && from.stop.id === to.stop.id) return [];
+
+  const origins = endpointCandidates(graph, from, accessRadius);
+  const egress = new Map(endpointCandidates(graph, to, accessRadius).map(c => [c.stop, c.metres]));
+  if (origins.length === 0 || egress.size === 0) return [];
+
+  const bestBags = new Map<number, Label[]>();
+  const arrivals: Label[] = [];
+  let previousRound = new Map<number, Label[]>();
+  origins.forEach(({ stop, metres }) => {
+    const origin: Label = { stop, transfers: 0, rideStops: 0, distance: 0, walk: metres, access: metres, egress: 0, parent: null, pattern: null, lastRouteId: null };
+    bestBags.set(stop, [origin]);
+    previousRound.set(stop, [origin]);
+  });
+
+  const addLabel = (roundBags: Map<number, Label[]>, label: Label) => {
+    if (arrivals.some(l => dominates(l, label))) return;
+    const bag = bestBags.get(label.stop) || [];
+    if (!insertIntoBag(bag, label)) return;
+    bestBags.set(label.stop, bag);
+    const roundBag = roundBags.get(label.stop) || [];
+    roundBag.push(label);
+    roundBags.set(label.stop, roundBag);
+    // Arrivals need at least one ride, and a point destination is walked to
+    // straight from the bus rather than after a footpath. Stop destinations
+    // arrive with the label itself; copying every one slows planning noticeably.
+    const egressMetres = egress.get(label.stop);
+    if (egressMetres === undefined || label.rideStops === 0) return;
+    if (to.kind === 'stop') insertIntoBag(arrivals, label);
+    else if (label.pattern) insertIntoBag(arrivals, { ...label, walk: label.walk + egressMetres, egress: egressMetres });
+  };
+
+  const relaxFootpaths = (roundBags: Map<number, Label[]>) => {
+    const walks: Label[] = [];
+    roundBags.forEach((labels, stop) => {
+      if (to.kind === 'stop' && stop === to.stop.id) return;
+      (graph.footpaths.get(stop) || []).forEach(({ stop: target, metres }) => {
+        if (metres > walkRadius) return;
+        labels.forEach(base => {
+          if (base.walk - base.access + metres > maxWalk) return;
+          walks.push({ ...base, stop: target, walk: base.walk + metres, parent: base, pattern: null });
+        });
+      });
+    });
+    walks.forEach(label => addLabel(roundBags, label));
+  };
+
+  // A point origin already reaches every stop within walking distance.
+  if (from.kind === 'stop') relaxFootpaths(previousRound);
+
+  for (let round = 1; round <= maxTransfers + 1 && previousRound.size > 0; round++) {
+    const currentRound = new Map<number, Label[]>();
+
+    // Each pattern touching a marked stop is scanned from its earliest marked position.
+    const firstMarked = new Map<string, number>();
+    previousRound.forEach((_, stop) => graph.stopRoutes.get(stop)?.forEach(v => {
+      const first = Math.min(...v.positions);
+      firstMarked.set(v.patternId, Math.min(first, firstMarked.get(v.patternId) ?? first));
+    }));
+
+    firstMarked.forEach((firstPosition, patternId) => {
+      const pattern = graph.patterns.get(patternId);
+      if (!pattern || !graph.routes.has(pattern.routeId)) return;
+      const { stops, cumulativeDistance, isLoop, loopDistance } = pattern;
+      const length = stops.length;
+      const routeBag: Boarding[] = [];
+
+      // A loop is scanned for a second lap so rides may wrap past the last stop.
+      for (let position = firstPosition; position < (isLoop ? length * 2 : length); position++) {
+        const index = position % length;
+        const lap = position < length ? 0 : 1;
+        const stop = stops[index];
+        const distanceHere = cumulativeDistance[index] + lap * loopDistance;
+
+        routeBag.forEach(boarding => {
+          if (boarding.base.stop === stop || position - boarding.position >= length) return;
+          addLabel(currentRound, {
+            stop,
+            transfers: round - 1,
+            rideStops: boarding.stopOffset + position,
+            distance: boarding.distanceOffset + distanceHere,
+            walk: boarding.base.walk,
+            access: boarding.base.access,
+            egress: 0,
+            parent: boarding.base,
+            pattern,
+            lastRouteId: pattern.routeId
+          });
+        });
+
+        if (lap > 0) continue;
+        previousRound.get(stop)?.forEach(base => {
+          if (base.lastRouteId === pattern.routeId) return;
+          insertBoarding(routeBag, {
+            base,
+            position,
+            stopOffset: base.rideStops - position,
+            distanceOffset: base.distance - distanceHere
+          });
+        });
+      }
+    });
+
+    // Drop labels that a later label in this round pushed out of the stop's bag.
+    const prune = () => currentRound.forEach((labels, stop) => {
+      const bag = bestBags.get(stop)!;
+      const kept = labels.filter(l => bag.includes(l));
+      if (kept.length > 0) currentRound.set(stop, kept);
+      else currentRound.delete(stop);
+    });
+    prune();
+    relaxFootpaths(currentRound);
+    prune();
+    if (to.kind === 'stop') currentRound.delete(to.stop.id);
+    previousRound = currentRound;
+  }
+
+  return arrivals
+    .map(l => toSearchResult(l, graph, from, to))
+    .sort((a, b) =>
+      a.transferCount - b.transferCount || a.totalDistance - b.totalDistance || a.totalStops - b.totalStops || a.totalWalk - b.totalWalk)
+    .slice(0, maxResults);
+};
+
+export const planJourneys = (graph: TransitGraph, start: number, end: number, options: PlannerOptions = {}): SearchResult[] => {
+  const from = graph.stops.get(start);
+  const to = graph.stops.get(end);
+  if (!from || !to) return [];
+  return planJourneysBetween(graph, { kind: 'stop', stop: from }, { kind: 'stop', stop: to }, options);
+};
+
+export const findJourneys = async (start: number, end: number, options?: PlannerOptions): Promise<SearchResult[]> => {
+  const graph = await getTransitGraph();
+  return planJourneys(graph, start, end, options);
+};
+
+export const findJourneysBetween = async (from: JourneyEndpoint, to: JourneyEndpoint, options?: PlannerOptions): Promise<SearchResult[]> => {
+  const graph = await getTransitGraph();
+  return planJourneysBetween(graph, from, to, options);
+};
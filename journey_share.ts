@@ -0,0 +1,264 @@
+import { db } from './db';
+import { getTransitGraph } from './transit_graph';
+import { BusStop, JourneyEndpoint, RideStep, SearchResult } from './types';
+
+// --- Sharing a journey ---
+// Each SearchResult can be shared as a bilingual text itinerary, a PNG card
+// (route badges plus a small schematic map drawn on a canvas) or a link that
+// re-opens the search. The Web Share API is used when the browser has it;
+// otherwise the text/link/image goes to the clipboard.
+
+export type ShareKind = 'text' | 'image' | 'link';
+export type ShareOutcome = 'shared' | 'copied' | 'downloaded' | 'cancelled';
+
+// Label for a journey end that is a point rather than a stop, when it has no
+// better name (a long-press on the map, or a point opened from a link).
+export const MAP_POINT_LABEL = 'မြေပုံပေါ်ရှိနေရာ';
+
+const stopLabel = (stop: BusStop) => (stop.name_en && stop.name_en !== stop.name_mm ? `${stop.name_mm} (${stop.name_en})` : stop.name_mm);
+
+const endLabel = (end: JourneyEndpoint) => (end.kind === 'stop' ? stopLabel(end.stop) : end.point.label);
+export const endName = (end: JourneyEndpoint) => (end.kind === 'stop' ? end.stop.name_mm : end.point.label);
+const endPosition = (end: JourneyEndpoint) => (end.kind === 'stop' ? end.stop : end.point);
+
+const journeyEnds = (result: SearchResult): { from: JourneyEndpoint; to: JourneyEndpoint } => ({
+  from: result.access ? { kind: 'point', point: result.access.point } : { kind: 'stop', stop: result.steps[0].fromStop },
+  to: result.egress ? { kind: 'point', point: result.egress.point } : { kind: 'stop', stop: result.steps[result.steps.length - 1].toStop }
+});
+
+// A stop goes into ?from=/?to= as its id, a point as "lat,lng".
+export const endpointParam = (end: JourneyEndpoint): string =>
+  end.kind === 'stop' ? String(end.stop.id) : `${end.point.lat.toFixed(5)},${end.point.lng.toFixed(5)}`;
+
+export const parseEndpointParam = async (param: string | null): Promise<JourneyEndpoint | null> => {
+  if (!param) return null;
+  if (param.includes(',')) {
+    const [lat, lng] = param.split(',').map(Number);
+    return Number.isFinite(lat) && Number.isFinite(lng) ? { kind: 'point', point: { lat, lng, label: MAP_POINT_LABEL } } : null;
+  }
+  const id = Number(param);
+  if (!Number.isInteger(id) || !id) return null;
+  const stop = await db.busStops.get(id);
+  return stop ? { kind: 'stop', stop } : null;
+};
+
+export const journeyLink = (result: SearchResult): string => {
+  const { from, to } = journeyEnds(result);
+  return `${window.location.origin}/find-route?from=${endpointParam(from)}&to=${endpointParam(to)}`;
+};
+
+export const formatJourneyText = (result: SearchResult): string => {
+  const { from, to } = journeyEnds(result);
+  const lines = [`YBS ခရီးစဉ် / YBS journey`, `${endLabel(from)} → ${endLabel(to)}`, ''];
+  let number = 0;
+  const walkLines = (metres: number, minutes: number, fromText: string, toText: string) => {
+    lines.push(`${++number}. လမ်းလျှောက်ပါ / Walk ${metres} m (~${minutes} min)`);
+    lines.push(`   ${fromText} → ${toText}`);
+  };
+  if (result.access) walkLines(result.access.metres, result.access.minutes, result.access.point.label, stopLabel(result.access.stop));
+  result.steps.forEach(step => {
+    if (step.type === 'ride') {
+      lines.push(`${++number}. YBS ${step.route.id} စီးပါ / Take YBS ${step.route.id}`);
+      lines.push(`   ${stopLabel(step.fromStop)} → ${stopLabel(step.toStop)}`);
+      lines.push(`   ကြားမှတ်တိုင် ${step.intermediateStops} ခု / ${step.intermediateStops} stops in between`);
+    } else {
+      walkLines(step.metres, step.minutes, stopLabel(step.fromStop), stopLabel(step.toStop));
+    }
+  });
+  if (result.egress) walkLines(result.egress.metres, result.egress.minutes, stopLabel(result.egress.stop), result.egress.point.label);
+  lines.push('');
+  lines.push(result.transferCount === 0
+    ? 'တိုက်ရိုက် / Direct'
+    : `${result.transferCount} ဆင့်ပြောင်း / ${result.transferCount} transfer${result.transferCount > 1 ? 's' : ''}`);
+  lines.push(`${result.totalDistance.toFixed(1)} km · မှတ်တိုင် ${result.totalStops} ခု / ${result.totalStops} stops`);
+  return lines.join('\n');
+};
+
+// Stops actually passed on a ride, following the running direction (and
+// wrapping round for loops), so the card map traces the bus's path.
+const rideStops = (step: RideStep, stops: Map<number, BusStop>): BusStop[] => {
+  const sequence = (step.direction === 'inbound' ? step.route.inboundStops : step.route.stops) || step.route.stops;
+  const start = sequence.indexOf(step.fromStop.id);
+  if (start < 0) return [step.fromStop, step.toStop];
+  const passed: BusStop[] = [];
+  for (let i = 0; i < sequence.length * 2; i++) {
+    const index = start + i;
+    if (index >= sequence.length && !step.route.isLoop) break;
+    const stop = stops.get(sequence[index % sequence.length]);
+    if (stop) passed.push(stop);
+    if (i > 0 && sequence[index % sequence.length] === step.toStop.id) return passed;
+  }
+  return [step.fromStop, step.toStop];
+};
+
+const CARD_WIDTH = 1080;
+const CARD_HEIGHT = 1080;
+const CARD_FONT = "'Noto Sans Myanmar', 'Pyidaungsu', 'Inter', sans-serif";
+
+const roundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) => {
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + w, y, x + w, y + h, r);
+  ctx.arcTo(x + w, y + h, x, y + h, r);
+  ctx.arcTo(x, y + h, x, y, r);
+  ctx.arcTo(x, y, x + w, y, r);
+  ctx.closePath();
+};
+
+export const renderJourneyCard = async (result: SearchResult): Promise<Blob> => {
+  const graph = await getTransitGraph();
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_WIDTH;
+  canvas.height = CARD_HEIGHT;
+  const ctx = canvas.getContext('2d')!;
+  const { from, to } = journeyEnds(result);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+  ctx.fillStyle = '#ca8a04';
+  ctx.fillRect(0, 0, CARD_WIDTH, 110);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `900 48px ${CARD_FONT}`;
+  ctx.textBaseline = 'middle';
+  ctx.fillText('YBS AI', 48, 56);
+
+  ctx.fillStyle = '#111827';
+  ctx.font = `700 40px ${CARD_FONT}`;
+  ctx.fillText(endName(from), 48, 170, CARD_WIDTH - 96);
+  ctx.fillStyle = '#9ca3af';
+  ctx.fillText('↓', 48, 225);
+  ctx.fillStyle = '#111827';
+  ctx.fillText(endName(to), 48, 280, CARD_WIDTH - 96);
+
+  // Route badges, with walks as grey pills.
+  let x = 48;
+  ctx.font = `900 34px ${CARD_FONT}`;
+  result.steps.forEach(step => {
+    const label = step.type === 'ride' ? step.route.id : `🚶 ${step.minutes}'`;
+    const width = Math.max(96, ctx.measureText(label).width + 40);
+    if (x + width > CARD_WIDTH - 48) return;
+    ctx.fillStyle = step.type === 'ride' ? step.route.color : '#f3f4f6';
+    roundedRect(ctx, x, 340, width, 72, 18);
+    ctx.fill();
+    ctx.fillStyle = step.type === 'ride' ? '#ffffff' : '#6b7280';
+    ctx.textAlign = 'center';
+    ctx.fillText(label, x + width / 2, 377);
+    ctx.textAlign = 'left';
+    x += width + 16;
+  });
+
+  // Schematic map: every stop on the journey fitted into the map box.
+  const walkLeg = (points: { lat: number; lng: number }[]) => ({ color: '#9ca3af', dashed: true, points });
+  const legs = [
+    ...(result.access ? [walkLeg([result.access.point, result.access.stop])] : []),
+    ...result.steps.map(step => ({
+      color: step.type === 'ride' ? step.route.color : '#9ca3af',
+      dashed: step.type === 'walk',
+      points: step.type === 'ride' ? rideStops(step, graph.stops) : [step.fromStop, step.toStop]
+    })),
+    ...(result.egress ? [walkLeg([result.egress.stop, result.egress.point])] : [])
+  ];
+  const all = legs.flatMap(l => l.points);
+  const box = { x: 48, y: 450, w: CARD_WIDTH - 96, h: 480 };
+  ctx.fillStyle = '#f3f4f6';
+  roundedRect(ctx, box.x, box.y, box.w, box.h, 28);
+  ctx.fill();
+
+  const lats = all.map(s => s.lat);
+  const lngs = all.map(s => s.lng);
+  const [minLat, maxLat, minLng, maxLng] = [Math.min(...lats), Math.max(...lats), Math.min(...lngs), Math.max(...lngs)];
+  const lngScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+  const spanX = Math.max((maxLng - minLng) * lngScale, 0.002);
+  const spanY = Math.max(maxLat - minLat, 0.002);
+  const scale = Math.min((box.w - 80) / spanX, (box.h - 80) / spanY);
+  const project = (s: { lat: number; lng: number }) => [
+    box.x + box.w / 2 + ((s.lng - (minLng + maxLng) / 2) * lngScale) * scale,
+    box.y + box.h / 2 - (s.lat - (minLat + maxLat) / 2) * scale
+  ];
+
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  legs.forEach(leg => {
+    ctx.strokeStyle = leg.color;
+    ctx.lineWidth = leg.dashed ? 6 : 10;
+    ctx.setLineDash(leg.dashed ? [4, 14] : []);
+    ctx.beginPath();
+    leg.points.forEach((stop, i) => {
+      const [px, py] = project(stop);
+      if (i === 0) ctx.moveTo(px, py);
+      else ctx.lineTo(px, py);
+    });
+    ctx.stroke();
+  });
+  ctx.setLineDash([]);
+  [{ end: from, color: '#22c55e' }, { end: to, color: '#ef4444' }].forEach(({ end, color }) => {
+    const [px, py] = project(endPosition(end));
+    ctx.fillStyle = color;
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 6;
+    ctx.beginPath();
+    ctx.arc(px, py, 16, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+  });
+
+  ctx.fillStyle = '#6b7280';
+  ctx.font = `700 30px ${CARD_FONT}`;
+  const transfers = result.transferCount === 0 ? 'တိုက်ရိုက်' : `${result.transferCount} ဆင့်ပြောင်း`;
+  ctx.fillText(`${transfers} · ${result.totalDistance.toFixed(1)} km · မှတ်တိုင် ${result.totalStops} ခု`, 48, 1000);
+  ctx.font = `500 24px ${CARD_FONT}`;
+  ctx.fillText(window.location.host, 48, 1045);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not render journey card'))), 'image/png')
+  );
+};
+
+const isAbort = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const shareJourney = async (result: SearchResult, kind: ShareKind): Promise<ShareOutcome> => {
+  const { from, to } = journeyEnds(result);
+  const title = `${endName(from)} → ${endName(to)}`;
+  const url = journeyLink(result);
+
+  try {
+    if (kind === 'image') {
+      const blob = await renderJourneyCard(result);
+      const file = new File([blob], 'ybs-journey.png', { type: 'image/png' });
+      if (navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ title, files: [file] });
+        return 'shared';
+      }
+      if (navigator.clipboard && typeof ClipboardItem !== 'undefined') {
+        try {
+          await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })]);
+          return 'copied';
+        } catch (error) {
+          console.warn('Could not copy image, downloading instead:', error);
+        }
+      }
+      downloadBlob(blob, 'ybs-journey.png');
+      return 'downloaded';
+    }
+
+    const data = kind === 'text' ? { title, text: `${formatJourneyText(result)}\n\n${url}` } : { title, url };
+    if (navigator.share && (!navigator.canShare || navigator.canShare(data))) {
+      await navigator.share(data);
+      return 'shared';
+    }
+    await navigator.clipboard.writeText(kind === 'text' ? data.text! : url);
+    return 'copied';
+  } catch (error) {
+    if (isAbort(error)) return 'cancelled';
+    throw error;
+  }
+};
@@ -0,0 +1,15 @@
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import markerIcon from 'leaflet/dist/images/marker-icon.png';
+import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
+import markerShadow from 'leaflet/dist/images/marker-shadow.png';
+
+// --- Leaflet ---
+// Bundled rather than loaded from a CDN, so the maps work offline from the
+// precached build. Leaflet finds its default marker images through its
+// stylesheet's URLs, which the bundler renames; point it at them directly.
+
+delete (L.Icon.Default.prototype as any)._getIconUrl;
+L.Icon.Default.mergeOptions({ iconUrl: markerIcon, iconRetinaUrl: markerIcon2x, shadowUrl: markerShadow });
+
+export default L;
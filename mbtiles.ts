@@ -0,0 +1,270 @@
+// --- MBTiles reader ---
+// An MBTiles pack is an SQLite file. The app ships no SQLite engine, so this
+// walks the file's table b-trees directly: enough to read the `metadata` table
+// and the tiles, whether they sit in a plain `tiles` table or in the `map` +
+// `images` pair some tools write (with `tiles` as a view over both). MBTiles
+// numbers rows from the bottom (TMS); tiles come out in the usual XYZ scheme.
+// Packs run to hundreds of megabytes, so the file is read a chunk at a time
+// and tiles are handed out as their pages are reached, never all at once.
+
+export interface MbtilesTile {
+  z: number;
+  x: number;
+  y: number;
+  data: Uint8Array;
+}
+
+export interface MbtilesPack {
+  metadata: Record<string, string>;
+  count: number;
+  tiles: () => AsyncGenerator<MbtilesTile>;
+}
+
+type SqlValue = number | string | Uint8Array | null;
+type SqlRow = Record<string, SqlValue>;
+
+interface TableInfo {
+  rootPage: number;
+  columns: string[];
+  rowidColumn?: string; // an INTEGER PRIMARY KEY column, stored as the rowid
+}
+
+const SQLITE_MAGIC = 'SQLite format 3\u0000';
+const LEAF_TABLE_PAGE = 13;
+const INTERIOR_TABLE_PAGE = 5;
+const INT_SIZES = [0, 1, 2, 3, 4, 6, 8];
+// Read size; a multiple of every SQLite page size, so no page spans two chunks.
+const CHUNK_BYTES = 1 << 20;
+const CACHED_CHUNKS = 4;
+
+// Columns of a CREATE TABLE statement, in order, and which one (if any)
+// aliases the rowid.
+const parseColumns = (sql: string) => {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const definitions: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === ',' && depth === 0) {
+      definitions.push(current.trim());
+      current = '';
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    current += char;
+  }
+  definitions.push(current.trim());
+
+  const columns: string[] = [];
+  let rowidColumn: string | undefined;
+  definitions
+    .filter(d => d && !/^(constraint|primary|unique|check|foreign)\b/i.test(d))
+    .forEach(d => {
+      const name = d.match(/^(?:"([^"]+)"|`([^`]+)`|\[([^\]]+)\]|(\S+))/)!.slice(1).find(Boolean)!;
+      columns.push(name);
+      if (/^\S+\s+integer\s+primary\s+key\b/i.test(d)) rowidColumn = name;
+    });
+  return { columns, rowidColumn };
+};
+
+const openDatabase = async (file: Blob) => {
+  // The few most recently read chunks, oldest first.
+  const chunks = new Map<number, Uint8Array>();
+  const readChunk = async (index: number): Promise<Uint8Array> => {
+    const cached = chunks.get(index);
+    if (cached) return cached;
+    const chunk = new Uint8Array(await file.slice(index * CHUNK_BYTES, (index + 1) * CHUNK_BYTES).arrayBuffer());
+    chunks.set(index, chunk);
+    if (chunks.size > CACHED_CHUNKS) chunks.delete(chunks.keys().next().value!);
+    return chunk;
+  };
+
+  const first = await readChunk(0);
+  if (new TextDecoder().decode(first.subarray(0, 16)) !== SQLITE_MAGIC) throw new Error('Not an SQLite file');
+  const header = new DataView(first.buffer);
+  const pageSize = header.getUint16(16) === 1 ? 65536 : header.getUint16(16);
+  const usable = pageSize - first[20];
+  const encoding = header.getUint32(56);
+  const text = new TextDecoder(encoding === 2 ? 'utf-16le' : encoding === 3 ? 'utf-16be' : 'utf-8');
+
+  const readPage = async (page: number) => {
+    const offset = (page - 1) * pageSize;
+    const chunk = await readChunk(Math.floor(offset / CHUNK_BYTES));
+    const bytes = chunk.subarray(offset % CHUNK_BYTES, offset % CHUNK_BYTES + pageSize);
+    if (bytes.length < pageSize) throw new Error(`Page ${page} is past the end of the file`);
+    return { bytes, view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength) };
+  };
+
+  const varint = (data: Uint8Array, offset: number): [number, number] => {
+    let value = 0;
+    for (let i = 0; i < 8; i++) {
+      const b = data[offset + i];
+      value = value * 128 + (b & 0x7f);
+      if (b < 0x80) return [value, i + 1];
+    }
+    return [value * 256 + data[offset + 8], 9];
+  };
+
+  // A cell's payload, gathered from its overflow pages when it doesn't fit.
+  const payload = async (bytes: Uint8Array, view: DataView, offset: number, size: number): Promise<Uint8Array> => {
+    const maxLocal = usable - 35;
+    if (size <= maxLocal) return bytes.subarray(offset, offset + size);
+    const minLocal = Math.floor(((usable - 12) * 32) / 255) - 23;
+    let local = minLocal + ((size - minLocal) % (usable - 4));
+    if (local > maxLocal) local = minLocal;
+    const data = new Uint8Array(size);
+    data.set(bytes.subarray(offset, offset + local));
+    let written = local;
+    let page = view.getUint32(offset + local);
+    while (written < size && page > 0) {
+      const overflow = await readPage(page);
+      const length = Math.min(usable - 4, size - written);
+      data.set(overflow.bytes.subarray(4, 4 + length), written);
+      written += length;
+      page = overflow.view.getUint32(0);
+    }
+    return data;
+  };
+
+  const record = (data: Uint8Array): SqlValue[] => {
+    const fields = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const [headerSize, headerStart] = varint(data, 0);
+    const values: SqlValue[] = [];
+    let at = headerStart;
+    let body = headerSize;
+    while (at < headerSize) {
+      const [type, length] = varint(data, at);
+      at += length;
+      if (type === 0) {
+        values.push(null);
+      } else if (type <= 6) {
+        const size = INT_SIZES[type];
+        let value = 0;
+        for (let i = 0; i < size; i++) value = value * 256 + data[body + i];
+        if (data[body] & 0x80) value -= 2 ** (8 * size);
+        values.push(value);
+        body += size;
+      } else if (type === 7) {
+        values.push(fields.getFloat64(body));
+        body += 8;
+      } else if (type === 8 || type === 9) {
+        values.push(type - 8);
+      } else {
+        const size = Math.floor((type - 12) / 2);
+        const value = data.subarray(body, body + size);
+        values.push(type % 2 === 0 ? value : text.decode(value));
+        body += size;
+      }
+    }
+    return values;
+  };
+
+  // Leaf pages in rowid order. Only the page being read is held; a cell is
+  // decoded (and its overflow pages read) when `read` is called.
+  async function* leaves(page: number): AsyncGenerator<{ cells: number; read: (i: number) => Promise<[number, SqlValue[]]> }> {
+    const { bytes, view } = await readPage(page);
+    const header = page === 1 ? 100 : 0;
+    const cells = view.getUint16(header + 3);
+    if (bytes[header] === INTERIOR_TABLE_PAGE) {
+      for (let i = 0; i < cells; i++) yield* leaves(view.getUint32(view.getUint16(header + 12 + i * 2)));
+      yield* leaves(view.getUint32(header + 8));
+    } else if (bytes[header] === LEAF_TABLE_PAGE) {
+      yield {
+        cells,
+        read: async i => {
+          let at = view.getUint16(header + 8 + i * 2);
+          const [size, sizeLength] = varint(bytes, at);
+          at += sizeLength;
+          const [rowid, rowidLength] = varint(bytes, at);
+          return [rowid, record(await payload(bytes, view, at + rowidLength, size))];
+        }
+      };
+    } else {
+      throw new Error(`Page ${page} is not a rowid table page`);
+    }
+  }
+
+  const tables = new Map<string, TableInfo>();
+  for await (const leaf of leaves(1)) {
+    for (let i = 0; i < leaf.cells; i++) {
+      const [, [type, name, , rootPage, sql]] = await leaf.read(i);
+      if (type === 'table' && typeof name === 'string' && typeof sql === 'string') {
+        tables.set(name.toLowerCase(), { rootPage: rootPage as number, ...parseColumns(sql) });
+      }
+    }
+  }
+
+  const tableOf = (name: string) => {
+    const table = tables.get(name);
+    if (!table) throw new Error(`No ${name} table`);
+    return table;
+  };
+
+  async function* rows(name: string): AsyncGenerator<SqlRow> {
+    const table = tableOf(name);
+    for await (const leaf of leaves(table.rootPage)) {
+      for (let i = 0; i < leaf.cells; i++) {
+        const [rowid, values] = await leaf.read(i);
+        const row: SqlRow = {};
+        table.columns.forEach((column, c) => {
+          row[column.toLowerCase()] = column === table.rowidColumn ? rowid : values[c] ?? null;
+        });
+        yield row;
+      }
+    }
+  }
+
+  // Counts without decoding a single cell.
+  const countRows = async (name: string) => {
+    let count = 0;
+    for await (const leaf of leaves(tableOf(name).rootPage)) count += leaf.cells;
+    return count;
+  };
+
+  return { has: (name: string) => tables.has(name), rows, countRows };
+};
+
+const toTile = (z: number, x: number, tmsY: number, data: SqlValue): MbtilesTile[] =>
+  data instanceof Uint8Array ? [{ z, x, y: 2 ** z - 1 - tmsY, data }] : [];
+
+export const openMbtiles = async (file: Blob): Promise<MbtilesPack> => {
+  const db = await openDatabase(file);
+  const metadata: Record<string, string> = {};
+  if (db.has('metadata')) for await (const r of db.rows('metadata')) metadata[String(r.name)] = String(r.value);
+
+  if (db.has('tiles')) {
+    return {
+      metadata,
+      count: await db.countRows('tiles'),
+      tiles: async function* () {
+        for await (const r of db.rows('tiles')) {
+          yield* toTile(Number(r.zoom_level), Number(r.tile_column), Number(r.tile_row), r.tile_data);
+        }
+      }
+    };
+  }
+  if (db.has('map') && db.has('images')) {
+    // The map rows are small; images are read one at a time and handed out
+    // for every position that shows them.
+    const positions = new Map<string, { z: number; x: number; tmsY: number }[]>();
+    let count = 0;
+    for await (const r of db.rows('map')) {
+      const id = String(r.tile_id);
+      const list = positions.get(id) || [];
+      list.push({ z: Number(r.zoom_level), x: Number(r.tile_column), tmsY: Number(r.tile_row) });
+      positions.set(id, list);
+      count++;
+    }
+    return {
+      metadata,
+      count,
+      tiles: async function* () {
+        for await (const r of db.rows('images')) {
+          for (const { z, x, tmsY } of positions.get(String(r.tile_id)) || []) yield* toTile(z, x, tmsY, r.tile_data);
+        }
+      }
+    };
+  }
+  throw new Error('No tiles table');
+};
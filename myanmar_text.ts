@@ -0,0 +1,128 @@
+// --- Myanmar text normalization ---
+// Many phones still type Zawgyi, which reuses Myanmar code points for
+// different glyphs and stores them in visual order. Anything typed by a user,
+// and every stop name that gets indexed, goes through normalizeMyanmar so
+// Zawgyi and Unicode spellings compare equal. Detection is heuristic: text is
+// only converted when its Zawgyi-only patterns outnumber its Unicode-only ones.
+
+// Patterns that only occur (or almost only occur) in Zawgyi text.
+const ZAWGYI_SIGNS: RegExp[] = [
+  /[\u105A\u1060-\u1097]/g, // code points Unicode leaves to other Myanmar-script languages
+  /(^|[^\u1000-\u109F])[\u1031\u103B]/g, // ေ or ya-yit at the start of a word
+  /\u1031[\u103B\u107E-\u1084]/g, // ေ stored before ya-yit
+  /\u1039(?![\u1000-\u1021])/g, // 1039 as the asat
+  /[\u1033\u1034]/g // Zawgyi's long ု and ူ
+];
+
+// Patterns that only occur in Unicode text.
+const UNICODE_SIGNS: RegExp[] = [
+  /\u103E/g, // medial ha (Zawgyi draws it at 103D)
+  /\u1004\u103A\u1039/g, // kinzi
+  /[\u1000-\u1021]\u103A[\u1037\u1038]?(?=\s|$|[\u1000-\u1021])/g, // asat closing a syllable
+  /[\u1000-\u1021][\u103B-\u103E]*\u1031/g // ေ after its consonant
+];
+
+const countMatches = (text: string, patterns: RegExp[]) =>
+  patterns.reduce((total, pattern) => total + (text.match(pattern)?.length || 0), 0);
+
+export const isZawgyi = (text: string): boolean => {
+  const zawgyi = countMatches(text, ZAWGYI_SIGNS);
+  return zawgyi > 0 && zawgyi > countMatches(text, UNICODE_SIGNS);
+};
+
+// Zawgyi to Unicode, in order: first the code points Zawgyi uses for other
+// signs, then stacked consonants and kinzi, then the reordering from visual
+// (ေ and ya-yit before the consonant) to logical order.
+const ZAWGYI_RULES: [RegExp, string][] = [
+  [/\u200B/g, ''],
+  [/[\u103D\u1087]/g, '\u103E'],
+  [/\u103C/g, '\u103D'],
+  [/[\u103B\u107E-\u1084]/g, '\u103C'],
+  [/[\u103A\u107D]/g, '\u103B'],
+  [/\u1039/g, '\u103A'],
+  [/\u106A/g, '\u1009'],
+  [/\u106B/g, '\u100A'],
+  [/\u108F/g, '\u1014'],
+  [/\u1090/g, '\u101B'],
+  [/\u1086/g, '\u103F'],
+  [/\u1033/g, '\u102F'],
+  [/\u1034/g, '\u1030'],
+  [/\u105A/g, '\u102B\u103A'],
+  [/\u1088/g, '\u103E\u102F'],
+  [/\u1089/g, '\u103E\u1030'],
+  [/\u108A/g, '\u103D\u103E'],
+  [/\u108E/g, '\u102D\u1036'],
+  [/[\u1094\u1095]/g, '\u1037'],
+  [/\u104E/g, '\u104E\u1004\u103A\u1038'],
+  [/\u1097/g, '\u100B\u1039\u100B'],
+  [/\u1091/g, '\u100F\u1039\u100D'],
+  [/\u1092/g, '\u100B\u1039\u100C'],
+  [/\u106E/g, '\u100D\u1039\u100D'],
+  [/\u106F/g, '\u100D\u1039\u100E'],
+  [/\u1060/g, '\u1039\u1000'],
+  [/\u1061/g, '\u1039\u1001'],
+  [/\u1062/g, '\u1039\u1002'],
+  [/\u1063/g, '\u1039\u1003'],
+  [/\u1065/g, '\u1039\u1005'],
+  [/[\u1066\u1067]/g, '\u1039\u1006'],
+  [/\u1068/g, '\u1039\u1007'],
+  [/\u1069/g, '\u1039\u1008'],
+  [/\u106C/g, '\u1039\u100B'],
+  [/\u106D/g, '\u1039\u100C'],
+  [/\u1070/g, '\u1039\u100F'],
+  [/[\u1071\u1072]/g, '\u1039\u1010'],
+  [/[\u1073\u1074]/g, '\u1039\u1011'],
+  [/\u1075/g, '\u1039\u1012'],
+  [/\u1076/g, '\u1039\u1013'],
+  [/\u1077/g, '\u1039\u1014'],
+  [/\u1078/g, '\u1039\u1015'],
+  [/\u1079/g, '\u1039\u1016'],
+  [/\u107A/g, '\u1039\u1017'],
+  [/[\u107B\u1093]/g, '\u1039\u1018'],
+  [/\u107C/g, '\u1039\u1019'],
+  [/\u1085/g, '\u1039\u101C'],
+  [/([\u1000-\u1021])\u1064/g, '\u1004\u103A\u1039$1'],
+  [/([\u1000-\u1021])\u108B/g, '\u1004\u103A\u1039$1\u102D'],
+  [/([\u1000-\u1021])\u108C/g, '\u1004\u103A\u1039$1\u102E'],
+  [/([\u1000-\u1021])\u108D/g, '\u1004\u103A\u1039$1\u1036'],
+  [/\u103C([\u1000-\u1021])/g, '$1\u103C'],
+  [/\u1031((?:\u1004\u103A\u1039)?[\u1000-\u1021](?:\u1039[\u1000-\u1021])?)([\u103B-\u103E]*)/g, '$1$2\u1031'],
+  [/\u103E\u103B/g, '\u103B\u103E'],
+  [/\u103E\u103D/g, '\u103D\u103E'],
+  [/\u103D\u103B/g, '\u103B\u103D'],
+  [/\u103D\u103C/g, '\u103C\u103D'],
+  [/\u1036\u102F/g, '\u102F\u1036']
+];
+
+export const zawgyiToUnicode = (text: string): string =>
+  ZAWGYI_RULES.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+
+// Fixes that apply to Unicode input too: dot below before asat, signs typed
+// twice, and digits and letters that look alike (ဝ/၀, ရ/၇, ၎/၄) used in
+// each other's place, as in "၁ဝ၇ဂိတ်" for gate 107 or "၀ါယမ" for ဝါယမ.
+const UNICODE_FIXES: [RegExp, string][] = [
+  [/[\u200B-\u200D\uFEFF]/g, ''],
+  [/\u1037([\u102D-\u1030\u1032\u1036])/g, '$1\u1037'],
+  [/\u103A\u1037/g, '\u1037\u103A'],
+  [/([\u102B-\u103E])\1+/g, '$1'],
+  [/\u1040(?=[\u102B-\u103E])/g, '\u101D'],
+  [/\u1047(?=[\u102B-\u103E])/g, '\u101B'],
+  [/\u1044(?=\u1004\u103A\u1038)/g, '\u104E'],
+  [/(?<=[\u1000-\u103F])\u1040(?![\u1040-\u1049])|(?<![\u1040-\u1049])\u1040(?=[\u1000-\u103F])/g, '\u101D']
+];
+
+// A run of digits with ဝ in it is a number, so the ဝ is a zero.
+const NUMBER_WITH_WA = /[\u1040-\u1049\u101D]*[\u1040-\u1049][\u1040-\u1049\u101D]*(?![\u102B-\u103E])/g;
+
+export const normalizeMyanmar = (text: string): string => {
+  const unicode = isZawgyi(text) ? zawgyiToUnicode(text) : text;
+  return UNICODE_FIXES.reduce(
+    (result, [pattern, replacement]) => result.replace(pattern, replacement),
+    unicode.normalize('NFC').replace(NUMBER_WITH_WA, run => run.replace(/\u101D/g, '\u1040'))
+  );
+};
+
+const MYANMAR_DIGITS = '\u1040\u1041\u1042\u1043\u1044\u1045\u1046\u1047\u1048\u1049';
+
+export const toAsciiDigits = (text: string): string =>
+  text.replace(/[\u1040-\u1049]/g, d => String(MYANMAR_DIGITS.indexOf(d)));
@@ -0,0 +1,70 @@
+import { Place } from './types';
+
+// Bundled gazetteer of places riders name instead of stops. Coordinates are
+// the main entrance (or the street side, for lakes and parks); the nearest stops
+// are looked up at runtime, so they only need to be accurate to a block.
+export const PLACES: Place[] = [
+  // Pagodas
+  { id: 'shwedagon-pagoda', name_en: 'Shwedagon Pagoda', name_mm: 'ရွှေတိဂုံဘုရား', category: 'pagoda', lat: 16.798354, lng: 96.149705, aliases: ['Shwedagon', 'ရွှေတိဂုံစေတီတော်'] },
+  { id: 'sule-pagoda', name_en: 'Sule Pagoda', name_mm: 'ဆူးလေဘုရား', category: 'pagoda', lat: 16.774780, lng: 96.158730, aliases: ['Sule Paya'] },
+  { id: 'botahtaung-pagoda', name_en: 'Botahtaung Pagoda', name_mm: 'ဗိုလ်တထောင်ဘုရား', category: 'pagoda', lat: 16.769020, lng: 96.172350, aliases: ['Botataung'] },
+  { id: 'kaba-aye-pagoda', name_en: 'Kaba Aye Pagoda', name_mm: 'ကမ္ဘာအေးဘုရား', category: 'pagoda', lat: 16.852460, lng: 96.157440, aliases: ['World Peace Pagoda', 'Kabar Aye'] },
+  { id: 'chauk-htat-gyi', name_en: 'Chauk Htat Gyi Pagoda', name_mm: 'ချောက်ထပ်ကြီးဘုရား', category: 'pagoda', lat: 16.806570, lng: 96.152030, aliases: ['Chaukhtatgyi', 'Reclining Buddha'] },
+  { id: 'maha-wizaya-pagoda', name_en: 'Maha Wizaya Pagoda', name_mm: 'မဟာဝိဇယစေတီ', category: 'pagoda', lat: 16.796530, lng: 96.148310 },
+  { id: 'kyaikkasan-pagoda', name_en: 'Kyaikkasan Pagoda', name_mm: 'ကျိုက္ကစံဘုရား', category: 'pagoda', lat: 16.836950, lng: 96.188520 },
+  { id: 'kyaik-khauk-pagoda', name_en: 'Kyaik Khauk Pagoda', name_mm: 'ကျိုက်ခေါက်ဘုရား', category: 'pagoda', lat: 16.729000, lng: 96.270100, aliases: ['Kyaikkhauk'] },
+
+  // Markets
+  { id: 'bogyoke-market', name_en: 'Bogyoke Aung San Market', name_mm: 'ဗိုလ်ချုပ်အောင်ဆန်းဈေး', category: 'market', lat: 16.780150, lng: 96.154610, aliases: ['Bogyoke Market', 'Scott Market', 'ဗိုလ်ချုပ်ဈေး'] },
+  { id: 'theingyi-market', name_en: 'Theingyi Market', name_mm: 'သိမ်ကြီးဈေး', category: 'market', lat: 16.775080, lng: 96.154310, aliases: ['Thein Gyi Zay'] },
+  { id: 'mingalar-market', name_en: 'Mingalar Market', name_mm: 'မင်္ဂလာဈေး', category: 'market', lat: 16.791200, lng: 96.173800, aliases: ['Mingala Zay'] },
+  { id: 'thiri-mingalar-market', name_en: 'Thiri Mingalar Market', name_mm: 'သီရိမင်္ဂလာဈေး', category: 'market', lat: 16.793900, lng: 96.123300, aliases: ['Kyee Myin Daing Market'] },
+  { id: 'hledan-market', name_en: 'Hledan Market', name_mm: 'လှည်းတန်းဈေး', category: 'market', lat: 16.826300, lng: 96.128600, aliases: ['Hledan Zay'] },
+  { id: 'yankin-market', name_en: 'Yankin Market', name_mm: 'ရန်ကင်းဈေး', category: 'market', lat: 16.828700, lng: 96.159500 },
+  { id: 'san-pya-fish-market', name_en: 'San Pya Fish Market', name_mm: 'ဆန်းပြငါးဈေး', category: 'market', lat: 16.808600, lng: 96.124400, aliases: ['San Pya Market'] },
+
+  // Shopping centres
+  { id: 'junction-city', name_en: 'Junction City', name_mm: 'ဂျန်ရှင်းစီးတီး', category: 'mall', lat: 16.780120, lng: 96.152620, aliases: ['JCity'] },
+  { id: 'myanmar-plaza', name_en: 'Myanmar Plaza', name_mm: 'မြန်မာပလာဇာ', category: 'mall', lat: 16.826400, lng: 96.155200 },
+  { id: 'junction-square', name_en: 'Junction Square', name_mm: 'ဂျန်ရှင်းစကွဲယား', category: 'mall', lat: 16.815600, lng: 96.130000 },
+  { id: 'hledan-centre', name_en: 'Hledan Centre', name_mm: 'လှည်းတန်းစင်တာ', category: 'mall', lat: 16.826400, lng: 96.129900, aliases: ['Hledan Center'] },
+  { id: 'dagon-centre', name_en: 'Dagon Centre', name_mm: 'ဒဂုံစင်တာ', category: 'mall', lat: 16.806500, lng: 96.136900, aliases: ['Dagon Center'] },
+  { id: 'yuzana-plaza', name_en: 'Yuzana Plaza', name_mm: 'ယုဇနပလာဇာ', category: 'mall', lat: 16.794300, lng: 96.175900 },
+  { id: 'tamwe-plaza', name_en: 'Tamwe Plaza', name_mm: 'တာမွေပလာဇာ', category: 'mall', lat: 16.810500, lng: 96.175600 },
+
+  // Hospitals
+  { id: 'yangon-general-hospital', name_en: 'Yangon General Hospital', name_mm: 'ရန်ကုန်ဆေးရုံကြီး', category: 'hospital', lat: 16.779200, lng: 96.149700, aliases: ['YGH', 'ဆေးရုံကြီး'] },
+  { id: 'insein-general-hospital', name_en: 'Insein General Hospital', name_mm: 'အင်းစိန်ဆေးရုံကြီး', category: 'hospital', lat: 16.892400, lng: 96.106200 },
+  { id: 'workers-hospital', name_en: "Workers' Hospital", name_mm: 'အလုပ်သမားဆေးရုံကြီး', category: 'hospital', lat: 16.797700, lng: 96.172900 },
+  { id: 'yangon-childrens-hospital', name_en: "Yangon Children's Hospital", name_mm: 'ရန်ကုန်ကလေးဆေးရုံကြီး', category: 'hospital', lat: 16.797900, lng: 96.143800 },
+  { id: 'north-okkalapa-general-hospital', name_en: 'North Okkalapa General Hospital', name_mm: 'မြောက်ဥက္ကလာပဆေးရုံကြီး', category: 'hospital', lat: 16.909300, lng: 96.163200 },
+  { id: 'yangon-mental-health-hospital', name_en: 'Yangon Mental Health Hospital', name_mm: 'ရန်ကုန်စိတ်ကျန်းမာရေးဆေးရုံ', category: 'hospital', lat: 16.961500, lng: 96.257300 },
+
+  // Universities
+  { id: 'university-of-yangon', name_en: 'University of Yangon', name_mm: 'ရန်ကုန်တက္ကသိုလ်', category: 'university', lat: 16.829100, lng: 96.135500, aliases: ['Yangon University', 'RU'] },
+  { id: 'dagon-university', name_en: 'Dagon University', name_mm: 'ဒဂုံတက္ကသိုလ်', category: 'university', lat: 16.916300, lng: 96.213500 },
+  { id: 'yangon-technological-university', name_en: 'Yangon Technological University', name_mm: 'ရန်ကုန်နည်းပညာတက္ကသိုလ်', category: 'university', lat: 16.878700, lng: 96.122100, aliases: ['YTU', 'RIT'] },
+  { id: 'west-yangon-university', name_en: 'West Yangon University', name_mm: 'ရန်ကုန်အနောက်ပိုင်းတက္ကသိုလ်', category: 'university', lat: 16.947300, lng: 96.016000 },
+  { id: 'east-yangon-university', name_en: 'East Yangon University', name_mm: 'ရန်ကုန်အရှေ့ပိုင်းတက္ကသိုလ်', category: 'university', lat: 16.733600, lng: 96.288500 },
+  { id: 'myanmar-maritime-university', name_en: 'Myanmar Maritime University', name_mm: 'မြန်မာနိုင်ငံရေကြောင်းတက္ကသိုလ်', category: 'university', lat: 16.705300, lng: 96.266600 },
+  { id: 'sangha-university', name_en: 'State Pariyatti Sasana University', name_mm: 'နိုင်ငံတော်ပရိယတ္တိသာသနာ့တက္ကသိုလ်', category: 'university', lat: 16.867300, lng: 96.158000, aliases: ['Sangha University', 'သံဃာ့တက္ကသိုလ်'] },
+
+  // Transport hubs
+  { id: 'yangon-central-station', name_en: 'Yangon Central Railway Station', name_mm: 'ရန်ကုန်ဘူတာကြီး', category: 'transport', lat: 16.781300, lng: 96.161700, aliases: ['Central Station'] },
+  { id: 'yangon-airport', name_en: 'Yangon International Airport', name_mm: 'ရန်ကုန်အပြည်ပြည်ဆိုင်ရာလေဆိပ်', category: 'transport', lat: 16.900700, lng: 96.134300, aliases: ['Airport', 'Mingaladon Airport', 'လေဆိပ်'] },
+  { id: 'aung-mingalar-terminal', name_en: 'Aung Mingalar Highway Bus Terminal', name_mm: 'အောင်မင်္ဂလာအဝေးပြေးဂိတ်', category: 'transport', lat: 16.927100, lng: 96.156900, aliases: ['Aung Mingalar'] },
+  { id: 'botahtaung-jetty', name_en: 'Botahtaung Jetty', name_mm: 'ဗိုလ်တထောင်ဆိပ်ကမ်း', category: 'transport', lat: 16.767600, lng: 96.171200 },
+
+  // Parks, lakes and other landmarks
+  { id: 'kandawgyi-lake', name_en: 'Kandawgyi Lake', name_mm: 'ကန်တော်ကြီး', category: 'park', lat: 16.790400, lng: 96.162000, aliases: ['Kandawgyi Park', 'Karaweik'] },
+  { id: 'inya-lake', name_en: 'Inya Lake', name_mm: 'အင်းယားကန်', category: 'park', lat: 16.830500, lng: 96.145500 },
+  { id: 'peoples-park', name_en: "People's Park", name_mm: 'ပြည်သူ့ဥယျာဉ်', category: 'park', lat: 16.792500, lng: 96.148000 },
+  { id: 'maha-bandula-park', name_en: 'Maha Bandula Park', name_mm: 'မဟာဗန္ဓုလပန်းခြံ', category: 'park', lat: 16.774100, lng: 96.159700, aliases: ['Maha Bandoola Garden'] },
+  { id: 'yangon-zoo', name_en: 'Yangon Zoological Gardens', name_mm: 'ရန်ကုန်တိရစ္ဆာန်ဥယျာဉ်', category: 'park', lat: 16.788200, lng: 96.163400, aliases: ['Yangon Zoo', 'တိရစ္ဆာန်ရုံ'] },
+  { id: 'yangon-city-hall', name_en: 'Yangon City Hall', name_mm: 'ရန်ကုန်မြို့တော်ခန်းမ', category: 'landmark', lat: 16.775900, lng: 96.158800 },
+  { id: 'national-museum', name_en: 'National Museum', name_mm: 'အမျိုးသားပြတိုက်', category: 'landmark', lat: 16.794500, lng: 96.143700 },
+  { id: 'aung-san-stadium', name_en: 'Aung San Stadium', name_mm: 'အောင်ဆန်းအားကစားကွင်း', category: 'landmark', lat: 16.785200, lng: 96.168700 },
+  { id: 'thuwunna-stadium', name_en: 'Thuwunna Stadium', name_mm: 'သုဝဏ္ဏအားကစားကွင်း', category: 'landmark', lat: 16.823200, lng: 96.193000 },
+  { id: 'chinatown', name_en: 'Chinatown', name_mm: 'တရုတ်တန်း', category: 'landmark', lat: 16.772200, lng: 96.152000, aliases: ['19th Street', '၁၉ လမ်း'] },
+  { id: 'hledan-junction', name_en: 'Hledan Junction', name_mm: 'လှည်းတန်းလမ်းဆုံ', category: 'landmark', lat: 16.827500, lng: 96.130000 }
+];
@@ -0,0 +1,35 @@
+// --- Installable app ---
+// Production builds ship a service worker (service_worker.js, built into
+// sw.js) that keeps the app usable offline. A newer version downloads in the
+// background and waits; `onUpdateReady` is told once one is waiting, and the
+// function it gets switches to it. Every open tab reloads onto the new version
+// when it takes over.
+
+const WORKER_URL = '/sw.js';
+
+export const registerServiceWorker = (onUpdateReady: (apply: () => void) => void) => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+  // The first install takes over a page that had no worker; nothing to reload.
+  const hadController = !!navigator.serviceWorker.controller;
+  let reloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (!hadController || reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+
+  const offer = (worker: ServiceWorker) => onUpdateReady(() => worker.postMessage({ type: 'SKIP_WAITING' }));
+
+  navigator.serviceWorker.register(WORKER_URL).then(registration => {
+    if (registration.waiting && hadController) offer(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const installing = registration.installing;
+      installing?.addEventListener('statechange', () => {
+        if (installing.state === 'installed' && navigator.serviceWorker.controller) offer(installing);
+      });
+    });
+    // Coming back online is a good moment to look for a new version.
+    window.addEventListener('online', () => registration.update().catch(() => undefined));
+  }).catch(error => console.warn('Service worker registration failed:', error));
+};
@@ -0,0 +1,102 @@
+import { db } from './db';
+import { ROUTE_FILES } from './data_constants';
+import { checkRouteFile, LoadedRouteFile } from './data_quality';
+import { BusRoute, RouteFile } from './types';
+
+// --- Route file import ---
+// Every file listed in ROUTE_FILES is fetched from /routes, checked, mapped onto
+// BusRoute and written to `db.busRoutes` in one transaction, replacing whatever
+// route data was there before.
+
+export interface RouteImportReport {
+  imported: number;
+  skipped: { file: string; reason: string }[];
+}
+
+export const toBusRoute = (data: RouteFile): BusRoute => ({
+  id: data.route_id,
+  name: data.name,
+  color: `#${data.color}`,
+  operator: data.agency_id || undefined,
+  stops: data.stops,
+  // Files list the full out-and-back run; only a closed list keeps going round.
+  isLoop: data.stops[0] === data.stops[data.stops.length - 1],
+  shape: data.shape
+});
+
+// Maps a checked route file onto BusRoute without the stop ids the stop table
+// doesn't have. Both the first import and dataset updates go through here, so an
+// update is accepted on the same terms. Returns why the route can't be used
+// when fewer than two stops are left.
+export const toKnownStopRoute = (file: string, data: RouteFile, knownStops: Set<number>): BusRoute | string => {
+  const unknown = data.stops.filter(id => !knownStops.has(id));
+  if (unknown.length > 0) {
+    console.warn(`${file}: dropping unknown stop ids ${unknown.join(', ')}`);
+  }
+  const route = toBusRoute({ ...data, stops: data.stops.filter(id => knownStops.has(id)) });
+  return route.stops.length < 2 ? 'fewer than two known stops' : route;
+};
+
+// Inverse of toBusRoute, so stored routes can be re-checked with the file validator.
+export const toRouteFile = (route: BusRoute): RouteFile => ({
+  route_id: route.id,
+  agency_id: route.operator,
+  name: route.name,
+  color: route.color.replace(/^#/, ''),
+  shape: route.shape,
+  stops: route.stops
+});
+
+export const loadRouteFiles = (): Promise<LoadedRouteFile[]> =>
+  Promise.all(ROUTE_FILES.map(async file => {
+    try {
+      const response = await fetch(`/routes/${file}`);
+      if (!response.ok) return { file, error: `HTTP ${response.status}` };
+      return { file, data: await response.json() };
+    } catch (error) {
+      return { file, error: String(error) };
+    }
+  }));
+
+export const fetchRouteFiles = async (): Promise<{ routes: BusRoute[]; report: RouteImportReport }> => {
+  const knownStops = new Set(await db.busStops.toCollection().primaryKeys());
+  const report: RouteImportReport = { imported: 0, skipped: [] };
+  const routes: BusRoute[] = [];
+  const loaded = await loadRouteFiles();
+
+  const seen = new Set<string>();
+  loaded.forEach(({ file, data: raw, error }) => {
+    const reason = error || checkRouteFile(raw);
+    if (reason) {
+      report.skipped.push({ file, reason });
+      return;
+    }
+    const data = raw as RouteFile;
+    if (seen.has(data.route_id)) {
+      report.skipped.push({ file, reason: `duplicate route_id "${data.route_id}"` });
+      return;
+    }
+    const route = toKnownStopRoute(file, data, knownStops);
+    if (typeof route === 'string') {
+      report.skipped.push({ file, reason: route });
+      return;
+    }
+    seen.add(route.id);
+    routes.push(route);
+  });
+
+  report.imported = routes.length;
+  report.skipped.forEach(({ file, reason }) => console.warn(`Skipped ${file}: ${reason}`));
+  return { routes, report };
+};
+
+export const importRouteFiles = async (): Promise<RouteImportReport> => {
+  const { routes, report } = await fetchRouteFiles();
+  if (routes.length === 0) throw new Error('No valid route files could be loaded');
+
+  await db.transaction('rw', db.busRoutes, async () => {
+    await db.busRoutes.clear();
+    await db.busRoutes.bulkPut(routes);
+  });
+  return report;
+};
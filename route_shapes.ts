@@ -0,0 +1,153 @@
+import { BusRoute, BusStop, RideStep } from './types';
+
+// --- Route shapes ---
+// Route files carry their path as a GeoJSON LineString ([lng, lat] pairs).
+// Leaflet wants [lat, lng]; a route without a usable shape is drawn by
+// joining its stops in running order instead.
+//
+// Many shapes are a closed out-and-back ring that starts anywhere on the line,
+// so a single ride is cut from the shape by following its stops in order: each
+// stop is matched to the next pass of the line close to it, going round a
+// closed ring if needed, in whichever orientation gives the shorter path. A
+// stop on a road the line passes twice (once each way) then lands on the pass
+// in the ride's direction.
+
+export type LatLng = [number, number];
+
+// How far off the drawn line a stop may sit and still be matched to it.
+const NEAR_METRES = 250;
+// Ends closer than this make the shape a ring that can be followed past its end.
+const CLOSED_METRES = 100;
+// A cut that is much shorter or longer than hopping stop to stop has missed
+// some of the stops, so the hops are drawn instead.
+const MIN_STRETCH = 0.8;
+const MAX_STRETCH = 2;
+const METRES_PER_DEGREE = 111320;
+
+export const hasShape = (route: BusRoute) => (route.shape?.geometry?.coordinates?.length ?? 0) > 1;
+
+const shapeLatLngs = (route: BusRoute): LatLng[] => route.shape!.geometry.coordinates.map(([lng, lat]) => [lat, lng]);
+
+const stopLatLngs = (ids: number[], stopMap: Map<number, BusStop>): LatLng[] =>
+  ids.map(id => stopMap.get(id)).filter((s): s is BusStop => !!s).map(s => [s.lat, s.lng]);
+
+export const routeLatLngs = (route: BusRoute, stopMap: Map<number, BusStop>): LatLng[] =>
+  hasShape(route) ? shapeLatLngs(route) : stopLatLngs(route.stops, stopMap);
+
+// Flat-earth distance; plenty for the few hundred metres this is used over.
+const metresBetween = (a: LatLng, b: LatLng) => {
+  const x = (b[1] - a[1]) * Math.cos((a[0] * Math.PI) / 180);
+  return Math.hypot(b[0] - a[0], x) * METRES_PER_DEGREE;
+};
+
+interface Projection {
+  segment: number;
+  t: number; // 0..1 along the segment
+  point: LatLng;
+  metres: number;
+}
+
+const project = (line: LatLng[], segment: number, p: LatLng, minT = 0): Projection => {
+  const a = line[segment];
+  const b = line[segment + 1];
+  const scale = Math.cos((a[0] * Math.PI) / 180);
+  const dx = (b[1] - a[1]) * scale;
+  const dy = b[0] - a[0];
+  const lengthSq = dx * dx + dy * dy;
+  const raw = lengthSq === 0 ? 0 : (((p[1] - a[1]) * scale) * dx + (p[0] - a[0]) * dy) / lengthSq;
+  const t = Math.max(minT, Math.min(1, raw));
+  const point: LatLng = [a[0] + dy * t, a[1] + (b[1] - a[1]) * t];
+  return { segment, t, point, metres: metresBetween(point, p) };
+};
+
+// The closest point of the first pass of the line near `p` after `from`,
+// looking at most one lap ahead on a ring.
+const nextPass = (line: LatLng[], p: LatLng, from: Projection, ring: boolean): Projection | undefined => {
+  const segments = line.length - 1;
+  const steps = ring ? segments + 1 : segments - from.segment;
+  let best: Projection | undefined;
+  for (let k = 0; k < steps; k++) {
+    const segment = (from.segment + k) % segments;
+    const here = project(line, segment, p, k === 0 ? from.t : 0);
+    if (here.metres <= NEAR_METRES && (!best || here.metres < best.metres)) best = here;
+    else if (best && here.metres > best.metres + NEAR_METRES) break;
+  }
+  return best;
+};
+
+// Every pass of the line near `p`, each at its closest point.
+const allPasses = (line: LatLng[], p: LatLng): Projection[] => {
+  const passes: Projection[] = [];
+  let current: Projection | undefined;
+  for (let segment = 0; segment < line.length - 1; segment++) {
+    const here = project(line, segment, p);
+    if (here.metres <= NEAR_METRES) {
+      if (!current || here.metres < current.metres) current = here;
+    } else if (current) {
+      passes.push(current);
+      current = undefined;
+    }
+  }
+  if (current) passes.push(current);
+  return passes;
+};
+
+const pathBetween = (line: LatLng[], from: Projection, to: Projection): LatLng[] => {
+  const segments = line.length - 1;
+  const path: LatLng[] = [from.point];
+  if (to.segment !== from.segment || to.t < from.t) {
+    let segment = from.segment;
+    do {
+      path.push(line[segment + 1]);
+      segment = (segment + 1) % segments;
+    } while (segment !== to.segment);
+  }
+  path.push(to.point);
+  return path;
+};
+
+const pathLength = (path: LatLng[]) => path.reduce((sum, p, i) => (i > 0 ? sum + metresBetween(path[i - 1], p) : 0), 0);
+
+// The ride's stops from boarding to alighting on its running direction.
+export const rideStopIds = (step: RideStep): number[] => {
+  const { route, direction, fromStop, toStop, intermediateStops } = step;
+  const sequence = direction === 'inbound' ? route.inboundStops || [...route.stops].reverse() : route.stops;
+  const closes = sequence.length > 1 && sequence[0] === sequence[sequence.length - 1];
+  const running = route.isLoop && closes ? sequence.slice(0, -1) : sequence;
+  const hops = intermediateStops + 1;
+  for (let i = 0; i < running.length; i++) {
+    if (running[i] !== fromStop.id || (!route.isLoop && i + hops >= running.length)) continue;
+    const ids = Array.from({ length: hops + 1 }, (_, k) => running[(i + k) % running.length]);
+    if (ids[hops] === toStop.id) return ids;
+  }
+  return [fromStop.id, toStop.id];
+};
+
+const followStops = (line: LatLng[], points: LatLng[]): LatLng[] | undefined => {
+  const ring = metresBetween(line[0], line[line.length - 1]) <= CLOSED_METRES;
+  let shortest: LatLng[] | undefined;
+  allPasses(line, points[0]).forEach(start => {
+    let at: Projection | undefined = start;
+    for (let i = 1; i < points.length - 1 && at; i++) at = nextPass(line, points[i], at, ring) || at;
+    const end = at && nextPass(line, points[points.length - 1], at, ring);
+    if (!end) return;
+    const path = pathBetween(line, start, end);
+    if (!shortest || pathLength(path) < pathLength(shortest)) shortest = path;
+  });
+  return shortest;
+};
+
+// The part of the route's line ridden on this step; straight hops between its
+// stops when the route has no shape or the stops can't be placed on it.
+export const rideLatLngs = (step: RideStep, stopMap: Map<number, BusStop>): LatLng[] => {
+  const stops = stopLatLngs(rideStopIds(step), stopMap);
+  if (!hasShape(step.route) || stops.length < 2) return stops;
+  const line = shapeLatLngs(step.route);
+  const hopped = pathLength(stops);
+  const candidates = [followStops(line, stops), followStops([...line].reverse(), stops)].filter((p): p is LatLng[] => {
+    const stretch = p ? pathLength(p) / hopped : 0;
+    return stretch >= MIN_STRETCH && stretch <= MAX_STRETCH;
+  });
+  if (candidates.length === 0) return stops;
+  return candidates.reduce((a, b) => (pathLength(b) < pathLength(a) ? b : a));
+};
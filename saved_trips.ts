@@ -0,0 +1,64 @@
+import { db } from './db';
+import { findJourneysBetween } from './journey_planner';
+import { AccessWalk, BusStop, JourneyEndpoint, SavedEndpoint, SavedTrip, SearchResult } from './types';
+
+// --- Saved trips ---
+// A saved trip bookmarks an origin/destination pair plus the option the user
+// picked. Re-running it plans afresh, so route changes are picked up, and
+// lists the preferred option first when it is still among the results. An end
+// that was a map point, GPS location or place is kept as that point, so its
+// walk is planned again too.
+
+export const ridesOf = (result: SearchResult): string[] =>
+  result.steps.flatMap(step => (step.type === 'ride' ? [step.route.id] : []));
+
+const isPreferred = (result: SearchResult, preferredRoutes?: string[]) =>
+  !!preferredRoutes && ridesOf(result).join('>') === preferredRoutes.join('>');
+
+// A point end is planned with a walk to or from it; a stop end isn't.
+const savedEndpoint = (stop: BusStop, walk?: AccessWalk): SavedEndpoint =>
+  walk ? { kind: 'point', point: walk.point } : { kind: 'stop', stopId: stop.id };
+
+export const saveTripFromResult = async (result: SearchResult, label: string): Promise<number> => {
+  const first = result.steps[0];
+  const last = result.steps[result.steps.length - 1];
+  const now = Date.now();
+  return db.savedTrips.add({
+    from: savedEndpoint(first.fromStop, result.access),
+    to: savedEndpoint(last.toStop, result.egress),
+    label: label.trim(),
+    preferredRoutes: ridesOf(result),
+    createdAt: now,
+    lastUsedAt: now
+  });
+};
+
+// Null when the stop is no longer in the dataset.
+export const loadSavedEndpoint = async (end: SavedEndpoint): Promise<JourneyEndpoint | null> => {
+  if (end.kind === 'point') return end;
+  const stop = await db.busStops.get(end.stopId);
+  return stop ? { kind: 'stop', stop } : null;
+};
+
+// Most recently used first.
+export const listSavedTrips = (): Promise<SavedTrip[]> => db.savedTrips.orderBy('lastUsedAt').reverse().toArray();
+
+export const deleteSavedTrip = (id: number) => db.savedTrips.delete(id);
+
+// The way back: same ends swapped. The preferred option doesn't carry over,
+// since the return journey rarely rides the same lines in reverse order.
+export const reverseTrip = (trip: SavedTrip): SavedTrip => ({
+  ...trip,
+  from: trip.to,
+  to: trip.from,
+  preferredRoutes: undefined
+});
+
+export const runSavedTrip = async (trip: SavedTrip): Promise<{ results: SearchResult[]; preferredIndex: number }> => {
+  if (trip.id !== undefined) await db.savedTrips.update(trip.id, { lastUsedAt: Date.now() });
+  const [from, to] = await Promise.all([loadSavedEndpoint(trip.from), loadSavedEndpoint(trip.to)]);
+  const found = from && to ? await findJourneysBetween(from, to) : [];
+  const preferred = found.findIndex(r => isPreferred(r, trip.preferredRoutes));
+  if (preferred <= 0) return { results: found, preferredIndex: preferred };
+  return { results: [found[preferred], ...found.filter((_, i) => i !== preferred)], preferredIndex: 0 };
+};
@@ -0,0 +1,71 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { INITIAL_STOPS, ROUTE_FILES } from '../data_constants';
+import { checkRouteFile } from '../data_quality';
+import { DatasetFileEntry, DatasetManifest } from '../types';
+
+// Usage: npm run build-dataset -- --version 2026.10.1 [--out dist-dataset] [--base old/manifest.full.json]
+// Writes stops.json, routes/*.json, manifest.full.json and manifest.json to the
+// output directory. With --base, manifest.json is a delta against that full
+// manifest; otherwise it is the full manifest. Serve the directory statically
+// and point the app's dataset URL at manifest.json.
+
+const ROOT = path.resolve(import.meta.dirname, '..');
+
+const argument = (name: string) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+
+const main = async () => {
+  const version = argument('version');
+  if (!version) throw new Error('--version is required');
+  const outDir = path.resolve(argument('out') || 'dist-dataset');
+  const basePath = argument('base');
+  await mkdir(path.join(outDir, 'routes'), { recursive: true });
+
+  const stopsJson = JSON.stringify(INITIAL_STOPS);
+  await writeFile(path.join(outDir, 'stops.json'), stopsJson);
+  const stops: DatasetFileEntry = { path: 'stops.json', sha256: sha256(stopsJson) };
+
+  const routes: DatasetFileEntry[] = [];
+  for (const file of ROUTE_FILES) {
+    const content = await readFile(path.join(ROOT, 'routes', file), 'utf8');
+    const data = JSON.parse(content);
+    const reason = checkRouteFile(data);
+    if (reason) {
+      console.warn(`Leaving out ${file}: ${reason}`);
+      continue;
+    }
+    await writeFile(path.join(outDir, 'routes', file), content);
+    routes.push({ path: `routes/${file}`, sha256: sha256(content), routeId: data.route_id });
+  }
+
+  const full: DatasetManifest = { version, publishedAt: new Date().toISOString(), stops, routes };
+  let manifest = full;
+  if (basePath) {
+    const base: DatasetManifest = JSON.parse(await readFile(basePath, 'utf8'));
+    if (base.baseVersion) throw new Error(`${basePath} is a delta manifest; pass the base version's manifest.full.json`);
+    const previous = new Map(base.routes.map(e => [e.routeId, e.sha256]));
+    manifest = {
+      version,
+      baseVersion: base.version,
+      publishedAt: full.publishedAt,
+      stops: base.stops?.sha256 === stops.sha256 ? undefined : stops,
+      routes: routes.filter(e => previous.get(e.routeId) !== e.sha256),
+      removedRoutes: base.routes.map(e => e.routeId!).filter(id => !routes.some(e => e.routeId === id))
+    };
+  }
+
+  await writeFile(path.join(outDir, 'manifest.full.json'), JSON.stringify(full, null, 2) + '\n');
+  await writeFile(path.join(outDir, 'manifest.json'), JSON.stringify(manifest, null, 2) + '\n');
+  console.error(`Wrote ${outDir}: version ${version}, ${manifest.routes.length} route files in manifest.json`);
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
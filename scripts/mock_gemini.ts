@@ -0,0 +1,102 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+
+// Usage: npm run mock-gemini [-- --port 8787]
+// Stands in for the Gemini generateContent endpoint so the Gemini assistant
+// can be tried without a key or network. Start the app with
+// GEMINI_BASE_URL=http://localhost:8787 and any GEMINI_API_KEY. The mock picks
+// a tool call by keyword from the rider's message, then replies with a short
+// text built from the tool's result, so the whole tool round trip runs
+// against the app's real data.
+
+interface FunctionCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+interface Part {
+  text?: string;
+  functionCall?: FunctionCall;
+  functionResponse?: { name: string; response: Record<string, unknown> };
+}
+
+interface Content {
+  role?: string;
+  parts?: Part[];
+}
+
+const DEFAULT_PORT = 8787;
+
+const clean = (text: string) => text.replace(/[?!.။]+$/, '').trim();
+
+// First match wins; "which lines stop at X" must be tried before "line 36".
+const SCRIPTS: [RegExp, (m: RegExpMatchArray) => FunctionCall][] = [
+  [/\bnearest\b(?:.*?\b(?:to|from)\s+(.+))?/i, m => ({ name: 'nearest_stops', args: m[1] ? { near: clean(m[1]) } : {} })],
+  [/\bfrom\s+(.+?)\s+to\s+(.+)/i, m => ({ name: 'plan_journey', args: { from: clean(m[1]), to: clean(m[2]) } })],
+  [/(\S+)\s*(?:ကနေ|မှ)\s*(\S+?)\s*(?:ကို|သို့)/, m => ({ name: 'plan_journey', args: { from: m[1], to: m[2] } })],
+  [/\b(?:lines?|buses)\b.*?\bat\s+(.+)/i, m => ({ name: 'stop_routes', args: { stop: clean(m[1]) } })],
+  [/\b(?:line|bus|ybs|route)\s*#?\s*(\d+\w*)/i, m => ({ name: 'route_info', args: { line: m[1] } })],
+  [/\b(?:find|where is)\s+(.+)/i, m => ({ name: 'find_stops', args: { name: clean(m[1]) } })]
+];
+
+const summarise = ({ name, response }: NonNullable<Part['functionResponse']>) => {
+  if (typeof response.error === 'string') return `(mock) ${name} failed: ${response.error}`;
+  if (name === 'plan_journey' && Array.isArray(response.options)) {
+    return `(mock) ${response.options.length} option(s) from ${response.from} to ${response.to}.`;
+  }
+  return `(mock) ${name}: ${JSON.stringify(response).slice(0, 300)}`;
+};
+
+const reply = (contents: Content[]): Part[] => {
+  const last = contents[contents.length - 1]?.parts || [];
+  const responses = last.flatMap(p => (p.functionResponse ? [p.functionResponse] : []));
+  if (responses.length > 0) return [{ text: responses.map(summarise).join('\n') }];
+
+  const text = last.map(p => p.text || '').join(' ');
+  for (const [pattern, call] of SCRIPTS) {
+    const match = text.match(pattern);
+    if (match) return [{ functionCall: call(match) }];
+  }
+  return [{ text: '(mock) Try "from Hledan to Sule", "line 36", "which lines stop at Hledan" or "nearest stop to Junction City".' }];
+};
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const send = (res: ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Content-Type': 'application/json'
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const main = () => {
+  const portIndex = process.argv.indexOf('--port');
+  const port = portIndex >= 0 ? Number(process.argv[portIndex + 1]) : DEFAULT_PORT;
+
+  const server = createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') return send(res, 204);
+    if (req.method !== 'POST' || !/\/models\/[^/:]+:generateContent/.test(req.url || '')) {
+      return send(res, 404, { error: { code: 404, message: `Not mocked: ${req.method} ${req.url}`, status: 'NOT_FOUND' } });
+    }
+    try {
+      const { contents = [] } = JSON.parse(await readBody(req)) as { contents?: Content[] };
+      const parts = reply(contents);
+      console.log(parts.map(p => (p.functionCall ? `→ ${p.functionCall.name} ${JSON.stringify(p.functionCall.args)}` : `← ${p.text}`)).join('\n'));
+      send(res, 200, { candidates: [{ content: { role: 'model', parts }, finishReason: 'STOP', index: 0 }] });
+    } catch (error) {
+      send(res, 400, { error: { code: 400, message: error instanceof Error ? error.message : String(error), status: 'INVALID_ARGUMENT' } });
+    }
+  });
+
+  server.listen(port, () => console.log(`Mock Gemini listening on http://localhost:${port}`));
+};
+
+main();
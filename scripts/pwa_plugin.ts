@@ -0,0 +1,66 @@
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+import { ROUTE_FILES } from '../data_constants';
+
+// Used by vite.config.ts for production builds. Copies the route files into the
+// build, since the app fetches them from /routes at first start, and writes
+// sw.js from service_worker.js with everything the worker should precache: the
+// built files, any scripts and stylesheets index.html still loads from other
+// hosts, and the font stylesheets it or the built CSS imports. The version is a hash of all of it, so a build that changes
+// nothing doesn't ask riders to update.
+
+const ROOT = path.resolve(__dirname, '..');
+const WORKER_SOURCE = path.join(ROOT, 'service_worker.js');
+const WORKER_FILE = 'sw.js';
+// Loaded from index.html but not needed to use the app offline.
+const SKIPPED_HOSTS = ['www.googletagmanager.com'];
+
+const listFiles = (dir: string, base = dir): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(full, base) : [path.relative(base, full).split(path.sep).join('/')];
+  });
+
+// Script and stylesheet URLs on other hosts, and Google Fonts stylesheets,
+// imported with url() as written or as the plain string minified CSS uses.
+const remoteUrls = (source: string) => {
+  const found = [
+    ...[...source.matchAll(/<script[^>]*\ssrc="(https:[^"]+)"/g)].map(m => m[1]),
+    ...[...source.matchAll(/<link[^>]*rel="stylesheet"[^>]*href="(https:[^"]+)"/g)].map(m => m[1]),
+    ...[...source.matchAll(/@import\s*(?:url\(['"]?(https:[^'")]+)['"]?\)|['"](https:[^'"]+)['"])/g)].map(m => m[1] || m[2])
+  ].filter((url, i, all) => all.indexOf(url) === i && !SKIPPED_HOSTS.includes(new URL(url).hostname));
+  const isFontCss = (url: string) => new URL(url).hostname === 'fonts.googleapis.com';
+  return { remote: found.filter(url => !isFontCss(url)), fonts: found.filter(isFontCss) };
+};
+
+export const pwaPlugin = (): Plugin => {
+  let outDir = '';
+  return {
+    name: 'ybs-pwa',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    generateBundle() {
+      ROUTE_FILES.forEach(file => {
+        this.emitFile({ type: 'asset', fileName: `routes/${file}`, source: readFileSync(path.join(ROOT, 'routes', file)) });
+      });
+    },
+    // After Vite has copied public/, so the icons and manifest are listed too.
+    closeBundle() {
+      const files = listFiles(outDir).filter(file => file !== WORKER_FILE && !file.endsWith('.map')).sort();
+      const pages = files.filter(file => file === 'index.html' || file.endsWith('.css'));
+      const { remote, fonts } = remoteUrls(pages.map(file => readFileSync(path.join(outDir, file), 'utf8')).join('\n'));
+      const hash = createHash('sha256');
+      files.forEach(file => hash.update(file).update(readFileSync(path.join(outDir, file))));
+      [...remote, ...fonts].forEach(url => hash.update(url));
+
+      const precache = { version: hash.digest('hex').slice(0, 12), files: files.map(file => `/${file}`), remote, fonts };
+      const source = readFileSync(WORKER_SOURCE, 'utf8').replace('self.__PRECACHE__', JSON.stringify(precache));
+      writeFileSync(path.join(outDir, WORKER_FILE), source);
+      console.log(`${WORKER_FILE}: ${files.length} files, ${remote.length + fonts.length} remote, version ${precache.version}`);
+    }
+  };
+};
@@ -0,0 +1,38 @@
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { INITIAL_STOPS, ROUTE_FILES } from '../data_constants';
+import { LoadedRouteFile, validateDataset } from '../data_quality';
+
+// Usage: npm run validate-data [-- --out report.json]
+// Prints the data-quality report as JSON (or writes it to --out) and exits
+// non-zero when any error-level issue is found.
+
+const ROUTES_DIR = path.resolve(import.meta.dirname, '..', 'routes');
+
+const loadRouteFile = async (file: string): Promise<LoadedRouteFile> => {
+  try {
+    return { file, data: JSON.parse(await readFile(path.join(ROUTES_DIR, file), 'utf8')) };
+  } catch (error) {
+    return { file, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+const main = async () => {
+  const outIndex = process.argv.indexOf('--out');
+  const outPath = outIndex >= 0 ? process.argv[outIndex + 1] : undefined;
+
+  const files = await Promise.all(ROUTE_FILES.map(loadRouteFile));
+  const report = validateDataset(files, INITIAL_STOPS);
+  const json = JSON.stringify(report, null, 2);
+
+  if (outPath) {
+    await writeFile(outPath, json + '\n');
+    const { errors, warnings } = report.summary;
+    console.error(`Wrote ${outPath}: ${errors} errors, ${warnings} warnings`);
+  } else {
+    console.log(json);
+  }
+  if (report.summary.errors > 0) process.exitCode = 1;
+};
+
+main();
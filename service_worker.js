@@ -0,0 +1,80 @@
+// --- Service worker ---
+// Built into sw.js by scripts/pwa_plugin.ts, which fills in __PRECACHE__.
+// Everything the app needs to start is cached at install: the built app shell
+// (Leaflet and the Tailwind styles included), the route files and the fonts.
+// Page loads are answered with the cached shell, so after one visit the app
+// opens in airplane mode. A new version waits until the page asks it to
+// take over (the update prompt); the page then reloads onto it.
+
+const PRECACHE = self.__PRECACHE__; // { version, files, remote, fonts }
+const CACHE_PREFIX = 'ybs-shell-';
+const CACHE = `${CACHE_PREFIX}${PRECACHE.version}`;
+const SHELL = '/index.html';
+const FONT_HOST = 'fonts.gstatic.com';
+
+const precached = new Set([
+  ...PRECACHE.files.map(file => new URL(file, self.location.origin).href),
+  ...PRECACHE.remote,
+  ...PRECACHE.fonts
+]);
+
+// Only CORS responses are cached. An opaque one would be refused later by a
+// crossorigin or integrity-checked tag, so a host that won't answer CORS fails
+// the install instead of leaving a shell that breaks offline.
+const fetchRemote = async url => {
+  const response = await fetch(url, { mode: 'cors' });
+  if (!response.ok) throw new Error(`${url}: HTTP ${response.status}`);
+  return response;
+};
+
+const precache = async () => {
+  const cache = await caches.open(CACHE);
+  await cache.addAll(PRECACHE.files);
+  await Promise.all(PRECACHE.remote.map(async url => cache.put(url, await fetchRemote(url))));
+  // Font stylesheets name their font files, which differ by browser.
+  await Promise.all(PRECACHE.fonts.map(async url => {
+    const response = await fetchRemote(url);
+    const css = await response.clone().text();
+    await cache.put(url, response);
+    await cache.addAll([...css.matchAll(/url\((https:[^)]+)\)/g)].map(match => match[1]));
+  }));
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(precache());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE).map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+const fromCache = async (request, fallback) => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(fallback || request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Font files are only known once a stylesheet has been read; keep any new ones.
+  if (response.ok && new URL(request.url).hostname === FONT_HOST) await cache.put(request, response.clone());
+  return response;
+};
+
+// Everything else (dataset updates, map tiles, the assistant) goes to the
+// network untouched.
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(fromCache(request, SHELL));
+  } else if (precached.has(url.href) || url.hostname === FONT_HOST) {
+    event.respondWith(fromCache(request));
+  }
+});
@@ -0,0 +1,95 @@
+import { NearbyStop } from './gazetteer';
+import { getDistance } from './geo';
+import { BusStop } from './types';
+
+// --- Stop grid ---
+// Stops bucketed on a fixed lat/lng grid, so the maps only look at the stops
+// near what they show: the stops inside the viewport, the stops around the
+// crosshair, and, zoomed out, clusters of stops drawn as one marker.
+
+export interface StopGrid {
+  cellDegrees: number;
+  cells: Map<string, BusStop[]>;
+}
+
+export interface Bounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface StopCluster {
+  lat: number;
+  lng: number;
+  stops: BusStop[];
+}
+
+// About 550 m; a phone screen at street zoom covers a dozen or so cells.
+const CELL_DEGREES = 0.005;
+const METRES_PER_DEGREE = 111320;
+// Stops closer than this many screen pixels share a cluster.
+const CLUSTER_PIXELS = 60;
+// From this zoom level up every stop gets its own marker.
+export const CLUSTER_BELOW_ZOOM = 16;
+
+const cellKey = (row: number, col: number) => `${row},${col}`;
+
+export const buildStopGrid = (stops: BusStop[], cellDegrees = CELL_DEGREES): StopGrid => {
+  const cells = new Map<string, BusStop[]>();
+  stops.forEach(stop => {
+    const key = cellKey(Math.floor(stop.lat / cellDegrees), Math.floor(stop.lng / cellDegrees));
+    const cell = cells.get(key);
+    if (cell) cell.push(stop);
+    else cells.set(key, [stop]);
+  });
+  return { cellDegrees, cells };
+};
+
+export const stopsInBounds = ({ cellDegrees, cells }: StopGrid, { south, west, north, east }: Bounds): BusStop[] => {
+  const inside = (s: BusStop) => s.lat >= south && s.lat <= north && s.lng >= west && s.lng <= east;
+  const [top, bottom] = [Math.floor(north / cellDegrees), Math.floor(south / cellDegrees)];
+  const [left, right] = [Math.floor(west / cellDegrees), Math.floor(east / cellDegrees)];
+  // Zoomed far out the box holds more cells than there are stops.
+  if ((top - bottom + 1) * (right - left + 1) > cells.size) {
+    return [...cells.values()].flatMap(cell => cell.filter(inside));
+  }
+  const found: BusStop[] = [];
+  for (let row = bottom; row <= top; row++) {
+    for (let col = left; col <= right; col++) {
+      cells.get(cellKey(row, col))?.forEach(s => {
+        if (inside(s)) found.push(s);
+      });
+    }
+  }
+  return found;
+};
+
+// Stops within `maxMetres` of a point, nearest first.
+export const stopsNear = (grid: StopGrid, point: { lat: number; lng: number }, maxMetres: number): NearbyStop[] => {
+  const latDegrees = maxMetres / METRES_PER_DEGREE;
+  const lngDegrees = latDegrees / Math.cos((point.lat * Math.PI) / 180);
+  const box = { south: point.lat - latDegrees, north: point.lat + latDegrees, west: point.lng - lngDegrees, east: point.lng + lngDegrees };
+  return stopsInBounds(grid, box)
+    .map(stop => ({ stop, metres: Math.round(getDistance(point.lat, point.lng, stop.lat, stop.lng) * 1000) }))
+    .filter(n => n.metres <= maxMetres)
+    .sort((a, b) => a.metres - b.metres);
+};
+
+// Groups stops falling in the same CLUSTER_PIXELS square at this zoom level
+// (256-pixel web mercator tiles), each placed at the middle of its stops.
+export const clusterStops = (stops: BusStop[], zoom: number): StopCluster[] => {
+  const degrees = (CLUSTER_PIXELS * 360) / (256 * 2 ** zoom);
+  const groups = new Map<string, BusStop[]>();
+  stops.forEach(stop => {
+    const key = cellKey(Math.floor(stop.lat / degrees), Math.floor(stop.lng / degrees));
+    const group = groups.get(key);
+    if (group) group.push(stop);
+    else groups.set(key, [stop]);
+  });
+  return [...groups.values()].map(group => ({
+    lat: group.reduce((sum, s) => sum + s.lat, 0) / group.length,
+    lng: group.reduce((sum, s) => sum + s.lng, 0) / group.length,
+    stops: group
+  }));
+};
@@ -0,0 +1,360 @@
+import { normalizeMyanmar, toAsciiDigits } from './myanmar_text';
+import { BusRoute, BusStop } from './types';
+
+// --- Stop search ---
+// One index over every stop, shared by the stop pickers, the map, the stops
+// list and the routes list. Latin text is reduced to a loose phonetic key
+// ("Sulay" and "Sule", "Hle Dan" and "Hledan" come out the same), Burmese
+// names are romanized into the same key so Latin queries find stops without an
+// English name, and near misses are caught by edit distance. Results are
+// ranked by match quality, then by how many routes serve the stop.
+
+export interface StopMatch {
+  stop: BusStop;
+  score: number;
+}
+
+interface LatinField {
+  tokens: string[];
+  compact: string;
+  weight: number;
+}
+
+interface MyanmarField {
+  compact: string;
+  weight: number;
+}
+
+// The matchable text of one item: stops here, places in the gazetteer.
+export interface SearchFields {
+  latin: LatinField[];
+  myanmar: MyanmarField[];
+}
+
+interface IndexedStop extends SearchFields {
+  stop: BusStop;
+  routeCount: number;
+}
+
+export interface StopSearchIndex {
+  entries: IndexedStop[];
+}
+
+const MYANMAR_CHAR = /[\u1000-\u109F]/;
+const MYANMAR_DIGITS = '၀၁၂၃၄၅၆၇၈၉';
+
+// Common English words in stop names, matched against their Burmese spelling
+// so "market" finds every ဈေး stop.
+const WORD_ALIASES: [string, string][] = [
+  ['market', 'ဈေး'],
+  ['pagoda', 'ဘုရား'],
+  ['hospital', 'ဆေးရုံ'],
+  ['school', 'ကျောင်း'],
+  ['university', 'တက္ကသိုလ်'],
+  ['bridge', 'တံတား'],
+  ['junction', 'လမ်းဆုံ'],
+  ['road', 'လမ်း'],
+  ['station', 'ဘူတာ'],
+  ['gate', 'ဂိတ်'],
+  ['park', 'ပန်းခြံ'],
+  ['office', 'ရုံး'],
+  ['quarter', 'ရပ်ကွက်'],
+  ['village', 'ရွာ'],
+  ['lake', 'ကန်']
+];
+
+// Rewrites applied in order to Latin text; both the index and the query go
+// through them, so they only need to agree with each other, not be accurate.
+const LATIN_FOLDS: [RegExp, string][] = [
+  [/(ky|gy|ch|j)/g, 'c'],
+  [/(th|dh)/g, 't'],
+  [/(ph|bh)/g, 'p'],
+  [/(kh|gh)/g, 'k'],
+  [/(sh|hs)/g, 's'],
+  [/h/g, ''],
+  [/d/g, 't'],
+  [/g/g, 'k'],
+  [/b/g, 'p'],
+  [/z/g, 's'],
+  [/v/g, 'w'],
+  [/(ay|ey|ei|ai)/g, 'e'],
+  [/(ee|ea|ie)/g, 'i'],
+  [/(oo|ou)/g, 'u'],
+  [/(aw|au)/g, 'o'],
+  [/ar(?![aeiou])/g, 'a'],
+  [/o([nmtk])e/g, 'o$1'],
+  [/(.)\1+/g, '$1']
+];
+
+export const phoneticKey = (word: string): string =>
+  LATIN_FOLDS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), word);
+
+const latinTokens = (text: string): string[] =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(phoneticKey);
+
+// Zawgyi, look-alike digits and Myanmar numerals all fold to one spelling.
+export const foldMyanmar = (text: string): string =>
+  toAsciiDigits(normalizeMyanmar(text)).replace(/[\s၊။().,\-/]/g, '');
+
+// --- Burmese romanization ---
+// Good enough to produce a phonetic key, not a transcription: tones are
+// dropped and only the finals that change the sound of a syllable are kept.
+
+const ONSETS: Record<string, string> = {
+  'က': 'k', 'ခ': 'k', 'ဂ': 'g', 'ဃ': 'g', 'င': 'ng', 'စ': 's', 'ဆ': 's', 'ဇ': 'z', 'ဈ': 'z', 'ည': 'ny', 'ဉ': 'ny',
+  'ဋ': 't', 'ဌ': 't', 'ဍ': 'd', 'ဎ': 'd', 'ဏ': 'n', 'တ': 't', 'ထ': 't', 'ဒ': 'd', 'ဓ': 'd', 'န': 'n',
+  'ပ': 'p', 'ဖ': 'p', 'ဗ': 'b', 'ဘ': 'b', 'မ': 'm', 'ယ': 'y', 'ရ': 'y', 'လ': 'l', 'ဝ': 'w', 'သ': 'th',
+  'ဟ': 'h', 'ဠ': 'l', 'အ': '', 'ဿ': 'th'
+};
+
+const INDEPENDENT_VOWELS: Record<string, string> = {
+  'ဣ': 'i', 'ဤ': 'i', 'ဥ': 'u', 'ဦ': 'u', 'ဧ': 'e', 'ဩ': 'aw', 'ဪ': 'aw'
+};
+
+const FINALS: Record<string, string> = {
+  'က': 'k', 'ဂ': 'k', 'င': 'ng', 'စ': 't', 'ည': 'n', 'ဉ': 'n', 'ဋ': 't', 'ဏ': 'n', 'တ': 't', 'ဒ': 't',
+  'န': 'n', 'ပ': 't', 'ဗ': 't', 'မ': 'n', 'ယ': '', 'လ': 'n', 'သ': 't'
+};
+
+interface Syllable {
+  onset: string;
+  medials: string;
+  vowel: string;
+  final: string;
+}
+
+const syllableSound = ({ onset, medials, vowel, final }: Syllable): string => {
+  if (!final) return onset + medials + (vowel || 'a');
+  // The vowel a closed syllable is heard with depends on the final.
+  let nucleus = vowel || 'a';
+  if (final === 'nasal') return onset + medials + (vowel === 'u' ? 'on' : nucleus + 'n');
+  if (!vowel && (final === 'ny' || final === 'y')) nucleus = 'e';
+  else if (!vowel && (final === 'k' || final === 'ng')) nucleus = final === 'k' ? 'e' : 'i';
+  else if (vowel === 'aw' && (final === 'k' || final === 'ng')) nucleus = 'au';
+  else if (vowel === 'o' && (final === 'k' || final === 'ng')) nucleus = 'ai';
+  else if (vowel === 'i' && final !== 'ny') nucleus = 'ei';
+  else if (vowel === 'u') nucleus = 'o';
+  const sound = final === 'ny' || final === 'y' ? '' : final;
+  return onset + medials + nucleus + sound;
+};
+
+const foldMyanmarSpaces = (text: string) => normalizeMyanmar(text).replace(/[\s၊။().,\-/]+/g, ' ');
+
+export const romanizeMyanmar = (text: string): string => {
+  const words: string[] = [];
+  let syllables: Syllable[] = [];
+  const flush = () => {
+    if (syllables.length) words.push(syllables.map(syllableSound).join(''));
+    syllables = [];
+  };
+  const chars = [...foldMyanmarSpaces(text)];
+  for (let i = 0; i < chars.length; i++) {
+    const c = chars[i];
+    const current = syllables[syllables.length - 1];
+    // Tone marks are often typed before the asat, as in ည့်.
+    let next = i + 1;
+    while (chars[next] === '့' || chars[next] === 'း') next++;
+    if (c === ' ') {
+      flush();
+    } else if (c in ONSETS) {
+      // A consonant killed by asat or stacked with virama closes the previous syllable.
+      if ((chars[next] === '်' || chars[next] === '္') && current) {
+        current.final = c === 'ည' || c === 'ဉ' ? 'ny' : c === 'ယ' ? 'y' : FINALS[c] ?? 'n';
+        i = next;
+      } else {
+        syllables.push({ onset: ONSETS[c], medials: '', vowel: '', final: '' });
+      }
+    } else if (c in INDEPENDENT_VOWELS) {
+      syllables.push({ onset: '', medials: '', vowel: INDEPENDENT_VOWELS[c], final: '' });
+    } else if (MYANMAR_DIGITS.includes(c)) {
+      flush();
+      words.push(String(MYANMAR_DIGITS.indexOf(c)));
+    } else if (current) {
+      switch (c) {
+        case 'ျ': case 'ြ': current.medials += 'y'; break;
+        case 'ွ': current.medials += 'w'; break;
+        case 'ှ': current.onset = 'h' + current.onset; break;
+        case 'ါ': case 'ာ': current.vowel = current.vowel === 'e' ? 'aw' : 'a'; break;
+        case 'ိ': case 'ီ': current.vowel = 'i'; break;
+        case 'ု': case 'ူ': current.vowel = current.vowel === 'i' ? 'o' : 'u'; break;
+        case 'ေ': case 'ဲ': current.vowel = 'e'; break;
+        case 'ံ': current.final = 'nasal'; break;
+        default: break; // tone marks, asat on a vowel
+      }
+    }
+  }
+  flush();
+  return words.join(' ');
+};
+
+// --- Index ---
+
+const latinField = (text: string, weight: number): LatinField => {
+  const tokens = latinTokens(text);
+  return { tokens, compact: tokens.join(''), weight };
+};
+
+export interface SearchText {
+  en?: string;
+  mm?: string;
+  weight: number;
+}
+
+// Burmese text is indexed as written and, slightly lower, romanized.
+export const buildSearchFields = (texts: SearchText[]): SearchFields => ({
+  latin: texts
+    .flatMap(t => [latinField(t.en || '', t.weight), latinField(romanizeMyanmar(t.mm || ''), t.weight * 0.9)])
+    .filter(f => f.tokens.length > 0),
+  myanmar: texts
+    .map(t => ({ compact: foldMyanmar(t.mm || ''), weight: t.weight }))
+    .filter(f => f.compact)
+});
+
+export const countRoutesPerStop = (routes: BusRoute[]): Map<number, number> => {
+  const counts = new Map<number, number>();
+  routes.forEach(route => {
+    new Set<number>([...route.stops, ...(route.inboundStops || [])]).forEach(id => counts.set(id, (counts.get(id) || 0) + 1));
+  });
+  return counts;
+};
+
+export const buildStopSearchIndex = (stops: BusStop[], routes: BusRoute[]): StopSearchIndex => {
+  const routeCounts = countRoutesPerStop(routes);
+  const entries = stops.map(stop => {
+    const aliases = WORD_ALIASES.filter(([, mm]) => stop.name_mm.includes(mm)).map(([en]) => en);
+    return {
+      stop,
+      routeCount: routeCounts.get(stop.id) || 0,
+      ...buildSearchFields([
+        { en: stop.name_en, mm: stop.name_mm, weight: 1 },
+        { en: aliases.join(' '), weight: 0.8 },
+        { en: stop.road_en, mm: stop.road_mm, weight: 0.6 },
+        { en: stop.township_en, mm: stop.township_mm, weight: 0.5 }
+      ])
+    };
+  });
+  return { entries };
+};
+
+// --- Matching ---
+
+const editDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      best = Math.min(best, row[j]);
+    }
+    if (best > limit) return limit + 1;
+    previous = row;
+  }
+  return previous[b.length];
+};
+
+const allowedEdits = (word: string) => (word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0);
+
+const containmentScore = (query: string, text: string): number => {
+  if (!query || !text) return 0;
+  if (text === query) return 1;
+  if (text.startsWith(query)) return 0.9;
+  if (text.includes(query)) return 0.75;
+  return 0;
+};
+
+const wordScore = (query: string, word: string): number => {
+  const direct = containmentScore(query, word);
+  if (direct) return direct;
+  const limit = allowedEdits(query);
+  if (!limit) return 0;
+  // Typos anywhere in the word, or in the part typed so far.
+  if (editDistance(query, word, limit) <= limit) return 0.6;
+  if (word.length > query.length && editDistance(query, word.slice(0, query.length), limit) <= limit) return 0.5;
+  return 0;
+};
+
+interface QueryToken {
+  myanmar?: string;
+  latin: string[];
+}
+
+const parseQuery = (query: string): QueryToken[] =>
+  normalizeMyanmar(query)
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(raw => (MYANMAR_CHAR.test(raw)
+      ? { myanmar: foldMyanmar(raw), latin: latinTokens(romanizeMyanmar(raw)) }
+      : { latin: latinTokens(raw) }))
+    .filter(t => t.myanmar || t.latin.length > 0);
+
+export interface PreparedQuery {
+  tokens: QueryToken[];
+  latinCompact: string;
+  myanmarCompact: string;
+}
+
+export const prepareQuery = (query: string): PreparedQuery | null => {
+  const tokens = parseQuery(query);
+  if (!tokens.length) return null;
+  return {
+    tokens,
+    latinCompact: tokens.every(t => !t.myanmar) ? tokens.flatMap(t => t.latin).join('') : '',
+    myanmarCompact: tokens.every(t => t.myanmar) ? tokens.map(t => t.myanmar).join('') : ''
+  };
+};
+
+const tokenScore = (token: QueryToken, entry: SearchFields): number => {
+  let best = 0;
+  if (token.myanmar) {
+    entry.myanmar.forEach(f => {
+      best = Math.max(best, containmentScore(token.myanmar!, f.compact) * f.weight);
+    });
+  }
+  // Burmese typed with a different spelling still sounds the same.
+  const latinWeight = token.myanmar ? 0.7 : 1;
+  if (token.latin.length) {
+    entry.latin.forEach(f => {
+      const scores = token.latin.map(q => Math.max(...f.tokens.map(w => wordScore(q, w)), containmentScore(q, f.compact) * 0.9));
+      if (scores.every(s => s > 0)) {
+        best = Math.max(best, (scores.reduce((a, b) => a + b, 0) / scores.length) * f.weight * latinWeight);
+      }
+    });
+  }
+  return best;
+};
+
+export const scoreFields = ({ tokens, latinCompact, myanmarCompact }: PreparedQuery, entry: SearchFields): number => {
+  // The whole query with its spaces dropped: "hle dan" against "Hledan".
+  let whole = 0;
+  if (myanmarCompact) entry.myanmar.forEach(f => { whole = Math.max(whole, containmentScore(myanmarCompact, f.compact) * f.weight); });
+  if (latinCompact) entry.latin.forEach(f => { whole = Math.max(whole, containmentScore(latinCompact, f.compact) * f.weight); });
+
+  const scores = tokens.map(t => tokenScore(t, entry));
+  const perToken = scores.every(s => s > 0) ? scores.reduce((a, b) => a + b, 0) / scores.length : 0;
+  return Math.max(whole, perToken);
+};
+
+export const searchStopMatches = (index: StopSearchIndex, query: string, limit = 50): StopMatch[] => {
+  const prepared = prepareQuery(query);
+  if (!prepared) return [];
+
+  const matches: StopMatch[] = [];
+  index.entries.forEach(entry => {
+    const quality = scoreFields(prepared, entry);
+    // Popularity only breaks near-ties: at most a tenth of a point.
+    if (quality > 0) matches.push({ stop: entry.stop, score: quality + Math.min(entry.routeCount, 20) / 200 });
+  });
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+export const searchStops = (index: StopSearchIndex, query: string, limit = 50): BusStop[] =>
+  searchStopMatches(index, query, limit).map(m => m.stop);
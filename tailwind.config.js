@@ -0,0 +1,8 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './*.{ts,tsx}'],
+  theme: {
+    extend: {}
+  },
+  plugins: []
+};
@@ -0,0 +1,243 @@
+import { db } from './db';
+import L from './leaflet_setup';
+import { openMbtiles } from './mbtiles';
+import { Bounds } from './stop_grid';
+import { MapTile } from './types';
+
+// --- Offline map tiles ---
+// Map tiles kept in IndexedDB so the maps still draw without a connection.
+// They get there by importing an MBTiles pack, or by downloading the Yangon
+// area at chosen zoom levels from a tile server the deployment names for it.
+// Every map draws through createTileLayer, which looks each tile up locally
+// before asking the server the maps normally use.
+
+export interface TileProgress {
+  done: number; // stored, including tiles that already were
+  total: number;
+  failed: number;
+}
+
+export interface TileStorage {
+  tiles: number;
+  bytes: number;
+  byZoom: Record<number, number>;
+  usage?: number; // everything the app stores, as reported by the browser
+  quota?: number;
+}
+
+// A server whose terms allow fetching whole areas ahead of time. The
+// OpenStreetMap servers the maps draw from forbid that, so there is no default.
+export interface TileDownloadServer {
+  url: string; // {z}/{x}/{y} template; {s} picks one of a, b and c
+  attribution: string;
+  termsUrl: string;
+  maxTiles: number; // most tiles one download may fetch under the server's terms
+}
+
+// Every stop lies inside this box.
+export const YANGON_BOUNDS: Bounds = { south: 16.6, west: 95.85, north: 17.5, east: 96.55 };
+export const DOWNLOAD_ZOOMS = [10, 11, 12, 13, 14, 15, 16];
+// Rough size of a street map tile, for the estimate shown before downloading.
+export const AVERAGE_TILE_BYTES = 15000;
+
+// For browsing only; tiles are fetched one by one as the map shows them.
+const MAP_TILE_URL = 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+const OSM_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+const PACK_ATTRIBUTION_STORAGE_KEY = 'ybs-tile-pack-attribution';
+// Zoom 10 to 14 over Yangon, when the deployment doesn't give a limit.
+const DEFAULT_MAX_TILES = 2000;
+const SUBDOMAINS = ['a', 'b', 'c'];
+// Tile servers ask clients to keep parallel requests low.
+const DOWNLOAD_CONCURRENCY = 2;
+const IMPORT_BATCH = 500;
+const IMAGE_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp' };
+
+// Downloading is only offered when the build names a server, its attribution
+// and its terms.
+export const TILE_DOWNLOAD_SERVER: TileDownloadServer | null =
+  process.env.TILE_DOWNLOAD_URL && process.env.TILE_DOWNLOAD_ATTRIBUTION && process.env.TILE_DOWNLOAD_TERMS_URL
+    ? {
+        url: process.env.TILE_DOWNLOAD_URL,
+        attribution: process.env.TILE_DOWNLOAD_ATTRIBUTION,
+        termsUrl: process.env.TILE_DOWNLOAD_TERMS_URL,
+        maxTiles: Number(process.env.TILE_DOWNLOAD_MAX_TILES) || DEFAULT_MAX_TILES
+      }
+    : null;
+
+// Attribution of the packs imported so far, shown on every map with the
+// tiles' other sources until the tiles are cleared.
+const getPackAttributions = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PACK_ATTRIBUTION_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const addPackAttribution = (attribution: string) => {
+  const list = getPackAttributions();
+  if (!list.includes(attribution)) localStorage.setItem(PACK_ATTRIBUTION_STORAGE_KEY, JSON.stringify([...list, attribution]));
+};
+
+// Packs often carry their attribution as HTML links; only the text is shown.
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const asText = (html: string) => new DOMParser().parseFromString(html, 'text/html').body.textContent || '';
+
+const getMapAttribution = () =>
+  [
+    OSM_ATTRIBUTION,
+    ...(TILE_DOWNLOAD_SERVER ? [escapeHtml(TILE_DOWNLOAD_SERVER.attribution)] : []),
+    ...getPackAttributions().map(a => escapeHtml(asText(a)))
+  ].join(' | ');
+
+const tileKey = (z: number, x: number, y: number) => `${z}/${x}/${y}`;
+
+const tileUrl = (template: string, z: number, x: number, y: number) =>
+  template
+    .replace('{s}', SUBDOMAINS[(x + y) % SUBDOMAINS.length])
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y));
+
+// Web mercator tile numbers.
+const tileX = (lng: number, z: number) => Math.floor(((lng + 180) / 360) * 2 ** z);
+const tileY = (lat: number, z: number) => {
+  const r = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(r) + 1 / Math.cos(r)) / Math.PI) / 2) * 2 ** z);
+};
+
+const tileRange = ({ south, west, north, east }: Bounds, z: number) => ({
+  left: tileX(west, z),
+  right: tileX(east, z),
+  top: tileY(north, z),
+  bottom: tileY(south, z)
+});
+
+export const countTiles = (bounds: Bounds, zooms: number[]) =>
+  zooms.reduce((sum, z) => {
+    const { left, right, top, bottom } = tileRange(bounds, z);
+    return sum + (right - left + 1) * (bottom - top + 1);
+  }, 0);
+
+const tilesIn = (bounds: Bounds, zooms: number[]) =>
+  zooms.flatMap(z => {
+    const { left, right, top, bottom } = tileRange(bounds, z);
+    const tiles: { z: number; x: number; y: number }[] = [];
+    for (let x = left; x <= right; x++) for (let y = top; y <= bottom; y++) tiles.push({ z, x, y });
+    return tiles;
+  });
+
+// Fetches the Yangon tiles at these zoom levels that aren't stored yet. A tile
+// that fails is skipped and counted; running it again picks up only those.
+export const downloadTiles = async (
+  zooms: number[],
+  onProgress: (progress: TileProgress) => void,
+  signal?: AbortSignal
+): Promise<TileProgress> => {
+  const server = TILE_DOWNLOAD_SERVER;
+  if (!server) throw new Error('No tile server that allows downloading is configured');
+  const count = countTiles(YANGON_BOUNDS, zooms);
+  if (count > server.maxTiles) throw new Error(`${count} tiles is more than the ${server.maxTiles} the tile server allows in one download`);
+
+  const wanted = tilesIn(YANGON_BOUNDS, zooms);
+  const stored = new Set(await db.mapTiles.where('z').anyOf(zooms).primaryKeys());
+  const queue = wanted.filter(t => !stored.has(tileKey(t.z, t.x, t.y)));
+  const progress: TileProgress = { done: wanted.length - queue.length, total: wanted.length, failed: 0 };
+  onProgress({ ...progress });
+  // Ask the browser not to evict the tiles when space runs low.
+  await navigator.storage?.persist?.().catch(() => false);
+
+  let next = 0;
+  let firstError: unknown;
+  const worker = async () => {
+    while (next < queue.length && !signal?.aborted) {
+      const { z, x, y } = queue[next++];
+      try {
+        const response = await fetch(tileUrl(server.url, z, x, y), { signal });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data = await response.blob();
+        await db.mapTiles.put({ key: tileKey(z, x, y), z, x, y, data, bytes: data.size });
+        progress.done++;
+      } catch (error) {
+        if (signal?.aborted) return;
+        firstError ??= new Error(`Tile ${tileKey(z, x, y)}: ${error instanceof Error ? error.message : String(error)}`);
+        progress.failed++;
+      }
+      onProgress({ ...progress });
+    }
+  };
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+  if (progress.failed > 0) console.warn(`${progress.failed} tiles failed to download, first:`, firstError);
+  return progress;
+};
+
+// Stores every tile of an MBTiles file, replacing tiles already stored. Tiles
+// are written a batch at a time as the file is read.
+export const importTilePack = async (file: File, onProgress?: (progress: TileProgress) => void): Promise<number> => {
+  const pack = await openMbtiles(file);
+  const format = (pack.metadata.format || 'png').toLowerCase();
+  if (!IMAGE_TYPES[format]) throw new Error(`${format} tiles are not supported; the pack must hold png, jpg or webp images`);
+
+  let done = 0;
+  let batch: MapTile[] = [];
+  const flush = async () => {
+    await db.mapTiles.bulkPut(batch);
+    done += batch.length;
+    batch = [];
+    onProgress?.({ done, total: pack.count, failed: 0 });
+  };
+  for await (const { z, x, y, data } of pack.tiles()) {
+    const blob = new Blob([data], { type: IMAGE_TYPES[format] });
+    batch.push({ key: tileKey(z, x, y), z, x, y, data: blob, bytes: blob.size });
+    if (batch.length === IMPORT_BATCH) await flush();
+  }
+  await flush();
+  if (pack.metadata.attribution) addPackAttribution(pack.metadata.attribution);
+  return done;
+};
+
+export const getTileStorage = async (): Promise<TileStorage> => {
+  const storage: TileStorage = { tiles: 0, bytes: 0, byZoom: {} };
+  await db.mapTiles.each(tile => {
+    storage.tiles++;
+    storage.bytes += tile.bytes;
+    storage.byZoom[tile.z] = (storage.byZoom[tile.z] || 0) + 1;
+  });
+  const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+  return { ...storage, usage: estimate?.usage, quota: estimate?.quota };
+};
+
+export const clearTiles = async () => {
+  await db.mapTiles.clear();
+  localStorage.removeItem(PACK_ATTRIBUTION_STORAGE_KEY);
+};
+
+const storedTile = (z: number, x: number, y: number) =>
+  db.mapTiles.get(tileKey(z, x, y)).then(tile => tile?.data).catch(() => undefined);
+
+// Looks each tile up locally before asking the server the maps browse.
+const OfflineTileLayer = L.TileLayer.extend({
+  createTile(coords: { x: number; y: number; z: number }, done: (error: unknown, tile: HTMLImageElement) => void) {
+    const tile = document.createElement('img');
+    tile.alt = '';
+    tile.onload = () => done(null, tile);
+    tile.onerror = error => done(error, tile);
+    storedTile(coords.z, coords.x, coords.y).then(data => {
+      if (!data) {
+        tile.src = this.getTileUrl(coords);
+        return;
+      }
+      const url = URL.createObjectURL(data);
+      tile.onload = () => {
+        URL.revokeObjectURL(url);
+        done(null, tile);
+      };
+      tile.src = url;
+    });
+    return tile;
+  }
+});
+
+export const createTileLayer = () => new OfflineTileLayer(MAP_TILE_URL, { attribution: getMapAttribution() });
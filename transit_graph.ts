@@ -0,0 +1,196 @@
+import { db } from './db';
+import { getDistance } from './geo';
+import { BusRoute, BusStop, Footpath, RouteDirection, RoutePattern, StopRouteVisit, TransitGraphIndex } from './types';
+
+// --- Transit graph index ---
+// Stops are keyed by `BusStop.id`, as listed in `BusRoute.stops`. The index is
+// built once from `db.busRoutes`/`db.busStops`, persisted in the
+// `transitGraph` table and hydrated into Maps for the planner.
+
+export interface TransitGraph {
+  stops: Map<number, BusStop>;
+  routes: Map<string, BusRoute>;
+  patterns: Map<string, RoutePattern>;
+  stopRoutes: Map<number, StopRouteVisit[]>;
+  footpaths: Map<number, Footpath[]>;
+}
+
+const INDEX_KEY = 'current';
+// Bump when the persisted index layout changes so stored indexes are rebuilt.
+const INDEX_FORMAT = 4;
+// Widest walking transfer the index stores; planner options can only narrow it.
+export const MAX_FOOTPATH_METRES = 500;
+
+let cachedGraph: TransitGraph | null = null;
+let isStale = false;
+
+// Any write to the route or stop tables invalidates the in-memory graph and
+// forces the persisted index to be rebuilt on the next search.
+const markStale = () => {
+  cachedGraph = null;
+  isStale = true;
+};
+db.busRoutes.hook('creating', markStale);
+db.busRoutes.hook('updating', markStale);
+db.busRoutes.hook('deleting', markStale);
+db.busStops.hook('creating', markStale);
+db.busStops.hook('updating', markStale);
+db.busStops.hook('deleting', markStale);
+
+export const fingerprintData = (routes: BusRoute[], stops: BusStop[]): string => {
+  let hash = 5381;
+  const feed = (text: string) => {
+    for (let i = 0; i < text.length; i++) hash = ((hash * 33) ^ text.charCodeAt(i)) >>> 0;
+  };
+  feed(`format:${INDEX_FORMAT};`);
+  [...routes].sort((a, b) => a.id.localeCompare(b.id)).forEach(r => {
+    feed(`${r.id}${r.isLoop ? '@' : ':'}${r.stops.join(',')}|${(r.inboundStops || []).join(',')};`);
+  });
+  // Footpaths and ride distances come from stop positions, so a moved stop
+  // must change the fingerprint as much as a changed route does.
+  [...stops].sort((a, b) => a.id - b.id).forEach(s => feed(`${s.id}@${s.lat},${s.lng};`));
+  return hash.toString(16);
+};
+
+export const getRouteSequences = (route: BusRoute): { direction: RouteDirection; stops: number[] }[] => {
+  const sequences: { direction: RouteDirection; stops: number[] }[] = [{ direction: 'outbound', stops: route.stops }];
+  if (route.inboundStops && route.inboundStops.length > 1) {
+    sequences.push({ direction: 'inbound', stops: route.inboundStops });
+  }
+  return sequences;
+};
+
+export const buildGraphIndex = (routes: BusRoute[], stops: BusStop[]): TransitGraphIndex => {
+  const coords = new Map(stops.map(s => [s.id, s]));
+  const hop = (from: number, to: number) => {
+    const a = coords.get(from);
+    const b = coords.get(to);
+    return a && b ? getDistance(a.lat, a.lng, b.lat, b.lng) : 0;
+  };
+
+  const patterns: Record<string, RoutePattern> = {};
+  const stopRoutes: Record<number, StopRouteVisit[]> = {};
+
+  routes.forEach(route => {
+    getRouteSequences(route).forEach(({ direction, stops: sequence }) => {
+      const isLoop = !!route.isLoop;
+      const closes = sequence.length > 1 && sequence[0] === sequence[sequence.length - 1];
+      const running = isLoop && closes ? sequence.slice(0, -1) : sequence;
+      const id = `${route.id}:${direction}`;
+
+      const cumulativeDistance: number[] = [];
+      let total = 0;
+      running.forEach((stop, i) => {
+        if (i > 0) total += hop(running[i - 1], stop);
+        cumulativeDistance.push(total);
+
+        const visits = stopRoutes[stop] || (stopRoutes[stop] = []);
+        const visit = visits.find(v => v.patternId === id);
+        if (visit) visit.positions.push(i);
+        else visits.push({ patternId: id, positions: [i] });
+      });
+
+      patterns[id] = {
+        id,
+        routeId: route.id,
+        direction,
+        stops: running,
+        isLoop,
+        cumulativeDistance,
+        loopDistance: isLoop && running.length > 1 ? total + hop(running[running.length - 1], running[0]) : 0
+      };
+    });
+  });
+
+  return {
+    key: INDEX_KEY,
+    fingerprint: fingerprintData(routes, stops),
+    builtAt: Date.now(),
+    patterns,
+    stopRoutes,
+    footpaths: buildFootpaths(Object.keys(stopRoutes).map(Number), coords)
+  };
+};
+
+// Pairs up served stops within MAX_FOOTPATH_METRES, bucketing them on a grid
+// roughly one footpath radius wide so each stop is only compared to its
+// neighbouring cells.
+const buildFootpaths = (keys: number[], coords: Map<number, BusStop>): Record<number, Footpath[]> => {
+  const cellSize = MAX_FOOTPATH_METRES / 100000; // degrees; a degree of longitude is ~106 km at Yangon's latitude
+  const cellOf = (s: BusStop) => [Math.floor(s.lat / cellSize), Math.floor(s.lng / cellSize)];
+  const grid = new Map<string, number[]>();
+  keys.forEach(key => {
+    const stop = coords.get(key);
+    if (!stop) return;
+    const [row, col] = cellOf(stop);
+    const cell = `${row},${col}`;
+    grid.set(cell, [...(grid.get(cell) || []), key]);
+  });
+
+  const footpaths: Record<number, Footpath[]> = {};
+  keys.forEach(key => {
+    const stop = coords.get(key);
+    if (!stop) return;
+    const [row, col] = cellOf(stop);
+    const nearby: Footpath[] = [];
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -1; dc <= 1; dc++) {
+        (grid.get(`${row + dr},${col + dc}`) || []).forEach(other => {
+          if (other === key) return;
+          const target = coords.get(other)!;
+          const metres = Math.round(getDistance(stop.lat, stop.lng, target.lat, target.lng) * 1000);
+          if (metres <= MAX_FOOTPATH_METRES) nearby.push({ stop: other, metres });
+        });
+      }
+    }
+    if (nearby.length > 0) footpaths[key] = nearby.sort((a, b) => a.metres - b.metres);
+  });
+  return footpaths;
+};
+
+const byStopId = <T>(record: Record<number, T>) =>
+  new Map(Object.entries(record).map(([id, value]) => [Number(id), value]));
+
+export const hydrateGraph = (index: TransitGraphIndex, routes: BusRoute[], stops: BusStop[]): TransitGraph => ({
+  stops: new Map(stops.map(s => [s.id, s])),
+  routes: new Map(routes.map(r => [r.id, r])),
+  patterns: new Map(Object.entries(index.patterns)),
+  stopRoutes: byStopId(index.stopRoutes),
+  footpaths: byStopId(index.footpaths)
+});
+
+export const rebuildTransitGraph = async (): Promise<TransitGraph> => {
+  const [routes, stops] = await Promise.all([db.busRoutes.toArray(), db.busStops.toArray()]);
+  const index = buildGraphIndex(routes, stops);
+  await db.transitGraph.put(index);
+  isStale = false;
+  cachedGraph = hydrateGraph(index, routes, stops);
+  return cachedGraph;
+};
+
+// Called after seeding: reuses the stored index unless the route/stop data it
+// was built from has changed since.
+export const ensureTransitGraph = async (): Promise<TransitGraph> => {
+  const [routes, stops, stored] = await Promise.all([
+    db.busRoutes.toArray(),
+    db.busStops.toArray(),
+    db.transitGraph.get(INDEX_KEY)
+  ]);
+  if (stored && stored.fingerprint === fingerprintData(routes, stops)) {
+    isStale = false;
+    cachedGraph = hydrateGraph(stored, routes, stops);
+    return cachedGraph;
+  }
+  return rebuildTransitGraph();
+};
+
+export const getTransitGraph = async (): Promise<TransitGraph> => {
+  if (cachedGraph) return cachedGraph;
+  if (isStale) return rebuildTransitGraph();
+
+  const stored = await db.transitGraph.get(INDEX_KEY);
+  if (!stored || !stored.footpaths) return rebuildTransitGraph();
+  const [routes, stops] = await Promise.all([db.busRoutes.toArray(), db.busStops.toArray()]);
+  cachedGraph = hydrateGraph(stored, routes, stops);
+  return cachedGraph;
+};
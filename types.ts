@@ -13,10 +13,12 @@ export interface BusStop {
 
 export interface BusRoute {
   id: string;
+  name?: string; // e.g. "(၁) လှည်းကူးဈေးရှေ့ - ဇဝန"
   color: string;
-  // Fix: Added optional operator property to match the data structure used in INITIAL_ROUTES
-  operator?: string;
-  stops: string[]; // List of name_mm
+  operator?: string; // agency_id in the route files
+  stops: number[]; // BusStop ids, in outbound running order
+  inboundStops?: number[]; // return-direction running order, when the line runs back along its own list
+  isLoop?: boolean; // circular service: buses carry on from the last stop back to the first
   shape?: {
     geometry: {
       coordinates: [number, number][]; // [lng, lat] pairs
@@ -27,6 +29,121 @@ export interface BusRoute {
   };
 }
 
+// Raw route file as published under /routes (one JSON object per route).
+export interface RouteFile {
+  route_id: string;
+  agency_id?: string | null;
+  name?: string;
+  color: string; // hex without the leading '#'
+  shape?: BusRoute['shape'];
+  stops: number[];
+}
+
+export type RouteDirection = 'outbound' | 'inbound';
+
+export interface RideStep {
+  type: 'ride';
+  route: BusRoute;
+  direction: RouteDirection;
+  fromStop: BusStop;
+  toStop: BusStop;
+  intermediateStops: number; // stops passed between boarding and alighting
+}
+
+export interface WalkStep {
+  type: 'walk';
+  fromStop: BusStop;
+  toStop: BusStop;
+  metres: number;
+  minutes: number;
+}
+
+export type PathStep = RideStep | WalkStep;
+
+// A journey end that isn't a stop: a point picked on the map, the rider's
+// location or a place from the gazetteer.
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+  label: string; // shown wherever a stop name would be
+}
+
+export type JourneyEndpoint = { kind: 'stop'; stop: BusStop } | { kind: 'point'; point: GeoPoint };
+
+// Walk between a point endpoint and the stop where the rides begin or end.
+export interface AccessWalk {
+  point: GeoPoint;
+  stop: BusStop;
+  metres: number;
+  minutes: number;
+}
+
+export interface SearchResult {
+  steps: PathStep[];
+  transferCount: number;
+  totalDistance: number; // km travelled along the routes
+  totalStops: number; // stops passed in-vehicle across all legs
+  totalWalk: number; // metres walked, including any access/egress walk
+  access?: AccessWalk; // from the origin point to the first stop
+  egress?: AccessWalk; // from the last stop to the destination point
+}
+
+// One running direction of a route, as scanned by the journey planner.
+export interface RoutePattern {
+  id: string;
+  routeId: string;
+  direction: RouteDirection;
+  stops: number[]; // running order; a loop's closing stop is not repeated
+  isLoop: boolean;
+  cumulativeDistance: number[]; // km from the first stop, along the stop sequence
+  loopDistance: number; // km for a full lap of a loop, 0 otherwise
+}
+
+export interface StopRouteVisit {
+  patternId: string;
+  positions: number[]; // indexes of the stop within the pattern's stop sequence
+}
+
+export interface Footpath {
+  stop: number;
+  metres: number;
+}
+
+export interface TransitGraphIndex {
+  key: string;
+  fingerprint: string; // hash of the route/stop data the index was built from
+  builtAt: number;
+  patterns: Record<string, RoutePattern>;
+  stopRoutes: Record<number, StopRouteVisit[]>;
+  footpaths: Record<number, Footpath[]>; // walkable neighbours, nearest first
+}
+
+export interface DatasetFileEntry {
+  path: string; // relative to the manifest URL
+  sha256: string;
+  routeId?: string; // set on route files
+}
+
+// Published alongside the dataset files. A full manifest lists every route; a
+// delta manifest (with `baseVersion`) lists only routes changed since that version.
+export interface DatasetManifest {
+  version: string;
+  baseVersion?: string;
+  publishedAt?: string;
+  stops?: DatasetFileEntry; // may be omitted from a delta when stops are unchanged
+  routes: DatasetFileEntry[];
+  removedRoutes?: string[];
+}
+
+export interface DatasetVersion {
+  key: string;
+  version: string;
+  previousVersion?: string;
+  installedAt: number;
+  manifestUrl?: string;
+  hashes: Record<string, string>; // 'stops' or route id -> sha256 of the installed file
+}
+
 export interface FavoriteStop {
   stopId: number;
 }
@@ -35,6 +152,91 @@ export interface FavoriteRoute {
   routeId: string;
 }
 
+// A journey end as a saved trip keeps it. Stops are kept by id, so a dataset
+// update that moves or renames one is picked up.
+export type SavedEndpoint = { kind: 'stop'; stopId: number } | { kind: 'point'; point: GeoPoint };
+
+export interface SavedTrip {
+  id?: number;
+  from: SavedEndpoint;
+  to: SavedEndpoint;
+  label: string; // e.g. "Home → Office"
+  preferredRoutes?: string[]; // route ids ridden by the option the trip was saved from, in order
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export type HistoryKind = 'stop' | 'trip' | 'route';
+
+export interface HistoryEntry {
+  key: string; // `${kind}:${id}`, so repeating a search just refreshes `usedAt`
+  kind: HistoryKind;
+  stopId?: number; // 'stop'
+  fromStopId?: number; // 'trip'
+  toStopId?: number; // 'trip'
+  routeId?: string; // 'route'
+  usedAt: number;
+}
+
+// Follow-up wishes the assistant applies to the journeys it plans.
+export type JourneyPreference = 'fewer_transfers' | 'less_walking' | 'shortest';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  results?: SearchResult[];
+  routes?: BusRoute[]; // lines to show as badges, e.g. those serving a stop
+  stops?: { stop: BusStop; metres: number }[]; // nearest stops, with walking distance
+  choices?: BusStop[]; // stops to pick from when a name is ambiguous
+}
+
+// A name that matched stops in different parts of town; the rider's next
+// reply picks one of `options` for the slot.
+export interface PendingChoice {
+  slot: 'from' | 'to';
+  name: string;
+  options: BusStop[];
+}
+
+// What the assistant remembers between turns.
+export interface DialogState {
+  from?: JourneyEndpoint;
+  to?: JourneyEndpoint;
+  preference?: JourneyPreference;
+  pending: PendingChoice[]; // asked one at a time, first first
+}
+
+export interface AssistantConversation {
+  key: string; // a single 'current' row
+  messages: ChatMessage[];
+  dialog: DialogState;
+  updatedAt: number;
+}
+
+// One map tile kept for offline use, keyed 'z/x/y' in the XYZ scheme.
+export interface MapTile {
+  key: string;
+  z: number;
+  x: number;
+  y: number;
+  data: Blob;
+  bytes: number;
+}
+
+export type PlaceCategory = 'landmark' | 'market' | 'mall' | 'hospital' | 'university' | 'pagoda' | 'transport' | 'park';
+
+// A point of interest from the bundled gazetteer; riders search for these
+// and are routed via the nearest stops.
+export interface Place {
+  id: string; // slug, e.g. "junction-city"
+  name_en: string;
+  name_mm: string;
+  category: PlaceCategory;
+  lat: number;
+  lng: number;
+  aliases?: string[]; // other names in use, in either script
+}
+
 export enum Page {
   Home = 'home',
   Routes = 'routes',
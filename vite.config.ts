@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { pwaPlugin } from './scripts/pwa_plugin';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +10,16 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), pwaPlugin()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_BASE_URL': JSON.stringify(env.GEMINI_BASE_URL || ''),
+        'process.env.DATASET_MANIFEST_URL': JSON.stringify(env.DATASET_MANIFEST_URL || ''),
+        'process.env.TILE_DOWNLOAD_URL': JSON.stringify(env.TILE_DOWNLOAD_URL || ''),
+        'process.env.TILE_DOWNLOAD_ATTRIBUTION': JSON.stringify(env.TILE_DOWNLOAD_ATTRIBUTION || ''),
+        'process.env.TILE_DOWNLOAD_TERMS_URL': JSON.stringify(env.TILE_DOWNLOAD_TERMS_URL || ''),
+        'process.env.TILE_DOWNLOAD_MAX_TILES': JSON.stringify(env.TILE_DOWNLOAD_MAX_TILES || '')
       },
       resolve: {
         alias: {